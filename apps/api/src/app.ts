@@ -44,6 +44,27 @@ const app: FastifyPluginAsync<AppOptions> = async (
           name: "roles",
           description: "Role and permission management endpoints",
         },
+        {
+          name: "guardianships",
+          description: "Parent and student link management endpoints",
+        },
+        {
+          name: "ownership",
+          description: "Organization ownership transfer endpoints",
+        },
+        {
+          name: "join-links",
+          description: "Organization join link and class code endpoints",
+        },
+        { name: "courses", description: "Course management endpoints" },
+        { name: "attendance", description: "Attendance tracking endpoints" },
+        { name: "grades", description: "Gradebook endpoints" },
+        { name: "boards", description: "Whiteboard endpoints" },
+        { name: "notifications", description: "In-app notification endpoints" },
+        {
+          name: "outbox",
+          description: "Outbound email and notification delivery endpoints",
+        },
       ],
       securityDefinitions: {
         bearerAuth: {
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findSessionById = vi.hoisted(() => vi.fn());
+const findRecordsBySessionId = vi.hoisted(() => vi.fn());
+const upsertRecords = vi.hoisted(() => vi.fn());
+const validateStudents = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/attendance.repository", () => ({
+  attendanceRepository: {
+    findSessionById,
+    findRecordsBySessionId,
+    upsertRecords,
+  },
+}));
+
+vi.mock("../validators/attendance.validator", () => ({
+  attendanceValidator: {
+    validateStudents,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { bulkMarkAttendanceHandler } from "./bulk-mark-attendance.command";
+
+describe("bulkMarkAttendanceHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const sessionId = "44444444-4444-4444-8444-444444444444";
+  const memberId = "33333333-3333-4333-8333-333333333333";
+  const firstStudentId = "55555555-5555-4555-8555-555555555555";
+  const secondStudentId = "66666666-6666-4666-8666-666666666666";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+    findSessionById.mockResolvedValue({ id: sessionId, organizationId });
+  });
+
+  it("should return validation errors, when marks are empty", async () => {
+    const result = await bulkMarkAttendanceHandler(
+      sessionId,
+      { marks: [] },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("MARKS_REQUIRED");
+  });
+
+  it("should return validation errors, when a student is marked twice", async () => {
+    const result = await bulkMarkAttendanceHandler(
+      sessionId,
+      {
+        marks: [
+          { studentMemberId: firstStudentId, status: "present" },
+          { studentMemberId: firstStudentId, status: "absent" },
+        ],
+      },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("DUPLICATE_STUDENT_MARK");
+  });
+
+  it("should mark the whole roster, when input is valid", async () => {
+    const marks = [
+      { studentMemberId: firstStudentId, status: "present" },
+      { studentMemberId: secondStudentId, status: "excused", note: "Sick" },
+    ];
+    validateStudents.mockResolvedValue({ isValid: true });
+    upsertRecords.mockResolvedValue([]);
+    findRecordsBySessionId.mockResolvedValue([
+      { studentMemberId: firstStudentId, status: "present" },
+      { studentMemberId: secondStudentId, status: "excused" },
+    ]);
+
+    const result = await bulkMarkAttendanceHandler(
+      sessionId,
+      { marks },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data?.records).toHaveLength(2);
+    expect(validateStudents).toHaveBeenCalledWith(organizationId, [
+      firstStudentId,
+      secondStudentId,
+    ]);
+    expect(upsertRecords).toHaveBeenCalledWith(sessionId, marks, memberId);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  AttendanceSessionIdParamSchema,
+  BulkMarkAttendanceInputSchema,
+  type AttendanceSessionWithRecords,
+} from "../schemas/attendance.schema";
+import { attendanceRepository } from "../repository/attendance.repository";
+import { attendanceValidator } from "../validators/attendance.validator";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function bulkMarkAttendanceHandler(
+  sessionId: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<AttendanceSessionWithRecords>> {
+  logger.debug("BulkMarkAttendanceCommand received", { sessionId });
+
+  const idParseResult = AttendanceSessionIdParamSchema.safeParse({
+    id: sessionId,
+  });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid attendance session ID format", { sessionId, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "attendance", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to mark attendance",
+        },
+      ],
+    };
+  }
+
+  const { organizationId, memberId } = access;
+
+  const existingSession = await attendanceRepository.findSessionById(
+    organizationId,
+    validatedId,
+  );
+  if (!existingSession) {
+    logger.warn("Attendance session not found", { sessionId: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Attendance session not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const parseResult = BulkMarkAttendanceInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for BulkMarkAttendanceCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { marks } = parseResult.data;
+
+  const studentValidation = await attendanceValidator.validateStudents(
+    organizationId,
+    marks.map((mark) => mark.studentMemberId),
+  );
+  if (!studentValidation.isValid) {
+    return {
+      isSuccess: false,
+      errors: studentValidation.errors,
+    };
+  }
+
+  await attendanceRepository.upsertRecords(validatedId, marks, memberId);
+  const records =
+    await attendanceRepository.findRecordsBySessionId(validatedId);
+
+  logger.info("Attendance marked in bulk", {
+    sessionId: validatedId,
+    count: marks.length,
+  });
+
+  return {
+    data: {
+      ...existingSession,
+      records,
+    },
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findCourse = vi.hoisted(() => vi.fn());
+const createSession = vi.hoisted(() => vi.fn());
+const validateSessionUniqueness = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/attendance.repository", () => ({
+  attendanceRepository: {
+    findCourse,
+    createSession,
+  },
+}));
+
+vi.mock("../validators/attendance.validator", () => ({
+  attendanceValidator: {
+    validateSessionUniqueness,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { createAttendanceSessionHandler } from "./create-attendance-session.command";
+
+describe("createAttendanceSessionHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const courseId = "22222222-2222-4222-8222-222222222222";
+  const memberId = "33333333-3333-4333-8333-333333333333";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+  });
+
+  it("should return forbidden, when permission check fails", async () => {
+    requireActivePermission.mockRejectedValue(new Error("forbidden"));
+
+    const result = await createAttendanceSessionHandler(
+      { courseId, sessionDate: "2025-09-01" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
+  });
+
+  it("should return validation errors, when session date is invalid", async () => {
+    const result = await createAttendanceSessionHandler(
+      { courseId, sessionDate: "01/09/2025" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("SESSION_DATE_INVALID");
+  });
+
+  it("should return not found, when course is missing", async () => {
+    findCourse.mockResolvedValue(undefined);
+
+    const result = await createAttendanceSessionHandler(
+      { courseId, sessionDate: "2025-09-01" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should return duplicate error, when session already exists for date", async () => {
+    findCourse.mockResolvedValue({ id: courseId });
+    validateSessionUniqueness.mockResolvedValue({
+      isValid: false,
+      errors: [{ code: "DUPLICATE_ATTENDANCE_SESSION", value: "2025-09-01" }],
+    });
+
+    const result = await createAttendanceSessionHandler(
+      { courseId, sessionDate: "2025-09-01" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("DUPLICATE_ATTENDANCE_SESSION");
+    expect(createSession).not.toHaveBeenCalled();
+  });
+
+  it("should create session, when input is valid", async () => {
+    const session = {
+      id: "44444444-4444-4444-8444-444444444444",
+      organizationId,
+      courseId,
+      sessionDate: "2025-09-01",
+      createdByMemberId: memberId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    findCourse.mockResolvedValue({ id: courseId });
+    validateSessionUniqueness.mockResolvedValue({ isValid: true });
+    createSession.mockResolvedValue(session);
+
+    const result = await createAttendanceSessionHandler(
+      { courseId, sessionDate: "2025-09-01" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data).toEqual(session);
+    expect(createSession).toHaveBeenCalledWith(
+      organizationId,
+      { courseId, sessionDate: "2025-09-01" },
+      memberId,
+    );
+  });
+});
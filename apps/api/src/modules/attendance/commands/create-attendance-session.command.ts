@@ -0,0 +1,97 @@
+import {
+  CreateAttendanceSessionInputSchema,
+  type AttendanceSession,
+  type CreateAttendanceSessionInput,
+} from "../schemas/attendance.schema";
+import { attendanceRepository } from "../repository/attendance.repository";
+import { attendanceValidator } from "../validators/attendance.validator";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function createAttendanceSessionHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<AttendanceSession>> {
+  logger.debug("CreateAttendanceSessionCommand received", { input });
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "attendance", "create");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to create attendance sessions",
+        },
+      ],
+    };
+  }
+
+  const parseResult = CreateAttendanceSessionInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for CreateAttendanceSessionCommand", {
+      errors,
+    });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedInput: CreateAttendanceSessionInput = parseResult.data;
+  const { organizationId, memberId } = access;
+
+  const existingCourse = await attendanceRepository.findCourse(
+    organizationId,
+    validatedInput.courseId,
+  );
+  if (!existingCourse) {
+    logger.warn("Course not found for attendance session", {
+      courseId: validatedInput.courseId,
+    });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedInput.courseId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const sessionValidation = await attendanceValidator.validateSessionUniqueness(
+    validatedInput.courseId,
+    validatedInput.sessionDate,
+  );
+  if (!sessionValidation.isValid) {
+    return {
+      isSuccess: false,
+      errors: sessionValidation.errors,
+    };
+  }
+
+  const newSession = await attendanceRepository.createSession(
+    organizationId,
+    validatedInput,
+    memberId,
+  );
+
+  logger.info("Attendance session created successfully", {
+    sessionId: newSession.id,
+    courseId: newSession.courseId,
+  });
+
+  return {
+    data: newSession,
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findSessionById = vi.hoisted(() => vi.fn());
+const upsertRecords = vi.hoisted(() => vi.fn());
+const validateStudents = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/attendance.repository", () => ({
+  attendanceRepository: {
+    findSessionById,
+    upsertRecords,
+  },
+}));
+
+vi.mock("../validators/attendance.validator", () => ({
+  attendanceValidator: {
+    validateStudents,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { markAttendanceHandler } from "./mark-attendance.command";
+
+describe("markAttendanceHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const sessionId = "44444444-4444-4444-8444-444444444444";
+  const memberId = "33333333-3333-4333-8333-333333333333";
+  const studentMemberId = "55555555-5555-4555-8555-555555555555";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+  });
+
+  it("should return not found, when session is missing", async () => {
+    findSessionById.mockResolvedValue(undefined);
+
+    const result = await markAttendanceHandler(
+      sessionId,
+      { studentMemberId, status: "present" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should return validation errors, when status is invalid", async () => {
+    findSessionById.mockResolvedValue({ id: sessionId });
+
+    const result = await markAttendanceHandler(
+      sessionId,
+      { studentMemberId, status: "sleeping" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("ATTENDANCE_STATUS_INVALID");
+  });
+
+  it("should return student errors, when member is not a student", async () => {
+    findSessionById.mockResolvedValue({ id: sessionId });
+    validateStudents.mockResolvedValue({
+      isValid: false,
+      errors: [{ code: "MEMBER_NOT_STUDENT", value: studentMemberId }],
+    });
+
+    const result = await markAttendanceHandler(
+      sessionId,
+      { studentMemberId, status: "present" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("MEMBER_NOT_STUDENT");
+    expect(upsertRecords).not.toHaveBeenCalled();
+  });
+
+  it("should mark attendance, when input is valid", async () => {
+    findSessionById.mockResolvedValue({ id: sessionId });
+    validateStudents.mockResolvedValue({ isValid: true });
+    upsertRecords.mockResolvedValue([
+      { id: "record-1", sessionId, studentMemberId, status: "late" },
+    ]);
+
+    const result = await markAttendanceHandler(
+      sessionId,
+      { studentMemberId, status: "late", note: "Bus delay" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data?.status).toBe("late");
+    expect(upsertRecords).toHaveBeenCalledWith(
+      sessionId,
+      [{ studentMemberId, status: "late", note: "Bus delay" }],
+      memberId,
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  AttendanceSessionIdParamSchema,
+  MarkAttendanceInputSchema,
+  type AttendanceRecord,
+} from "../schemas/attendance.schema";
+import { attendanceRepository } from "../repository/attendance.repository";
+import { attendanceValidator } from "../validators/attendance.validator";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function markAttendanceHandler(
+  sessionId: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<AttendanceRecord>> {
+  logger.debug("MarkAttendanceCommand received", { sessionId, input });
+
+  const idParseResult = AttendanceSessionIdParamSchema.safeParse({
+    id: sessionId,
+  });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid attendance session ID format", { sessionId, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "attendance", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to mark attendance",
+        },
+      ],
+    };
+  }
+
+  const { organizationId, memberId } = access;
+
+  const existingSession = await attendanceRepository.findSessionById(
+    organizationId,
+    validatedId,
+  );
+  if (!existingSession) {
+    logger.warn("Attendance session not found", { sessionId: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Attendance session not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const parseResult = MarkAttendanceInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for MarkAttendanceCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const mark = parseResult.data;
+
+  const studentValidation = await attendanceValidator.validateStudents(
+    organizationId,
+    [mark.studentMemberId],
+  );
+  if (!studentValidation.isValid) {
+    return {
+      isSuccess: false,
+      errors: studentValidation.errors,
+    };
+  }
+
+  const [record] = await attendanceRepository.upsertRecords(
+    validatedId,
+    [mark],
+    memberId,
+  );
+
+  logger.info("Attendance marked", {
+    sessionId: validatedId,
+    studentMemberId: mark.studentMemberId,
+    status: mark.status,
+  });
+
+  return {
+    data: record,
+    isSuccess: true,
+  };
+}
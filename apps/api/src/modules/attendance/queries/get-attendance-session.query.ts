@@ -0,0 +1,82 @@
+import type { AttendanceSessionWithRecords } from "../schemas/attendance.schema";
+import { AttendanceSessionIdParamSchema } from "../schemas/attendance.schema";
+import { attendanceRepository } from "../repository/attendance.repository";
+import {
+  requireActivePermission,
+  getScopedStudentMemberIds,
+} from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function getAttendanceSessionHandler(
+  id: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<AttendanceSessionWithRecords>> {
+  logger.debug("GetAttendanceSessionQuery received", { id });
+
+  const parseResult = AttendanceSessionIdParamSchema.safeParse({ id });
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Invalid attendance session ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = parseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "attendance", "read");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to read attendance",
+        },
+      ],
+    };
+  }
+
+  const existingSession = await attendanceRepository.findSessionById(
+    access.organizationId,
+    validatedId,
+  );
+  if (!existingSession) {
+    logger.warn("Attendance session not found", { sessionId: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Attendance session not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const records = await attendanceRepository.findRecordsBySessionId(
+    validatedId,
+    await getScopedStudentMemberIds(access),
+  );
+
+  logger.debug("Attendance session retrieved", {
+    sessionId: validatedId,
+    recordCount: records.length,
+  });
+
+  return {
+    data: {
+      ...existingSession,
+      records,
+    },
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,61 @@
+import type { AttendanceRecordWithSession } from "../schemas/attendance.schema";
+import { ListAttendanceRecordsQuerySchema } from "../schemas/attendance.schema";
+import { attendanceRepository } from "../repository/attendance.repository";
+import {
+  requireActivePermission,
+  getScopedStudentMemberIds,
+} from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function listAttendanceRecordsHandler(
+  queryParams: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<AttendanceRecordWithSession[]>> {
+  logger.debug("ListAttendanceRecordsQuery received", { queryParams });
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "attendance", "read");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to read attendance",
+        },
+      ],
+    };
+  }
+
+  const parseResult = ListAttendanceRecordsQuerySchema.safeParse(
+    queryParams ?? {},
+  );
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for ListAttendanceRecordsQuery", {
+      errors,
+    });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const records = await attendanceRepository.findRecords(
+    access.organizationId,
+    parseResult.data,
+    await getScopedStudentMemberIds(access),
+  );
+
+  logger.info("Attendance records retrieved", { count: records.length });
+
+  return {
+    data: records,
+    isSuccess: true,
+  };
+}
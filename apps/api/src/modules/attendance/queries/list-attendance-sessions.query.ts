@@ -0,0 +1,57 @@
+import type { AttendanceSession } from "../schemas/attendance.schema";
+import { ListAttendanceSessionsQuerySchema } from "../schemas/attendance.schema";
+import { attendanceRepository } from "../repository/attendance.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function listAttendanceSessionsHandler(
+  queryParams: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<AttendanceSession[]>> {
+  logger.debug("ListAttendanceSessionsQuery received", { queryParams });
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "attendance", "read");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to read attendance",
+        },
+      ],
+    };
+  }
+
+  const parseResult = ListAttendanceSessionsQuerySchema.safeParse(
+    queryParams ?? {},
+  );
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for ListAttendanceSessionsQuery", {
+      errors,
+    });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const sessions = await attendanceRepository.findSessions(
+    access.organizationId,
+    parseResult.data,
+  );
+
+  logger.info("Attendance sessions retrieved", { count: sessions.length });
+
+  return {
+    data: sessions,
+    isSuccess: true,
+  };
+}
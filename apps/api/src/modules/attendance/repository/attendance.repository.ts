@@ -0,0 +1,261 @@
+import type {
+  AttendanceRecord,
+  AttendanceRecordWithSession,
+  AttendanceSession,
+  CreateAttendanceSessionInput,
+  ListAttendanceRecordsQuery,
+  ListAttendanceSessionsQuery,
+  MarkAttendanceInput,
+} from "../schemas/attendance.schema";
+import { db, eq, and, asc, desc, gte, lte, inArray, sql } from "@repo/database";
+import { member } from "@repo/database/schema/auth";
+import { course } from "@repo/database/schema/course";
+import {
+  attendanceRecord,
+  attendanceSession,
+} from "@repo/database/schema/attendance";
+
+export const attendanceRepository = {
+  findCourse: async (
+    organizationId: string,
+    courseId: string,
+  ): Promise<{ id: string } | undefined> => {
+    const [row] = await db
+      .select({ id: course.id })
+      .from(course)
+      .where(
+        and(eq(course.id, courseId), eq(course.organizationId, organizationId)),
+      )
+      .limit(1);
+
+    return row;
+  },
+
+  findOrganizationMembers: async (
+    organizationId: string,
+    memberIds: string[],
+  ): Promise<{ id: string; role: string }[]> => {
+    if (memberIds.length === 0) {
+      return [];
+    }
+
+    return db
+      .select({ id: member.id, role: member.role })
+      .from(member)
+      .where(
+        and(
+          eq(member.organizationId, organizationId),
+          inArray(member.id, memberIds),
+        ),
+      );
+  },
+
+  findSessionByCourseAndDate: async (
+    courseId: string,
+    sessionDate: string,
+  ): Promise<{ id: string } | undefined> => {
+    const [row] = await db
+      .select({ id: attendanceSession.id })
+      .from(attendanceSession)
+      .where(
+        and(
+          eq(attendanceSession.courseId, courseId),
+          eq(attendanceSession.sessionDate, sessionDate),
+        ),
+      )
+      .limit(1);
+
+    return row;
+  },
+
+  createSession: async (
+    organizationId: string,
+    input: CreateAttendanceSessionInput,
+    createdByMemberId: string,
+  ): Promise<AttendanceSession> => {
+    const [newSession] = await db
+      .insert(attendanceSession)
+      .values({
+        organizationId,
+        courseId: input.courseId,
+        sessionDate: input.sessionDate,
+        topic: input.topic ?? null,
+        createdByMemberId,
+      })
+      .returning();
+
+    return mapSessionFromDb(newSession);
+  },
+
+  findSessions: async (
+    organizationId: string,
+    filters: ListAttendanceSessionsQuery,
+  ): Promise<AttendanceSession[]> => {
+    const conditions = [eq(attendanceSession.organizationId, organizationId)];
+    if (filters.courseId) {
+      conditions.push(eq(attendanceSession.courseId, filters.courseId));
+    }
+    if (filters.from) {
+      conditions.push(gte(attendanceSession.sessionDate, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(attendanceSession.sessionDate, filters.to));
+    }
+
+    const rows = await db
+      .select()
+      .from(attendanceSession)
+      .where(and(...conditions))
+      .orderBy(desc(attendanceSession.sessionDate));
+
+    return rows.map(mapSessionFromDb);
+  },
+
+  findSessionById: async (
+    organizationId: string,
+    id: string,
+  ): Promise<AttendanceSession | undefined> => {
+    const [row] = await db
+      .select()
+      .from(attendanceSession)
+      .where(
+        and(
+          eq(attendanceSession.id, id),
+          eq(attendanceSession.organizationId, organizationId),
+        ),
+      )
+      .limit(1);
+
+    return row ? mapSessionFromDb(row) : undefined;
+  },
+
+  findRecordsBySessionId: async (
+    sessionId: string,
+    studentMemberIds?: string[],
+  ): Promise<AttendanceRecord[]> => {
+    const conditions = [eq(attendanceRecord.sessionId, sessionId)];
+    if (studentMemberIds) {
+      conditions.push(
+        inArray(attendanceRecord.studentMemberId, studentMemberIds),
+      );
+    }
+
+    const rows = await db
+      .select()
+      .from(attendanceRecord)
+      .where(and(...conditions))
+      .orderBy(asc(attendanceRecord.createdAt));
+
+    return rows.map(mapRecordFromDb);
+  },
+
+  upsertRecords: async (
+    sessionId: string,
+    marks: MarkAttendanceInput[],
+    markedByMemberId: string,
+  ): Promise<AttendanceRecord[]> => {
+    const rows = await db
+      .insert(attendanceRecord)
+      .values(
+        marks.map((mark) => ({
+          sessionId,
+          studentMemberId: mark.studentMemberId,
+          status: mark.status,
+          note: mark.note ?? null,
+          markedByMemberId,
+        })),
+      )
+      .onConflictDoUpdate({
+        target: [attendanceRecord.sessionId, attendanceRecord.studentMemberId],
+        set: {
+          status: sql`excluded.status`,
+          note: sql`excluded.note`,
+          markedByMemberId: sql`excluded.marked_by_member_id`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    return rows.map(mapRecordFromDb);
+  },
+
+  findRecords: async (
+    organizationId: string,
+    filters: ListAttendanceRecordsQuery,
+    studentMemberIds?: string[],
+  ): Promise<AttendanceRecordWithSession[]> => {
+    const conditions = [eq(attendanceSession.organizationId, organizationId)];
+    if (filters.courseId) {
+      conditions.push(eq(attendanceSession.courseId, filters.courseId));
+    }
+    if (filters.from) {
+      conditions.push(gte(attendanceSession.sessionDate, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(attendanceSession.sessionDate, filters.to));
+    }
+    if (filters.status) {
+      conditions.push(eq(attendanceRecord.status, filters.status));
+    }
+    if (filters.studentMemberId) {
+      conditions.push(
+        eq(attendanceRecord.studentMemberId, filters.studentMemberId),
+      );
+    }
+    if (studentMemberIds) {
+      conditions.push(
+        inArray(attendanceRecord.studentMemberId, studentMemberIds),
+      );
+    }
+
+    const rows = await db
+      .select({
+        record: attendanceRecord,
+        courseId: attendanceSession.courseId,
+        sessionDate: attendanceSession.sessionDate,
+      })
+      .from(attendanceRecord)
+      .innerJoin(
+        attendanceSession,
+        eq(attendanceRecord.sessionId, attendanceSession.id),
+      )
+      .where(and(...conditions))
+      .orderBy(desc(attendanceSession.sessionDate));
+
+    return rows.map((row) => ({
+      ...mapRecordFromDb(row.record),
+      courseId: row.courseId,
+      sessionDate: row.sessionDate,
+    }));
+  },
+};
+
+function mapSessionFromDb(
+  row: typeof attendanceSession.$inferSelect,
+): AttendanceSession {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    courseId: row.courseId,
+    sessionDate: row.sessionDate,
+    topic: row.topic ?? undefined,
+    createdByMemberId: row.createdByMemberId,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function mapRecordFromDb(
+  row: typeof attendanceRecord.$inferSelect,
+): AttendanceRecord {
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    studentMemberId: row.studentMemberId,
+    status: row.status,
+    note: row.note ?? undefined,
+    markedByMemberId: row.markedByMemberId,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
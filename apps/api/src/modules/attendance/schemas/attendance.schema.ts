@@ -0,0 +1,150 @@
+import { z } from "zod";
+
+export const AttendanceValidationErrorCodes = {
+  INVALID_SESSION_ID_FORMAT: "INVALID_SESSION_ID_FORMAT",
+  COURSE_ID_INVALID: "COURSE_ID_INVALID",
+  SESSION_DATE_INVALID: "SESSION_DATE_INVALID",
+  TOPIC_FIELD_MAX_LENGTH: "TOPIC_FIELD_MAX_LENGTH",
+  MEMBER_ID_INVALID: "MEMBER_ID_INVALID",
+  ATTENDANCE_STATUS_INVALID: "ATTENDANCE_STATUS_INVALID",
+  NOTE_FIELD_MAX_LENGTH: "NOTE_FIELD_MAX_LENGTH",
+  MARKS_REQUIRED: "MARKS_REQUIRED",
+  DUPLICATE_STUDENT_MARK: "DUPLICATE_STUDENT_MARK",
+} as const;
+
+export const AttendanceStatusSchema = z.enum(
+  ["present", "absent", "late", "excused"],
+  { message: AttendanceValidationErrorCodes.ATTENDANCE_STATUS_INVALID },
+);
+export type AttendanceStatus = z.infer<typeof AttendanceStatusSchema>;
+
+const SessionDateSchema = z.iso.date({
+  message: AttendanceValidationErrorCodes.SESSION_DATE_INVALID,
+});
+
+const NoteSchema = z
+  .string()
+  .max(500, { message: AttendanceValidationErrorCodes.NOTE_FIELD_MAX_LENGTH });
+
+export const AttendanceRecordSchema = z.object({
+  id: z.string().uuid(),
+  sessionId: z.string().uuid(),
+  studentMemberId: z.string().uuid(),
+  status: AttendanceStatusSchema,
+  note: z.string().optional(),
+  markedByMemberId: z.string().uuid().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type AttendanceRecord = z.infer<typeof AttendanceRecordSchema>;
+
+export const AttendanceSessionSchema = z.object({
+  id: z.string().uuid(),
+  organizationId: z.string().uuid(),
+  courseId: z.string().uuid(),
+  sessionDate: z.string(),
+  topic: z.string().optional(),
+  createdByMemberId: z.string().uuid().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type AttendanceSession = z.infer<typeof AttendanceSessionSchema>;
+
+export const AttendanceSessionWithRecordsSchema =
+  AttendanceSessionSchema.extend({
+    records: z.array(AttendanceRecordSchema),
+  });
+
+export type AttendanceSessionWithRecords = z.infer<
+  typeof AttendanceSessionWithRecordsSchema
+>;
+
+export const CreateAttendanceSessionInputSchema = z.object({
+  courseId: z
+    .string()
+    .uuid({ message: AttendanceValidationErrorCodes.COURSE_ID_INVALID }),
+  sessionDate: SessionDateSchema,
+  topic: z
+    .string()
+    .max(200, {
+      message: AttendanceValidationErrorCodes.TOPIC_FIELD_MAX_LENGTH,
+    })
+    .optional(),
+});
+
+export type CreateAttendanceSessionInput = z.infer<
+  typeof CreateAttendanceSessionInputSchema
+>;
+
+export const AttendanceSessionIdParamSchema = z.object({
+  id: z.string().uuid({
+    message: AttendanceValidationErrorCodes.INVALID_SESSION_ID_FORMAT,
+  }),
+});
+
+export type AttendanceSessionIdParam = z.infer<
+  typeof AttendanceSessionIdParamSchema
+>;
+
+export const MarkAttendanceInputSchema = z.object({
+  studentMemberId: z
+    .string()
+    .uuid({ message: AttendanceValidationErrorCodes.MEMBER_ID_INVALID }),
+  status: AttendanceStatusSchema,
+  note: NoteSchema.optional(),
+});
+
+export type MarkAttendanceInput = z.infer<typeof MarkAttendanceInputSchema>;
+
+export const BulkMarkAttendanceInputSchema = z.object({
+  marks: z
+    .array(MarkAttendanceInputSchema)
+    .min(1, { message: AttendanceValidationErrorCodes.MARKS_REQUIRED })
+    .refine(
+      (marks) =>
+        new Set(marks.map((mark) => mark.studentMemberId)).size ===
+        marks.length,
+      { message: AttendanceValidationErrorCodes.DUPLICATE_STUDENT_MARK },
+    ),
+});
+
+export type BulkMarkAttendanceInput = z.infer<
+  typeof BulkMarkAttendanceInputSchema
+>;
+
+export const ListAttendanceSessionsQuerySchema = z.object({
+  courseId: z
+    .string()
+    .uuid({ message: AttendanceValidationErrorCodes.COURSE_ID_INVALID })
+    .optional(),
+  from: SessionDateSchema.optional(),
+  to: SessionDateSchema.optional(),
+});
+
+export type ListAttendanceSessionsQuery = z.infer<
+  typeof ListAttendanceSessionsQuerySchema
+>;
+
+export const ListAttendanceRecordsQuerySchema =
+  ListAttendanceSessionsQuerySchema.extend({
+    studentMemberId: z
+      .string()
+      .uuid({ message: AttendanceValidationErrorCodes.MEMBER_ID_INVALID })
+      .optional(),
+    status: AttendanceStatusSchema.optional(),
+  });
+
+export type ListAttendanceRecordsQuery = z.infer<
+  typeof ListAttendanceRecordsQuerySchema
+>;
+
+export const AttendanceRecordWithSessionSchema = AttendanceRecordSchema.extend({
+  courseId: z.string().uuid(),
+  sessionDate: z.string(),
+});
+
+export type AttendanceRecordWithSession = z.infer<
+  typeof AttendanceRecordWithSessionSchema
+>;
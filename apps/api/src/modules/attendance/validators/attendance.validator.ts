@@ -0,0 +1,75 @@
+import { attendanceRepository } from "../repository/attendance.repository";
+import type { ValidationResult } from "@utils/ValidationResult";
+
+export const attendanceValidator = {
+  validateSessionUniqueness: async (
+    courseId: string,
+    sessionDate: string,
+  ): Promise<ValidationResult> => {
+    const existingSession =
+      await attendanceRepository.findSessionByCourseAndDate(
+        courseId,
+        sessionDate,
+      );
+
+    if (existingSession) {
+      return {
+        isValid: false,
+        errors: [
+          {
+            value: sessionDate,
+            code: "DUPLICATE_ATTENDANCE_SESSION",
+            message: "An attendance session already exists for this date",
+          },
+        ],
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  },
+
+  validateStudents: async (
+    organizationId: string,
+    studentMemberIds: string[],
+  ): Promise<ValidationResult> => {
+    const members = await attendanceRepository.findOrganizationMembers(
+      organizationId,
+      studentMemberIds,
+    );
+    const roleByMemberId = new Map(
+      members.map((memberRecord) => [memberRecord.id, memberRecord.role]),
+    );
+
+    const errors: { code: string; value?: string; message: string }[] = [];
+    for (const studentMemberId of studentMemberIds) {
+      const role = roleByMemberId.get(studentMemberId);
+
+      if (!role) {
+        errors.push({
+          value: studentMemberId,
+          code: "STUDENT_NOT_FOUND",
+          message: "Student is not a member of this organization",
+        });
+      } else if (role !== "student") {
+        errors.push({
+          value: studentMemberId,
+          code: "MEMBER_NOT_STUDENT",
+          message: "Attendance can only be marked for students",
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      return {
+        isValid: false,
+        errors,
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  },
+};
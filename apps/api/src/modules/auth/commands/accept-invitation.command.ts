@@ -6,6 +6,8 @@ import {
   AcceptInvitationInputSchema,
   type AcceptInvitationInput,
 } from "../schemas/auth.schema";
+import { guardianshipRepository } from "../repository/guardianship.repository";
+import { getInvitationStatus } from "../utils/invitation-lifecycle";
 import type { FastifyRequest } from "fastify";
 import type { LoggerHelpers } from "../../../plugins/logger";
 
@@ -74,7 +76,23 @@ export async function acceptInvitationHandler(
     };
   }
 
-  if (invitationRecord.status !== "pending") {
+  const status = getInvitationStatus(invitationRecord);
+
+  if (status === "expired") {
+    if (invitationRecord.status === "pending") {
+      await db
+        .update(invitation)
+        .set({ status: "expired" })
+        .where(eq(invitation.id, validatedInput.invitationId));
+    }
+
+    return {
+      isSuccess: false,
+      errors: [{ code: "FORBIDDEN", message: "This invitation has expired" }],
+    };
+  }
+
+  if (status !== "pending") {
     return {
       isSuccess: false,
       errors: [
@@ -86,18 +104,6 @@ export async function acceptInvitationHandler(
     };
   }
 
-  if (new Date() > invitationRecord.expiresAt) {
-    await db
-      .update(invitation)
-      .set({ status: "expired" })
-      .where(eq(invitation.id, validatedInput.invitationId));
-
-    return {
-      isSuccess: false,
-      errors: [{ code: "FORBIDDEN", message: "This invitation has expired" }],
-    };
-  }
-
   const [org] = await db
     .select()
     .from(organization)
@@ -123,6 +129,14 @@ export async function acceptInvitationHandler(
     role: invitationRecord.role || "student",
   });
 
+  if (invitationRecord.studentMemberId) {
+    await guardianshipRepository.createForUser(
+      invitationRecord.organizationId,
+      request.user.id,
+      invitationRecord.studentMemberId,
+    );
+  }
+
   await db
     .update(invitation)
     .set({ status: "accepted" })
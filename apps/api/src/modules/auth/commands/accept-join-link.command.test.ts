@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = vi.hoisted(() => ({
+  select: vi.fn(),
+}));
+const eq = vi.hoisted(() => vi.fn());
+
+vi.mock("@repo/database", () => ({ db, eq }));
+
+vi.mock("@repo/database/schema/auth", () => ({
+  organization: {},
+}));
+
+const joinLinkRepository = vi.hoisted(() => ({
+  findByCode: vi.fn(),
+  redeem: vi.fn(),
+}));
+
+vi.mock("../repository/join-link.repository", () => ({ joinLinkRepository }));
+
+import { acceptJoinLinkHandler } from "./accept-join-link.command";
+
+describe("acceptJoinLinkHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "b1c2d3e4-f5a6-4b7c-8d9e-0f1a2b3c4d5e";
+  const request = {
+    user: { id: "user-1", email: "ada@school.edu", emailVerified: true },
+  } as never;
+  const link = {
+    id: "c2d3e4f5-a6b7-4c8d-9e0f-1a2b3c4d5e6f",
+    organizationId,
+    code: "ABCD2345",
+    role: "student",
+    maxUses: null,
+    useCount: 0,
+    allowedDomains: [] as string[],
+    expiresAt: null,
+    revokedAt: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.select.mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          limit: vi
+            .fn()
+            .mockResolvedValue([
+              { id: organizationId, name: "Springfield", isDeleted: false },
+            ]),
+        }),
+      }),
+    });
+    joinLinkRepository.redeem.mockResolvedValue({
+      isRedeemed: true,
+      member: { id: "member-1", role: "student" },
+    });
+  });
+
+  it("should join with the link role, when the code is active", async () => {
+    joinLinkRepository.findByCode.mockResolvedValue(link);
+
+    const result = await acceptJoinLinkHandler(
+      { code: " abcd2345 " },
+      request,
+      logger,
+    );
+
+    expect(joinLinkRepository.findByCode).toHaveBeenCalledWith("ABCD2345");
+    expect(result.isSuccess).toBe(true);
+    if (!result.isSuccess) return;
+    expect(result.data).toEqual({
+      organization: { id: organizationId, name: "Springfield" },
+      role: "student",
+    });
+  });
+
+  it("should return forbidden, when the link has reached its maximum uses", async () => {
+    joinLinkRepository.findByCode.mockResolvedValue({
+      ...link,
+      maxUses: 40,
+      useCount: 40,
+    });
+
+    const result = await acceptJoinLinkHandler(
+      { code: "ABCD2345" },
+      request,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+    expect(joinLinkRepository.redeem).not.toHaveBeenCalled();
+  });
+
+  it("should return forbidden, when the email is not on an allowed domain", async () => {
+    joinLinkRepository.findByCode.mockResolvedValue({
+      ...link,
+      allowedDomains: ["college.edu"],
+    });
+
+    const result = await acceptJoinLinkHandler(
+      { code: "ABCD2345" },
+      request,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].message).toBe(
+      "This join link requires a verified email address on an allowed domain",
+    );
+  });
+
+  it("should return not found, when the link was revoked", async () => {
+    joinLinkRepository.findByCode.mockResolvedValue({
+      ...link,
+      revokedAt: new Date(),
+    });
+
+    const result = await acceptJoinLinkHandler(
+      { code: "ABCD2345" },
+      request,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should return duplicate, when the user is already a member", async () => {
+    joinLinkRepository.findByCode.mockResolvedValue(link);
+    joinLinkRepository.redeem.mockResolvedValue({
+      isRedeemed: false,
+      reason: "already-member",
+    });
+
+    const result = await acceptJoinLinkHandler(
+      { code: "ABCD2345" },
+      request,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("DUPLICATE_RESOURCE");
+  });
+
+  it("should return forbidden, when the link stopped being usable before it was redeemed", async () => {
+    joinLinkRepository.findByCode.mockResolvedValue(link);
+    joinLinkRepository.redeem.mockResolvedValue({
+      isRedeemed: false,
+      reason: "unavailable",
+    });
+
+    const result = await acceptJoinLinkHandler(
+      { code: "ABCD2345" },
+      request,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+  });
+});
@@ -0,0 +1,158 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { db, eq } from "@repo/database";
+import { organization } from "@repo/database/schema/auth";
+import {
+  AcceptJoinLinkInputSchema,
+  type AcceptJoinLinkInput,
+} from "../schemas/join-link.schema";
+import { joinLinkRepository } from "../repository/join-link.repository";
+import { getJoinLinkStatus, isEmailOnDomains } from "../utils/join-link";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type AcceptJoinLinkResult = ServiceResult<{
+  organization: {
+    id: string;
+    name: string;
+  };
+  role: string;
+}>;
+
+/**
+ * Joins the organization of a join link or class code. Unlike invitations a
+ * link is not tied to an email, so anyone holding the code may use it while
+ * it is active, under its use limit and, when restricted, only with a
+ * verified email on one of its domains.
+ */
+export async function acceptJoinLinkHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<AcceptJoinLinkResult> {
+  logger.debug("AcceptJoinLinkCommand received");
+
+  if (!request.user) {
+    return {
+      isSuccess: false,
+      errors: [{ code: "UNAUTHORIZED", message: "Authentication required" }],
+    };
+  }
+
+  const parseResult = AcceptJoinLinkInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(parseResult.error),
+    };
+  }
+
+  const validatedInput: AcceptJoinLinkInput = parseResult.data;
+
+  const link = await joinLinkRepository.findByCode(validatedInput.code);
+  const status = link ? getJoinLinkStatus(link) : undefined;
+
+  if (!link || status === "revoked") {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `Join code ${validatedInput.code} not found`,
+          value: validatedInput.code,
+        },
+      ],
+    };
+  }
+
+  if (status === "expired") {
+    return {
+      isSuccess: false,
+      errors: [{ code: "FORBIDDEN", message: "This join link has expired" }],
+    };
+  }
+
+  if (status === "exhausted") {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "This join link has reached its maximum number of uses",
+        },
+      ],
+    };
+  }
+
+  if (
+    link.allowedDomains.length > 0 &&
+    (!request.user.emailVerified ||
+      !isEmailOnDomains(request.user.email, link.allowedDomains))
+  ) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message:
+            "This join link requires a verified email address on an allowed domain",
+        },
+      ],
+    };
+  }
+
+  const [org] = await db
+    .select()
+    .from(organization)
+    .where(eq(organization.id, link.organizationId))
+    .limit(1);
+
+  if (!org || org.isDeleted) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `Organization ${link.organizationId} not found`,
+          value: link.organizationId,
+        },
+      ],
+    };
+  }
+
+  const redemption = await joinLinkRepository.redeem(link, request.user.id);
+  if (!redemption.isRedeemed) {
+    return {
+      isSuccess: false,
+      errors: [
+        redemption.reason === "already-member"
+          ? {
+              code: "DUPLICATE_RESOURCE",
+              message: "User is already a member of this organization",
+            }
+          : {
+              code: "FORBIDDEN",
+              message: "This join link can no longer be used",
+            },
+      ],
+    };
+  }
+
+  logger.info("Join link accepted", {
+    joinLinkId: link.id,
+    userId: request.user.id,
+    organizationId: org.id,
+  });
+
+  return {
+    isSuccess: true,
+    data: {
+      organization: {
+        id: org.id,
+        name: org.name,
+      },
+      role: redemption.member.role,
+    },
+  };
+}
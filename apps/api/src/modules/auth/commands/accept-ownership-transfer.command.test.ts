@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const requireOrgMembership = vi.hoisted(() => vi.fn());
+const ownershipTransferRepository = vi.hoisted(() => ({
+  findPending: vi.fn(),
+  accept: vi.fn(),
+}));
+
+vi.mock("../middleware/require-auth.middleware", () => ({
+  requireOrgMembership,
+}));
+
+vi.mock("../repository/ownership-transfer.repository", () => ({
+  ownershipTransferRepository,
+}));
+
+import { acceptOwnershipTransferHandler } from "./accept-ownership-transfer.command";
+
+describe("acceptOwnershipTransferHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "b1c2d3e4-f5a6-4b7c-8d9e-0f1a2b3c4d5e";
+  const ownerMemberId = "11111111-1111-4111-8111-111111111111";
+  const nomineeMemberId = "22222222-2222-4222-8222-222222222222";
+  const pending = {
+    id: "33333333-3333-4333-8333-333333333333",
+    organizationId,
+    fromMemberId: ownerMemberId,
+    toMemberId: nomineeMemberId,
+    status: "pending",
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+    respondedAt: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireOrgMembership.mockResolvedValue({
+      role: "teacher",
+      memberId: nomineeMemberId,
+    });
+    ownershipTransferRepository.findPending.mockResolvedValue(pending);
+  });
+
+  it("should swap the roles, when the nominee accepts", async () => {
+    ownershipTransferRepository.accept.mockResolvedValue({
+      ...pending,
+      status: "accepted",
+    });
+
+    const result = await acceptOwnershipTransferHandler(
+      organizationId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    if (!result.isSuccess) return;
+    expect(result.data.transfer.status).toBe("accepted");
+    expect(ownershipTransferRepository.accept).toHaveBeenCalledWith(pending);
+  });
+
+  it("should return forbidden, when someone other than the nominee accepts", async () => {
+    requireOrgMembership.mockResolvedValue({
+      role: "admin",
+      memberId: "44444444-4444-4444-8444-444444444444",
+    });
+
+    const result = await acceptOwnershipTransferHandler(
+      organizationId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+    expect(ownershipTransferRepository.accept).not.toHaveBeenCalled();
+  });
+
+  it("should return forbidden, when the nominating member lost ownership meanwhile", async () => {
+    ownershipTransferRepository.accept.mockResolvedValue(undefined);
+
+    const result = await acceptOwnershipTransferHandler(
+      organizationId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+  });
+});
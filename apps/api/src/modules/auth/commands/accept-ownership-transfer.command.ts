@@ -0,0 +1,97 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { OrganizationIdParamSchema } from "../schemas/auth.schema";
+import type { OwnershipTransfer } from "../schemas/ownership-transfer.schema";
+import { requireOrgMembership } from "../middleware/require-auth.middleware";
+import { ownershipTransferRepository } from "../repository/ownership-transfer.repository";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type AcceptOwnershipTransferResult = ServiceResult<{
+  transfer: OwnershipTransfer;
+}>;
+
+export async function acceptOwnershipTransferHandler(
+  organizationId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<AcceptOwnershipTransferResult> {
+  logger.debug("AcceptOwnershipTransferCommand received", { organizationId });
+
+  const parseResult = OrganizationIdParamSchema.safeParse({ organizationId });
+  if (!parseResult.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(parseResult.error),
+    };
+  }
+  const orgId = parseResult.data.organizationId;
+
+  let membership;
+  try {
+    membership = await requireOrgMembership(request, orgId);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "User is not a member of this organization",
+        },
+      ],
+    };
+  }
+
+  const pending = await ownershipTransferRepository.findPending(orgId);
+  if (!pending) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `No pending ownership transfer for organization ${orgId}`,
+          value: orgId,
+        },
+      ],
+    };
+  }
+
+  if (pending.toMemberId !== membership.memberId) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message:
+            "Only the nominated member can accept the ownership transfer",
+        },
+      ],
+    };
+  }
+
+  const transfer = await ownershipTransferRepository.accept(pending);
+  if (!transfer) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "The nominating member is no longer an owner",
+        },
+      ],
+    };
+  }
+
+  logger.info("Ownership transfer accepted", {
+    transferId: transfer.id,
+    organizationId: orgId,
+    fromMemberId: transfer.fromMemberId,
+    toMemberId: transfer.toMemberId,
+  });
+
+  return {
+    isSuccess: true,
+    data: { transfer },
+  };
+}
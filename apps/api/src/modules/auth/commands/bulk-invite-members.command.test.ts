@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = vi.hoisted(() => ({
+  select: vi.fn(),
+  insert: vi.fn(),
+  transaction: vi.fn(),
+}));
+const eq = vi.hoisted(() => vi.fn());
+const and = vi.hoisted(() => vi.fn());
+const gt = vi.hoisted(() => vi.fn());
+
+vi.mock("@repo/database", () => ({ db, eq, and, gt }));
+
+vi.mock("@repo/database/schema/auth", () => ({
+  invitation: {},
+  member: {},
+  user: {},
+  organization: {},
+}));
+
+const requirePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../middleware/require-auth.middleware", () => ({ requirePermission }));
+
+const roleValidator = vi.hoisted(() => ({
+  validateRoleExists: vi.fn(),
+}));
+
+vi.mock("../validators/role.validator", () => ({ roleValidator }));
+
+const queueInvitationEmail = vi.hoisted(() => vi.fn());
+
+vi.mock("../utils/invitation-email", () => ({
+  getInviteeName: vi.fn(),
+  queueInvitationEmail,
+}));
+
+import { bulkInviteMembersHandler } from "./bulk-invite-members.command";
+
+describe("bulkInviteMembersHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d";
+  const request = {
+    user: { id: "user-1", firstName: "Ada", lastName: "Lovelace" },
+    headers: {},
+  } as never;
+  const csv = [
+    "email,role,firstName",
+    "member@example.com,student,Mia",
+    "invited@example.com,student,Ivy",
+    "new@example.com,student,Nia",
+    "NEW@example.com,student,Nia",
+    "other@example.com,janitor,Ola",
+    "not-an-email,student,",
+  ].join("\n");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requirePermission.mockResolvedValue(undefined);
+    db.transaction.mockImplementation((callback: (tx: typeof db) => unknown) =>
+      callback(db),
+    );
+    roleValidator.validateRoleExists.mockImplementation(
+      async (_organizationId: string, role: string) => {
+        if (role !== "student") {
+          throw new Error("missing role");
+        }
+      },
+    );
+    db.select
+      .mockReturnValueOnce({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            limit: vi
+              .fn()
+              .mockResolvedValue([
+                { id: organizationId, name: "School", isDeleted: false },
+              ]),
+          }),
+        }),
+      })
+      .mockReturnValueOnce({
+        from: vi.fn().mockReturnValue({
+          innerJoin: vi.fn().mockReturnValue({
+            where: vi.fn().mockResolvedValue([{ email: "Member@example.com" }]),
+          }),
+        }),
+      })
+      .mockReturnValueOnce({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockResolvedValue([{ email: "invited@example.com" }]),
+        }),
+      });
+  });
+
+  it("should report every row without inviting anyone, when it is a dry run", async () => {
+    const result = await bulkInviteMembersHandler(
+      { organizationId, format: "csv", content: csv, dryRun: true },
+      request,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    if (!result.isSuccess) return;
+    expect(result.data).toMatchObject({
+      dryRun: true,
+      invited: 1,
+      skipped: 3,
+      failed: 2,
+    });
+    expect(result.data.results.map((row) => row.status)).toEqual([
+      "skipped",
+      "skipped",
+      "invited",
+      "skipped",
+      "failed",
+      "failed",
+    ]);
+    expect(result.data.results[4].errors?.[0].code).toBe("VALIDATION_ERROR");
+    expect(result.data.results[5].errors?.[0].code).toBe("EMAIL_INVALID");
+    expect(roleValidator.validateRoleExists).toHaveBeenCalledTimes(2);
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it("should create and send the valid invitations, when it is not a dry run", async () => {
+    const values = vi.fn().mockReturnValue({
+      returning: vi.fn().mockResolvedValue([
+        {
+          id: "c3d4e5f6-a7b8-4c9d-8e0f-2a3b4c5d6e7f",
+          email: "new@example.com",
+          role: "student",
+        },
+      ]),
+    });
+    db.insert.mockReturnValue({ values });
+
+    const result = await bulkInviteMembersHandler(
+      { organizationId, format: "csv", content: csv },
+      request,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    if (!result.isSuccess) return;
+    expect(values).toHaveBeenCalledWith([
+      expect.objectContaining({
+        email: "new@example.com",
+        firstName: "Nia",
+        role: "student",
+        status: "pending",
+        inviterId: "user-1",
+      }),
+    ]);
+    expect(result.data.results[2].invitationId).toBe(
+      "c3d4e5f6-a7b8-4c9d-8e0f-2a3b4c5d6e7f",
+    );
+    expect(queueInvitationEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it("should return an error, when the file cannot be read", async () => {
+    const result = await bulkInviteMembersHandler(
+      { organizationId, format: "json", content: "{}" },
+      request,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("INVALID_IMPORT_CONTENT");
+  });
+});
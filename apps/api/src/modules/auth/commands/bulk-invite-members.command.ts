@@ -0,0 +1,303 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { db, eq, and, gt } from "@repo/database";
+import {
+  invitation,
+  member,
+  user,
+  organization,
+} from "@repo/database/schema/auth";
+import {
+  BulkInviteMembersInputSchema,
+  InviteMemberInputSchema,
+  MAX_BULK_INVITE_ROWS,
+  type BulkInviteMembersInput,
+  type BulkInviteMembersResult,
+  type BulkInviteRowResult,
+  type InviteMemberInput,
+} from "../schemas/auth.schema";
+import { requirePermission } from "../middleware/require-auth.middleware";
+import { roleValidator } from "../validators/role.validator";
+import { getInvitationExpiry } from "../utils/invitation-lifecycle";
+import {
+  getInviteeName,
+  queueInvitationEmail,
+} from "../utils/invitation-email";
+import { parseInvitationImportRows } from "../utils/invitation-import";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type BulkInviteMembersCommandResult =
+  ServiceResult<BulkInviteMembersResult>;
+
+/**
+ * Invites every valid row of a csv or json file. Members and emails with a
+ * pending invitation are skipped, and a dry run reports what would happen
+ * without creating invitations.
+ */
+export async function bulkInviteMembersHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<BulkInviteMembersCommandResult> {
+  logger.debug("BulkInviteMembersCommand received");
+
+  if (!request.user) {
+    return {
+      isSuccess: false,
+      errors: [{ code: "UNAUTHORIZED", message: "Authentication required" }],
+    };
+  }
+
+  const parseResult = BulkInviteMembersInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for BulkInviteMembersCommand", { errors });
+    return {
+      isSuccess: false,
+      errors,
+    };
+  }
+
+  const { organizationId, format, content, dryRun }: BulkInviteMembersInput =
+    parseResult.data;
+
+  try {
+    await requirePermission(request, organizationId, "invitation", "create");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to invite members",
+        },
+      ],
+    };
+  }
+
+  const [org] = await db
+    .select()
+    .from(organization)
+    .where(eq(organization.id, organizationId))
+    .limit(1);
+
+  if (!org || org.isDeleted) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `Organization ${organizationId} not found`,
+          value: organizationId,
+        },
+      ],
+    };
+  }
+
+  const rows = parseInvitationImportRows(format, content);
+  if (!rows) {
+    logger.warn("Unreadable file for BulkInviteMembersCommand", { format });
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "INVALID_IMPORT_CONTENT",
+          value: format,
+          message: `The content is not a valid ${format} invitation file`,
+        },
+      ],
+    };
+  }
+  if (rows.length === 0) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "IMPORT_ROWS_REQUIRED",
+          message: "The file does not contain any invitations",
+        },
+      ],
+    };
+  }
+  if (rows.length > MAX_BULK_INVITE_ROWS) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "TOO_MANY_IMPORT_ROWS",
+          message: `A bulk invite can hold at most ${MAX_BULK_INVITE_ROWS} rows`,
+        },
+      ],
+    };
+  }
+
+  const memberEmails = await db
+    .select({ email: user.email })
+    .from(member)
+    .innerJoin(user, eq(member.userId, user.id))
+    .where(eq(member.organizationId, organizationId));
+  const invitedEmails = await db
+    .select({ email: invitation.email })
+    .from(invitation)
+    .where(
+      and(
+        eq(invitation.organizationId, organizationId),
+        eq(invitation.status, "pending"),
+        gt(invitation.expiresAt, new Date()),
+      ),
+    );
+
+  // Emails are compared case-insensitively, since spreadsheets mix cases
+  const members = new Set(memberEmails.map((row) => row.email.toLowerCase()));
+  const invited = new Set(invitedEmails.map((row) => row.email.toLowerCase()));
+  const seen = new Set<string>();
+  const knownRoles = new Map<string, boolean>();
+
+  const results: BulkInviteRowResult[] = [];
+  const accepted: { result: BulkInviteRowResult; input: InviteMemberInput }[] =
+    [];
+
+  for (const [index, row] of rows.entries()) {
+    const rowNumber = index + 1;
+
+    const rowParseResult = InviteMemberInputSchema.safeParse({
+      ...row,
+      organizationId,
+    });
+    if (!rowParseResult.success) {
+      results.push({
+        row: rowNumber,
+        email: typeof row.email === "string" ? row.email : undefined,
+        status: "failed",
+        errors: mapZodErrors(rowParseResult.error),
+      });
+      continue;
+    }
+
+    const validatedInput: InviteMemberInput = rowParseResult.data;
+    const email = validatedInput.email.toLowerCase();
+
+    if (!knownRoles.has(validatedInput.role)) {
+      try {
+        await roleValidator.validateRoleExists(
+          organizationId,
+          validatedInput.role,
+        );
+        knownRoles.set(validatedInput.role, true);
+      } catch {
+        knownRoles.set(validatedInput.role, false);
+      }
+    }
+    if (!knownRoles.get(validatedInput.role)) {
+      results.push({
+        row: rowNumber,
+        email: validatedInput.email,
+        status: "failed",
+        errors: [
+          {
+            code: "VALIDATION_ERROR",
+            message: `Role ${validatedInput.role} does not exist`,
+            value: validatedInput.role,
+          },
+        ],
+      });
+      continue;
+    }
+
+    const skipReason = members.has(email)
+      ? `User with email ${validatedInput.email} is already a member`
+      : invited.has(email)
+        ? `Invitation for email ${validatedInput.email} already exists`
+        : seen.has(email)
+          ? `Email ${validatedInput.email} appears more than once in the file`
+          : undefined;
+    if (skipReason) {
+      results.push({
+        row: rowNumber,
+        email: validatedInput.email,
+        status: "skipped",
+        errors: [
+          {
+            code: "DUPLICATE_RESOURCE",
+            message: skipReason,
+            value: validatedInput.email,
+          },
+        ],
+      });
+      continue;
+    }
+
+    seen.add(email);
+    const result: BulkInviteRowResult = {
+      row: rowNumber,
+      email: validatedInput.email,
+      status: "invited",
+    };
+    results.push(result);
+    accepted.push({ result, input: validatedInput });
+  }
+
+  if (!dryRun && accepted.length > 0) {
+    const expiresAt = getInvitationExpiry();
+    const inviterId = request.user.id;
+    const inviterName =
+      `${request.user.firstName || ""} ${request.user.lastName || ""}`.trim() ||
+      "Someone";
+    const locale = request.headers["accept-language"];
+
+    await db.transaction(async (tx) => {
+      const created = await tx
+        .insert(invitation)
+        .values(
+          accepted.map(({ input }) => ({
+            organizationId,
+            email: input.email,
+            firstName: input.firstName,
+            lastName: input.lastName,
+            role: input.role,
+            status: "pending",
+            expiresAt,
+            inviterId,
+          })),
+        )
+        .returning();
+
+      for (const [index, newInvitation] of created.entries()) {
+        accepted[index].result.invitationId = newInvitation.id;
+        await queueInvitationEmail(tx, {
+          invitationId: newInvitation.id,
+          organizationId,
+          email: newInvitation.email,
+          recipientName: getInviteeName(newInvitation),
+          role: newInvitation.role || accepted[index].input.role,
+          organizationName: org.name,
+          organizationLogo: org.logo,
+          organizationWebsite: org.website,
+          inviterName,
+          locale,
+        });
+      }
+    });
+  }
+
+  const summary: BulkInviteMembersResult = {
+    dryRun,
+    invited: accepted.length,
+    skipped: results.filter((result) => result.status === "skipped").length,
+    failed: results.filter((result) => result.status === "failed").length,
+    results,
+  };
+
+  logger.info("Members invited in bulk", {
+    organizationId,
+    format,
+    dryRun,
+    invited: summary.invited,
+    skipped: summary.skipped,
+    failed: summary.failed,
+  });
+
+  return { isSuccess: true, data: summary };
+}
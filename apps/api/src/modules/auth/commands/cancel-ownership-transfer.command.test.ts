@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const requireOrgMembership = vi.hoisted(() => vi.fn());
+const ownershipTransferRepository = vi.hoisted(() => ({
+  findPending: vi.fn(),
+  close: vi.fn(),
+}));
+
+vi.mock("../middleware/require-auth.middleware", () => ({
+  requireOrgMembership,
+}));
+
+vi.mock("../repository/ownership-transfer.repository", () => ({
+  ownershipTransferRepository,
+}));
+
+import { cancelOwnershipTransferHandler } from "./cancel-ownership-transfer.command";
+
+describe("cancelOwnershipTransferHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "b1c2d3e4-f5a6-4b7c-8d9e-0f1a2b3c4d5e";
+  const nomineeMemberId = "22222222-2222-4222-8222-222222222222";
+  const transferId = "33333333-3333-4333-8333-333333333333";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ownershipTransferRepository.findPending.mockResolvedValue({
+      id: transferId,
+      toMemberId: nomineeMemberId,
+    });
+    ownershipTransferRepository.close.mockResolvedValue(true);
+  });
+
+  it("should decline the transfer, when the nominee closes it", async () => {
+    requireOrgMembership.mockResolvedValue({
+      role: "teacher",
+      memberId: nomineeMemberId,
+    });
+
+    const result = await cancelOwnershipTransferHandler(
+      organizationId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(ownershipTransferRepository.close).toHaveBeenCalledWith(
+      transferId,
+      "declined",
+    );
+  });
+
+  it("should cancel the transfer, when an owner closes it", async () => {
+    requireOrgMembership.mockResolvedValue({
+      role: "owner",
+      memberId: "11111111-1111-4111-8111-111111111111",
+    });
+
+    const result = await cancelOwnershipTransferHandler(
+      organizationId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(ownershipTransferRepository.close).toHaveBeenCalledWith(
+      transferId,
+      "cancelled",
+    );
+  });
+
+  it("should return forbidden, when another member closes it", async () => {
+    requireOrgMembership.mockResolvedValue({
+      role: "admin",
+      memberId: "44444444-4444-4444-8444-444444444444",
+    });
+
+    const result = await cancelOwnershipTransferHandler(
+      organizationId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+    expect(ownershipTransferRepository.close).not.toHaveBeenCalled();
+  });
+});
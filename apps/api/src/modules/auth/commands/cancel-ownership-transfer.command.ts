@@ -0,0 +1,96 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { OrganizationIdParamSchema } from "../schemas/auth.schema";
+import { requireOrgMembership } from "../middleware/require-auth.middleware";
+import { ownershipTransferRepository } from "../repository/ownership-transfer.repository";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type CancelOwnershipTransferResult = ServiceResult<{ success: boolean }>;
+
+/**
+ * Closes the pending transfer of an organization. Owners cancel it and the
+ * nominated member declines it.
+ */
+export async function cancelOwnershipTransferHandler(
+  organizationId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<CancelOwnershipTransferResult> {
+  logger.debug("CancelOwnershipTransferCommand received", { organizationId });
+
+  const parseResult = OrganizationIdParamSchema.safeParse({ organizationId });
+  if (!parseResult.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(parseResult.error),
+    };
+  }
+  const orgId = parseResult.data.organizationId;
+
+  let membership;
+  try {
+    membership = await requireOrgMembership(request, orgId);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "User is not a member of this organization",
+        },
+      ],
+    };
+  }
+
+  const pending = await ownershipTransferRepository.findPending(orgId);
+  if (!pending) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `No pending ownership transfer for organization ${orgId}`,
+          value: orgId,
+        },
+      ],
+    };
+  }
+
+  const isNominee = pending.toMemberId === membership.memberId;
+  if (!isNominee && membership.role !== "owner") {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message:
+            "Only an owner or the nominated member can close the transfer",
+        },
+      ],
+    };
+  }
+
+  const status = isNominee ? "declined" : "cancelled";
+  const isClosed = await ownershipTransferRepository.close(pending.id, status);
+  if (!isClosed) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `No pending ownership transfer for organization ${orgId}`,
+          value: orgId,
+        },
+      ],
+    };
+  }
+
+  logger.info(`Ownership transfer ${status}`, {
+    transferId: pending.id,
+    organizationId: orgId,
+  });
+
+  return { isSuccess: true, data: { success: true } };
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findMember = vi.hoisted(() => vi.fn());
+const findByMembers = vi.hoisted(() => vi.fn());
+const create = vi.hoisted(() => vi.fn());
+const requirePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/guardianship.repository", () => ({
+  guardianshipRepository: {
+    findMember,
+    findByMembers,
+    create,
+  },
+}));
+
+vi.mock("../middleware/require-auth.middleware", () => ({ requirePermission }));
+
+import { createGuardianshipHandler } from "./create-guardianship.command";
+
+describe("createGuardianshipHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const parentMemberId = "11111111-1111-4111-8111-111111111111";
+  const studentMemberId = "33333333-3333-4333-8333-333333333333";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requirePermission.mockResolvedValue({
+      role: "admin",
+      memberId: "member-1",
+    });
+  });
+
+  it("should return forbidden, when permission check fails", async () => {
+    requirePermission.mockRejectedValue(new Error("forbidden"));
+
+    const result = await createGuardianshipHandler(
+      organizationId,
+      { parentMemberId, studentMemberId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
+  });
+
+  it("should return validation error, when guardian is not a parent", async () => {
+    findMember.mockResolvedValueOnce({ id: parentMemberId, role: "teacher" });
+
+    const result = await createGuardianshipHandler(
+      organizationId,
+      { parentMemberId, studentMemberId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("VALIDATION_ERROR");
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should return duplicate error, when link already exists", async () => {
+    findMember
+      .mockResolvedValueOnce({ id: parentMemberId, role: "parent" })
+      .mockResolvedValueOnce({ id: studentMemberId, role: "student" });
+    findByMembers.mockResolvedValue({ id: "link-1" });
+
+    const result = await createGuardianshipHandler(
+      organizationId,
+      { parentMemberId, studentMemberId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("DUPLICATE_RESOURCE");
+  });
+
+  it("should create guardianship, when parent and student are valid", async () => {
+    const link = {
+      id: "44444444-4444-4444-8444-444444444444",
+      organizationId,
+      parentMemberId,
+      studentMemberId,
+      createdAt: new Date(),
+    };
+    findMember
+      .mockResolvedValueOnce({ id: parentMemberId, role: "parent" })
+      .mockResolvedValueOnce({ id: studentMemberId, role: "student" });
+    findByMembers.mockResolvedValue(null);
+    create.mockResolvedValue(link);
+
+    const result = await createGuardianshipHandler(
+      organizationId,
+      { parentMemberId, studentMemberId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(create).toHaveBeenCalledWith(organizationId, {
+      parentMemberId,
+      studentMemberId,
+    });
+    expect(result.data?.guardianship).toEqual(link);
+  });
+});
@@ -0,0 +1,126 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { OrganizationIdParamSchema } from "../schemas/auth.schema";
+import {
+  CreateGuardianshipInputSchema,
+  type CreateGuardianshipInput,
+  type Guardianship,
+} from "../schemas/guardianship.schema";
+import { requirePermission } from "../middleware/require-auth.middleware";
+import { guardianshipRepository } from "../repository/guardianship.repository";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type CreateGuardianshipResult = ServiceResult<{
+  guardianship: Guardianship;
+}>;
+
+export async function createGuardianshipHandler(
+  organizationId: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<CreateGuardianshipResult> {
+  logger.debug("CreateGuardianshipCommand received", { organizationId });
+
+  const idParse = OrganizationIdParamSchema.safeParse({ organizationId });
+  if (!idParse.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(idParse.error),
+    };
+  }
+  const orgId = idParse.data.organizationId;
+
+  try {
+    await requirePermission(request, orgId, "member", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to manage guardianships",
+        },
+      ],
+    };
+  }
+
+  const parseResult = CreateGuardianshipInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for CreateGuardianshipCommand", { errors });
+    return {
+      isSuccess: false,
+      errors,
+    };
+  }
+
+  const validatedInput: CreateGuardianshipInput = parseResult.data;
+
+  const parentMember = await guardianshipRepository.findMember(
+    orgId,
+    validatedInput.parentMemberId,
+  );
+  if (!parentMember || parentMember.role !== "parent") {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "VALIDATION_ERROR",
+          message: "Guardian must be a member with the parent role",
+          value: validatedInput.parentMemberId,
+        },
+      ],
+    };
+  }
+
+  const studentMember = await guardianshipRepository.findMember(
+    orgId,
+    validatedInput.studentMemberId,
+  );
+  if (!studentMember || studentMember.role !== "student") {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "VALIDATION_ERROR",
+          message: "Linked member must have the student role",
+          value: validatedInput.studentMemberId,
+        },
+      ],
+    };
+  }
+
+  const existingLink = await guardianshipRepository.findByMembers(
+    validatedInput.parentMemberId,
+    validatedInput.studentMemberId,
+  );
+  if (existingLink) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "DUPLICATE_RESOURCE",
+          message: "Parent is already linked to this student",
+          value: existingLink.id,
+        },
+      ],
+    };
+  }
+
+  const newLink = await guardianshipRepository.create(orgId, validatedInput);
+
+  logger.info("Guardianship created", {
+    guardianshipId: newLink.id,
+    organizationId: orgId,
+  });
+
+  return {
+    isSuccess: true,
+    data: {
+      guardianship: newLink,
+    },
+  };
+}
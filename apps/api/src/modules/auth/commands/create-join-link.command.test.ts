@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const requirePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../middleware/require-auth.middleware", () => ({ requirePermission }));
+
+const roleValidator = vi.hoisted(() => ({
+  validateRoleExists: vi.fn(),
+}));
+
+vi.mock("../validators/role.validator", () => ({ roleValidator }));
+
+const joinLinkRepository = vi.hoisted(() => ({
+  create: vi.fn(),
+}));
+
+vi.mock("../repository/join-link.repository", () => ({ joinLinkRepository }));
+
+import { createJoinLinkHandler } from "./create-join-link.command";
+
+describe("createJoinLinkHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "b1c2d3e4-f5a6-4b7c-8d9e-0f1a2b3c4d5e";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requirePermission.mockResolvedValue({ role: "admin", memberId: "m-0" });
+    roleValidator.validateRoleExists.mockResolvedValue(undefined);
+    joinLinkRepository.create.mockImplementation(async (values) => ({
+      id: "c2d3e4f5-a6b7-4c8d-9e0f-1a2b3c4d5e6f",
+      code: "ABCD2345",
+      useCount: 0,
+      ...values,
+    }));
+  });
+
+  it("should create a link with normalized domains, when the input is valid", async () => {
+    const result = await createJoinLinkHandler(
+      organizationId,
+      {
+        role: "student",
+        maxUses: 40,
+        allowedDomains: ["@School.edu", "school.edu"],
+      },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(joinLinkRepository.create).toHaveBeenCalledWith({
+      organizationId,
+      role: "student",
+      maxUses: 40,
+      expiresAt: null,
+      allowedDomains: ["school.edu"],
+      createdByMemberId: "m-0",
+    });
+  });
+
+  it("should return a validation error, when the link would grant the owner role", async () => {
+    const result = await createJoinLinkHandler(
+      organizationId,
+      { role: "owner" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("OWNER_ROLE_NOT_ALLOWED");
+    expect(joinLinkRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("should return forbidden, when permission check fails", async () => {
+    requirePermission.mockRejectedValue(new Error("forbidden"));
+
+    const result = await createJoinLinkHandler(
+      organizationId,
+      { role: "student" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+  });
+});
@@ -0,0 +1,103 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { OrganizationIdParamSchema } from "../schemas/auth.schema";
+import {
+  CreateJoinLinkInputSchema,
+  type CreateJoinLinkInput,
+  type JoinLink,
+} from "../schemas/join-link.schema";
+import { requirePermission } from "../middleware/require-auth.middleware";
+import { roleValidator } from "../validators/role.validator";
+import { joinLinkRepository } from "../repository/join-link.repository";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type CreateJoinLinkResult = ServiceResult<{
+  joinLink: JoinLink;
+}>;
+
+export async function createJoinLinkHandler(
+  organizationId: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<CreateJoinLinkResult> {
+  logger.debug("CreateJoinLinkCommand received", { organizationId });
+
+  const idParse = OrganizationIdParamSchema.safeParse({ organizationId });
+  if (!idParse.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(idParse.error),
+    };
+  }
+  const orgId = idParse.data.organizationId;
+
+  let membership;
+  try {
+    membership = await requirePermission(
+      request,
+      orgId,
+      "invitation",
+      "create",
+    );
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to create join links",
+        },
+      ],
+    };
+  }
+
+  const parseResult = CreateJoinLinkInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for CreateJoinLinkCommand", { errors });
+    return {
+      isSuccess: false,
+      errors,
+    };
+  }
+
+  const validatedInput: CreateJoinLinkInput = parseResult.data;
+
+  try {
+    await roleValidator.validateRoleExists(orgId, validatedInput.role);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "VALIDATION_ERROR",
+          message: `Role ${validatedInput.role} does not exist`,
+          value: validatedInput.role,
+        },
+      ],
+    };
+  }
+
+  const joinLink = await joinLinkRepository.create({
+    organizationId: orgId,
+    role: validatedInput.role,
+    maxUses: validatedInput.maxUses ?? null,
+    expiresAt: validatedInput.expiresAt ?? null,
+    allowedDomains: validatedInput.allowedDomains,
+    createdByMemberId: membership.memberId,
+  });
+
+  logger.info("Join link created", {
+    joinLinkId: joinLink.id,
+    organizationId: orgId,
+    role: joinLink.role,
+  });
+
+  return {
+    isSuccess: true,
+    data: { joinLink },
+  };
+}
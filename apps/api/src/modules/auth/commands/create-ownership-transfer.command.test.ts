@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const requireOrgMembership = vi.hoisted(() => vi.fn());
+const ownershipTransferRepository = vi.hoisted(() => ({
+  findMember: vi.fn(),
+  create: vi.fn(),
+}));
+
+vi.mock("../middleware/require-auth.middleware", () => ({
+  requireOrgMembership,
+}));
+
+vi.mock("../repository/ownership-transfer.repository", () => ({
+  ownershipTransferRepository,
+}));
+
+import { createOwnershipTransferHandler } from "./create-ownership-transfer.command";
+
+describe("createOwnershipTransferHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "b1c2d3e4-f5a6-4b7c-8d9e-0f1a2b3c4d5e";
+  const ownerMemberId = "11111111-1111-4111-8111-111111111111";
+  const nomineeMemberId = "22222222-2222-4222-8222-222222222222";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireOrgMembership.mockResolvedValue({
+      role: "owner",
+      memberId: ownerMemberId,
+    });
+  });
+
+  it("should nominate the member, when an owner requests the transfer", async () => {
+    ownershipTransferRepository.findMember.mockResolvedValue({
+      id: nomineeMemberId,
+      role: "admin",
+    });
+    ownershipTransferRepository.create.mockResolvedValue({
+      id: "t-1",
+      organizationId,
+      fromMemberId: ownerMemberId,
+      toMemberId: nomineeMemberId,
+      status: "pending",
+    });
+
+    const result = await createOwnershipTransferHandler(
+      organizationId,
+      { memberId: nomineeMemberId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(ownershipTransferRepository.create).toHaveBeenCalledWith(
+      organizationId,
+      ownerMemberId,
+      nomineeMemberId,
+    );
+  });
+
+  it("should return forbidden, when the caller is not an owner", async () => {
+    requireOrgMembership.mockResolvedValue({
+      role: "admin",
+      memberId: ownerMemberId,
+    });
+
+    const result = await createOwnershipTransferHandler(
+      organizationId,
+      { memberId: nomineeMemberId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+    expect(ownershipTransferRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("should return a validation error, when the nominee is already an owner", async () => {
+    ownershipTransferRepository.findMember.mockResolvedValue({
+      id: nomineeMemberId,
+      role: "owner",
+    });
+
+    const result = await createOwnershipTransferHandler(
+      organizationId,
+      { memberId: nomineeMemberId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("VALIDATION_ERROR");
+  });
+});
@@ -0,0 +1,123 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { OrganizationIdParamSchema } from "../schemas/auth.schema";
+import {
+  CreateOwnershipTransferInputSchema,
+  type CreateOwnershipTransferInput,
+  type OwnershipTransfer,
+} from "../schemas/ownership-transfer.schema";
+import { requireOrgMembership } from "../middleware/require-auth.middleware";
+import { ownershipTransferRepository } from "../repository/ownership-transfer.repository";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type CreateOwnershipTransferResult = ServiceResult<{
+  transfer: OwnershipTransfer;
+}>;
+
+export async function createOwnershipTransferHandler(
+  organizationId: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<CreateOwnershipTransferResult> {
+  logger.debug("CreateOwnershipTransferCommand received", { organizationId });
+
+  const idParse = OrganizationIdParamSchema.safeParse({ organizationId });
+  if (!idParse.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(idParse.error),
+    };
+  }
+  const orgId = idParse.data.organizationId;
+
+  let membership;
+  try {
+    membership = await requireOrgMembership(request, orgId);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "User is not a member of this organization",
+        },
+      ],
+    };
+  }
+
+  if (membership.role !== "owner") {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Only an owner can transfer ownership",
+        },
+      ],
+    };
+  }
+
+  const parseResult = CreateOwnershipTransferInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for CreateOwnershipTransferCommand", {
+      errors,
+    });
+    return {
+      isSuccess: false,
+      errors,
+    };
+  }
+
+  const validatedInput: CreateOwnershipTransferInput = parseResult.data;
+
+  const nominee = await ownershipTransferRepository.findMember(
+    orgId,
+    validatedInput.memberId,
+  );
+  if (!nominee) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `Member ${validatedInput.memberId} not found`,
+          value: validatedInput.memberId,
+        },
+      ],
+    };
+  }
+
+  if (nominee.role === "owner") {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "VALIDATION_ERROR",
+          message: "Member is already an owner of the organization",
+          value: validatedInput.memberId,
+        },
+      ],
+    };
+  }
+
+  const transfer = await ownershipTransferRepository.create(
+    orgId,
+    membership.memberId,
+    nominee.id,
+  );
+
+  logger.info("Ownership transfer requested", {
+    transferId: transfer.id,
+    organizationId: orgId,
+    toMemberId: nominee.id,
+  });
+
+  return {
+    isSuccess: true,
+    data: { transfer },
+  };
+}
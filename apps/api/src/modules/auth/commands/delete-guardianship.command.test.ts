@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const deleteLink = vi.hoisted(() => vi.fn());
+const requirePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/guardianship.repository", () => ({
+  guardianshipRepository: {
+    delete: deleteLink,
+  },
+}));
+
+vi.mock("../middleware/require-auth.middleware", () => ({ requirePermission }));
+
+import { deleteGuardianshipHandler } from "./delete-guardianship.command";
+
+describe("deleteGuardianshipHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const guardianshipId = "44444444-4444-4444-8444-444444444444";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requirePermission.mockResolvedValue({
+      role: "admin",
+      memberId: "member-1",
+    });
+  });
+
+  it("should return validation errors, when guardianship id is invalid", async () => {
+    const result = await deleteGuardianshipHandler(
+      organizationId,
+      "bad",
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(deleteLink).not.toHaveBeenCalled();
+  });
+
+  it("should return not found, when guardianship does not exist", async () => {
+    deleteLink.mockResolvedValue(false);
+
+    const result = await deleteGuardianshipHandler(
+      organizationId,
+      guardianshipId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should delete guardianship, when it exists", async () => {
+    deleteLink.mockResolvedValue(true);
+
+    const result = await deleteGuardianshipHandler(
+      organizationId,
+      guardianshipId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(deleteLink).toHaveBeenCalledWith(organizationId, guardianshipId);
+  });
+});
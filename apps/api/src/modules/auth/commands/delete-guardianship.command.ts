@@ -0,0 +1,75 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { OrganizationIdParamSchema } from "../schemas/auth.schema";
+import { GuardianshipIdParamSchema } from "../schemas/guardianship.schema";
+import { requirePermission } from "../middleware/require-auth.middleware";
+import { guardianshipRepository } from "../repository/guardianship.repository";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type DeleteGuardianshipResult = ServiceResult<{ success: boolean }>;
+
+export async function deleteGuardianshipHandler(
+  organizationId: unknown,
+  guardianshipId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<DeleteGuardianshipResult> {
+  logger.debug("DeleteGuardianshipCommand received", {
+    organizationId,
+    guardianshipId,
+  });
+
+  const orgParse = OrganizationIdParamSchema.safeParse({ organizationId });
+  const idParse = GuardianshipIdParamSchema.safeParse({ guardianshipId });
+  if (!orgParse.success || !idParse.success) {
+    return {
+      isSuccess: false,
+      errors: [
+        ...(orgParse.error ? mapZodErrors(orgParse.error) : []),
+        ...(idParse.error ? mapZodErrors(idParse.error) : []),
+      ],
+    };
+  }
+  const orgId = orgParse.data.organizationId;
+  const linkId = idParse.data.guardianshipId;
+
+  try {
+    await requirePermission(request, orgId, "member", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to manage guardianships",
+        },
+      ],
+    };
+  }
+
+  const isDeleted = await guardianshipRepository.delete(orgId, linkId);
+  if (!isDeleted) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `Guardianship ${linkId} not found`,
+          value: linkId,
+        },
+      ],
+    };
+  }
+
+  logger.info("Guardianship deleted", {
+    guardianshipId: linkId,
+    organizationId: orgId,
+  });
+
+  return {
+    isSuccess: true,
+    data: { success: true },
+  };
+}
@@ -44,8 +44,23 @@ describe("deleteOrganizationHandler", () => {
     expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
   });
 
+  it("should return forbidden, when a custom role without ownership deletes", async () => {
+    requirePermission.mockResolvedValue({ role: "admin", memberId: "m-1" });
+
+    const result = await deleteOrganizationHandler(
+      organizationId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
   it("should soft delete organization, when organization exists", async () => {
-    requirePermission.mockResolvedValue(undefined);
+    requirePermission.mockResolvedValue({ role: "owner", memberId: "m-1" });
 
     db.select.mockReturnValue({
       from: vi.fn().mockReturnValue({
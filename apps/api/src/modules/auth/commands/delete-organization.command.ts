@@ -27,8 +27,14 @@ export async function deleteOrganizationHandler(
 
   const validatedOrgId = parseResult.data.organizationId;
 
+  let membership;
   try {
-    await requirePermission(request, validatedOrgId, "organization", "delete");
+    membership = await requirePermission(
+      request,
+      validatedOrgId,
+      "organization",
+      "delete",
+    );
   } catch (error) {
     return {
       isSuccess: false,
@@ -41,6 +47,20 @@ export async function deleteOrganizationHandler(
     };
   }
 
+  // Custom roles may carry the delete permission, but only an owner can
+  // delete the organization out from under its owners
+  if (membership.role !== "owner") {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Only an owner can delete the organization",
+        },
+      ],
+    };
+  }
+
   const [existingOrg] = await db
     .select()
     .from(organization)
@@ -3,11 +3,13 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 const db = vi.hoisted(() => ({
   select: vi.fn(),
   insert: vi.fn(),
+  transaction: vi.fn(),
 }));
 const eq = vi.hoisted(() => vi.fn());
 const and = vi.hoisted(() => vi.fn());
+const gt = vi.hoisted(() => vi.fn());
 
-vi.mock("@repo/database", () => ({ db, eq, and }));
+vi.mock("@repo/database", () => ({ db, eq, and, gt }));
 
 vi.mock("@repo/database/schema/auth", () => ({
   invitation: {},
@@ -26,6 +28,14 @@ const roleValidator = vi.hoisted(() => ({
 
 vi.mock("../validators/role.validator", () => ({ roleValidator }));
 
+const outboxRepository = vi.hoisted(() => ({
+  enqueue: vi.fn(),
+}));
+
+vi.mock("../../outbox/repository/outbox.repository", () => ({
+  outboxRepository,
+}));
+
 import { inviteMemberHandler } from "./invite-member.command";
 
 describe("inviteMemberHandler", () => {
@@ -40,6 +50,9 @@ describe("inviteMemberHandler", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.spyOn(console, "log").mockImplementation(() => undefined);
+    db.transaction.mockImplementation((callback: (tx: typeof db) => unknown) =>
+      callback(db),
+    );
   });
 
   it("should return unauthorized, when request has no user", async () => {
@@ -116,11 +129,48 @@ describe("inviteMemberHandler", () => {
       },
       {
         user: { id: "user-1", firstName: "Test", lastName: "User" },
+        headers: {},
       } as never,
       logger,
     );
 
     expect(result.isSuccess).toBe(true);
     expect(result.data?.invitation.id).toBe("inv-1");
+    expect(outboxRepository.enqueue).toHaveBeenCalledWith(db, [
+      expect.objectContaining({
+        organizationId,
+        topic: "email",
+        payload: expect.objectContaining({ to: "user@example.com" }),
+      }),
+    ]);
+  });
+  it("should return validation error, when student link is requested for non-parent role", async () => {
+    requirePermission.mockResolvedValue(undefined);
+    roleValidator.validateRoleExists.mockResolvedValue(undefined);
+
+    db.select.mockReturnValueOnce({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          limit: vi
+            .fn()
+            .mockResolvedValue([{ id: "org-1", name: "Acme", isDeleted: false }]),
+        }),
+      }),
+    });
+
+    const result = await inviteMemberHandler(
+      {
+        email: "user@example.com",
+        role: "teacher",
+        organizationId,
+        studentMemberId: "33333333-3333-4333-8333-333333333333",
+      },
+      { user: { id: "user-1" } } as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("VALIDATION_ERROR");
+    expect(db.insert).not.toHaveBeenCalled();
   });
 });
@@ -1,5 +1,5 @@
 import { mapZodErrors } from "../../../utils/mapZodErrors";
-import { db, eq, and } from "@repo/database";
+import { db, eq, and, gt } from "@repo/database";
 import {
   invitation,
   member,
@@ -12,6 +12,12 @@ import {
 } from "../schemas/auth.schema";
 import { requirePermission } from "../middleware/require-auth.middleware";
 import { roleValidator } from "../validators/role.validator";
+import { guardianshipRepository } from "../repository/guardianship.repository";
+import { getInvitationExpiry } from "../utils/invitation-lifecycle";
+import {
+  getInviteeName,
+  queueInvitationEmail,
+} from "../utils/invitation-email";
 import type { FastifyRequest } from "fastify";
 import type { LoggerHelpers } from "../../../plugins/logger";
 
@@ -23,6 +29,7 @@ export type InviteMemberResult = ServiceResult<{
     email: string;
     role: string;
     expiresAt: Date;
+    studentMemberId?: string;
   };
 }>;
 
@@ -108,6 +115,38 @@ export async function inviteMemberHandler(
     };
   }
 
+  if (validatedInput.studentMemberId) {
+    if (validatedInput.role !== "parent") {
+      return {
+        isSuccess: false,
+        errors: [
+          {
+            code: "VALIDATION_ERROR",
+            message: "Only parents can be invited for a specific student",
+            value: validatedInput.role,
+          },
+        ],
+      };
+    }
+
+    const studentMember = await guardianshipRepository.findMember(
+      validatedInput.organizationId,
+      validatedInput.studentMemberId,
+    );
+    if (!studentMember || studentMember.role !== "student") {
+      return {
+        isSuccess: false,
+        errors: [
+          {
+            code: "RESOURCE_NOT_FOUND",
+            message: `Student ${validatedInput.studentMemberId} not found`,
+            value: validatedInput.studentMemberId,
+          },
+        ],
+      };
+    }
+  }
+
   const existingUser = await db
     .select()
     .from(user)
@@ -148,6 +187,7 @@ export async function inviteMemberHandler(
         eq(invitation.email, validatedInput.email),
         eq(invitation.organizationId, validatedInput.organizationId),
         eq(invitation.status, "pending"),
+        gt(invitation.expiresAt, new Date()),
       ),
     )
     .limit(1);
@@ -158,44 +198,51 @@ export async function inviteMemberHandler(
       errors: [
         {
           code: "DUPLICATE_RESOURCE",
-          message: `Invitation for email ${validatedInput.email} already exists`,
+          message: `Invitation for email ${validatedInput.email} already exists, resend it instead`,
           value: validatedInput.email,
         },
       ],
     };
   }
 
-  const expiresAt = new Date();
-  expiresAt.setDate(expiresAt.getDate() + 7);
+  const expiresAt = getInvitationExpiry();
 
-  const [newInvitation] = await db
-    .insert(invitation)
-    .values({
+  const inviterName =
+    `${request.user.firstName || ""} ${request.user.lastName || ""}`.trim() ||
+    "Someone";
+  const inviterId = request.user.id;
+
+  const newInvitation = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(invitation)
+      .values({
+        organizationId: validatedInput.organizationId,
+        email: validatedInput.email,
+        firstName: validatedInput.firstName,
+        lastName: validatedInput.lastName,
+        role: validatedInput.role,
+        status: "pending",
+        expiresAt,
+        inviterId,
+        studentMemberId: validatedInput.studentMemberId,
+      })
+      .returning();
+
+    await queueInvitationEmail(tx, {
+      invitationId: created.id,
       organizationId: validatedInput.organizationId,
       email: validatedInput.email,
+      recipientName: getInviteeName(created),
       role: validatedInput.role,
-      status: "pending",
-      expiresAt,
-      inviterId: request.user.id,
-    })
-    .returning();
+      organizationName: org.name,
+      organizationLogo: org.logo,
+      organizationWebsite: org.website,
+      inviterName,
+      locale: request.headers["accept-language"],
+    });
 
-  const inviterName =
-    `${request.user.firstName || ""} ${request.user.lastName || ""}`.trim() ||
-    "Someone";
-  const inviteUrl = `${process.env.CLIENT_ORIGIN || "http://localhost:3000"}/accept-invitation?token=${newInvitation.id}`;
-
-  console.log("=".repeat(60));
-  console.log("📧 INVITATION EMAIL");
-  console.log("=".repeat(60));
-  console.log(`To: ${validatedInput.email}`);
-  console.log(`Subject: You've been invited to join ${org.name}`);
-  console.log("-".repeat(60));
-  console.log(
-    `${inviterName} has invited you to join ${org.name} as ${validatedInput.role}.`,
-  );
-  console.log(`Accept: ${inviteUrl}`);
-  console.log("=".repeat(60));
+    return created;
+  });
 
   logger.info("Invitation created", {
     invitationId: newInvitation.id,
@@ -211,6 +258,7 @@ export async function inviteMemberHandler(
         email: newInvitation.email,
         role: newInvitation.role || validatedInput.role,
         expiresAt: newInvitation.expiresAt,
+        studentMemberId: newInvitation.studentMemberId ?? undefined,
       },
     },
   };
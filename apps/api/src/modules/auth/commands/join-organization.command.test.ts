@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = vi.hoisted(() => ({
+  select: vi.fn(),
+  insert: vi.fn(),
+}));
+const eq = vi.hoisted(() => vi.fn());
+
+vi.mock("@repo/database", () => ({ db, eq }));
+
+vi.mock("@repo/database/schema/auth", () => ({
+  member: {},
+  organization: {},
+}));
+
+import { joinOrganizationHandler } from "./join-organization.command";
+
+describe("joinOrganizationHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "b1c2d3e4-f5a6-4b7c-8d9e-0f1a2b3c4d5e";
+  const values = vi.fn();
+  const returning = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.select.mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          limit: vi.fn().mockResolvedValue([
+            {
+              id: organizationId,
+              name: "Springfield",
+              isDeleted: false,
+              autoJoinDomains: ["school.edu"],
+              autoJoinRole: "student",
+            },
+          ]),
+        }),
+      }),
+    });
+    returning.mockResolvedValue([{ id: "member-1" }]);
+    values.mockReturnValue({
+      onConflictDoNothing: vi.fn().mockReturnValue({ returning }),
+    });
+    db.insert.mockReturnValue({ values });
+  });
+
+  it("should join with the auto-join role, when the verified email matches a domain", async () => {
+    const result = await joinOrganizationHandler(
+      organizationId,
+      {
+        user: { id: "user-1", email: "ada@school.edu", emailVerified: true },
+      } as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(values).toHaveBeenCalledWith({
+      organizationId,
+      userId: "user-1",
+      role: "student",
+    });
+  });
+
+  it("should return forbidden, when the email is not verified", async () => {
+    const result = await joinOrganizationHandler(
+      organizationId,
+      {
+        user: { id: "user-1", email: "ada@school.edu", emailVerified: false },
+      } as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it("should return duplicate, when the user is already a member", async () => {
+    returning.mockResolvedValue([]);
+
+    const result = await joinOrganizationHandler(
+      organizationId,
+      {
+        user: { id: "user-1", email: "ada@school.edu", emailVerified: true },
+      } as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("DUPLICATE_RESOURCE");
+  });
+});
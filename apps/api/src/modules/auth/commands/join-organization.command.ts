@@ -0,0 +1,120 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { db, eq } from "@repo/database";
+import { member, organization } from "@repo/database/schema/auth";
+import { OrganizationIdParamSchema } from "../schemas/auth.schema";
+import { isEmailOnDomains } from "../utils/join-link";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type JoinOrganizationResult = ServiceResult<{
+  organization: {
+    id: string;
+    name: string;
+  };
+  role: string;
+}>;
+
+/**
+ * Lets a user with a verified email on one of the organization's auto-join
+ * domains become a member with the organization's auto-join role.
+ */
+export async function joinOrganizationHandler(
+  organizationId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<JoinOrganizationResult> {
+  logger.debug("JoinOrganizationCommand received", { organizationId });
+
+  if (!request.user) {
+    return {
+      isSuccess: false,
+      errors: [{ code: "UNAUTHORIZED", message: "Authentication required" }],
+    };
+  }
+
+  const parseResult = OrganizationIdParamSchema.safeParse({ organizationId });
+  if (!parseResult.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(parseResult.error),
+    };
+  }
+  const orgId = parseResult.data.organizationId;
+
+  const [org] = await db
+    .select()
+    .from(organization)
+    .where(eq(organization.id, orgId))
+    .limit(1);
+
+  if (!org || org.isDeleted) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `Organization ${orgId} not found`,
+          value: orgId,
+        },
+      ],
+    };
+  }
+
+  if (
+    !request.user.emailVerified ||
+    !isEmailOnDomains(request.user.email, org.autoJoinDomains)
+  ) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message:
+            "A verified email address on one of the organization's domains is required to join",
+        },
+      ],
+    };
+  }
+
+  // The unique membership index turns a second concurrent join into a no-op.
+  const [newMember] = await db
+    .insert(member)
+    .values({
+      organizationId: orgId,
+      userId: request.user.id,
+      role: org.autoJoinRole,
+    })
+    .onConflictDoNothing({ target: [member.organizationId, member.userId] })
+    .returning({ id: member.id });
+
+  if (!newMember) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "DUPLICATE_RESOURCE",
+          message: "User is already a member of this organization",
+        },
+      ],
+    };
+  }
+
+  logger.info("User joined organization by email domain", {
+    userId: request.user.id,
+    organizationId: orgId,
+    role: org.autoJoinRole,
+  });
+
+  return {
+    isSuccess: true,
+    data: {
+      organization: {
+        id: org.id,
+        name: org.name,
+      },
+      role: org.autoJoinRole,
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = vi.hoisted(() => ({
+  delete: vi.fn(),
+  transaction: vi.fn(),
+}));
+const eq = vi.hoisted(() => vi.fn());
+
+vi.mock("@repo/database", () => ({ db, eq }));
+
+vi.mock("@repo/database/schema/auth", () => ({
+  member: {},
+}));
+
+const requireOrgMembership = vi.hoisted(() => vi.fn());
+const ownershipTransferRepository = vi.hoisted(() => ({
+  countOwnersForUpdate: vi.fn(),
+}));
+
+vi.mock("../middleware/require-auth.middleware", () => ({
+  requireOrgMembership,
+}));
+
+vi.mock("../repository/ownership-transfer.repository", () => ({
+  ownershipTransferRepository,
+}));
+
+import { leaveOrganizationHandler } from "./leave-organization.command";
+
+describe("leaveOrganizationHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "b1c2d3e4-f5a6-4b7c-8d9e-0f1a2b3c4d5e";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.transaction.mockImplementation(async (callback) => callback(db));
+    db.delete.mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
+  });
+
+  it("should remove the membership, when a member leaves", async () => {
+    requireOrgMembership.mockResolvedValue({
+      role: "teacher",
+      memberId: "m-1",
+    });
+
+    const result = await leaveOrganizationHandler(
+      organizationId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(db.delete).toHaveBeenCalled();
+    expect(
+      ownershipTransferRepository.countOwnersForUpdate,
+    ).not.toHaveBeenCalled();
+  });
+
+  it("should return forbidden, when the sole owner leaves", async () => {
+    requireOrgMembership.mockResolvedValue({ role: "owner", memberId: "m-1" });
+    ownershipTransferRepository.countOwnersForUpdate.mockResolvedValue(1);
+
+    const result = await leaveOrganizationHandler(
+      organizationId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+    expect(db.delete).not.toHaveBeenCalled();
+  });
+
+  it("should remove the owner in the transaction that counted the owners, when another owner remains", async () => {
+    requireOrgMembership.mockResolvedValue({ role: "owner", memberId: "m-1" });
+    ownershipTransferRepository.countOwnersForUpdate.mockResolvedValue(2);
+
+    const result = await leaveOrganizationHandler(
+      organizationId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(
+      ownershipTransferRepository.countOwnersForUpdate,
+    ).toHaveBeenCalledWith(db, organizationId);
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(db.delete).toHaveBeenCalled();
+  });
+});
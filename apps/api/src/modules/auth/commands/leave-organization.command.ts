@@ -0,0 +1,76 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { db, eq } from "@repo/database";
+import { member } from "@repo/database/schema/auth";
+import { OrganizationIdParamSchema } from "../schemas/auth.schema";
+import { requireOrgMembership } from "../middleware/require-auth.middleware";
+import { ownershipTransferRepository } from "../repository/ownership-transfer.repository";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type LeaveOrganizationResult = ServiceResult<{ success: boolean }>;
+
+export async function leaveOrganizationHandler(
+  organizationId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<LeaveOrganizationResult> {
+  logger.debug("LeaveOrganizationCommand received", { organizationId });
+
+  const parseResult = OrganizationIdParamSchema.safeParse({ organizationId });
+  if (!parseResult.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(parseResult.error),
+    };
+  }
+  const orgId = parseResult.data.organizationId;
+
+  let membership;
+  try {
+    membership = await requireOrgMembership(request, orgId);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "User is not a member of this organization",
+        },
+      ],
+    };
+  }
+
+  const hasLeft = await db.transaction(async (tx) => {
+    if (
+      membership.role === "owner" &&
+      (await ownershipTransferRepository.countOwnersForUpdate(tx, orgId)) <= 1
+    ) {
+      return false;
+    }
+
+    await tx.delete(member).where(eq(member.id, membership.memberId));
+    return true;
+  });
+
+  if (!hasLeft) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message:
+            "The sole owner cannot leave the organization, transfer ownership first",
+        },
+      ],
+    };
+  }
+
+  logger.info("Member left organization", {
+    memberId: membership.memberId,
+    organizationId: orgId,
+  });
+
+  return { isSuccess: true, data: { success: true } };
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = vi.hoisted(() => ({
+  select: vi.fn(),
+  transaction: vi.fn(),
+}));
+const eq = vi.hoisted(() => vi.fn());
+const and = vi.hoisted(() => vi.fn());
+const gt = vi.hoisted(() => vi.fn());
+
+vi.mock("@repo/database", () => ({ db, eq, and, gt }));
+
+vi.mock("@repo/database/schema/auth", () => ({
+  invitation: {},
+  organization: {},
+}));
+
+const requirePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../middleware/require-auth.middleware", () => ({ requirePermission }));
+
+const invitationRepository = vi.hoisted(() => ({
+  rotate: vi.fn(),
+}));
+
+vi.mock("../repository/invitation.repository", () => ({
+  invitationRepository,
+}));
+
+const queueInvitationEmail = vi.hoisted(() => vi.fn());
+
+vi.mock("../utils/invitation-email", () => ({
+  getInviteeName: vi.fn(),
+  queueInvitationEmail,
+}));
+
+import { resendInvitationHandler } from "./resend-invitation.command";
+
+describe("resendInvitationHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d";
+  const invitationId = "b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e";
+  const request = {
+    user: { id: "user-1", firstName: "Ada", lastName: "Lovelace" },
+    headers: {},
+  } as never;
+
+  const selectReturning = (rows: unknown[]) => ({
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(rows),
+      }),
+    }),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requirePermission.mockResolvedValue(undefined);
+    db.transaction.mockImplementation((callback: (tx: typeof db) => unknown) =>
+      callback(db),
+    );
+  });
+
+  it("should rotate the token and extend the expiry, when the invitation expired", async () => {
+    db.select
+      .mockReturnValueOnce(
+        selectReturning([
+          {
+            id: invitationId,
+            email: "new@example.com",
+            status: "pending",
+            expiresAt: new Date(Date.now() - 1000),
+          },
+        ]),
+      )
+      .mockReturnValueOnce(selectReturning([]))
+      .mockReturnValueOnce(
+        selectReturning([
+          { id: organizationId, name: "School", isDeleted: false },
+        ]),
+      );
+    invitationRepository.rotate.mockResolvedValue({
+      id: "c3d4e5f6-a7b8-4c9d-8e0f-2a3b4c5d6e7f",
+      email: "new@example.com",
+      role: "teacher",
+      expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      studentMemberId: null,
+    });
+
+    const result = await resendInvitationHandler(
+      { organizationId, invitationId },
+      request,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    if (!result.isSuccess) return;
+    expect(result.data.invitation.id).not.toBe(invitationId);
+    const [, expiresAt] = invitationRepository.rotate.mock.calls[0];
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(queueInvitationEmail).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({
+        invitationId: "c3d4e5f6-a7b8-4c9d-8e0f-2a3b4c5d6e7f",
+        email: "new@example.com",
+        organizationName: "School",
+      }),
+    );
+  });
+
+  it("should return forbidden, when the invitation was already accepted", async () => {
+    db.select.mockReturnValueOnce(
+      selectReturning([
+        {
+          id: invitationId,
+          email: "new@example.com",
+          status: "accepted",
+          expiresAt: new Date(Date.now() + 1000),
+        },
+      ]),
+    );
+
+    const result = await resendInvitationHandler(
+      { organizationId, invitationId },
+      request,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+    expect(invitationRepository.rotate).not.toHaveBeenCalled();
+  });
+
+  it("should return a duplicate error, when the email was invited again meanwhile", async () => {
+    db.select
+      .mockReturnValueOnce(
+        selectReturning([
+          {
+            id: invitationId,
+            email: "new@example.com",
+            status: "expired",
+            expiresAt: new Date(Date.now() - 1000),
+          },
+        ]),
+      )
+      .mockReturnValueOnce(selectReturning([{ id: "other" }]));
+
+    const result = await resendInvitationHandler(
+      { organizationId, invitationId },
+      request,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("DUPLICATE_RESOURCE");
+    expect(invitationRepository.rotate).not.toHaveBeenCalled();
+  });
+});
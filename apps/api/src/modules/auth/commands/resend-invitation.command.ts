@@ -0,0 +1,229 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { db, eq, and, gt } from "@repo/database";
+import { invitation, organization } from "@repo/database/schema/auth";
+import {
+  ResendInvitationInputSchema,
+  type ResendInvitationInput,
+} from "../schemas/auth.schema";
+import { requirePermission } from "../middleware/require-auth.middleware";
+import { invitationRepository } from "../repository/invitation.repository";
+import {
+  getInvitationExpiry,
+  getInvitationStatus,
+} from "../utils/invitation-lifecycle";
+import {
+  getInviteeName,
+  queueInvitationEmail,
+} from "../utils/invitation-email";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type ResendInvitationResult = ServiceResult<{
+  invitation: {
+    id: string;
+    email: string;
+    role: string | null;
+    expiresAt: Date;
+    studentMemberId?: string;
+  };
+}>;
+
+/**
+ * Sends a pending or expired invitation again under a new token, so earlier
+ * links stop working, and restarts its expiry.
+ */
+export async function resendInvitationHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ResendInvitationResult> {
+  logger.debug("ResendInvitationCommand received");
+
+  if (!request.user) {
+    return {
+      isSuccess: false,
+      errors: [{ code: "UNAUTHORIZED", message: "Authentication required" }],
+    };
+  }
+
+  const parseResult = ResendInvitationInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for ResendInvitationCommand", { errors });
+    return {
+      isSuccess: false,
+      errors,
+    };
+  }
+
+  const validatedInput: ResendInvitationInput = parseResult.data;
+
+  try {
+    await requirePermission(
+      request,
+      validatedInput.organizationId,
+      "invitation",
+      "create",
+    );
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to resend invitation",
+        },
+      ],
+    };
+  }
+
+  const [invitationRecord] = await db
+    .select()
+    .from(invitation)
+    .where(
+      and(
+        eq(invitation.id, validatedInput.invitationId),
+        eq(invitation.organizationId, validatedInput.organizationId),
+      ),
+    )
+    .limit(1);
+
+  if (!invitationRecord) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `Invitation ${validatedInput.invitationId} not found`,
+          value: validatedInput.invitationId,
+        },
+      ],
+    };
+  }
+
+  const now = new Date();
+  const status = getInvitationStatus(invitationRecord, now);
+
+  if (status !== "pending" && status !== "expired") {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Can only resend pending or expired invitations",
+        },
+      ],
+    };
+  }
+
+  if (status === "expired") {
+    const [liveInvitation] = await db
+      .select({ id: invitation.id })
+      .from(invitation)
+      .where(
+        and(
+          eq(invitation.email, invitationRecord.email),
+          eq(invitation.organizationId, validatedInput.organizationId),
+          eq(invitation.status, "pending"),
+          gt(invitation.expiresAt, now),
+        ),
+      )
+      .limit(1);
+
+    if (liveInvitation) {
+      return {
+        isSuccess: false,
+        errors: [
+          {
+            code: "DUPLICATE_RESOURCE",
+            message: `Invitation for email ${invitationRecord.email} already exists`,
+            value: invitationRecord.email,
+          },
+        ],
+      };
+    }
+  }
+
+  const [org] = await db
+    .select()
+    .from(organization)
+    .where(eq(organization.id, validatedInput.organizationId))
+    .limit(1);
+
+  if (!org || org.isDeleted) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `Organization ${validatedInput.organizationId} not found`,
+          value: validatedInput.organizationId,
+        },
+      ],
+    };
+  }
+
+  const inviterName =
+    `${request.user.firstName || ""} ${request.user.lastName || ""}`.trim() ||
+    "Someone";
+  const locale = request.headers["accept-language"];
+
+  const rotated = await db.transaction(async (tx) => {
+    const updated = await invitationRepository.rotate(
+      invitationRecord.id,
+      getInvitationExpiry(now),
+      tx,
+    );
+
+    if (updated) {
+      await queueInvitationEmail(tx, {
+        invitationId: updated.id,
+        organizationId: validatedInput.organizationId,
+        email: updated.email,
+        recipientName: getInviteeName(updated),
+        role: updated.role || "student",
+        organizationName: org.name,
+        organizationLogo: org.logo,
+        organizationWebsite: org.website,
+        inviterName,
+        locale,
+      });
+    }
+
+    return updated;
+  });
+
+  if (!rotated) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `Invitation ${validatedInput.invitationId} not found`,
+          value: validatedInput.invitationId,
+        },
+      ],
+    };
+  }
+
+  logger.info("Invitation resent", {
+    previousInvitationId: invitationRecord.id,
+    invitationId: rotated.id,
+    organizationId: validatedInput.organizationId,
+  });
+
+  return {
+    isSuccess: true,
+    data: {
+      invitation: {
+        id: rotated.id,
+        email: rotated.email,
+        role: rotated.role,
+        expiresAt: rotated.expiresAt,
+        studentMemberId: rotated.studentMemberId ?? undefined,
+      },
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { OrganizationIdParamSchema } from "../schemas/auth.schema";
+import {
+  JoinLinkIdParamSchema,
+  type JoinLink,
+} from "../schemas/join-link.schema";
+import { requirePermission } from "../middleware/require-auth.middleware";
+import { joinLinkRepository } from "../repository/join-link.repository";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type RevokeJoinLinkResult = ServiceResult<{
+  joinLink: JoinLink;
+}>;
+
+export async function revokeJoinLinkHandler(
+  organizationId: unknown,
+  joinLinkId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<RevokeJoinLinkResult> {
+  logger.debug("RevokeJoinLinkCommand received", {
+    organizationId,
+    joinLinkId,
+  });
+
+  const orgParse = OrganizationIdParamSchema.safeParse({ organizationId });
+  if (!orgParse.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(orgParse.error),
+    };
+  }
+  const linkParse = JoinLinkIdParamSchema.safeParse({ joinLinkId });
+  if (!linkParse.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(linkParse.error),
+    };
+  }
+  const orgId = orgParse.data.organizationId;
+  const linkId = linkParse.data.joinLinkId;
+
+  try {
+    await requirePermission(request, orgId, "invitation", "delete");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to revoke join links",
+        },
+      ],
+    };
+  }
+
+  const joinLink = await joinLinkRepository.revoke(orgId, linkId);
+  if (!joinLink) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `Join link ${linkId} not found`,
+          value: linkId,
+        },
+      ],
+    };
+  }
+
+  logger.info("Join link revoked", {
+    joinLinkId: linkId,
+    organizationId: orgId,
+  });
+
+  return {
+    isSuccess: true,
+    data: { joinLink },
+  };
+}
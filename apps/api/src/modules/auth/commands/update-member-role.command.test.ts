@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = vi.hoisted(() => ({
+  select: vi.fn(),
+  update: vi.fn(),
+  transaction: vi.fn(),
+}));
+const eq = vi.hoisted(() => vi.fn());
+const and = vi.hoisted(() => vi.fn());
+
+vi.mock("@repo/database", () => ({ db, eq, and }));
+
+vi.mock("@repo/database/schema/auth", () => ({
+  member: {},
+}));
+
+const requirePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../middleware/require-auth.middleware", () => ({ requirePermission }));
+
+const roleValidator = vi.hoisted(() => ({
+  validateRoleExists: vi.fn(),
+}));
+
+vi.mock("../validators/role.validator", () => ({ roleValidator }));
+
+const ownershipTransferRepository = vi.hoisted(() => ({
+  countOwnersForUpdate: vi.fn(),
+}));
+
+vi.mock("../repository/ownership-transfer.repository", () => ({
+  ownershipTransferRepository,
+}));
+
+import { updateMemberRoleHandler } from "./update-member-role.command";
+
+describe("updateMemberRoleHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const memberId = "a3b4c5d6-7e8f-4a9b-8c7d-6e5f4a3b2c1d";
+  const organizationId = "b1c2d3e4-f5a6-4b7c-8d9e-0f1a2b3c4d5e";
+
+  const selectReturning = (rows: unknown[]) => ({
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(rows),
+      }),
+    }),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requirePermission.mockResolvedValue({ role: "owner", memberId: "m-0" });
+    roleValidator.validateRoleExists.mockResolvedValue(undefined);
+    db.transaction.mockImplementation(async (callback) => callback(db));
+    db.update.mockReturnValue({
+      set: vi.fn().mockReturnValue({
+        where: vi.fn().mockResolvedValue(undefined),
+      }),
+    });
+  });
+
+  it("should return forbidden, when permission check fails", async () => {
+    requirePermission.mockRejectedValue(new Error("forbidden"));
+
+    const result = await updateMemberRoleHandler(
+      { memberId, organizationId, role: "teacher" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+  });
+
+  it("should return a validation error, when the role does not exist", async () => {
+    roleValidator.validateRoleExists.mockRejectedValue(new Error("missing"));
+
+    const result = await updateMemberRoleHandler(
+      { memberId, organizationId, role: "janitor" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("VALIDATION_ERROR");
+    expect(db.select).not.toHaveBeenCalled();
+  });
+
+  it("should update the role, when the member exists", async () => {
+    db.select.mockReturnValueOnce(
+      selectReturning([{ id: memberId, role: "student" }]),
+    );
+
+    const result = await updateMemberRoleHandler(
+      { memberId, organizationId, role: "teacher" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    if (!result.isSuccess) return;
+    expect(result.data).toEqual({ id: memberId, role: "teacher" });
+    expect(db.update).toHaveBeenCalled();
+  });
+
+  it("should return forbidden, when demoting the last owner", async () => {
+    db.select.mockReturnValueOnce(
+      selectReturning([{ id: memberId, role: "owner" }]),
+    );
+    ownershipTransferRepository.countOwnersForUpdate.mockResolvedValue(1);
+
+    const result = await updateMemberRoleHandler(
+      { memberId, organizationId, role: "admin" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].message).toBe(
+      "Cannot demote the last owner of the organization",
+    );
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("should demote the owner in the transaction that counted the owners, when another owner remains", async () => {
+    db.select.mockReturnValueOnce(
+      selectReturning([{ id: memberId, role: "owner" }]),
+    );
+    ownershipTransferRepository.countOwnersForUpdate.mockResolvedValue(2);
+
+    const result = await updateMemberRoleHandler(
+      { memberId, organizationId, role: "admin" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(
+      ownershipTransferRepository.countOwnersForUpdate,
+    ).toHaveBeenCalledWith(db, organizationId);
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(db.update).toHaveBeenCalled();
+  });
+
+  it("should return forbidden, when a non-owner grants the owner role", async () => {
+    requirePermission.mockResolvedValue({ role: "admin", memberId: "m-0" });
+    db.select.mockReturnValueOnce(
+      selectReturning([{ id: memberId, role: "teacher" }]),
+    );
+
+    const result = await updateMemberRoleHandler(
+      { memberId, organizationId, role: "owner" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+    expect(db.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { db, eq, and } from "@repo/database";
+import { member } from "@repo/database/schema/auth";
+import {
+  UpdateMemberRoleInputSchema,
+  type UpdateMemberRoleInput,
+} from "../schemas/auth.schema";
+import { requirePermission } from "../middleware/require-auth.middleware";
+import { roleValidator } from "../validators/role.validator";
+import { ownershipTransferRepository } from "../repository/ownership-transfer.repository";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type UpdateMemberRoleResult = ServiceResult<{
+  id: string;
+  role: string;
+}>;
+
+export async function updateMemberRoleHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<UpdateMemberRoleResult> {
+  logger.debug("UpdateMemberRoleCommand received");
+
+  const parseResult = UpdateMemberRoleInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for UpdateMemberRoleCommand", { errors });
+    return {
+      isSuccess: false,
+      errors,
+    };
+  }
+
+  const validatedInput: UpdateMemberRoleInput = parseResult.data;
+
+  let actorRole: string;
+  try {
+    const membership = await requirePermission(
+      request,
+      validatedInput.organizationId,
+      "member",
+      "update",
+    );
+    actorRole = membership.role;
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to update member",
+        },
+      ],
+    };
+  }
+
+  try {
+    await roleValidator.validateRoleExists(
+      validatedInput.organizationId,
+      validatedInput.role,
+    );
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "VALIDATION_ERROR",
+          message: `Role ${validatedInput.role} does not exist`,
+          value: validatedInput.role,
+        },
+      ],
+    };
+  }
+
+  const [memberRecord] = await db
+    .select()
+    .from(member)
+    .where(
+      and(
+        eq(member.id, validatedInput.memberId),
+        eq(member.organizationId, validatedInput.organizationId),
+      ),
+    )
+    .limit(1);
+
+  if (!memberRecord) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `Member ${validatedInput.memberId} not found`,
+          value: validatedInput.memberId,
+        },
+      ],
+    };
+  }
+
+  if (memberRecord.role === validatedInput.role) {
+    return {
+      isSuccess: true,
+      data: { id: memberRecord.id, role: memberRecord.role },
+    };
+  }
+
+  // Only owners may hand out or take away ownership
+  if (
+    actorRole !== "owner" &&
+    (memberRecord.role === "owner" || validatedInput.role === "owner")
+  ) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Only owners can change the owner role",
+        },
+      ],
+    };
+  }
+
+  const isUpdated = await db.transaction(async (tx) => {
+    if (
+      memberRecord.role === "owner" &&
+      (await ownershipTransferRepository.countOwnersForUpdate(
+        tx,
+        validatedInput.organizationId,
+      )) <= 1
+    ) {
+      return false;
+    }
+
+    await tx
+      .update(member)
+      .set({ role: validatedInput.role })
+      .where(eq(member.id, validatedInput.memberId));
+    return true;
+  });
+
+  if (!isUpdated) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Cannot demote the last owner of the organization",
+        },
+      ],
+    };
+  }
+
+  logger.info("Member role updated", {
+    memberId: validatedInput.memberId,
+    organizationId: validatedInput.organizationId,
+    previousRole: memberRecord.role,
+    role: validatedInput.role,
+  });
+
+  return {
+    isSuccess: true,
+    data: { id: memberRecord.id, role: validatedInput.role },
+  };
+}
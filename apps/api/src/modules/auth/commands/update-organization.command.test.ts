@@ -5,8 +5,10 @@ const db = vi.hoisted(() => ({
   update: vi.fn(),
 }));
 const eq = vi.hoisted(() => vi.fn());
+const and = vi.hoisted(() => vi.fn());
+const sql = vi.hoisted(() => vi.fn());
 
-vi.mock("@repo/database", () => ({ db, eq }));
+vi.mock("@repo/database", () => ({ db, eq, and, sql }));
 
 vi.mock("@repo/database/schema/auth", () => ({
   organization: {},
@@ -17,6 +19,7 @@ const requirePermission = vi.hoisted(() => vi.fn());
 vi.mock("../middleware/require-auth.middleware", () => ({ requirePermission }));
 
 import { updateOrganizationHandler } from "./update-organization.command";
+import { createETag } from "../../../shared/utils/etag";
 
 describe("updateOrganizationHandler", () => {
   const logger = {
@@ -105,4 +108,64 @@ describe("updateOrganizationHandler", () => {
     expect(result.isSuccess).toBe(true);
     expect(result.data?.organization.id).toBe("org-1");
   });
+
+  it("should reject the update, when the if-match header is stale", async () => {
+    requirePermission.mockResolvedValue(undefined);
+
+    db.select.mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          limit: vi.fn().mockResolvedValue([
+            {
+              id: "org-1",
+              isDeleted: false,
+              updatedAt: new Date("2026-03-02T10:00:00.000Z"),
+            },
+          ]),
+        }),
+      }),
+    });
+
+    await expect(
+      updateOrganizationHandler(
+        organizationId,
+        { name: "Acme" },
+        { headers: { "if-match": '"stale"' } } as never,
+        logger,
+      ),
+    ).rejects.toMatchObject({ code: "PRECONDITION_FAILED", statusCode: 412 });
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("should reject the update, when another write lands after the if-match check", async () => {
+    requirePermission.mockResolvedValue(undefined);
+    const updatedAt = new Date("2026-03-02T10:00:00.000Z");
+
+    db.select.mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          limit: vi.fn().mockResolvedValue([
+            { id: "org-1", isDeleted: false, updatedAt },
+          ]),
+        }),
+      }),
+    });
+    db.update.mockReturnValue({
+      set: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([]),
+        }),
+      }),
+    });
+
+    await expect(
+      updateOrganizationHandler(
+        organizationId,
+        { name: "Acme" },
+        { headers: { "if-match": createETag(updatedAt) } } as never,
+        logger,
+      ),
+    ).rejects.toMatchObject({ code: "PRECONDITION_FAILED", statusCode: 412 });
+    expect(sql).toHaveBeenCalled();
+  });
 });
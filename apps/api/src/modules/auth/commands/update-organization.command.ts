@@ -1,5 +1,5 @@
 import { mapZodErrors } from "../../../utils/mapZodErrors";
-import { db, eq } from "@repo/database";
+import { db, eq, and, sql } from "@repo/database";
 import { organization } from "@repo/database/schema/auth";
 import {
   UpdateOrganizationInputSchema,
@@ -7,6 +7,9 @@ import {
   type UpdateOrganizationInput,
 } from "../schemas/auth.schema";
 import { requirePermission } from "../middleware/require-auth.middleware";
+import { roleValidator } from "../validators/role.validator";
+import { assertIfMatch } from "../../../shared/utils/etag";
+import { createPreconditionFailedError } from "../../../shared/errors/app-error";
 import type { FastifyRequest } from "fastify";
 import type { LoggerHelpers } from "../../../plugins/logger"; // removed unused imports
 
@@ -18,6 +21,9 @@ export type UpdateOrganizationResult = ServiceResult<{
     name: string;
     slug: string | null;
     organizationType: string;
+    autoJoinDomains: string[];
+    autoJoinRole: string;
+    updatedAt: Date;
   };
 }>;
 
@@ -84,6 +90,33 @@ export async function updateOrganizationHandler(
     };
   }
 
+  const expectedUpdatedAt = assertIfMatch(
+    request,
+    existingOrg.updatedAt,
+    "Organization",
+    validatedOrgId,
+  );
+
+  if (validatedInput.autoJoinRole !== undefined) {
+    try {
+      await roleValidator.validateRoleExists(
+        validatedOrgId,
+        validatedInput.autoJoinRole,
+      );
+    } catch {
+      return {
+        isSuccess: false,
+        errors: [
+          {
+            code: "VALIDATION_ERROR",
+            message: `Role ${validatedInput.autoJoinRole} does not exist`,
+            value: validatedInput.autoJoinRole,
+          },
+        ],
+      };
+    }
+  }
+
   const updateData: Record<string, unknown> = {};
   if (validatedInput.name !== undefined) updateData.name = validatedInput.name;
   if (validatedInput.organizationType !== undefined)
@@ -107,13 +140,42 @@ export async function updateOrganizationHandler(
     updateData.website = validatedInput.website;
   if (validatedInput.description !== undefined)
     updateData.description = validatedInput.description;
+  if (validatedInput.autoJoinDomains !== undefined)
+    updateData.autoJoinDomains = validatedInput.autoJoinDomains;
+  if (validatedInput.autoJoinRole !== undefined)
+    updateData.autoJoinRole = validatedInput.autoJoinRole;
 
+  // With If-Match, only update while unchanged since the read above. ETags
+  // carry milliseconds while the column keeps microseconds.
   const [updatedOrg] = await db
     .update(organization)
     .set(updateData)
-    .where(eq(organization.id, validatedOrgId))
+    .where(
+      and(
+        eq(organization.id, validatedOrgId),
+        expectedUpdatedAt
+          ? sql`date_trunc('milliseconds', ${organization.updatedAt}) = ${expectedUpdatedAt.toISOString()}::timestamp`
+          : undefined,
+      ),
+    )
     .returning();
 
+  if (!updatedOrg) {
+    if (expectedUpdatedAt) {
+      throw createPreconditionFailedError("Organization", validatedOrgId);
+    }
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `Organization ${validatedOrgId} not found`,
+          value: validatedOrgId,
+        },
+      ],
+    };
+  }
+
   logger.info("Organization updated successfully", {
     organizationId: validatedOrgId,
   });
@@ -126,6 +188,9 @@ export async function updateOrganizationHandler(
         name: updatedOrg.name,
         slug: updatedOrg.slug,
         organizationType: updatedOrg.organizationType,
+        autoJoinDomains: updatedOrg.autoJoinDomains,
+        autoJoinRole: updatedOrg.autoJoinRole,
+        updatedAt: updatedOrg.updatedAt,
       },
     },
   };
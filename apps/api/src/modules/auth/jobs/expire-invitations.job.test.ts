@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const expirePending = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/invitation.repository", () => ({
+  invitationRepository: {
+    expirePending,
+  },
+}));
+
+import { expireInvitationsJob } from "./expire-invitations.job";
+
+describe("expireInvitationsJob", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const now = new Date("2026-03-31T12:00:00.000Z");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should mark invitations past their expiry, when the job runs", async () => {
+    expirePending.mockResolvedValue(3);
+
+    const expiredCount = await expireInvitationsJob(logger, now);
+
+    expect(expiredCount).toBe(3);
+    expect(expirePending).toHaveBeenCalledWith(now);
+    expect(logger.info).toHaveBeenCalled();
+  });
+
+  it("should stay quiet, when no invitation has expired", async () => {
+    expirePending.mockResolvedValue(0);
+
+    await expireInvitationsJob(logger, now);
+
+    expect(logger.info).not.toHaveBeenCalled();
+  });
+});
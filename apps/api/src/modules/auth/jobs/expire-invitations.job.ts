@@ -0,0 +1,15 @@
+import { invitationRepository } from "../repository/invitation.repository";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+export async function expireInvitationsJob(
+  logger: LoggerHelpers,
+  now: Date = new Date(),
+): Promise<number> {
+  const expiredCount = await invitationRepository.expirePending(now);
+
+  if (expiredCount > 0) {
+    logger.info("Expired stale invitations", { count: expiredCount });
+  }
+
+  return expiredCount;
+}
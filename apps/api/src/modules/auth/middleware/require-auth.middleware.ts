@@ -7,6 +7,7 @@ import { db, eq, and } from "@repo/database";
 import { member } from "@repo/database/schema/auth";
 import { statement, type RoleName } from "@repo/auth/permissions";
 import { permission, role } from "@repo/database/schema/roles";
+import { guardianship } from "@repo/database/schema/guardianship";
 
 export async function requireAuth(request: FastifyRequest) {
   if (!request.user || !request.session) {
@@ -116,3 +117,42 @@ export async function requirePermission(
 
   return membership;
 }
+
+export async function requireActivePermission(
+  request: FastifyRequest,
+  resource: Resource,
+  action: Action,
+): Promise<{ organizationId: string; role: RoleName; memberId: string }> {
+  const { organizationId } = await requireActiveOrganization(request);
+  const membership = await requirePermission(
+    request,
+    organizationId,
+    resource,
+    action,
+  );
+
+  return {
+    organizationId,
+    ...membership,
+  };
+}
+
+export async function getScopedStudentMemberIds(membership: {
+  role: RoleName;
+  memberId: string;
+}): Promise<string[] | undefined> {
+  if (membership.role === "student") {
+    return [membership.memberId];
+  }
+
+  if (membership.role === "parent") {
+    const links = await db
+      .select({ studentMemberId: guardianship.studentMemberId })
+      .from(guardianship)
+      .where(eq(guardianship.parentMemberId, membership.memberId));
+
+    return links.map((link) => link.studentMemberId);
+  }
+
+  return undefined;
+}
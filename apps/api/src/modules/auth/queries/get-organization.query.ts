@@ -26,7 +26,10 @@ export type GetOrganizationResult = ServiceResult<{
     email: string | null;
     website: string | null;
     description: string | null;
+    autoJoinDomains: string[];
+    autoJoinRole: string;
     createdAt: Date;
+    updatedAt: Date;
   };
   role: string;
 }>;
@@ -103,7 +106,10 @@ export async function getOrganizationHandler(
         email: org.email,
         website: org.website,
         description: org.description,
+        autoJoinDomains: org.autoJoinDomains,
+        autoJoinRole: org.autoJoinRole,
         createdAt: org.createdAt,
+        updatedAt: org.updatedAt,
       },
       role: membership.role,
     },
@@ -0,0 +1,69 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { OrganizationIdParamSchema } from "../schemas/auth.schema";
+import type { OwnershipTransfer } from "../schemas/ownership-transfer.schema";
+import { requireOrgMembership } from "../middleware/require-auth.middleware";
+import { ownershipTransferRepository } from "../repository/ownership-transfer.repository";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type GetOwnershipTransferResult = ServiceResult<{
+  transfer: OwnershipTransfer;
+}>;
+
+export async function getOwnershipTransferHandler(
+  organizationId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<GetOwnershipTransferResult> {
+  logger.debug("GetOwnershipTransferQuery received", { organizationId });
+
+  const parseResult = OrganizationIdParamSchema.safeParse({ organizationId });
+  if (!parseResult.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(parseResult.error),
+    };
+  }
+  const orgId = parseResult.data.organizationId;
+
+  let membership;
+  try {
+    membership = await requireOrgMembership(request, orgId);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "User is not a member of this organization",
+        },
+      ],
+    };
+  }
+
+  const transfer = await ownershipTransferRepository.findPending(orgId);
+
+  // Only owners and the nominee learn about a pending transfer
+  if (
+    !transfer ||
+    (membership.role !== "owner" && transfer.toMemberId !== membership.memberId)
+  ) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: `No pending ownership transfer for organization ${orgId}`,
+          value: orgId,
+        },
+      ],
+    };
+  }
+
+  return {
+    isSuccess: true,
+    data: { transfer },
+  };
+}
@@ -0,0 +1,75 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { OrganizationIdParamSchema } from "../schemas/auth.schema";
+import type { Guardianship } from "../schemas/guardianship.schema";
+import { requirePermission } from "../middleware/require-auth.middleware";
+import { guardianshipRepository } from "../repository/guardianship.repository";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type ListGuardianshipsResult = ServiceResult<{
+  guardianships: Guardianship[];
+}>;
+
+export async function listGuardianshipsHandler(
+  organizationId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ListGuardianshipsResult> {
+  logger.debug("ListGuardianshipsQuery received", { organizationId });
+
+  const parseResult = OrganizationIdParamSchema.safeParse({ organizationId });
+  if (!parseResult.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(parseResult.error),
+    };
+  }
+
+  const validatedOrgId = parseResult.data.organizationId;
+
+  let membership;
+  try {
+    membership = await requirePermission(
+      request,
+      validatedOrgId,
+      "member",
+      "read",
+    );
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to read guardianships",
+        },
+      ],
+    };
+  }
+
+  const scope =
+    membership.role === "parent"
+      ? { parentMemberId: membership.memberId }
+      : membership.role === "student"
+        ? { studentMemberId: membership.memberId }
+        : {};
+
+  const guardianships = await guardianshipRepository.findAll(
+    validatedOrgId,
+    scope,
+  );
+
+  logger.info("Guardianships retrieved", {
+    organizationId: validatedOrgId,
+    count: guardianships.length,
+  });
+
+  return {
+    isSuccess: true,
+    data: {
+      guardianships,
+    },
+  };
+}
@@ -3,6 +3,7 @@ import { db, eq } from "@repo/database";
 import { invitation, user, organization } from "@repo/database/schema/auth";
 import { OrganizationIdParamSchema } from "../schemas/auth.schema";
 import { requirePermission } from "../middleware/require-auth.middleware";
+import { getInvitationStatus } from "../utils/invitation-lifecycle";
 import type { ServiceResult } from "../../../utils/ServiceResult";
 // removed unused imports
 import type { FastifyRequest } from "fastify";
@@ -89,11 +90,12 @@ export async function listInvitationsHandler(
     .innerJoin(user, eq(invitation.inviterId, user.id))
     .where(eq(invitation.organizationId, validatedOrgId));
 
+  const now = new Date();
   const invitations: InvitationInfo[] = invitationsData.map((inv) => ({
     id: inv.id,
     email: inv.email,
     role: inv.role,
-    status: inv.status,
+    status: getInvitationStatus(inv, now),
     expiresAt: inv.expiresAt,
     inviterEmail: inv.inviterEmail,
     inviterName:
@@ -0,0 +1,58 @@
+import { mapZodErrors } from "../../../utils/mapZodErrors";
+import { OrganizationIdParamSchema } from "../schemas/auth.schema";
+import type { JoinLink, JoinLinkStatus } from "../schemas/join-link.schema";
+import { requirePermission } from "../middleware/require-auth.middleware";
+import { joinLinkRepository } from "../repository/join-link.repository";
+import { getJoinLinkStatus } from "../utils/join-link";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+import type { ServiceResult } from "../../../utils/ServiceResult";
+
+export type ListJoinLinksResult = ServiceResult<{
+  joinLinks: (JoinLink & { status: JoinLinkStatus })[];
+}>;
+
+export async function listJoinLinksHandler(
+  organizationId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ListJoinLinksResult> {
+  logger.debug("ListJoinLinksQuery received", { organizationId });
+
+  const parseResult = OrganizationIdParamSchema.safeParse({ organizationId });
+  if (!parseResult.success) {
+    return {
+      isSuccess: false,
+      errors: mapZodErrors(parseResult.error),
+    };
+  }
+  const orgId = parseResult.data.organizationId;
+
+  try {
+    await requirePermission(request, orgId, "invitation", "read");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to view join links",
+        },
+      ],
+    };
+  }
+
+  const links = await joinLinkRepository.listByOrganization(orgId);
+  const now = new Date();
+
+  return {
+    isSuccess: true,
+    data: {
+      joinLinks: links.map((link) => ({
+        ...link,
+        status: getJoinLinkStatus(link, now),
+      })),
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import { db, eq, and } from "@repo/database";
+import { member } from "@repo/database/schema/auth";
+import { guardianship } from "@repo/database/schema/guardianship";
+import type {
+  CreateGuardianshipInput,
+  Guardianship,
+} from "../schemas/guardianship.schema";
+
+export const guardianshipRepository = {
+  findMember: async (organizationId: string, memberId: string) => {
+    const [memberRecord] = await db
+      .select({ id: member.id, role: member.role })
+      .from(member)
+      .where(
+        and(eq(member.id, memberId), eq(member.organizationId, organizationId)),
+      )
+      .limit(1);
+
+    return memberRecord;
+  },
+
+  findByMembers: async (
+    parentMemberId: string,
+    studentMemberId: string,
+  ): Promise<Guardianship | undefined> => {
+    const [link] = await db
+      .select()
+      .from(guardianship)
+      .where(
+        and(
+          eq(guardianship.parentMemberId, parentMemberId),
+          eq(guardianship.studentMemberId, studentMemberId),
+        ),
+      )
+      .limit(1);
+
+    return link;
+  },
+
+  findAll: async (
+    organizationId: string,
+    scope: { parentMemberId?: string; studentMemberId?: string } = {},
+  ): Promise<Guardianship[]> => {
+    const conditions = [eq(guardianship.organizationId, organizationId)];
+    if (scope.parentMemberId) {
+      conditions.push(eq(guardianship.parentMemberId, scope.parentMemberId));
+    }
+    if (scope.studentMemberId) {
+      conditions.push(eq(guardianship.studentMemberId, scope.studentMemberId));
+    }
+
+    return db
+      .select()
+      .from(guardianship)
+      .where(and(...conditions));
+  },
+
+  create: async (
+    organizationId: string,
+    input: CreateGuardianshipInput,
+  ): Promise<Guardianship> => {
+    const [link] = await db
+      .insert(guardianship)
+      .values({
+        organizationId,
+        parentMemberId: input.parentMemberId,
+        studentMemberId: input.studentMemberId,
+      })
+      .returning();
+
+    return link;
+  },
+
+  createForUser: async (
+    organizationId: string,
+    parentUserId: string,
+    studentMemberId: string,
+  ): Promise<void> => {
+    const [parentMember] = await db
+      .select({ id: member.id })
+      .from(member)
+      .where(
+        and(
+          eq(member.userId, parentUserId),
+          eq(member.organizationId, organizationId),
+        ),
+      )
+      .limit(1);
+
+    if (!parentMember) {
+      return;
+    }
+
+    await db
+      .insert(guardianship)
+      .values({
+        organizationId,
+        parentMemberId: parentMember.id,
+        studentMemberId,
+      })
+      .onConflictDoNothing();
+  },
+
+  delete: async (organizationId: string, id: string): Promise<boolean> => {
+    const results = await db
+      .delete(guardianship)
+      .where(
+        and(
+          eq(guardianship.id, id),
+          eq(guardianship.organizationId, organizationId),
+        ),
+      )
+      .returning({ id: guardianship.id });
+
+    return results.length > 0;
+  },
+};
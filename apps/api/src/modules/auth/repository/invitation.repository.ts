@@ -0,0 +1,42 @@
+import crypto from "crypto";
+import { db, eq, and, lte } from "@repo/database";
+import { invitation, type InvitationEntity } from "@repo/database/schema/auth";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const invitationRepository = {
+  /**
+   * Marks pending invitations past their expiry as expired and returns how
+   * many were marked.
+   */
+  expirePending: async (now: Date): Promise<number> => {
+    const results = await db
+      .update(invitation)
+      .set({ status: "expired" })
+      .where(
+        and(eq(invitation.status, "pending"), lte(invitation.expiresAt, now)),
+      )
+      .returning({ id: invitation.id });
+
+    return results.length;
+  },
+
+  /**
+   * Gives the invitation a new id, which is the token in the invitation link,
+   * so links sent before stop working. It becomes pending again until the new
+   * expiry.
+   */
+  rotate: async (
+    invitationId: string,
+    expiresAt: Date,
+    tx: Transaction | typeof db = db,
+  ): Promise<InvitationEntity | undefined> => {
+    const [rotated] = await tx
+      .update(invitation)
+      .set({ id: crypto.randomUUID(), status: "pending", expiresAt })
+      .where(eq(invitation.id, invitationId))
+      .returning();
+
+    return rotated;
+  },
+};
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import { readdirSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+const client = await vi.hoisted(async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  return new PGlite();
+});
+
+vi.mock("@repo/database", async () => {
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const operators = await import("drizzle-orm");
+  return { ...operators, db: drizzle(client) };
+});
+
+import { db, eq } from "@repo/database";
+import { member, organization, user } from "@repo/database/schema/auth";
+import { joinLink } from "@repo/database/schema/join-link";
+import { joinLinkRepository } from "./join-link.repository";
+import type { JoinLink } from "../schemas/join-link.schema";
+
+const migrationsDir = resolve(
+  __dirname,
+  "../../../../../../packages/database/drizzle",
+);
+
+describe("joinLinkRepository.redeem", () => {
+  let organizationId: string;
+
+  const createLink = async (values: Partial<typeof joinLink.$inferInsert>) => {
+    const [link] = await db
+      .insert(joinLink)
+      .values({ organizationId, code: "ABCD2345", role: "student", ...values })
+      .returning();
+    return link as JoinLink;
+  };
+
+  const useCount = async (linkId: string) => {
+    const [row] = await db
+      .select({ useCount: joinLink.useCount })
+      .from(joinLink)
+      .where(eq(joinLink.id, linkId));
+    return row.useCount;
+  };
+
+  const memberCount = async () =>
+    (await db.select().from(member).where(eq(member.userId, "ada"))).length;
+
+  beforeAll(async () => {
+    const migrations = readdirSync(migrationsDir)
+      .filter((file) => file.endsWith(".sql"))
+      .sort();
+    for (const file of migrations) {
+      const statements = readFileSync(resolve(migrationsDir, file), "utf8")
+        .split("--> statement-breakpoint")
+        .filter((statement) => statement.trim());
+      for (const statement of statements) {
+        await client.exec(statement);
+      }
+    }
+  }, 60_000);
+
+  beforeEach(async () => {
+    await db.delete(organization);
+    await db.delete(user);
+    [{ id: organizationId }] = await db
+      .insert(organization)
+      .values({
+        name: "Springfield",
+        slug: "springfield",
+        organizationType: "school" as const,
+        createdAt: new Date(),
+      })
+      .returning({ id: organization.id });
+    await db.insert(user).values({
+      id: "ada",
+      name: "ada",
+      firstName: "ada",
+      lastName: "Example",
+      email: "ada@example.com",
+    });
+  });
+
+  it("should add the member and count the use, when the link is active", async () => {
+    const link = await createLink({ maxUses: 2 });
+
+    const redemption = await joinLinkRepository.redeem(link, "ada");
+
+    expect(redemption).toMatchObject({
+      isRedeemed: true,
+      member: { role: "student" },
+    });
+    expect(await useCount(link.id)).toBe(1);
+    expect(await memberCount()).toBe(1);
+  });
+
+  it("should not count a use, when the user is already a member", async () => {
+    const link = await createLink({});
+    await db
+      .insert(member)
+      .values({ organizationId, userId: "ada", role: "teacher" });
+
+    const redemption = await joinLinkRepository.redeem(link, "ada");
+
+    expect(redemption).toEqual({
+      isRedeemed: false,
+      reason: "already-member",
+    });
+    expect(await useCount(link.id)).toBe(0);
+    expect(await memberCount()).toBe(1);
+  });
+
+  it("should not add the member, when the link expired after it was read", async () => {
+    const link = await createLink({ expiresAt: new Date(Date.now() - 1000) });
+
+    const redemption = await joinLinkRepository.redeem(link, "ada");
+
+    expect(redemption).toEqual({ isRedeemed: false, reason: "unavailable" });
+    expect(await useCount(link.id)).toBe(0);
+    expect(await memberCount()).toBe(0);
+  });
+});
@@ -0,0 +1,123 @@
+import { db, eq, and, or, desc, gt, isNull, sql } from "@repo/database";
+import { member } from "@repo/database/schema/auth";
+import { joinLink } from "@repo/database/schema/join-link";
+import { generateJoinCode } from "../utils/join-link";
+import type { JoinLink } from "../schemas/join-link.schema";
+
+export type JoinLinkRedemption =
+  | { isRedeemed: true; member: { id: string; role: string } }
+  | { isRedeemed: false; reason: "already-member" | "unavailable" };
+
+export const joinLinkRepository = {
+  create: async (values: {
+    organizationId: string;
+    role: string;
+    maxUses: number | null;
+    expiresAt: Date | null;
+    allowedDomains: string[];
+    createdByMemberId: string;
+  }): Promise<JoinLink> => {
+    const [link] = await db
+      .insert(joinLink)
+      .values({ ...values, code: generateJoinCode() })
+      .returning();
+
+    return link as JoinLink;
+  },
+
+  listByOrganization: async (organizationId: string): Promise<JoinLink[]> => {
+    const links = await db
+      .select()
+      .from(joinLink)
+      .where(eq(joinLink.organizationId, organizationId))
+      .orderBy(desc(joinLink.createdAt));
+
+    return links as JoinLink[];
+  },
+
+  findByCode: async (code: string): Promise<JoinLink | undefined> => {
+    const [link] = await db
+      .select()
+      .from(joinLink)
+      .where(eq(joinLink.code, code))
+      .limit(1);
+
+    return link as JoinLink | undefined;
+  },
+
+  /**
+   * Revokes a link that is still usable. Returns undefined when the link does
+   * not exist in the organization or was already revoked.
+   */
+  revoke: async (
+    organizationId: string,
+    joinLinkId: string,
+  ): Promise<JoinLink | undefined> => {
+    const [link] = await db
+      .update(joinLink)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(joinLink.id, joinLinkId),
+          eq(joinLink.organizationId, organizationId),
+          isNull(joinLink.revokedAt),
+        ),
+      )
+      .returning();
+
+    return link as JoinLink | undefined;
+  },
+
+  /**
+   * Adds the user as a member and counts a use of the link in one
+   * transaction. The use is only counted while the link is active and under
+   * its limit, so concurrent joins cannot exceed it, and the unique membership
+   * index keeps a user from joining twice.
+   */
+  redeem: async (
+    link: JoinLink,
+    userId: string,
+  ): Promise<JoinLinkRedemption> => {
+    return db.transaction(async (tx) => {
+      const [newMember] = await tx
+        .insert(member)
+        .values({
+          organizationId: link.organizationId,
+          userId,
+          role: link.role,
+        })
+        .onConflictDoNothing({
+          target: [member.organizationId, member.userId],
+        })
+        .returning({ id: member.id, role: member.role });
+
+      if (!newMember) {
+        return { isRedeemed: false, reason: "already-member" };
+      }
+
+      const [claimed] = await tx
+        .update(joinLink)
+        .set({ useCount: sql`${joinLink.useCount} + 1` })
+        .where(
+          and(
+            eq(joinLink.id, link.id),
+            isNull(joinLink.revokedAt),
+            or(isNull(joinLink.expiresAt), gt(joinLink.expiresAt, new Date())),
+            or(
+              isNull(joinLink.maxUses),
+              sql`${joinLink.useCount} < ${joinLink.maxUses}`,
+            ),
+          ),
+        )
+        .returning({ id: joinLink.id });
+
+      if (!claimed) {
+        // Nobody else can see the membership yet, so removing it undoes the join.
+        await tx.delete(member).where(eq(member.id, newMember.id));
+        return { isRedeemed: false, reason: "unavailable" };
+      }
+
+      return { isRedeemed: true, member: newMember };
+    });
+  },
+};
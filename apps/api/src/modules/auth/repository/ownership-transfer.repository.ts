@@ -0,0 +1,186 @@
+import { db, eq, and, sql } from "@repo/database";
+import { member } from "@repo/database/schema/auth";
+import { ownershipTransfer } from "@repo/database/schema/ownership";
+import type {
+  OwnershipTransfer,
+  OwnershipTransferStatus,
+} from "../schemas/ownership-transfer.schema";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const ownershipTransferRepository = {
+  findMember: async (organizationId: string, memberId: string) => {
+    const [memberRecord] = await db
+      .select({ id: member.id, role: member.role })
+      .from(member)
+      .where(
+        and(eq(member.id, memberId), eq(member.organizationId, organizationId)),
+      )
+      .limit(1);
+
+    return memberRecord;
+  },
+
+  /**
+   * Counts the organization's owners and locks their rows until the
+   * transaction ends. A concurrent demotion or removal of an owner waits, so
+   * checking that another owner remains and writing the change is atomic.
+   */
+  countOwnersForUpdate: async (
+    tx: Transaction,
+    organizationId: string,
+  ): Promise<number> => {
+    const owners = tx
+      .select({ id: member.id })
+      .from(member)
+      .where(
+        and(
+          eq(member.organizationId, organizationId),
+          eq(member.role, "owner"),
+        ),
+      )
+      .for("update")
+      .as("owners");
+
+    const [{ count }] = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(owners);
+
+    return count;
+  },
+
+  findPending: async (
+    organizationId: string,
+  ): Promise<OwnershipTransfer | undefined> => {
+    const [transfer] = await db
+      .select()
+      .from(ownershipTransfer)
+      .where(
+        and(
+          eq(ownershipTransfer.organizationId, organizationId),
+          eq(ownershipTransfer.status, "pending"),
+        ),
+      )
+      .limit(1);
+
+    return transfer as OwnershipTransfer | undefined;
+  },
+
+  /**
+   * Nominates a member as the new owner, cancelling any nomination that is
+   * still pending so an organization has at most one open transfer.
+   */
+  create: async (
+    organizationId: string,
+    fromMemberId: string,
+    toMemberId: string,
+  ): Promise<OwnershipTransfer> => {
+    return db.transaction(async (tx) => {
+      await tx
+        .update(ownershipTransfer)
+        .set({ status: "cancelled", respondedAt: new Date() })
+        .where(
+          and(
+            eq(ownershipTransfer.organizationId, organizationId),
+            eq(ownershipTransfer.status, "pending"),
+          ),
+        );
+
+      const [transfer] = await tx
+        .insert(ownershipTransfer)
+        .values({
+          organizationId,
+          fromMemberId,
+          toMemberId,
+          status: "pending",
+        })
+        .returning();
+
+      return transfer as OwnershipTransfer;
+    });
+  },
+
+  /**
+   * Closes a pending transfer without swapping roles. Returns false when the
+   * transfer was no longer pending.
+   */
+  close: async (
+    transferId: string,
+    status: Extract<OwnershipTransferStatus, "declined" | "cancelled">,
+  ): Promise<boolean> => {
+    const closed = await db
+      .update(ownershipTransfer)
+      .set({ status, respondedAt: new Date() })
+      .where(
+        and(
+          eq(ownershipTransfer.id, transferId),
+          eq(ownershipTransfer.status, "pending"),
+        ),
+      )
+      .returning({ id: ownershipTransfer.id });
+
+    return closed.length > 0;
+  },
+
+  /**
+   * Accepts a pending transfer and swaps the roles in one transaction: the
+   * nominee becomes owner and the nominating owner takes over the nominee's
+   * previous role. When the nominator is no longer an owner the transfer is
+   * cancelled instead and undefined is returned.
+   */
+  accept: async (
+    transfer: OwnershipTransfer,
+  ): Promise<OwnershipTransfer | undefined> => {
+    return db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(ownershipTransfer)
+        .set({ status: "accepted", respondedAt: new Date() })
+        .where(
+          and(
+            eq(ownershipTransfer.id, transfer.id),
+            eq(ownershipTransfer.status, "pending"),
+          ),
+        )
+        .returning();
+
+      if (!claimed) {
+        return undefined;
+      }
+
+      const [nominee] = await tx
+        .select({ role: member.role })
+        .from(member)
+        .where(eq(member.id, transfer.toMemberId))
+        .limit(1)
+        .for("update");
+
+      const [previousOwner] = nominee
+        ? await tx
+            .update(member)
+            .set({ role: nominee.role })
+            .where(
+              and(
+                eq(member.id, transfer.fromMemberId),
+                eq(member.role, "owner"),
+              ),
+            )
+            .returning({ id: member.id })
+        : [];
+
+      if (!previousOwner) {
+        await tx
+          .update(ownershipTransfer)
+          .set({ status: "cancelled" })
+          .where(eq(ownershipTransfer.id, transfer.id));
+        return undefined;
+      }
+
+      await tx
+        .update(member)
+        .set({ role: "owner" })
+        .where(eq(member.id, transfer.toMemberId));
+
+      return claimed as OwnershipTransfer;
+    });
+  },
+};
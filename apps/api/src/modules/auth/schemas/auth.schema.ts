@@ -1,4 +1,6 @@
 import { z } from "zod";
+import type { ServiceError } from "../../../utils/ServiceResult";
+import { EmailDomainListSchema, JoinRoleSchema } from "./join-link.schema";
 
 export const AuthValidationErrorCodes = {
   FIRST_NAME_REQUIRED: "FIRST_NAME_REQUIRED",
@@ -20,6 +22,11 @@ export const AuthValidationErrorCodes = {
   WEBSITE_URL_INVALID: "WEBSITE_URL_INVALID",
   PHONE_INVALID: "PHONE_INVALID",
   ZIP_INVALID: "ZIP_INVALID",
+  INVALID_FILE_FORMAT: "INVALID_FILE_FORMAT",
+  IMPORT_CONTENT_REQUIRED: "IMPORT_CONTENT_REQUIRED",
+  INVALID_IMPORT_CONTENT: "INVALID_IMPORT_CONTENT",
+  IMPORT_ROWS_REQUIRED: "IMPORT_ROWS_REQUIRED",
+  TOO_MANY_IMPORT_ROWS: "TOO_MANY_IMPORT_ROWS",
 } as const;
 
 export const OrganizationTypeEnum = z.enum(
@@ -108,6 +115,8 @@ export const UpdateOrganizationInputSchema = z.object({
   email: z.string().email({ message: AuthValidationErrorCodes.EMAIL_INVALID }).optional().nullable(),
   website: z.string().url({ message: AuthValidationErrorCodes.WEBSITE_URL_INVALID }).optional().nullable(),
   description: z.string().optional().nullable(),
+  autoJoinDomains: EmailDomainListSchema.optional(),
+  autoJoinRole: JoinRoleSchema.optional(),
 });
 
 export type UpdateOrganizationInput = z.infer<typeof UpdateOrganizationInputSchema>;
@@ -118,16 +127,61 @@ export const InviteMemberInputSchema = z.object({
     .email({ message: AuthValidationErrorCodes.EMAIL_INVALID }),
   role: z.string().min(1, { message: AuthValidationErrorCodes.ROLE_INVALID }),
   organizationId: z.string().uuid({ message: AuthValidationErrorCodes.ORGANIZATION_ID_INVALID }),
+  studentMemberId: z.string().uuid({ message: AuthValidationErrorCodes.MEMBER_ID_INVALID }).optional(),
+  firstName: z.string().trim().min(1, { message: AuthValidationErrorCodes.FIRST_NAME_REQUIRED }).optional(),
+  lastName: z.string().trim().min(1, { message: AuthValidationErrorCodes.LAST_NAME_REQUIRED }).optional(),
 });
 
 export type InviteMemberInput = z.infer<typeof InviteMemberInputSchema>;
 
+export const MAX_BULK_INVITE_ROWS = 1000;
+
+export const InvitationFileFormatSchema = z.enum(["csv", "json"], {
+  message: AuthValidationErrorCodes.INVALID_FILE_FORMAT,
+});
+
+export type InvitationFileFormat = z.infer<typeof InvitationFileFormatSchema>;
+
+export const BulkInviteMembersInputSchema = z.object({
+  organizationId: z.string().uuid({ message: AuthValidationErrorCodes.ORGANIZATION_ID_INVALID }),
+  format: InvitationFileFormatSchema,
+  content: z.string({ message: AuthValidationErrorCodes.IMPORT_CONTENT_REQUIRED }).min(1, { message: AuthValidationErrorCodes.IMPORT_CONTENT_REQUIRED }),
+  dryRun: z.boolean().default(false),
+});
+
+export type BulkInviteMembersInput = z.infer<typeof BulkInviteMembersInputSchema>;
+
+export type BulkInviteRowStatus = "invited" | "skipped" | "failed";
+
+export type BulkInviteRowResult = {
+  row: number;
+  email?: string;
+  status: BulkInviteRowStatus;
+  invitationId?: string;
+  errors?: ServiceError[];
+};
+
+export type BulkInviteMembersResult = {
+  dryRun: boolean;
+  invited: number;
+  skipped: number;
+  failed: number;
+  results: BulkInviteRowResult[];
+};
+
 export const AcceptInvitationInputSchema = z.object({
   invitationId: z.string().min(1, { message: AuthValidationErrorCodes.INVITATION_ID_REQUIRED }),
 });
 
 export type AcceptInvitationInput = z.infer<typeof AcceptInvitationInputSchema>;
 
+export const ResendInvitationInputSchema = z.object({
+  invitationId: z.string().uuid({ message: AuthValidationErrorCodes.INVITATION_ID_REQUIRED }),
+  organizationId: z.string().uuid({ message: AuthValidationErrorCodes.ORGANIZATION_ID_INVALID }),
+});
+
+export type ResendInvitationInput = z.infer<typeof ResendInvitationInputSchema>;
+
 export const RemoveMemberInputSchema = z.object({
   memberId: z.string().uuid({ message: AuthValidationErrorCodes.MEMBER_ID_INVALID }),
   organizationId: z.string().uuid({ message: AuthValidationErrorCodes.ORGANIZATION_ID_INVALID }),
@@ -135,6 +189,14 @@ export const RemoveMemberInputSchema = z.object({
 
 export type RemoveMemberInput = z.infer<typeof RemoveMemberInputSchema>;
 
+export const UpdateMemberRoleInputSchema = z.object({
+  memberId: z.string().uuid({ message: AuthValidationErrorCodes.MEMBER_ID_INVALID }),
+  organizationId: z.string().uuid({ message: AuthValidationErrorCodes.ORGANIZATION_ID_INVALID }),
+  role: z.string().min(1, { message: AuthValidationErrorCodes.ROLE_INVALID }),
+});
+
+export type UpdateMemberRoleInput = z.infer<typeof UpdateMemberRoleInputSchema>;
+
 export const OrganizationIdParamSchema = z.object({
   organizationId: z.string().uuid({ message: AuthValidationErrorCodes.ORGANIZATION_ID_INVALID }),
 });
@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+export const GuardianshipValidationErrorCodes = {
+  PARENT_MEMBER_ID_INVALID: "PARENT_MEMBER_ID_INVALID",
+  STUDENT_MEMBER_ID_INVALID: "STUDENT_MEMBER_ID_INVALID",
+  GUARDIANSHIP_ID_INVALID: "GUARDIANSHIP_ID_INVALID",
+} as const;
+
+export const GuardianshipSchema = z.object({
+  id: z.string().uuid(),
+  organizationId: z.string().uuid(),
+  parentMemberId: z.string().uuid(),
+  studentMemberId: z.string().uuid(),
+  createdAt: z.date(),
+});
+
+export type Guardianship = z.infer<typeof GuardianshipSchema>;
+
+export const CreateGuardianshipInputSchema = z.object({
+  parentMemberId: z.string().uuid({
+    message: GuardianshipValidationErrorCodes.PARENT_MEMBER_ID_INVALID,
+  }),
+  studentMemberId: z.string().uuid({
+    message: GuardianshipValidationErrorCodes.STUDENT_MEMBER_ID_INVALID,
+  }),
+});
+
+export type CreateGuardianshipInput = z.infer<
+  typeof CreateGuardianshipInputSchema
+>;
+
+export const GuardianshipIdParamSchema = z.object({
+  guardianshipId: z.string().uuid({
+    message: GuardianshipValidationErrorCodes.GUARDIANSHIP_ID_INVALID,
+  }),
+});
+
+export type GuardianshipIdParam = z.infer<typeof GuardianshipIdParamSchema>;
@@ -0,0 +1,99 @@
+import { z } from "zod";
+
+export const JoinLinkValidationErrorCodes = {
+  JOIN_LINK_ID_INVALID: "JOIN_LINK_ID_INVALID",
+  JOIN_CODE_REQUIRED: "JOIN_CODE_REQUIRED",
+  ROLE_INVALID: "ROLE_INVALID",
+  OWNER_ROLE_NOT_ALLOWED: "OWNER_ROLE_NOT_ALLOWED",
+  MAX_USES_INVALID: "MAX_USES_INVALID",
+  EXPIRES_AT_INVALID: "EXPIRES_AT_INVALID",
+  EMAIL_DOMAIN_INVALID: "EMAIL_DOMAIN_INVALID",
+} as const;
+
+export const JOIN_CODE_LENGTH = 8;
+
+// Lowercased domains, written either as "school.edu" or "@school.edu"
+export const EmailDomainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((domain) => domain.replace(/^@/, ""))
+  .pipe(
+    z.string().regex(/^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/, {
+      message: JoinLinkValidationErrorCodes.EMAIL_DOMAIN_INVALID,
+    }),
+  );
+
+export const EmailDomainListSchema = z
+  .array(EmailDomainSchema)
+  .max(50)
+  .transform((domains) => [...new Set(domains)]);
+
+// Ownership is only handed over through an ownership transfer
+export const JoinRoleSchema = z
+  .string()
+  .min(1, { message: JoinLinkValidationErrorCodes.ROLE_INVALID })
+  .refine((role) => role !== "owner", {
+    message: JoinLinkValidationErrorCodes.OWNER_ROLE_NOT_ALLOWED,
+  });
+
+export const JoinLinkStatusSchema = z.enum([
+  "active",
+  "revoked",
+  "expired",
+  "exhausted",
+]);
+
+export type JoinLinkStatus = z.infer<typeof JoinLinkStatusSchema>;
+
+export const JoinLinkSchema = z.object({
+  id: z.string().uuid(),
+  organizationId: z.string().uuid(),
+  code: z.string(),
+  role: z.string(),
+  maxUses: z.number().int().nullable(),
+  useCount: z.number().int(),
+  allowedDomains: z.array(z.string()),
+  expiresAt: z.date().nullable(),
+  revokedAt: z.date().nullable(),
+  createdByMemberId: z.string().uuid().nullable(),
+  createdAt: z.date(),
+});
+
+export type JoinLink = z.infer<typeof JoinLinkSchema>;
+
+export const JoinLinkIdParamSchema = z.object({
+  joinLinkId: z.string().uuid({
+    message: JoinLinkValidationErrorCodes.JOIN_LINK_ID_INVALID,
+  }),
+});
+
+export const CreateJoinLinkInputSchema = z.object({
+  role: JoinRoleSchema,
+  maxUses: z
+    .number()
+    .int({ message: JoinLinkValidationErrorCodes.MAX_USES_INVALID })
+    .min(1, { message: JoinLinkValidationErrorCodes.MAX_USES_INVALID })
+    .optional()
+    .nullable(),
+  expiresAt: z.coerce
+    .date({ message: JoinLinkValidationErrorCodes.EXPIRES_AT_INVALID })
+    .refine((date) => date.getTime() > Date.now(), {
+      message: JoinLinkValidationErrorCodes.EXPIRES_AT_INVALID,
+    })
+    .optional()
+    .nullable(),
+  allowedDomains: EmailDomainListSchema.default([]),
+});
+
+export type CreateJoinLinkInput = z.infer<typeof CreateJoinLinkInputSchema>;
+
+export const AcceptJoinLinkInputSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, { message: JoinLinkValidationErrorCodes.JOIN_CODE_REQUIRED })
+    .toUpperCase(),
+});
+
+export type AcceptJoinLinkInput = z.infer<typeof AcceptJoinLinkInputSchema>;
@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+export const OwnershipTransferValidationErrorCodes = {
+  MEMBER_ID_INVALID: "MEMBER_ID_INVALID",
+} as const;
+
+export const OwnershipTransferStatusSchema = z.enum([
+  "pending",
+  "accepted",
+  "declined",
+  "cancelled",
+]);
+
+export type OwnershipTransferStatus = z.infer<
+  typeof OwnershipTransferStatusSchema
+>;
+
+export const OwnershipTransferSchema = z.object({
+  id: z.string().uuid(),
+  organizationId: z.string().uuid(),
+  fromMemberId: z.string().uuid(),
+  toMemberId: z.string().uuid(),
+  status: OwnershipTransferStatusSchema,
+  createdAt: z.date(),
+  respondedAt: z.date().nullable(),
+});
+
+export type OwnershipTransfer = z.infer<typeof OwnershipTransferSchema>;
+
+export const CreateOwnershipTransferInputSchema = z.object({
+  memberId: z.string().uuid({
+    message: OwnershipTransferValidationErrorCodes.MEMBER_ID_INVALID,
+  }),
+});
+
+export type CreateOwnershipTransferInput = z.infer<
+  typeof CreateOwnershipTransferInputSchema
+>;
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const outboxRepository = vi.hoisted(() => ({
+  enqueue: vi.fn(),
+}));
+
+vi.mock("../../outbox/repository/outbox.repository", () => ({
+  outboxRepository,
+}));
+
+import { queueInvitationEmail } from "./invitation-email";
+
+describe("queueInvitationEmail", () => {
+  const tx = {} as never;
+  const message = {
+    invitationId: "inv-1",
+    organizationId: "org-1",
+    email: "ada@example.com",
+    recipientName: "Ada",
+    role: "teacher",
+    organizationName: "Springfield <Elementary>",
+    organizationLogo: "https://cdn.example.com/logo.png",
+    inviterName: "Grace",
+  };
+
+  const queuedPayload = () => {
+    const [, [queued]] = outboxRepository.enqueue.mock.calls[0];
+    return queued.payload;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should queue a branded invitation with text and html variants, when called", async () => {
+    await queueInvitationEmail(tx, message);
+
+    expect(outboxRepository.enqueue).toHaveBeenCalledWith(tx, [
+      expect.objectContaining({ organizationId: "org-1", topic: "email" }),
+    ]);
+    const payload = queuedPayload();
+    expect(payload.to).toBe("ada@example.com");
+    expect(payload.subject).toBe(
+      "You've been invited to join Springfield <Elementary>",
+    );
+    expect(payload.text).toContain(
+      "Grace has invited you to join Springfield <Elementary> as teacher.",
+    );
+    expect(payload.text).toContain("accept-invitation?token=inv-1");
+    expect(payload.html).toContain("https://cdn.example.com/logo.png");
+    expect(payload.html).toContain("Springfield &lt;Elementary&gt;");
+  });
+
+  it("should use the best supported language, when the inviter prefers one", async () => {
+    await queueInvitationEmail(tx, {
+      ...message,
+      locale: "fr-FR,es-MX;q=0.8,en;q=0.5",
+    });
+
+    const payload = queuedPayload();
+    expect(payload.subject).toBe(
+      "Te han invitado a unirte a Springfield <Elementary>",
+    );
+    expect(payload.html).toContain('<html lang="es">');
+  });
+});
@@ -0,0 +1,70 @@
+import { renderTemplate, invitationEmail } from "@repo/mailer";
+import { outboxRepository } from "../../outbox/repository/outbox.repository";
+import { OutboxTopics } from "../../outbox/schemas/outbox.schema";
+import { INVITATION_TTL_DAYS } from "./invitation-lifecycle";
+
+export type InvitationEmail = {
+  invitationId: string;
+  organizationId: string;
+  email: string;
+  recipientName?: string;
+  role: string;
+  organizationName: string;
+  organizationLogo?: string | null;
+  organizationWebsite?: string | null;
+  inviterName: string;
+  // Accept-Language of the inviting request
+  locale?: string;
+};
+
+export function getInviteeName(invitee: {
+  firstName: string | null;
+  lastName: string | null;
+}): string | undefined {
+  return (
+    `${invitee.firstName || ""} ${invitee.lastName || ""}`.trim() || undefined
+  );
+}
+
+export function getInvitationUrl(invitationId: string): string {
+  return `${process.env.CLIENT_ORIGIN || "http://localhost:3000"}/accept-invitation?token=${invitationId}`;
+}
+
+/**
+ * Queues the invitation email in the outbox within the transaction that
+ * stores the invitation, so it is sent exactly when the invitation exists.
+ * It is written in the inviter's language, as far as it is supported, and
+ * branded with the organization's name and logo.
+ */
+export async function queueInvitationEmail(
+  tx: Parameters<typeof outboxRepository.enqueue>[0],
+  message: InvitationEmail,
+): Promise<void> {
+  const email = renderTemplate(
+    invitationEmail,
+    {
+      recipientName: message.recipientName,
+      inviterName: message.inviterName,
+      organizationName: message.organizationName,
+      role: message.role,
+      url: getInvitationUrl(message.invitationId),
+      expiresInDays: INVITATION_TTL_DAYS,
+    },
+    {
+      locale: message.locale,
+      branding: {
+        name: message.organizationName,
+        logoUrl: message.organizationLogo,
+        websiteUrl: message.organizationWebsite,
+      },
+    },
+  );
+
+  await outboxRepository.enqueue(tx, [
+    {
+      organizationId: message.organizationId,
+      topic: OutboxTopics.EMAIL,
+      payload: { to: message.email, ...email },
+    },
+  ]);
+}
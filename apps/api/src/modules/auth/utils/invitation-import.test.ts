@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { parseInvitationImportRows } from "./invitation-import";
+
+describe("parseInvitationImportRows", () => {
+  it("should read trimmed rows and skip blank lines, when given a spreadsheet csv", () => {
+    const csv =
+      "\uFEFFemail, role ,firstName,lastName,notes\r\n" +
+      " ada@example.com ,teacher,Ada,,first day\r\n" +
+      ",,,,\r\n" +
+      '"grace@example.com",student,Grace,Hopper,\r\n';
+
+    expect(parseInvitationImportRows("csv", csv)).toEqual([
+      { email: "ada@example.com", role: "teacher", firstName: "Ada" },
+      {
+        email: "grace@example.com",
+        role: "student",
+        firstName: "Grace",
+        lastName: "Hopper",
+      },
+    ]);
+  });
+
+  it("should keep only the invitation fields, when given a json array", () => {
+    const json = JSON.stringify([
+      { email: "ada@example.com", role: "teacher", studentMemberId: "x" },
+      "not an object",
+    ]);
+
+    expect(parseInvitationImportRows("json", json)).toEqual([
+      { email: "ada@example.com", role: "teacher" },
+      {},
+    ]);
+  });
+
+  it("should return undefined, when the file cannot be read in the format", () => {
+    expect(parseInvitationImportRows("json", "{not json")).toBeUndefined();
+    expect(parseInvitationImportRows("json", '{"email":"x"}')).toBeUndefined();
+    expect(
+      parseInvitationImportRows("csv", "name,role\nx,student"),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,83 @@
+import type { InvitationFileFormat } from "../schemas/auth.schema";
+import { parseCsv } from "../../../shared/utils/csv";
+
+type InvitationRow = Record<string, unknown>;
+
+// Fields a bulk invitation row may set. Anything else in the file is ignored.
+const INVITATION_COLUMNS = ["email", "role", "firstName", "lastName"];
+
+/**
+ * Turns a bulk invitation file into one raw invite input per row, leaving
+ * all validation to InviteMemberInputSchema. Returns undefined when the file
+ * itself cannot be read in the given format.
+ */
+export function parseInvitationImportRows(
+  format: InvitationFileFormat,
+  content: string,
+): InvitationRow[] | undefined {
+  const text = content.replace(/^\uFEFF/, "");
+
+  switch (format) {
+    case "csv":
+      return parseCsvRows(text);
+    case "json":
+      return parseJsonRows(text);
+  }
+}
+
+function parseJsonRows(text: string): InvitationRow[] | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+
+  if (!Array.isArray(parsed)) {
+    return undefined;
+  }
+
+  return parsed.map((row: unknown) => {
+    const invitationRow: InvitationRow = {};
+    if (row !== null && typeof row === "object") {
+      for (const column of INVITATION_COLUMNS) {
+        const value = (row as InvitationRow)[column];
+        if (value !== undefined && value !== null) {
+          invitationRow[column] = value;
+        }
+      }
+    }
+    return invitationRow;
+  });
+}
+
+/**
+ * Reads a csv file with a header row holding at least an email column.
+ * Cells are trimmed, since spreadsheets often pad them, and empty cells count
+ * as missing.
+ */
+function parseCsvRows(text: string): InvitationRow[] | undefined {
+  const records = parseCsv(text);
+  if (!records) {
+    return undefined;
+  }
+
+  const [header, ...rows] = records;
+  const columns = header?.map((column) => column.trim()) ?? [];
+  if (!columns.includes("email")) {
+    return undefined;
+  }
+
+  return rows
+    .filter((cells) => cells.some((cell) => cell.trim() !== ""))
+    .map((cells) => {
+      const row: InvitationRow = {};
+      columns.forEach((column, index) => {
+        const cell = (cells[index] ?? "").trim();
+        if (cell !== "" && INVITATION_COLUMNS.includes(column)) {
+          row[column] = cell;
+        }
+      });
+      return row;
+    });
+}
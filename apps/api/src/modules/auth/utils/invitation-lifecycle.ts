@@ -0,0 +1,22 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days an invitation link stays valid after it is sent or resent
+export const INVITATION_TTL_DAYS = 7;
+
+export function getInvitationExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + INVITATION_TTL_DAYS * DAY_MS);
+}
+
+/**
+ * Pending invitations past their expiry count as expired even before the
+ * expiry job has marked them, so every reader sees the same status.
+ */
+export function getInvitationStatus(
+  invitation: { status: string; expiresAt: Date },
+  now: Date = new Date(),
+): string {
+  if (invitation.status === "pending" && invitation.expiresAt <= now) {
+    return "expired";
+  }
+  return invitation.status;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateJoinCode,
+  getJoinLinkStatus,
+  isEmailOnDomains,
+} from "./join-link";
+
+describe("join link utils", () => {
+  const link = {
+    revokedAt: null,
+    expiresAt: null,
+    maxUses: null,
+    useCount: 0,
+  };
+  const now = new Date("2026-03-01T10:00:00Z");
+
+  it("should generate an eight character code without ambiguous characters, when called", () => {
+    const code = generateJoinCode();
+
+    expect(code).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+  });
+
+  it("should report the link status, when it is revoked, expired or used up", () => {
+    expect(getJoinLinkStatus(link, now)).toBe("active");
+    expect(getJoinLinkStatus({ ...link, revokedAt: now }, now)).toBe("revoked");
+    expect(
+      getJoinLinkStatus(
+        { ...link, expiresAt: new Date("2026-02-28T10:00:00Z") },
+        now,
+      ),
+    ).toBe("expired");
+    expect(getJoinLinkStatus({ ...link, maxUses: 3, useCount: 3 }, now)).toBe(
+      "exhausted",
+    );
+  });
+
+  it("should match the domain and its subdomains only, when checking an email", () => {
+    expect(isEmailOnDomains("Ada@School.edu", ["school.edu"])).toBe(true);
+    expect(isEmailOnDomains("ada@students.school.edu", ["school.edu"])).toBe(
+      true,
+    );
+    expect(isEmailOnDomains("ada@notschool.edu", ["school.edu"])).toBe(false);
+    expect(isEmailOnDomains("ada@school.edu", [])).toBe(false);
+  });
+});
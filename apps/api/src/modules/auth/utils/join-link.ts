@@ -0,0 +1,52 @@
+import crypto from "crypto";
+import {
+  JOIN_CODE_LENGTH,
+  type JoinLinkStatus,
+} from "../schemas/join-link.schema";
+
+// No 0/O or 1/I, so codes read aloud in class are not mistyped
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export function generateJoinCode(): string {
+  let code = "";
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+    code += JOIN_CODE_ALPHABET[crypto.randomInt(JOIN_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function getJoinLinkStatus(
+  link: {
+    revokedAt: Date | null;
+    expiresAt: Date | null;
+    maxUses: number | null;
+    useCount: number;
+  },
+  now: Date = new Date(),
+): JoinLinkStatus {
+  if (link.revokedAt) {
+    return "revoked";
+  }
+  if (link.expiresAt && link.expiresAt <= now) {
+    return "expired";
+  }
+  if (link.maxUses !== null && link.useCount >= link.maxUses) {
+    return "exhausted";
+  }
+  return "active";
+}
+
+export function getEmailDomain(email: string): string {
+  return email.slice(email.lastIndexOf("@") + 1).toLowerCase();
+}
+
+/**
+ * Checks whether the email belongs to one of the domains or to a subdomain
+ * of one, so "student.school.edu" addresses match "school.edu".
+ */
+export function isEmailOnDomains(email: string, domains: string[]): boolean {
+  const emailDomain = getEmailDomain(email);
+  return domains.some(
+    (domain) => emailDomain === domain || emailDomain.endsWith(`.${domain}`),
+  );
+}
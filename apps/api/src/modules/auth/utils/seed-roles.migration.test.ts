@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { readdirSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { PGlite } from "@electric-sql/pglite";
+import { roles } from "@repo/auth/permissions";
+
+const migrationsDir = resolve(
+  __dirname,
+  "../../../../../../packages/database/drizzle",
+);
+const migrations = readdirSync(migrationsDir)
+  .filter((file) => file.endsWith(".sql"))
+  .sort();
+const boardPermissionsMigration = migrations.indexOf(
+  "0025_board_permissions.sql",
+);
+
+async function migrate(database: PGlite, files: string[]) {
+  for (const file of files) {
+    const statements = readFileSync(resolve(migrationsDir, file), "utf8")
+      .split("--> statement-breakpoint")
+      .filter((statement) => statement.trim());
+    for (const statement of statements) {
+      await database.exec(statement);
+    }
+  }
+}
+
+describe("board permissions migration", () => {
+  let database: PGlite;
+
+  const boardActions = async (organizationId: string) => {
+    const { rows } = await database.query<{ name: string; actions: string[] }>(
+      `SELECT "role"."name", "permission"."actions" FROM "role"
+       INNER JOIN "permission" ON "permission"."role_id" = "role"."id"
+       WHERE "role"."organization_id" = $1 AND "permission"."resource" = 'board'`,
+      [organizationId],
+    );
+    return Object.fromEntries(rows.map((row) => [row.name, row.actions]));
+  };
+
+  beforeEach(async () => {
+    database = new PGlite();
+    await migrate(database, migrations.slice(0, boardPermissionsMigration));
+
+    // An organization seeded before boards existed
+    const {
+      rows: [organization],
+    } = await database.query<{ id: string }>(
+      `INSERT INTO "organization" ("name", "slug", "organization_type", "created_at")
+       VALUES ('Springfield', 'springfield', 'school', now()) RETURNING "id"`,
+    );
+    for (const [roleName, roleDefinition] of Object.entries(roles)) {
+      const {
+        rows: [role],
+      } = await database.query<{ id: string }>(
+        `INSERT INTO "role" ("organization_id", "name", "type")
+         VALUES ($1, $2, 'system') RETURNING "id"`,
+        [organization.id, roleName],
+      );
+      for (const [resource, actions] of Object.entries(
+        roleDefinition.statements,
+      )) {
+        if (resource === "board") continue;
+        await database.query(
+          `INSERT INTO "permission" ("role_id", "resource", "actions") VALUES ($1, $2, $3)`,
+          [role.id, resource, JSON.stringify(actions)],
+        );
+      }
+    }
+  }, 60_000);
+
+  it("should grant every system role its board actions, when the organization predates boards", async () => {
+    const [{ id: organizationId }] = (
+      await database.query<{ id: string }>(`SELECT "id" FROM "organization"`)
+    ).rows;
+    expect(await boardActions(organizationId)).toEqual({});
+
+    await migrate(database, migrations.slice(boardPermissionsMigration));
+
+    expect(await boardActions(organizationId)).toEqual(
+      Object.fromEntries(
+        Object.entries(roles).map(([roleName, roleDefinition]) => [
+          roleName,
+          roleDefinition.statements.board,
+        ]),
+      ),
+    );
+  }, 60_000);
+
+  it("should not duplicate board permissions, when a role already has them", async () => {
+    await migrate(database, migrations.slice(boardPermissionsMigration));
+    await migrate(database, [migrations[boardPermissionsMigration]]);
+
+    const { rows } = await database.query<{ count: number }>(
+      `SELECT count(*)::int AS "count" FROM "permission" WHERE "resource" = 'board'`,
+    );
+    expect(rows[0].count).toBe(Object.keys(roles).length);
+  }, 60_000);
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const updateElements = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/board.repository", () => ({
+  boardRepository: {
+    updateElements,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { applyBoardOperationHandler } from "./apply-board-operation.command";
+
+describe("applyBoardOperationHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const boardId = "22222222-2222-4222-8222-222222222222";
+  const text = {
+    id: "el-1",
+    type: "text",
+    x: 10,
+    y: 20,
+    text: "Hello",
+    fontSize: 16,
+    color: "#000000",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "student",
+      memberId: "member-1",
+    });
+    updateElements.mockImplementation(
+      async (
+        _organizationId: string,
+        id: string,
+        mutate: (elements: unknown[]) => unknown[] | undefined,
+      ) => {
+        const elements = mutate([text]);
+        return elements ? { id, elements, version: 2 } : undefined;
+      },
+    );
+  });
+
+  it("should return validation errors, when operation type is unknown", async () => {
+    const result = await applyBoardOperationHandler(
+      boardId,
+      { type: "element.rotate" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("OPERATION_TYPE_INVALID");
+    expect(updateElements).not.toHaveBeenCalled();
+  });
+
+  it("should return forbidden, when member cannot edit boards", async () => {
+    requireActivePermission.mockRejectedValue(new Error("forbidden"));
+
+    const result = await applyBoardOperationHandler(
+      boardId,
+      { type: "board.clear" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
+  });
+
+  it("should return duplicate error, when added element already exists", async () => {
+    const result = await applyBoardOperationHandler(
+      boardId,
+      { type: "element.add", element: text },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("DUPLICATE_RESOURCE");
+  });
+
+  it("should return not found, when board does not exist", async () => {
+    updateElements.mockResolvedValue(undefined);
+
+    const result = await applyBoardOperationHandler(
+      boardId,
+      { type: "board.clear" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should apply operation, when element exists", async () => {
+    const moved = { ...text, x: 50 };
+
+    const result = await applyBoardOperationHandler(
+      boardId,
+      { type: "element.update", element: moved },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data?.board.elements).toEqual([moved]);
+    expect(result.data?.operation).toEqual({
+      type: "element.update",
+      element: moved,
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  BoardIdParamSchema,
+  BoardOperationSchema,
+  type Board,
+  type BoardOperation,
+} from "../schemas/board.schema";
+import { boardRepository } from "../repository/board.repository";
+import { applyBoardOperation } from "../utils/apply-board-operation";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceError, ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function applyBoardOperationHandler(
+  id: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<{ board: Board; operation: BoardOperation }>> {
+  logger.debug("ApplyBoardOperationCommand received", { id });
+
+  const idParseResult = BoardIdParamSchema.safeParse({ id });
+  const operationParseResult = BoardOperationSchema.safeParse(input);
+  if (!idParseResult.success || !operationParseResult.success) {
+    const errors = [
+      ...(idParseResult.error ? mapZodErrors(idParseResult.error) : []),
+      ...(operationParseResult.error
+        ? mapZodErrors(operationParseResult.error)
+        : []),
+    ];
+    logger.warn("Validation failed for ApplyBoardOperationCommand", {
+      errors,
+    });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+  const operation = operationParseResult.data;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "board", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to edit boards",
+        },
+      ],
+    };
+  }
+
+  let rejection: ServiceError | undefined;
+  const updatedBoard = await boardRepository.updateElements(
+    access.organizationId,
+    validatedId,
+    (elements) => {
+      const result = applyBoardOperation(elements, operation);
+      if (!result.isApplied) {
+        rejection = result.error;
+        return undefined;
+      }
+      return result.elements;
+    },
+  );
+
+  if (rejection) {
+    logger.warn("Board operation rejected", {
+      boardId: validatedId,
+      code: rejection.code,
+    });
+    return {
+      errors: [rejection],
+      isSuccess: false,
+    };
+  }
+
+  if (!updatedBoard) {
+    logger.warn("Board not found for operation", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Board not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.debug("Board operation applied", {
+    boardId: validatedId,
+    type: operation.type,
+    version: updatedBoard.version,
+  });
+
+  return {
+    isSuccess: true,
+    data: { board: updatedBoard, operation },
+  };
+}
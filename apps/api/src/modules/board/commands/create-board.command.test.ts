@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const create = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/board.repository", () => ({
+  boardRepository: {
+    create,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { createBoardHandler } from "./create-board.command";
+
+describe("createBoardHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+  });
+
+  it("should return forbidden, when permission check fails", async () => {
+    requireActivePermission.mockRejectedValue(new Error("forbidden"));
+
+    const result = await createBoardHandler(
+      { title: "Lesson 1" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
+  });
+
+  it("should return validation errors, when element type is unknown", async () => {
+    const result = await createBoardHandler(
+      {
+        title: "Lesson 1",
+        elements: [{ id: "el-1", type: "video" }],
+      },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("ELEMENT_TYPE_INVALID");
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should return validation errors, when element ids are duplicated", async () => {
+    const text = {
+      id: "el-1",
+      type: "text",
+      x: 0,
+      y: 0,
+      text: "Hello",
+      fontSize: 16,
+      color: "#000000",
+    };
+
+    const result = await createBoardHandler(
+      { title: "Lesson 1", elements: [text, text] },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("ELEMENT_ID_DUPLICATE");
+  });
+
+  it("should create board, when input is valid", async () => {
+    const stroke = {
+      id: "el-1",
+      type: "stroke",
+      points: [
+        [0, 0],
+        [10, 12],
+      ],
+      color: "#ff0000",
+      strokeWidth: 2,
+    };
+    create.mockResolvedValue({ id: "board-1", title: "Lesson 1" });
+
+    const result = await createBoardHandler(
+      { title: "  Lesson 1  ", elements: [stroke] },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(create).toHaveBeenCalledWith(organizationId, memberId, {
+      title: "Lesson 1",
+      elements: [stroke],
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  CreateBoardInputSchema,
+  type CreateBoardInput,
+  type Board,
+} from "../schemas/board.schema";
+import { boardRepository } from "../repository/board.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function createBoardHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Board>> {
+  logger.debug("CreateBoardCommand received");
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "board", "create");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to create boards",
+        },
+      ],
+    };
+  }
+
+  const parseResult = CreateBoardInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for CreateBoardCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedInput: CreateBoardInput = parseResult.data;
+
+  const newBoard = await boardRepository.create(
+    access.organizationId,
+    access.memberId,
+    validatedInput,
+  );
+
+  logger.info("Board created successfully", {
+    boardId: newBoard.id,
+    organizationId: access.organizationId,
+  });
+
+  return {
+    data: newBoard,
+    isSuccess: true,
+  };
+}
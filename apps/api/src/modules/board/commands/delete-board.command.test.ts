@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const deleteBoard = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/board.repository", () => ({
+  boardRepository: {
+    delete: deleteBoard,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { deleteBoardHandler } from "./delete-board.command";
+
+describe("deleteBoardHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const boardId = "22222222-2222-4222-8222-222222222222";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId: "member-1",
+    });
+  });
+
+  it("should return not found, when board does not exist", async () => {
+    deleteBoard.mockResolvedValue(false);
+
+    const result = await deleteBoardHandler(boardId, {} as never, logger);
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should delete board, when board exists", async () => {
+    deleteBoard.mockResolvedValue(true);
+
+    const result = await deleteBoardHandler(boardId, {} as never, logger);
+
+    expect(result.isSuccess).toBe(true);
+    expect(deleteBoard).toHaveBeenCalledWith(organizationId, boardId);
+  });
+});
@@ -0,0 +1,67 @@
+import { BoardIdParamSchema } from "../schemas/board.schema";
+import { boardRepository } from "../repository/board.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function deleteBoardHandler(
+  id: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<{ success: boolean }>> {
+  logger.debug("DeleteBoardCommand received", { id });
+
+  const parseResult = BoardIdParamSchema.safeParse({ id });
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Invalid board ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = parseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "board", "delete");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to delete boards",
+        },
+      ],
+    };
+  }
+
+  const isDeleted = await boardRepository.delete(
+    access.organizationId,
+    validatedId,
+  );
+  if (!isDeleted) {
+    logger.warn("Board not found for deletion", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Board not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Board deleted successfully", { boardId: validatedId });
+
+  return {
+    isSuccess: true,
+    data: { success: true },
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const update = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/board.repository", () => ({
+  boardRepository: {
+    update,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { updateBoardHandler } from "./update-board.command";
+
+describe("updateBoardHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const boardId = "22222222-2222-4222-8222-222222222222";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId: "member-1",
+    });
+  });
+
+  it("should return validation errors, when board id is invalid", async () => {
+    const result = await updateBoardHandler(
+      "bad",
+      { title: "Renamed" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INVALID_BOARD_ID_FORMAT");
+  });
+
+  it("should return not found, when board does not exist", async () => {
+    update.mockResolvedValue(undefined);
+
+    const result = await updateBoardHandler(
+      boardId,
+      { title: "Renamed" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should update board, when input is valid", async () => {
+    update.mockResolvedValue({ id: boardId, title: "Renamed" });
+
+    const result = await updateBoardHandler(
+      boardId,
+      { title: "Renamed" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(update).toHaveBeenCalledWith(organizationId, boardId, {
+      title: "Renamed",
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  UpdateBoardInputSchema,
+  BoardIdParamSchema,
+  type UpdateBoardInput,
+  type Board,
+} from "../schemas/board.schema";
+import { boardRepository } from "../repository/board.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function updateBoardHandler(
+  id: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Board>> {
+  logger.debug("UpdateBoardCommand received", { id });
+
+  const idParseResult = BoardIdParamSchema.safeParse({ id });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid board ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "board", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to update boards",
+        },
+      ],
+    };
+  }
+
+  const parseResult = UpdateBoardInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for UpdateBoardCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedInput: UpdateBoardInput = parseResult.data;
+
+  const updatedBoard = await boardRepository.update(
+    access.organizationId,
+    validatedId,
+    validatedInput,
+  );
+  if (!updatedBoard) {
+    logger.warn("Board not found for update", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Board not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Board updated successfully", { boardId: validatedId });
+
+  return {
+    isSuccess: true,
+    data: updatedBoard,
+  };
+}
@@ -0,0 +1,37 @@
+import type { BoardSummary } from "../schemas/board.schema";
+import { boardRepository } from "../repository/board.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+
+export async function getAllBoardsHandler(
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<BoardSummary[]>> {
+  logger.debug("GetAllBoardsQuery received");
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "board", "read");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to read boards",
+        },
+      ],
+    };
+  }
+
+  const boards = await boardRepository.findAll(access.organizationId);
+
+  logger.debug("Boards retrieved", { count: boards.length });
+
+  return {
+    isSuccess: true,
+    data: boards,
+  };
+}
@@ -0,0 +1,68 @@
+import type { Board } from "../schemas/board.schema";
+import { BoardIdParamSchema } from "../schemas/board.schema";
+import { boardRepository } from "../repository/board.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function getBoardByIdHandler(
+  id: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Board>> {
+  logger.debug("GetBoardByIdQuery received", { id });
+
+  const parseResult = BoardIdParamSchema.safeParse({ id });
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Invalid board ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = parseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "board", "read");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to read boards",
+        },
+      ],
+    };
+  }
+
+  const existingBoard = await boardRepository.findById(
+    access.organizationId,
+    validatedId,
+  );
+  if (!existingBoard) {
+    logger.warn("Board not found", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Board not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.debug("Board retrieved", { boardId: validatedId });
+
+  return {
+    isSuccess: true,
+    data: existingBoard,
+  };
+}
@@ -0,0 +1,144 @@
+import type {
+  Board,
+  BoardElement,
+  BoardSummary,
+  CreateBoardInput,
+  UpdateBoardInput,
+} from "../schemas/board.schema";
+import { db, eq, and, desc, sql } from "@repo/database";
+import { board, type BoardEntity } from "@repo/database/schema/board";
+
+export const boardRepository = {
+  findAll: async (organizationId: string): Promise<BoardSummary[]> => {
+    const rows = await db
+      .select({
+        id: board.id,
+        organizationId: board.organizationId,
+        title: board.title,
+        version: board.version,
+        createdByMemberId: board.createdByMemberId,
+        createdAt: board.createdAt,
+        updatedAt: board.updatedAt,
+      })
+      .from(board)
+      .where(eq(board.organizationId, organizationId))
+      .orderBy(desc(board.updatedAt));
+
+    return rows;
+  },
+
+  findById: async (
+    organizationId: string,
+    id: string,
+  ): Promise<Board | undefined> => {
+    const [row] = await db
+      .select()
+      .from(board)
+      .where(and(eq(board.id, id), eq(board.organizationId, organizationId)))
+      .limit(1);
+
+    return row ? mapBoardFromDb(row) : undefined;
+  },
+
+  create: async (
+    organizationId: string,
+    createdByMemberId: string,
+    input: CreateBoardInput,
+  ): Promise<Board> => {
+    const [newBoard] = await db
+      .insert(board)
+      .values({
+        organizationId,
+        createdByMemberId,
+        title: input.title,
+        elements: input.elements,
+      })
+      .returning();
+
+    return mapBoardFromDb(newBoard);
+  },
+
+  update: async (
+    organizationId: string,
+    id: string,
+    input: UpdateBoardInput,
+  ): Promise<Board | undefined> => {
+    const updateData: Record<string, unknown> = { updatedAt: new Date() };
+    if (input.title !== undefined) updateData.title = input.title;
+    if (input.elements !== undefined) {
+      updateData.elements = input.elements;
+      updateData.version = sql`${board.version} + 1`;
+    }
+
+    const [updated] = await db
+      .update(board)
+      .set(updateData)
+      .where(and(eq(board.id, id), eq(board.organizationId, organizationId)))
+      .returning();
+
+    return updated ? mapBoardFromDb(updated) : undefined;
+  },
+
+  /**
+   * Locks the board row, lets `mutate` derive the next element list and
+   * persists it. Returns undefined when the board does not exist or when
+   * `mutate` rejects the change by returning undefined.
+   */
+  updateElements: async (
+    organizationId: string,
+    id: string,
+    mutate: (elements: BoardElement[]) => BoardElement[] | undefined,
+  ): Promise<Board | undefined> => {
+    return db.transaction(async (tx) => {
+      const [row] = await tx
+        .select()
+        .from(board)
+        .where(and(eq(board.id, id), eq(board.organizationId, organizationId)))
+        .limit(1)
+        .for("update");
+
+      if (!row) {
+        return undefined;
+      }
+
+      const elements = mutate(row.elements as BoardElement[]);
+      if (!elements) {
+        return undefined;
+      }
+
+      const [updated] = await tx
+        .update(board)
+        .set({
+          elements,
+          version: sql`${board.version} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(board.id, id))
+        .returning();
+
+      return mapBoardFromDb(updated);
+    });
+  },
+
+  delete: async (organizationId: string, id: string): Promise<boolean> => {
+    const results = await db
+      .delete(board)
+      .where(and(eq(board.id, id), eq(board.organizationId, organizationId)))
+      .returning({ id: board.id });
+
+    return results.length > 0;
+  },
+};
+
+function mapBoardFromDb(row: BoardEntity): Board {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    title: row.title,
+    elements: row.elements as BoardElement[],
+    version: row.version,
+    createdByMemberId: row.createdByMemberId,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
@@ -0,0 +1,185 @@
+import { z } from "zod";
+
+export const BoardValidationErrorCodes = {
+  BOARD_TITLE_REQUIRED: "BOARD_TITLE_REQUIRED",
+  BOARD_TITLE_MAX_LENGTH: "BOARD_TITLE_MAX_LENGTH",
+  INVALID_BOARD_ID_FORMAT: "INVALID_BOARD_ID_FORMAT",
+  ELEMENT_ID_REQUIRED: "ELEMENT_ID_REQUIRED",
+  ELEMENT_ID_MAX_LENGTH: "ELEMENT_ID_MAX_LENGTH",
+  ELEMENT_TYPE_INVALID: "ELEMENT_TYPE_INVALID",
+  ELEMENT_COORDINATE_INVALID: "ELEMENT_COORDINATE_INVALID",
+  ELEMENT_SIZE_INVALID: "ELEMENT_SIZE_INVALID",
+  ELEMENT_COLOR_INVALID: "ELEMENT_COLOR_INVALID",
+  ELEMENT_TEXT_MAX_LENGTH: "ELEMENT_TEXT_MAX_LENGTH",
+  ELEMENT_IMAGE_URL_INVALID: "ELEMENT_IMAGE_URL_INVALID",
+  STROKE_POINTS_REQUIRED: "STROKE_POINTS_REQUIRED",
+  SHAPE_KIND_INVALID: "SHAPE_KIND_INVALID",
+  ELEMENTS_MAX_COUNT: "ELEMENTS_MAX_COUNT",
+  ELEMENT_ID_DUPLICATE: "ELEMENT_ID_DUPLICATE",
+  OPERATION_TYPE_INVALID: "OPERATION_TYPE_INVALID",
+} as const;
+
+const MAX_ELEMENTS = 5000;
+
+const CoordinateSchema = z.number({
+  message: BoardValidationErrorCodes.ELEMENT_COORDINATE_INVALID,
+});
+
+const SizeSchema = z
+  .number({ message: BoardValidationErrorCodes.ELEMENT_SIZE_INVALID })
+  .nonnegative({ message: BoardValidationErrorCodes.ELEMENT_SIZE_INVALID });
+
+const ColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, {
+  message: BoardValidationErrorCodes.ELEMENT_COLOR_INVALID,
+});
+
+const ElementIdSchema = z
+  .string()
+  .min(1, { message: BoardValidationErrorCodes.ELEMENT_ID_REQUIRED })
+  .max(100, { message: BoardValidationErrorCodes.ELEMENT_ID_MAX_LENGTH });
+
+export const StrokeElementSchema = z.object({
+  id: ElementIdSchema,
+  type: z.literal("stroke"),
+  points: z
+    .array(z.tuple([CoordinateSchema, CoordinateSchema]))
+    .min(1, { message: BoardValidationErrorCodes.STROKE_POINTS_REQUIRED }),
+  color: ColorSchema,
+  strokeWidth: SizeSchema,
+});
+
+export const ShapeElementSchema = z.object({
+  id: ElementIdSchema,
+  type: z.literal("shape"),
+  shape: z.enum(["rectangle", "ellipse", "line", "arrow"], {
+    message: BoardValidationErrorCodes.SHAPE_KIND_INVALID,
+  }),
+  x: CoordinateSchema,
+  y: CoordinateSchema,
+  width: z.number({
+    message: BoardValidationErrorCodes.ELEMENT_SIZE_INVALID,
+  }),
+  height: z.number({
+    message: BoardValidationErrorCodes.ELEMENT_SIZE_INVALID,
+  }),
+  color: ColorSchema,
+  fillColor: ColorSchema.optional(),
+  strokeWidth: SizeSchema,
+});
+
+export const TextElementSchema = z.object({
+  id: ElementIdSchema,
+  type: z.literal("text"),
+  x: CoordinateSchema,
+  y: CoordinateSchema,
+  text: z
+    .string()
+    .max(5000, { message: BoardValidationErrorCodes.ELEMENT_TEXT_MAX_LENGTH }),
+  fontSize: SizeSchema,
+  color: ColorSchema,
+});
+
+export const ImageElementSchema = z.object({
+  id: ElementIdSchema,
+  type: z.literal("image"),
+  x: CoordinateSchema,
+  y: CoordinateSchema,
+  width: SizeSchema,
+  height: SizeSchema,
+  url: z
+    .string()
+    .url({ message: BoardValidationErrorCodes.ELEMENT_IMAGE_URL_INVALID }),
+});
+
+export const BoardElementSchema = z.discriminatedUnion(
+  "type",
+  [
+    StrokeElementSchema,
+    ShapeElementSchema,
+    TextElementSchema,
+    ImageElementSchema,
+  ],
+  { message: BoardValidationErrorCodes.ELEMENT_TYPE_INVALID },
+);
+
+export type BoardElement = z.infer<typeof BoardElementSchema>;
+
+const BoardElementListSchema = z
+  .array(BoardElementSchema)
+  .max(MAX_ELEMENTS, { message: BoardValidationErrorCodes.ELEMENTS_MAX_COUNT })
+  .refine(
+    (elements) =>
+      new Set(elements.map((element) => element.id)).size === elements.length,
+    { message: BoardValidationErrorCodes.ELEMENT_ID_DUPLICATE },
+  );
+
+export const BoardSchema = z.object({
+  id: z
+    .string()
+    .uuid({ message: BoardValidationErrorCodes.INVALID_BOARD_ID_FORMAT }),
+  organizationId: z.string().uuid(),
+  title: z.string(),
+  elements: z.array(BoardElementSchema),
+  version: z.number().int(),
+  createdByMemberId: z.string().uuid().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Board = z.infer<typeof BoardSchema>;
+
+export const BoardSummarySchema = BoardSchema.omit({ elements: true });
+
+export type BoardSummary = z.infer<typeof BoardSummarySchema>;
+
+const TitleSchema = z
+  .string()
+  .trim()
+  .min(1, { message: BoardValidationErrorCodes.BOARD_TITLE_REQUIRED })
+  .max(200, { message: BoardValidationErrorCodes.BOARD_TITLE_MAX_LENGTH });
+
+export const CreateBoardInputSchema = z.object({
+  title: TitleSchema,
+  elements: BoardElementListSchema.optional().default([]),
+});
+
+export type CreateBoardInput = z.infer<typeof CreateBoardInputSchema>;
+
+export const UpdateBoardInputSchema = z.object({
+  title: TitleSchema.optional(),
+  elements: BoardElementListSchema.optional(),
+});
+
+export type UpdateBoardInput = z.infer<typeof UpdateBoardInputSchema>;
+
+export const BoardIdParamSchema = z.object({
+  id: z
+    .string()
+    .uuid({ message: BoardValidationErrorCodes.INVALID_BOARD_ID_FORMAT }),
+});
+
+export type BoardIdParam = z.infer<typeof BoardIdParamSchema>;
+
+export const BoardOperationSchema = z.discriminatedUnion(
+  "type",
+  [
+    z.object({
+      type: z.literal("element.add"),
+      element: BoardElementSchema,
+    }),
+    z.object({
+      type: z.literal("element.update"),
+      element: BoardElementSchema,
+    }),
+    z.object({
+      type: z.literal("element.remove"),
+      elementId: ElementIdSchema,
+    }),
+    z.object({
+      type: z.literal("board.clear"),
+    }),
+  ],
+  { message: BoardValidationErrorCodes.OPERATION_TYPE_INVALID },
+);
+
+export type BoardOperation = z.infer<typeof BoardOperationSchema>;
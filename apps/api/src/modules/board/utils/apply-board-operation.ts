@@ -0,0 +1,71 @@
+import type { BoardElement, BoardOperation } from "../schemas/board.schema";
+
+export type BoardOperationResult =
+  | {
+      isApplied: true;
+      elements: BoardElement[];
+    }
+  | {
+      isApplied: false;
+      error: {
+        code: string;
+        message: string;
+        value?: string;
+      };
+    };
+
+export function applyBoardOperation(
+  elements: BoardElement[],
+  operation: BoardOperation,
+): BoardOperationResult {
+  switch (operation.type) {
+    case "element.add": {
+      if (elements.some((element) => element.id === operation.element.id)) {
+        return {
+          isApplied: false,
+          error: {
+            code: "DUPLICATE_RESOURCE",
+            message: "Element already exists on this board",
+            value: operation.element.id,
+          },
+        };
+      }
+      return { isApplied: true, elements: [...elements, operation.element] };
+    }
+    case "element.update": {
+      const index = elements.findIndex(
+        (element) => element.id === operation.element.id,
+      );
+      if (index === -1) {
+        return elementNotFound(operation.element.id);
+      }
+      const updatedElements = [...elements];
+      updatedElements[index] = operation.element;
+      return { isApplied: true, elements: updatedElements };
+    }
+    case "element.remove": {
+      if (!elements.some((element) => element.id === operation.elementId)) {
+        return elementNotFound(operation.elementId);
+      }
+      return {
+        isApplied: true,
+        elements: elements.filter(
+          (element) => element.id !== operation.elementId,
+        ),
+      };
+    }
+    case "board.clear":
+      return { isApplied: true, elements: [] };
+  }
+}
+
+function elementNotFound(elementId: string): BoardOperationResult {
+  return {
+    isApplied: false,
+    error: {
+      code: "RESOURCE_NOT_FOUND",
+      message: "Element not found on this board",
+      value: elementId,
+    },
+  };
+}
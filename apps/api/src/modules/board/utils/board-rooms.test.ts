@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+import { createBoardRooms } from "./board-rooms";
+
+function createSocket(readyState = 1) {
+  return {
+    readyState,
+    send: vi.fn(),
+    close: vi.fn(),
+  };
+}
+
+describe("createBoardRooms", () => {
+  const boardId = "22222222-2222-4222-8222-222222222222";
+
+  it("should broadcast to open sockets of the same board, when a message is sent", () => {
+    const rooms = createBoardRooms();
+    const viewer = createSocket();
+    const closingViewer = createSocket(2);
+    const otherBoardViewer = createSocket();
+    rooms.join(boardId, viewer);
+    rooms.join(boardId, closingViewer);
+    rooms.join("other-board", otherBoardViewer);
+
+    rooms.broadcast(boardId, { type: "board.deleted", boardId });
+
+    expect(viewer.send).toHaveBeenCalledWith(
+      JSON.stringify({ type: "board.deleted", boardId }),
+    );
+    expect(closingViewer.send).not.toHaveBeenCalled();
+    expect(otherBoardViewer.send).not.toHaveBeenCalled();
+  });
+
+  it("should drop the room, when the last viewer leaves", () => {
+    const rooms = createBoardRooms();
+    const viewer = createSocket();
+    rooms.join(boardId, viewer);
+
+    rooms.leave(boardId, viewer);
+
+    expect(rooms.viewerCount(boardId)).toBe(0);
+  });
+
+  it("should notify and disconnect every viewer, when the room is closed", () => {
+    const rooms = createBoardRooms();
+    const viewer = createSocket();
+    rooms.join(boardId, viewer);
+
+    rooms.close(boardId, { type: "board.deleted", boardId });
+
+    expect(viewer.send).toHaveBeenCalledTimes(1);
+    expect(viewer.close).toHaveBeenCalledWith(1000, "Board closed");
+    expect(rooms.viewerCount(boardId)).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+import type { Board, BoardOperation } from "../schemas/board.schema";
+import type { ServiceError } from "@utils/ServiceResult";
+
+const SOCKET_OPEN = 1;
+
+export type BoardSocket = {
+  readyState: number;
+  send: (data: string) => void;
+  close: (code?: number, reason?: string) => void;
+};
+
+export type BoardRealtimeMessage =
+  | { type: "board.snapshot"; board: Board }
+  | {
+      type: "board.operation";
+      operation: BoardOperation;
+      version: number;
+      userId?: string;
+    }
+  | { type: "board.updated"; board: Board }
+  | { type: "board.deleted"; boardId: string }
+  | { type: "error"; errors: ServiceError[] };
+
+/**
+ * Tracks the sockets viewing each board so element operations can be fanned
+ * out to every viewer. State is held in memory, so viewers only see each
+ * other when they are connected to the same API instance.
+ */
+export function createBoardRooms() {
+  const rooms = new Map<string, Set<BoardSocket>>();
+
+  const send = (socket: BoardSocket, message: BoardRealtimeMessage) => {
+    if (socket.readyState === SOCKET_OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  return {
+    join(boardId: string, socket: BoardSocket): void {
+      const sockets = rooms.get(boardId) ?? new Set<BoardSocket>();
+      sockets.add(socket);
+      rooms.set(boardId, sockets);
+    },
+
+    leave(boardId: string, socket: BoardSocket): void {
+      const sockets = rooms.get(boardId);
+      if (!sockets) return;
+
+      sockets.delete(socket);
+      if (sockets.size === 0) {
+        rooms.delete(boardId);
+      }
+    },
+
+    send,
+
+    broadcast(boardId: string, message: BoardRealtimeMessage): void {
+      const sockets = rooms.get(boardId);
+      if (!sockets) return;
+
+      const payload = JSON.stringify(message);
+      for (const socket of sockets) {
+        if (socket.readyState === SOCKET_OPEN) {
+          socket.send(payload);
+        }
+      }
+    },
+
+    close(boardId: string, message: BoardRealtimeMessage): void {
+      const sockets = rooms.get(boardId);
+      if (!sockets) return;
+
+      for (const socket of sockets) {
+        send(socket, message);
+        socket.close(1000, "Board closed");
+      }
+      rooms.delete(boardId);
+    },
+
+    viewerCount(boardId: string): number {
+      return rooms.get(boardId)?.size ?? 0;
+    },
+  };
+}
+
+export const boardRooms = createBoardRooms();
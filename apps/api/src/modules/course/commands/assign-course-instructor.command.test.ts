@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findById = vi.hoisted(() => vi.fn());
+const addInstructor = vi.hoisted(() => vi.fn());
+const validateInstructors = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/course.repository", () => ({
+  courseRepository: {
+    findById,
+    addInstructor,
+  },
+}));
+
+vi.mock("../validators/course.validator", () => ({
+  courseValidator: {
+    validateInstructors,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { assignCourseInstructorHandler } from "./assign-course-instructor.command";
+
+describe("assignCourseInstructorHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const courseId = "22222222-2222-4222-8222-222222222222";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+  const course = {
+    id: courseId,
+    organizationId,
+    name: "Algebra",
+    code: "MATH-101",
+    instructors: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "admin",
+      memberId: "member-1",
+    });
+  });
+
+  it("should return validation errors, when member id is invalid", async () => {
+    findById.mockResolvedValue(course);
+
+    const result = await assignCourseInstructorHandler(
+      courseId,
+      { memberId: "bad" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("MEMBER_ID_INVALID");
+  });
+
+  it("should return instructor errors, when member is not a teacher", async () => {
+    findById.mockResolvedValue(course);
+    validateInstructors.mockResolvedValue({
+      isValid: false,
+      errors: [{ code: "INSTRUCTOR_NOT_TEACHER", value: memberId }],
+    });
+
+    const result = await assignCourseInstructorHandler(
+      courseId,
+      { memberId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INSTRUCTOR_NOT_TEACHER");
+    expect(addInstructor).not.toHaveBeenCalled();
+  });
+
+  it("should assign instructor, when member is a teacher", async () => {
+    const instructor = {
+      memberId,
+      userId: "user-1",
+      firstName: "Ada",
+      lastName: "Lovelace",
+      email: "ada@example.com",
+    };
+    findById
+      .mockResolvedValueOnce(course)
+      .mockResolvedValueOnce({ ...course, instructors: [instructor] });
+    validateInstructors.mockResolvedValue({ isValid: true });
+
+    const result = await assignCourseInstructorHandler(
+      courseId,
+      { memberId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(addInstructor).toHaveBeenCalledWith(courseId, memberId);
+    expect(result.data?.instructors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  CourseIdParamSchema,
+  CourseInstructorInputSchema,
+  type Course,
+} from "../schemas/course.schema";
+import { courseRepository } from "../repository/course.repository";
+import { courseValidator } from "../validators/course.validator";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function assignCourseInstructorHandler(
+  id: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Course>> {
+  logger.debug("AssignCourseInstructorCommand received", { id, input });
+
+  const idParseResult = CourseIdParamSchema.safeParse({ id });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid course ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "course", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to assign course instructors",
+        },
+      ],
+    };
+  }
+
+  const { organizationId } = access;
+
+  const existingCourse = await courseRepository.findById(
+    organizationId,
+    validatedId,
+  );
+  if (!existingCourse) {
+    logger.warn("Course not found for instructor assignment", {
+      id: validatedId,
+    });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const parseResult = CourseInstructorInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for AssignCourseInstructorCommand", {
+      errors,
+    });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { memberId } = parseResult.data;
+
+  const instructorValidation = await courseValidator.validateInstructors(
+    organizationId,
+    [memberId],
+  );
+  if (!instructorValidation.isValid) {
+    return {
+      isSuccess: false,
+      errors: instructorValidation.errors,
+    };
+  }
+
+  await courseRepository.addInstructor(validatedId, memberId);
+
+  const updatedCourse = await courseRepository.findById(
+    organizationId,
+    validatedId,
+  );
+  if (!updatedCourse) {
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Course instructor assigned", {
+    courseId: validatedId,
+    memberId,
+  });
+
+  return {
+    isSuccess: true,
+    data: updatedCourse,
+  };
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const create = vi.hoisted(() => vi.fn());
+const validateCodeUniqueness = vi.hoisted(() => vi.fn());
+const validateInstructors = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/course.repository", () => ({
+  courseRepository: {
+    create,
+  },
+}));
+
+vi.mock("../validators/course.validator", () => ({
+  courseValidator: {
+    validateCodeUniqueness,
+    validateInstructors,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { createCourseHandler } from "./create-course.command";
+
+describe("createCourseHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "admin",
+      memberId: "member-1",
+    });
+  });
+
+  it("should return forbidden, when permission check fails", async () => {
+    requireActivePermission.mockRejectedValue(new Error("forbidden"));
+
+    const result = await createCourseHandler(
+      { name: "Algebra", code: "MATH-101" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
+  });
+
+  it("should return validation errors, when input is invalid", async () => {
+    const result = await createCourseHandler({}, {} as never, logger);
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.length).toBeGreaterThan(0);
+  });
+
+  it("should return duplicate error, when course code already exists", async () => {
+    validateCodeUniqueness.mockResolvedValue({
+      isValid: false,
+      errors: [{ code: "DUPLICATE_COURSE_CODE", value: "MATH-101" }],
+    });
+
+    const result = await createCourseHandler(
+      { name: "Algebra", code: "MATH-101" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("DUPLICATE_COURSE_CODE");
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should return instructor errors, when instructor is not a teacher", async () => {
+    validateCodeUniqueness.mockResolvedValue({ isValid: true });
+    validateInstructors.mockResolvedValue({
+      isValid: false,
+      errors: [{ code: "INSTRUCTOR_NOT_TEACHER" }],
+    });
+
+    const result = await createCourseHandler(
+      {
+        name: "Algebra",
+        code: "MATH-101",
+        instructorMemberIds: ["11111111-1111-4111-8111-111111111111"],
+      },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INSTRUCTOR_NOT_TEACHER");
+  });
+
+  it("should create a course, when input is valid", async () => {
+    const course = {
+      id: "22222222-2222-4222-8222-222222222222",
+      organizationId,
+      name: "Algebra",
+      code: "MATH-101",
+      instructors: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    validateCodeUniqueness.mockResolvedValue({ isValid: true });
+    validateInstructors.mockResolvedValue({ isValid: true });
+    create.mockResolvedValue(course);
+
+    const result = await createCourseHandler(
+      { name: "Algebra", code: "MATH-101" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data).toEqual(course);
+    expect(create).toHaveBeenCalledWith(organizationId, {
+      name: "Algebra",
+      code: "MATH-101",
+      instructorMemberIds: [],
+    });
+  });
+});
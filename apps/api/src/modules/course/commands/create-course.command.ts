@@ -0,0 +1,85 @@
+import {
+  CreateCourseInputSchema,
+  type CreateCourseInput,
+  type Course,
+} from "../schemas/course.schema";
+import { courseRepository } from "../repository/course.repository";
+import { courseValidator } from "../validators/course.validator";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function createCourseHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Course>> {
+  logger.debug("CreateCourseCommand received", { input });
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "course", "create");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to create courses",
+        },
+      ],
+    };
+  }
+
+  const parseResult = CreateCourseInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for CreateCourseCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedInput: CreateCourseInput = parseResult.data;
+  const { organizationId } = access;
+
+  const codeValidation = await courseValidator.validateCodeUniqueness(
+    organizationId,
+    validatedInput.code,
+  );
+  if (!codeValidation.isValid) {
+    return {
+      isSuccess: false,
+      errors: codeValidation.errors,
+    };
+  }
+
+  const instructorValidation = await courseValidator.validateInstructors(
+    organizationId,
+    validatedInput.instructorMemberIds,
+  );
+  if (!instructorValidation.isValid) {
+    return {
+      isSuccess: false,
+      errors: instructorValidation.errors,
+    };
+  }
+
+  const newCourse = await courseRepository.create(
+    organizationId,
+    validatedInput,
+  );
+
+  logger.info("Course created successfully", {
+    courseId: newCourse.id,
+    organizationId,
+  });
+
+  return {
+    data: newCourse,
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const deleteCourse = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/course.repository", () => ({
+  courseRepository: {
+    delete: deleteCourse,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { deleteCourseHandler } from "./delete-course.command";
+
+describe("deleteCourseHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const courseId = "22222222-2222-4222-8222-222222222222";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "admin",
+      memberId: "member-1",
+    });
+  });
+
+  it("should return forbidden, when permission check fails", async () => {
+    requireActivePermission.mockRejectedValue(new Error("forbidden"));
+
+    const result = await deleteCourseHandler(courseId, {} as never, logger);
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
+    expect(deleteCourse).not.toHaveBeenCalled();
+  });
+
+  it("should return not found, when course is missing", async () => {
+    deleteCourse.mockResolvedValue(false);
+
+    const result = await deleteCourseHandler(courseId, {} as never, logger);
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should delete course, when course exists", async () => {
+    deleteCourse.mockResolvedValue(true);
+
+    const result = await deleteCourseHandler(courseId, {} as never, logger);
+
+    expect(result.isSuccess).toBe(true);
+    expect(deleteCourse).toHaveBeenCalledWith(organizationId, courseId);
+  });
+});
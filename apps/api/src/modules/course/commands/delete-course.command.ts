@@ -0,0 +1,70 @@
+import { CourseIdParamSchema } from "../schemas/course.schema";
+import { courseRepository } from "../repository/course.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function deleteCourseHandler(
+  id: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<{ success: boolean }>> {
+  logger.debug("DeleteCourseCommand received", { id });
+
+  const parseResult = CourseIdParamSchema.safeParse({ id });
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Invalid course ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = parseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "course", "delete");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to delete courses",
+        },
+      ],
+    };
+  }
+
+  const isDeleted = await courseRepository.delete(
+    access.organizationId,
+    validatedId,
+  );
+  if (!isDeleted) {
+    logger.warn("Course not found for deletion", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Course deleted successfully", {
+    courseId: validatedId,
+    organizationId: access.organizationId,
+  });
+
+  return {
+    data: { success: true },
+    isSuccess: true,
+  };
+}
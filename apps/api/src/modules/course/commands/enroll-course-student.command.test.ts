@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findById = vi.hoisted(() => vi.fn());
+const addStudent = vi.hoisted(() => vi.fn());
+const validateStudent = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/course.repository", () => ({
+  courseRepository: {
+    findById,
+    addStudent,
+  },
+}));
+
+vi.mock("../validators/course.validator", () => ({
+  courseValidator: {
+    validateStudent,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { enrollCourseStudentHandler } from "./enroll-course-student.command";
+
+describe("enrollCourseStudentHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const courseId = "22222222-2222-4222-8222-222222222222";
+  const studentMemberId = "33333333-3333-4333-8333-333333333333";
+  const course = {
+    id: courseId,
+    organizationId,
+    name: "Algebra",
+    code: "MATH-101",
+    instructors: [],
+    students: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "admin",
+      memberId: "member-1",
+    });
+  });
+
+  it("should return not found, when course does not exist", async () => {
+    findById.mockResolvedValue(null);
+
+    const result = await enrollCourseStudentHandler(
+      courseId,
+      { studentMemberId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+    expect(addStudent).not.toHaveBeenCalled();
+  });
+
+  it("should return student errors, when member is not a student", async () => {
+    findById.mockResolvedValue(course);
+    validateStudent.mockResolvedValue({
+      isValid: false,
+      errors: [{ code: "MEMBER_NOT_STUDENT", value: studentMemberId }],
+    });
+
+    const result = await enrollCourseStudentHandler(
+      courseId,
+      { studentMemberId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("MEMBER_NOT_STUDENT");
+    expect(addStudent).not.toHaveBeenCalled();
+  });
+
+  it("should enroll student, when member is a student", async () => {
+    const enrolledCourse = {
+      ...course,
+      students: [{ memberId: studentMemberId, userId: "user-1" }],
+    };
+    findById
+      .mockResolvedValueOnce(course)
+      .mockResolvedValueOnce(enrolledCourse);
+    validateStudent.mockResolvedValue({ isValid: true, errors: [] });
+
+    const result = await enrollCourseStudentHandler(
+      courseId,
+      { studentMemberId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(addStudent).toHaveBeenCalledWith(courseId, studentMemberId);
+    expect(result.data).toEqual(enrolledCourse);
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  CourseIdParamSchema,
+  CourseStudentInputSchema,
+  type Course,
+} from "../schemas/course.schema";
+import { courseRepository } from "../repository/course.repository";
+import { courseValidator } from "../validators/course.validator";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function enrollCourseStudentHandler(
+  id: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Course>> {
+  logger.debug("EnrollCourseStudentCommand received", { id, input });
+
+  const idParseResult = CourseIdParamSchema.safeParse({ id });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid course ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "course", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to enroll course students",
+        },
+      ],
+    };
+  }
+
+  const { organizationId } = access;
+
+  const existingCourse = await courseRepository.findById(
+    organizationId,
+    validatedId,
+  );
+  if (!existingCourse) {
+    logger.warn("Course not found for student enrollment", {
+      id: validatedId,
+    });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const parseResult = CourseStudentInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for EnrollCourseStudentCommand", {
+      errors,
+    });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { studentMemberId } = parseResult.data;
+
+  const studentValidation = await courseValidator.validateStudent(
+    organizationId,
+    studentMemberId,
+  );
+  if (!studentValidation.isValid) {
+    return {
+      isSuccess: false,
+      errors: studentValidation.errors,
+    };
+  }
+
+  await courseRepository.addStudent(validatedId, studentMemberId);
+
+  const updatedCourse = await courseRepository.findById(
+    organizationId,
+    validatedId,
+  );
+  if (!updatedCourse) {
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Course student enrolled", {
+    courseId: validatedId,
+    studentMemberId,
+  });
+
+  return {
+    isSuccess: true,
+    data: updatedCourse,
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findById = vi.hoisted(() => vi.fn());
+const removeInstructor = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/course.repository", () => ({
+  courseRepository: {
+    findById,
+    removeInstructor,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { removeCourseInstructorHandler } from "./remove-course-instructor.command";
+
+describe("removeCourseInstructorHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const courseId = "22222222-2222-4222-8222-222222222222";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "admin",
+      memberId: "member-1",
+    });
+    findById.mockResolvedValue({ id: courseId, organizationId });
+  });
+
+  it("should return not found, when instructor is not assigned", async () => {
+    removeInstructor.mockResolvedValue(false);
+
+    const result = await removeCourseInstructorHandler(
+      courseId,
+      memberId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should remove instructor, when instructor is assigned", async () => {
+    removeInstructor.mockResolvedValue(true);
+
+    const result = await removeCourseInstructorHandler(
+      courseId,
+      memberId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(removeInstructor).toHaveBeenCalledWith(courseId, memberId);
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  CourseIdParamSchema,
+  CourseInstructorInputSchema,
+} from "../schemas/course.schema";
+import { courseRepository } from "../repository/course.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function removeCourseInstructorHandler(
+  id: unknown,
+  memberId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<{ success: boolean }>> {
+  logger.debug("RemoveCourseInstructorCommand received", { id, memberId });
+
+  const idParseResult = CourseIdParamSchema.safeParse({ id });
+  const memberParseResult = CourseInstructorInputSchema.safeParse({
+    memberId,
+  });
+  if (!idParseResult.success || !memberParseResult.success) {
+    const errors = [
+      ...(idParseResult.error ? mapZodErrors(idParseResult.error) : []),
+      ...(memberParseResult.error ? mapZodErrors(memberParseResult.error) : []),
+    ];
+    logger.warn("Validation failed for RemoveCourseInstructorCommand", {
+      errors,
+    });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+  const validatedMemberId = memberParseResult.data.memberId;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "course", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to remove course instructors",
+        },
+      ],
+    };
+  }
+
+  const existingCourse = await courseRepository.findById(
+    access.organizationId,
+    validatedId,
+  );
+  if (!existingCourse) {
+    logger.warn("Course not found for instructor removal", {
+      id: validatedId,
+    });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const isRemoved = await courseRepository.removeInstructor(
+    validatedId,
+    validatedMemberId,
+  );
+  if (!isRemoved) {
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Instructor is not assigned to this course",
+          value: validatedMemberId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Course instructor removed", {
+    courseId: validatedId,
+    memberId: validatedMemberId,
+  });
+
+  return {
+    isSuccess: true,
+    data: { success: true },
+  };
+}
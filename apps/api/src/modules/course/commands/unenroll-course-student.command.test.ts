@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findById = vi.hoisted(() => vi.fn());
+const removeStudent = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/course.repository", () => ({
+  courseRepository: {
+    findById,
+    removeStudent,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { unenrollCourseStudentHandler } from "./unenroll-course-student.command";
+
+describe("unenrollCourseStudentHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const courseId = "22222222-2222-4222-8222-222222222222";
+  const studentMemberId = "33333333-3333-4333-8333-333333333333";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "admin",
+      memberId: "member-1",
+    });
+    findById.mockResolvedValue({ id: courseId, organizationId });
+  });
+
+  it("should return validation errors, when student member id is invalid", async () => {
+    const result = await unenrollCourseStudentHandler(
+      courseId,
+      "bad",
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("MEMBER_ID_INVALID");
+  });
+
+  it("should return not found, when student is not enrolled", async () => {
+    removeStudent.mockResolvedValue(false);
+
+    const result = await unenrollCourseStudentHandler(
+      courseId,
+      studentMemberId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should unenroll student, when student is enrolled", async () => {
+    removeStudent.mockResolvedValue(true);
+
+    const result = await unenrollCourseStudentHandler(
+      courseId,
+      studentMemberId,
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(removeStudent).toHaveBeenCalledWith(courseId, studentMemberId);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  CourseIdParamSchema,
+  CourseStudentInputSchema,
+} from "../schemas/course.schema";
+import { courseRepository } from "../repository/course.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function unenrollCourseStudentHandler(
+  id: unknown,
+  studentMemberId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<{ success: boolean }>> {
+  logger.debug("UnenrollCourseStudentCommand received", {
+    id,
+    studentMemberId,
+  });
+
+  const idParseResult = CourseIdParamSchema.safeParse({ id });
+  const memberParseResult = CourseStudentInputSchema.safeParse({
+    studentMemberId,
+  });
+  if (!idParseResult.success || !memberParseResult.success) {
+    const errors = [
+      ...(idParseResult.error ? mapZodErrors(idParseResult.error) : []),
+      ...(memberParseResult.error ? mapZodErrors(memberParseResult.error) : []),
+    ];
+    logger.warn("Validation failed for UnenrollCourseStudentCommand", {
+      errors,
+    });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+  const validatedStudentMemberId = memberParseResult.data.studentMemberId;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "course", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to unenroll course students",
+        },
+      ],
+    };
+  }
+
+  const existingCourse = await courseRepository.findById(
+    access.organizationId,
+    validatedId,
+  );
+  if (!existingCourse) {
+    logger.warn("Course not found for student unenrollment", {
+      id: validatedId,
+    });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const isRemoved = await courseRepository.removeStudent(
+    validatedId,
+    validatedStudentMemberId,
+  );
+  if (!isRemoved) {
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Student is not enrolled in this course",
+          value: validatedStudentMemberId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Course student unenrolled", {
+    courseId: validatedId,
+    studentMemberId: validatedStudentMemberId,
+  });
+
+  return {
+    isSuccess: true,
+    data: { success: true },
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findById = vi.hoisted(() => vi.fn());
+const update = vi.hoisted(() => vi.fn());
+const validateCodeUniqueness = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/course.repository", () => ({
+  courseRepository: {
+    findById,
+    update,
+  },
+}));
+
+vi.mock("../validators/course.validator", () => ({
+  courseValidator: {
+    validateCodeUniqueness,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { updateCourseHandler } from "./update-course.command";
+
+describe("updateCourseHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const courseId = "22222222-2222-4222-8222-222222222222";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "admin",
+      memberId: "member-1",
+    });
+  });
+
+  it("should return validation errors, when id is invalid", async () => {
+    const result = await updateCourseHandler(
+      "not-a-uuid",
+      { name: "Geometry" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INVALID_COURSE_ID_FORMAT");
+  });
+
+  it("should return not found, when course is missing", async () => {
+    findById.mockResolvedValue(undefined);
+
+    const result = await updateCourseHandler(
+      courseId,
+      { name: "Geometry" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should update course, when input is valid", async () => {
+    const existing = {
+      id: courseId,
+      organizationId,
+      name: "Algebra",
+      code: "MATH-101",
+      instructors: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    findById.mockResolvedValue(existing);
+    validateCodeUniqueness.mockResolvedValue({ isValid: true });
+    update.mockResolvedValue({ ...existing, code: "MATH-102" });
+
+    const result = await updateCourseHandler(
+      courseId,
+      { code: "MATH-102" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data?.code).toBe("MATH-102");
+    expect(validateCodeUniqueness).toHaveBeenCalledWith(
+      organizationId,
+      "MATH-102",
+      courseId,
+    );
+  });
+});
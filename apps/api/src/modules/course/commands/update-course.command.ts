@@ -0,0 +1,120 @@
+import {
+  UpdateCourseInputSchema,
+  CourseIdParamSchema,
+  type UpdateCourseInput,
+  type Course,
+} from "../schemas/course.schema";
+import { courseRepository } from "../repository/course.repository";
+import { courseValidator } from "../validators/course.validator";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function updateCourseHandler(
+  id: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Course>> {
+  logger.debug("UpdateCourseCommand received", { id, input });
+
+  const idParseResult = CourseIdParamSchema.safeParse({ id });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid course ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "course", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to update courses",
+        },
+      ],
+    };
+  }
+
+  const { organizationId } = access;
+
+  const existingCourse = await courseRepository.findById(
+    organizationId,
+    validatedId,
+  );
+  if (!existingCourse) {
+    logger.warn("Course not found for update", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const parseResult = UpdateCourseInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for UpdateCourseCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedInput: UpdateCourseInput = parseResult.data;
+
+  if (validatedInput.code) {
+    const codeValidation = await courseValidator.validateCodeUniqueness(
+      organizationId,
+      validatedInput.code,
+      validatedId,
+    );
+    if (!codeValidation.isValid) {
+      return {
+        isSuccess: false,
+        errors: codeValidation.errors,
+      };
+    }
+  }
+
+  const updatedCourse = await courseRepository.update(
+    organizationId,
+    validatedId,
+    validatedInput,
+  );
+  if (!updatedCourse) {
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Course updated successfully", { courseId: validatedId });
+
+  return {
+    isSuccess: true,
+    data: updatedCourse,
+  };
+}
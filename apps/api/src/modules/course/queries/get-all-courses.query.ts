@@ -0,0 +1,46 @@
+import type { Course } from "../schemas/course.schema";
+import { courseRepository } from "../repository/course.repository";
+import {
+  requireActivePermission,
+  getScopedStudentMemberIds,
+} from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+
+export async function getAllCoursesHandler(
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Course[]>> {
+  logger.debug("GetAllCoursesQuery received");
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "course", "read");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to read courses",
+        },
+      ],
+    };
+  }
+
+  const courses = await courseRepository.findAll(
+    access.organizationId,
+    await getScopedStudentMemberIds(access),
+  );
+
+  logger.info("Courses retrieved", {
+    count: courses.length,
+    organizationId: access.organizationId,
+  });
+
+  return {
+    data: courses,
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,72 @@
+import type { Course } from "../schemas/course.schema";
+import { CourseIdParamSchema } from "../schemas/course.schema";
+import { courseRepository } from "../repository/course.repository";
+import {
+  requireActivePermission,
+  getScopedStudentMemberIds,
+} from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function getCourseByIdHandler(
+  id: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Course>> {
+  logger.debug("GetCourseByIdQuery received", { id });
+
+  const parseResult = CourseIdParamSchema.safeParse({ id });
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Invalid course ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = parseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "course", "read");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to read courses",
+        },
+      ],
+    };
+  }
+
+  const existingCourse = await courseRepository.findById(
+    access.organizationId,
+    validatedId,
+    await getScopedStudentMemberIds(access),
+  );
+  if (!existingCourse) {
+    logger.warn("Course not found", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.debug("Course retrieved", { courseId: validatedId });
+
+  return {
+    isSuccess: true,
+    data: existingCourse,
+  };
+}
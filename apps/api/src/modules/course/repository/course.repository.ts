@@ -0,0 +1,315 @@
+import type {
+  Course,
+  CourseMember,
+  CreateCourseInput,
+  UpdateCourseInput,
+} from "../schemas/course.schema";
+import { db, eq, and, asc, inArray } from "@repo/database";
+import { member, user } from "@repo/database/schema/auth";
+import {
+  course,
+  courseEnrollment,
+  courseInstructor,
+} from "@repo/database/schema/course";
+
+export const courseRepository = {
+  findAll: async (
+    organizationId: string,
+    studentMemberIds?: string[],
+  ): Promise<Course[]> => {
+    const conditions = [eq(course.organizationId, organizationId)];
+    if (studentMemberIds) {
+      conditions.push(inArray(course.id, enrolledCourseIds(studentMemberIds)));
+    }
+
+    const rows = await db
+      .select()
+      .from(course)
+      .where(and(...conditions))
+      .orderBy(asc(course.name));
+
+    return withCourseMembers(rows, studentMemberIds);
+  },
+
+  findById: async (
+    organizationId: string,
+    id: string,
+    studentMemberIds?: string[],
+  ): Promise<Course | undefined> => {
+    const conditions = [
+      eq(course.id, id),
+      eq(course.organizationId, organizationId),
+    ];
+    if (studentMemberIds) {
+      conditions.push(inArray(course.id, enrolledCourseIds(studentMemberIds)));
+    }
+
+    const rows = await db
+      .select()
+      .from(course)
+      .where(and(...conditions))
+      .limit(1);
+
+    const [found] = await withCourseMembers(rows, studentMemberIds);
+    return found;
+  },
+
+  findByCode: async (
+    organizationId: string,
+    code: string,
+  ): Promise<{ id: string } | undefined> => {
+    const [row] = await db
+      .select({ id: course.id })
+      .from(course)
+      .where(
+        and(eq(course.organizationId, organizationId), eq(course.code, code)),
+      )
+      .limit(1);
+
+    return row;
+  },
+
+  findOrganizationMember: async (organizationId: string, memberId: string) => {
+    const [memberRecord] = await db
+      .select()
+      .from(member)
+      .where(
+        and(eq(member.id, memberId), eq(member.organizationId, organizationId)),
+      )
+      .limit(1);
+
+    return memberRecord;
+  },
+
+  create: async (
+    organizationId: string,
+    input: CreateCourseInput,
+  ): Promise<Course> => {
+    const courseId = await db.transaction(async (tx) => {
+      const [newCourse] = await tx
+        .insert(course)
+        .values({
+          organizationId,
+          name: input.name,
+          code: input.code,
+          description: input.description ?? null,
+        })
+        .returning();
+
+      if (input.instructorMemberIds.length > 0) {
+        await tx.insert(courseInstructor).values(
+          input.instructorMemberIds.map((memberId) => ({
+            courseId: newCourse.id,
+            memberId,
+          })),
+        );
+      }
+
+      return newCourse.id;
+    });
+
+    const created = await courseRepository.findById(organizationId, courseId);
+    if (!created) {
+      throw new Error("Failed to load created course");
+    }
+    return created;
+  },
+
+  update: async (
+    organizationId: string,
+    id: string,
+    input: UpdateCourseInput,
+  ): Promise<Course | undefined> => {
+    const updateData: Record<string, unknown> = { updatedAt: new Date() };
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.code !== undefined) updateData.code = input.code;
+    if (input.description !== undefined)
+      updateData.description = input.description;
+
+    const results = await db
+      .update(course)
+      .set(updateData)
+      .where(and(eq(course.id, id), eq(course.organizationId, organizationId)))
+      .returning({ id: course.id });
+
+    if (results.length === 0) {
+      return undefined;
+    }
+
+    return courseRepository.findById(organizationId, id);
+  },
+
+  delete: async (organizationId: string, id: string): Promise<boolean> => {
+    const results = await db
+      .delete(course)
+      .where(and(eq(course.id, id), eq(course.organizationId, organizationId)))
+      .returning({ id: course.id });
+
+    return results.length > 0;
+  },
+
+  addInstructor: async (courseId: string, memberId: string): Promise<void> => {
+    await db
+      .insert(courseInstructor)
+      .values({ courseId, memberId })
+      .onConflictDoNothing();
+  },
+
+  addStudent: async (
+    courseId: string,
+    studentMemberId: string,
+  ): Promise<void> => {
+    await db
+      .insert(courseEnrollment)
+      .values({ courseId, studentMemberId })
+      .onConflictDoNothing();
+  },
+
+  removeStudent: async (
+    courseId: string,
+    studentMemberId: string,
+  ): Promise<boolean> => {
+    const results = await db
+      .delete(courseEnrollment)
+      .where(
+        and(
+          eq(courseEnrollment.courseId, courseId),
+          eq(courseEnrollment.studentMemberId, studentMemberId),
+        ),
+      )
+      .returning({ id: courseEnrollment.id });
+
+    return results.length > 0;
+  },
+
+  removeInstructor: async (
+    courseId: string,
+    memberId: string,
+  ): Promise<boolean> => {
+    const results = await db
+      .delete(courseInstructor)
+      .where(
+        and(
+          eq(courseInstructor.courseId, courseId),
+          eq(courseInstructor.memberId, memberId),
+        ),
+      )
+      .returning({ id: courseInstructor.id });
+
+    return results.length > 0;
+  },
+};
+
+function enrolledCourseIds(studentMemberIds: string[]) {
+  return db
+    .select({ courseId: courseEnrollment.courseId })
+    .from(courseEnrollment)
+    .where(inArray(courseEnrollment.studentMemberId, studentMemberIds));
+}
+
+async function withCourseMembers(
+  rows: (typeof course.$inferSelect)[],
+  studentMemberIds?: string[],
+): Promise<Course[]> {
+  const courseIds = rows.map((row) => row.id);
+  const [instructorsByCourse, studentsByCourse] = await Promise.all([
+    findInstructorsByCourseIds(courseIds),
+    findStudentsByCourseIds(courseIds, studentMemberIds),
+  ]);
+
+  return rows.map((row) =>
+    mapCourseFromDb(
+      row,
+      instructorsByCourse.get(row.id) ?? [],
+      studentsByCourse.get(row.id) ?? [],
+    ),
+  );
+}
+
+async function findInstructorsByCourseIds(
+  courseIds: string[],
+): Promise<Map<string, CourseMember[]>> {
+  const instructorsByCourse = new Map<string, CourseMember[]>();
+  if (courseIds.length === 0) {
+    return instructorsByCourse;
+  }
+
+  const rows = await db
+    .select({
+      courseId: courseInstructor.courseId,
+      memberId: member.id,
+      userId: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+    })
+    .from(courseInstructor)
+    .innerJoin(member, eq(courseInstructor.memberId, member.id))
+    .innerJoin(user, eq(member.userId, user.id))
+    .where(inArray(courseInstructor.courseId, courseIds));
+
+  return groupMembersByCourse(rows);
+}
+
+async function findStudentsByCourseIds(
+  courseIds: string[],
+  studentMemberIds?: string[],
+): Promise<Map<string, CourseMember[]>> {
+  if (courseIds.length === 0) {
+    return new Map();
+  }
+
+  const conditions = [inArray(courseEnrollment.courseId, courseIds)];
+  if (studentMemberIds) {
+    conditions.push(
+      inArray(courseEnrollment.studentMemberId, studentMemberIds),
+    );
+  }
+
+  const rows = await db
+    .select({
+      courseId: courseEnrollment.courseId,
+      memberId: member.id,
+      userId: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+    })
+    .from(courseEnrollment)
+    .innerJoin(member, eq(courseEnrollment.studentMemberId, member.id))
+    .innerJoin(user, eq(member.userId, user.id))
+    .where(and(...conditions));
+
+  return groupMembersByCourse(rows);
+}
+
+function groupMembersByCourse(
+  rows: (CourseMember & { courseId: string })[],
+): Map<string, CourseMember[]> {
+  const membersByCourse = new Map<string, CourseMember[]>();
+  for (const { courseId, ...courseMember } of rows) {
+    const members = membersByCourse.get(courseId) ?? [];
+    members.push(courseMember);
+    membersByCourse.set(courseId, members);
+  }
+
+  return membersByCourse;
+}
+
+function mapCourseFromDb(
+  row: typeof course.$inferSelect,
+  instructors: CourseMember[],
+  students: CourseMember[],
+): Course {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    name: row.name,
+    code: row.code,
+    description: row.description ?? undefined,
+    instructors,
+    students,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
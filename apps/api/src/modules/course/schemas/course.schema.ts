@@ -0,0 +1,110 @@
+import { z } from "zod";
+
+export const CourseValidationErrorCodes = {
+  COURSE_NAME_REQUIRED: "COURSE_NAME_REQUIRED",
+  COURSE_NAME_MAX_LENGTH: "COURSE_NAME_MAX_LENGTH",
+  COURSE_CODE_REQUIRED: "COURSE_CODE_REQUIRED",
+  COURSE_CODE_MAX_LENGTH: "COURSE_CODE_MAX_LENGTH",
+  DESCRIPTION_FIELD_MAX_LENGTH: "DESCRIPTION_FIELD_MAX_LENGTH",
+  INVALID_COURSE_ID_FORMAT: "INVALID_COURSE_ID_FORMAT",
+  MEMBER_ID_INVALID: "MEMBER_ID_INVALID",
+} as const;
+
+export const CourseMemberSchema = z.object({
+  memberId: z.string().uuid(),
+  userId: z.string(),
+  firstName: z.string().nullable(),
+  lastName: z.string().nullable(),
+  email: z.string(),
+});
+
+export type CourseMember = z.infer<typeof CourseMemberSchema>;
+
+export const CourseSchema = z.object({
+  id: z
+    .string()
+    .uuid({ message: CourseValidationErrorCodes.INVALID_COURSE_ID_FORMAT }),
+  organizationId: z.string().uuid(),
+  name: z.string(),
+  code: z.string(),
+  description: z.string().optional(),
+  instructors: z.array(CourseMemberSchema),
+  students: z.array(CourseMemberSchema),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Course = z.infer<typeof CourseSchema>;
+
+export const CreateCourseInputSchema = z.object({
+  name: z
+    .string()
+    .min(1, { message: CourseValidationErrorCodes.COURSE_NAME_REQUIRED })
+    .max(200, { message: CourseValidationErrorCodes.COURSE_NAME_MAX_LENGTH }),
+  code: z
+    .string()
+    .min(1, { message: CourseValidationErrorCodes.COURSE_CODE_REQUIRED })
+    .max(50, { message: CourseValidationErrorCodes.COURSE_CODE_MAX_LENGTH }),
+  description: z
+    .string()
+    .max(2000, {
+      message: CourseValidationErrorCodes.DESCRIPTION_FIELD_MAX_LENGTH,
+    })
+    .optional(),
+  instructorMemberIds: z
+    .array(
+      z
+        .string()
+        .uuid({ message: CourseValidationErrorCodes.MEMBER_ID_INVALID }),
+    )
+    .optional()
+    .default([]),
+});
+
+export type CreateCourseInput = z.infer<typeof CreateCourseInputSchema>;
+
+export const UpdateCourseInputSchema = z.object({
+  name: z
+    .string()
+    .min(1, { message: CourseValidationErrorCodes.COURSE_NAME_REQUIRED })
+    .max(200, { message: CourseValidationErrorCodes.COURSE_NAME_MAX_LENGTH })
+    .optional(),
+  code: z
+    .string()
+    .min(1, { message: CourseValidationErrorCodes.COURSE_CODE_REQUIRED })
+    .max(50, { message: CourseValidationErrorCodes.COURSE_CODE_MAX_LENGTH })
+    .optional(),
+  description: z
+    .string()
+    .max(2000, {
+      message: CourseValidationErrorCodes.DESCRIPTION_FIELD_MAX_LENGTH,
+    })
+    .optional()
+    .nullable(),
+});
+
+export type UpdateCourseInput = z.infer<typeof UpdateCourseInputSchema>;
+
+export const CourseIdParamSchema = z.object({
+  id: z
+    .string()
+    .uuid({ message: CourseValidationErrorCodes.INVALID_COURSE_ID_FORMAT }),
+});
+
+export type CourseIdParam = z.infer<typeof CourseIdParamSchema>;
+
+export const CourseInstructorInputSchema = z.object({
+  memberId: z
+    .string()
+    .uuid({ message: CourseValidationErrorCodes.MEMBER_ID_INVALID }),
+});
+
+export type CourseInstructorInput = z.infer<typeof CourseInstructorInputSchema>;
+
+export const CourseStudentInputSchema = z.object({
+  studentMemberId: z
+    .string()
+    .uuid({ message: CourseValidationErrorCodes.MEMBER_ID_INVALID }),
+});
+
+export type CourseStudentInput = z.infer<typeof CourseStudentInputSchema>;
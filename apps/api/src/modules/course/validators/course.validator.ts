@@ -0,0 +1,111 @@
+import { courseRepository } from "../repository/course.repository";
+import type { ValidationResult } from "@utils/ValidationResult";
+
+export const courseValidator = {
+  validateCodeUniqueness: async (
+    organizationId: string,
+    code: string,
+    excludeId?: string,
+  ): Promise<ValidationResult> => {
+    const existingCourse = await courseRepository.findByCode(
+      organizationId,
+      code,
+    );
+
+    if (existingCourse && existingCourse.id !== excludeId) {
+      return {
+        isValid: false,
+        errors: [
+          {
+            value: code,
+            code: "DUPLICATE_COURSE_CODE",
+            message: "Course code already exists",
+          },
+        ],
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  },
+
+  validateInstructors: async (
+    organizationId: string,
+    memberIds: string[],
+  ): Promise<ValidationResult> => {
+    const errors: { code: string; value?: string; message: string }[] = [];
+
+    for (const memberId of memberIds) {
+      const memberRecord = await courseRepository.findOrganizationMember(
+        organizationId,
+        memberId,
+      );
+
+      if (!memberRecord) {
+        errors.push({
+          value: memberId,
+          code: "INSTRUCTOR_NOT_FOUND",
+          message: "Instructor is not a member of this organization",
+        });
+      } else if (memberRecord.role !== "teacher") {
+        errors.push({
+          value: memberId,
+          code: "INSTRUCTOR_NOT_TEACHER",
+          message: "Only teachers can be assigned as course instructors",
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      return {
+        isValid: false,
+        errors,
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  },
+
+  validateStudent: async (
+    organizationId: string,
+    studentMemberId: string,
+  ): Promise<ValidationResult> => {
+    const memberRecord = await courseRepository.findOrganizationMember(
+      organizationId,
+      studentMemberId,
+    );
+
+    if (!memberRecord) {
+      return {
+        isValid: false,
+        errors: [
+          {
+            value: studentMemberId,
+            code: "STUDENT_NOT_FOUND",
+            message: "Student is not a member of this organization",
+          },
+        ],
+      };
+    }
+
+    if (memberRecord.role !== "student") {
+      return {
+        isValid: false,
+        errors: [
+          {
+            value: studentMemberId,
+            code: "MEMBER_NOT_STUDENT",
+            message: "Only students can be enrolled in courses",
+          },
+        ],
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  },
+};
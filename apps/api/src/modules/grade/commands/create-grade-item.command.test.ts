@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findCourse = vi.hoisted(() => vi.fn());
+const createItem = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/grade.repository", () => ({
+  gradeRepository: {
+    findCourse,
+    createItem,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { createGradeItemHandler } from "./create-grade-item.command";
+
+describe("createGradeItemHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const courseId = "22222222-2222-4222-8222-222222222222";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId: "member-1",
+    });
+  });
+
+  it("should return forbidden, when permission check fails", async () => {
+    requireActivePermission.mockRejectedValue(new Error("forbidden"));
+
+    const result = await createGradeItemHandler(
+      { courseId, name: "Quiz 1", category: "quiz", maxPoints: 10 },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
+  });
+
+  it("should return validation errors, when category is unknown", async () => {
+    const result = await createGradeItemHandler(
+      { courseId, name: "Quiz 1", category: "project", maxPoints: 10 },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("GRADE_CATEGORY_INVALID");
+  });
+
+  it("should return validation errors, when max points is not positive", async () => {
+    const result = await createGradeItemHandler(
+      { courseId, name: "Quiz 1", category: "quiz", maxPoints: 0 },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("MAX_POINTS_INVALID");
+  });
+
+  it("should return not found, when course is missing", async () => {
+    findCourse.mockResolvedValue(undefined);
+
+    const result = await createGradeItemHandler(
+      { courseId, name: "Quiz 1", category: "quiz", maxPoints: 10 },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should create grade item with default weight, when input is valid", async () => {
+    findCourse.mockResolvedValue({ id: courseId });
+    createItem.mockResolvedValue({ id: "item-1", courseId });
+
+    const result = await createGradeItemHandler(
+      { courseId, name: "Quiz 1", category: "quiz", maxPoints: 10 },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(createItem).toHaveBeenCalledWith(organizationId, {
+      courseId,
+      name: "Quiz 1",
+      category: "quiz",
+      maxPoints: 10,
+      weight: 1,
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  CreateGradeItemInputSchema,
+  type CreateGradeItemInput,
+  type GradeItem,
+} from "../schemas/grade.schema";
+import { gradeRepository } from "../repository/grade.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function createGradeItemHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<GradeItem>> {
+  logger.debug("CreateGradeItemCommand received", { input });
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "grade", "create");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to create grade items",
+        },
+      ],
+    };
+  }
+
+  const parseResult = CreateGradeItemInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for CreateGradeItemCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedInput: CreateGradeItemInput = parseResult.data;
+  const { organizationId } = access;
+
+  const existingCourse = await gradeRepository.findCourse(
+    organizationId,
+    validatedInput.courseId,
+  );
+  if (!existingCourse) {
+    logger.warn("Course not found for grade item", {
+      courseId: validatedInput.courseId,
+    });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedInput.courseId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const newItem = await gradeRepository.createItem(
+    organizationId,
+    validatedInput,
+  );
+
+  logger.info("Grade item created successfully", {
+    gradeItemId: newItem.id,
+    courseId: newItem.courseId,
+  });
+
+  return {
+    data: newItem,
+    isSuccess: true,
+  };
+}
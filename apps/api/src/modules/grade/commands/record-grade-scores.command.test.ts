@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findItemById = vi.hoisted(() => vi.fn());
+const upsertScores = vi.hoisted(() => vi.fn());
+const validateStudents = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/grade.repository", () => ({
+  gradeRepository: {
+    findItemById,
+    upsertScores,
+  },
+}));
+
+vi.mock("../validators/grade.validator", async (importOriginal) => {
+  const original =
+    await importOriginal<typeof import("../validators/grade.validator")>();
+  return {
+    gradeValidator: {
+      ...original.gradeValidator,
+      validateStudents,
+    },
+  };
+});
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { recordGradeScoresHandler } from "./record-grade-scores.command";
+
+describe("recordGradeScoresHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const gradeItemId = "77777777-7777-4777-8777-777777777777";
+  const memberId = "33333333-3333-4333-8333-333333333333";
+  const studentMemberId = "55555555-5555-4555-8555-555555555555";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+    findItemById.mockResolvedValue({ id: gradeItemId, maxPoints: 20 });
+  });
+
+  it("should return error, when points exceed max points", async () => {
+    const result = await recordGradeScoresHandler(
+      gradeItemId,
+      { scores: [{ studentMemberId, points: 25 }] },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("POINTS_EXCEED_MAX_POINTS");
+    expect(upsertScores).not.toHaveBeenCalled();
+  });
+
+  it("should return student errors, when member is not a student", async () => {
+    validateStudents.mockResolvedValue({
+      isValid: false,
+      errors: [{ code: "MEMBER_NOT_STUDENT", value: studentMemberId }],
+    });
+
+    const result = await recordGradeScoresHandler(
+      gradeItemId,
+      { scores: [{ studentMemberId, points: 15 }] },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("MEMBER_NOT_STUDENT");
+  });
+
+  it("should record scores, when input is valid", async () => {
+    validateStudents.mockResolvedValue({ isValid: true });
+    upsertScores.mockResolvedValue([
+      { id: "score-1", gradeItemId, studentMemberId, points: 18 },
+    ]);
+
+    const result = await recordGradeScoresHandler(
+      gradeItemId,
+      { scores: [{ studentMemberId, points: 18, feedback: "Great work" }] },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data).toHaveLength(1);
+    expect(upsertScores).toHaveBeenCalledWith(
+      gradeItemId,
+      [{ studentMemberId, points: 18, feedback: "Great work" }],
+      memberId,
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  GradeItemIdParamSchema,
+  RecordScoresInputSchema,
+  type GradeScore,
+} from "../schemas/grade.schema";
+import { gradeRepository } from "../repository/grade.repository";
+import { gradeValidator } from "../validators/grade.validator";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function recordGradeScoresHandler(
+  gradeItemId: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<GradeScore[]>> {
+  logger.debug("RecordGradeScoresCommand received", { gradeItemId });
+
+  const idParseResult = GradeItemIdParamSchema.safeParse({ id: gradeItemId });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid grade item ID format", { gradeItemId, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "grade", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to update grades",
+        },
+      ],
+    };
+  }
+
+  const { organizationId, memberId } = access;
+
+  const existingItem = await gradeRepository.findItemById(
+    organizationId,
+    validatedId,
+  );
+  if (!existingItem) {
+    logger.warn("Grade item not found for scoring", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Grade item not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const parseResult = RecordScoresInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for RecordGradeScoresCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { scores } = parseResult.data;
+
+  const pointsValidation = gradeValidator.validateScoresWithinMaxPoints(
+    scores,
+    existingItem.maxPoints,
+  );
+  if (!pointsValidation.isValid) {
+    return {
+      isSuccess: false,
+      errors: pointsValidation.errors,
+    };
+  }
+
+  const studentValidation = await gradeValidator.validateStudents(
+    organizationId,
+    scores.map((score) => score.studentMemberId),
+  );
+  if (!studentValidation.isValid) {
+    return {
+      isSuccess: false,
+      errors: studentValidation.errors,
+    };
+  }
+
+  const recordedScores = await gradeRepository.upsertScores(
+    validatedId,
+    scores,
+    memberId,
+  );
+
+  logger.info("Grade scores recorded", {
+    gradeItemId: validatedId,
+    count: recordedScores.length,
+  });
+
+  return {
+    data: recordedScores,
+    isSuccess: true,
+  };
+}
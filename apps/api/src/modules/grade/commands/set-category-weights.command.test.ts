@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findCourse = vi.hoisted(() => vi.fn());
+const replaceCategoryWeights = vi.hoisted(() => vi.fn());
+const findCategoryWeights = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/grade.repository", () => ({
+  gradeRepository: {
+    findCourse,
+    replaceCategoryWeights,
+    findCategoryWeights,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { setCategoryWeightsHandler } from "./set-category-weights.command";
+
+describe("setCategoryWeightsHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const courseId = "22222222-2222-4222-8222-222222222222";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId: "member-1",
+    });
+    findCourse.mockResolvedValue({ id: courseId });
+  });
+
+  it("should return validation errors, when a category is repeated", async () => {
+    const result = await setCategoryWeightsHandler(
+      courseId,
+      {
+        weights: [
+          { category: "exam", weight: 50 },
+          { category: "exam", weight: 20 },
+        ],
+      },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("DUPLICATE_CATEGORY_WEIGHT");
+  });
+
+  it("should replace weights, when input is valid", async () => {
+    const weights = [
+      { category: "assignment", weight: 30 },
+      { category: "exam", weight: 70 },
+    ];
+    findCategoryWeights.mockResolvedValue(weights);
+
+    const result = await setCategoryWeightsHandler(
+      courseId,
+      { weights },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data).toEqual(weights);
+    expect(replaceCategoryWeights).toHaveBeenCalledWith(courseId, weights);
+  });
+});
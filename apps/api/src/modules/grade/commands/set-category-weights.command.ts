@@ -0,0 +1,92 @@
+import {
+  CourseIdParamSchema,
+  SetCategoryWeightsInputSchema,
+  type GradeCategoryWeight,
+} from "../schemas/grade.schema";
+import { gradeRepository } from "../repository/grade.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function setCategoryWeightsHandler(
+  courseId: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<GradeCategoryWeight[]>> {
+  logger.debug("SetCategoryWeightsCommand received", { courseId, input });
+
+  const idParseResult = CourseIdParamSchema.safeParse({ courseId });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid course ID format", { courseId, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedCourseId = idParseResult.data.courseId;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "grade", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to update grades",
+        },
+      ],
+    };
+  }
+
+  const existingCourse = await gradeRepository.findCourse(
+    access.organizationId,
+    validatedCourseId,
+  );
+  if (!existingCourse) {
+    logger.warn("Course not found for category weights", {
+      courseId: validatedCourseId,
+    });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedCourseId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const parseResult = SetCategoryWeightsInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for SetCategoryWeightsCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  await gradeRepository.replaceCategoryWeights(
+    validatedCourseId,
+    parseResult.data.weights,
+  );
+  const weights = await gradeRepository.findCategoryWeights(validatedCourseId);
+
+  logger.info("Grade category weights updated", {
+    courseId: validatedCourseId,
+  });
+
+  return {
+    data: weights,
+    isSuccess: true,
+  };
+}
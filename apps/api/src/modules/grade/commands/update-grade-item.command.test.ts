@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findItemById = vi.hoisted(() => vi.fn());
+const findMaxRecordedPoints = vi.hoisted(() => vi.fn());
+const updateItem = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/grade.repository", () => ({
+  gradeRepository: {
+    findItemById,
+    findMaxRecordedPoints,
+    updateItem,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+}));
+
+import { updateGradeItemHandler } from "./update-grade-item.command";
+
+describe("updateGradeItemHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const gradeItemId = "77777777-7777-4777-8777-777777777777";
+  const existingItem = {
+    id: gradeItemId,
+    organizationId,
+    name: "Midterm",
+    category: "exam",
+    maxPoints: 100,
+    weight: 2,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId: "member-1",
+    });
+  });
+
+  it("should return forbidden, when member cannot update grades", async () => {
+    requireActivePermission.mockRejectedValue(new Error("forbidden"));
+
+    const result = await updateGradeItemHandler(
+      gradeItemId,
+      { weight: 3 },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
+    expect(requireActivePermission).toHaveBeenCalledWith({}, "grade", "update");
+  });
+
+  it("should return not found, when grade item is missing", async () => {
+    findItemById.mockResolvedValue(undefined);
+
+    const result = await updateGradeItemHandler(
+      gradeItemId,
+      { weight: 3 },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should return error, when max points drops below a recorded score", async () => {
+    findItemById.mockResolvedValue(existingItem);
+    findMaxRecordedPoints.mockResolvedValue(85);
+
+    const result = await updateGradeItemHandler(
+      gradeItemId,
+      { maxPoints: 80 },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("MAX_POINTS_BELOW_RECORDED_SCORES");
+    expect(updateItem).not.toHaveBeenCalled();
+  });
+
+  it("should update grade item, when input is valid", async () => {
+    findItemById.mockResolvedValue(existingItem);
+    updateItem.mockResolvedValue({ ...existingItem, weight: 3 });
+
+    const result = await updateGradeItemHandler(
+      gradeItemId,
+      { weight: 3 },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data?.weight).toBe(3);
+    expect(findMaxRecordedPoints).not.toHaveBeenCalled();
+  });
+});
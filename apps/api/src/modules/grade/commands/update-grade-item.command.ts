@@ -0,0 +1,124 @@
+import {
+  GradeItemIdParamSchema,
+  UpdateGradeItemInputSchema,
+  type GradeItem,
+} from "../schemas/grade.schema";
+import { gradeRepository } from "../repository/grade.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function updateGradeItemHandler(
+  id: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<GradeItem>> {
+  logger.debug("UpdateGradeItemCommand received", { id, input });
+
+  const idParseResult = GradeItemIdParamSchema.safeParse({ id });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid grade item ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "grade", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to update grades",
+        },
+      ],
+    };
+  }
+
+  const { organizationId } = access;
+
+  const existingItem = await gradeRepository.findItemById(
+    organizationId,
+    validatedId,
+  );
+  if (!existingItem) {
+    logger.warn("Grade item not found for update", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Grade item not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const parseResult = UpdateGradeItemInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for UpdateGradeItemCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedInput = parseResult.data;
+
+  if (
+    validatedInput.maxPoints !== undefined &&
+    validatedInput.maxPoints < existingItem.maxPoints
+  ) {
+    const highestRecordedPoints =
+      await gradeRepository.findMaxRecordedPoints(validatedId);
+    if (validatedInput.maxPoints < highestRecordedPoints) {
+      return {
+        errors: [
+          {
+            code: "MAX_POINTS_BELOW_RECORDED_SCORES",
+            message: "Maximum points cannot be lower than a recorded score",
+            value: String(validatedInput.maxPoints),
+          },
+        ],
+        isSuccess: false,
+      };
+    }
+  }
+
+  const updatedItem = await gradeRepository.updateItem(
+    organizationId,
+    validatedId,
+    validatedInput,
+  );
+  if (!updatedItem) {
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Grade item not found",
+          value: validatedId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Grade item updated successfully", { gradeItemId: validatedId });
+
+  return {
+    data: updatedItem,
+    isSuccess: true,
+  };
+}
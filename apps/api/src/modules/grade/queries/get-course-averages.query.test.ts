@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findCourse = vi.hoisted(() => vi.fn());
+const findCategoryWeights = vi.hoisted(() => vi.fn());
+const findCourseScoreRows = vi.hoisted(() => vi.fn());
+const requireActivePermission = vi.hoisted(() => vi.fn());
+const getScopedStudentMemberIds = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/grade.repository", () => ({
+  gradeRepository: {
+    findCourse,
+    findCategoryWeights,
+    findCourseScoreRows,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActivePermission,
+  getScopedStudentMemberIds,
+}));
+
+import { getCourseAveragesHandler } from "./get-course-averages.query";
+
+describe("getCourseAveragesHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "c1d2e3f4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+  const courseId = "22222222-2222-4222-8222-222222222222";
+  const studentMemberId = "55555555-5555-4555-8555-555555555555";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActivePermission.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId: "member-1",
+    });
+    getScopedStudentMemberIds.mockResolvedValue(undefined);
+    findCourse.mockResolvedValue({ id: courseId });
+  });
+
+  it("should weight categories, when category weights are configured", async () => {
+    findCategoryWeights.mockResolvedValue([
+      { category: "assignment", weight: 40 },
+      { category: "exam", weight: 60 },
+    ]);
+    findCourseScoreRows.mockResolvedValue([
+      {
+        studentMemberId,
+        category: "assignment",
+        points: 10,
+        maxPoints: 10,
+        weight: 1,
+      },
+      {
+        studentMemberId,
+        category: "assignment",
+        points: 0,
+        maxPoints: 10,
+        weight: 3,
+      },
+      {
+        studentMemberId,
+        category: "exam",
+        points: 80,
+        maxPoints: 100,
+        weight: 1,
+      },
+    ]);
+
+    const result = await getCourseAveragesHandler(
+      courseId,
+      {},
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    const [student] = result.data?.students ?? [];
+    expect(student?.categories).toEqual([
+      { category: "assignment", weight: 40, average: 25 },
+      { category: "exam", weight: 60, average: 80 },
+    ]);
+    expect(student?.average).toBe(58);
+  });
+
+  it("should weight categories equally, when no weights are configured", async () => {
+    findCategoryWeights.mockResolvedValue([]);
+    findCourseScoreRows.mockResolvedValue([
+      {
+        studentMemberId,
+        category: "quiz",
+        points: 5,
+        maxPoints: 10,
+        weight: 1,
+      },
+      {
+        studentMemberId,
+        category: "exam",
+        points: 9,
+        maxPoints: 10,
+        weight: 1,
+      },
+    ]);
+
+    const result = await getCourseAveragesHandler(
+      courseId,
+      {},
+      {} as never,
+      logger,
+    );
+
+    expect(result.data?.students[0]?.average).toBe(70);
+  });
+
+  it("should only include own scores, when requester is a student", async () => {
+    getScopedStudentMemberIds.mockResolvedValue([studentMemberId]);
+    findCategoryWeights.mockResolvedValue([]);
+    findCourseScoreRows.mockResolvedValue([]);
+
+    await getCourseAveragesHandler(
+      courseId,
+      { studentMemberId: "66666666-6666-4666-8666-666666666666" },
+      {} as never,
+      logger,
+    );
+
+    expect(findCourseScoreRows).toHaveBeenCalledWith(
+      organizationId,
+      courseId,
+      [],
+    );
+  });
+});
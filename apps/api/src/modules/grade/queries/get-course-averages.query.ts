@@ -0,0 +1,177 @@
+import type {
+  GradeCategory,
+  GradeCategoryWeight,
+  StudentAverage,
+} from "../schemas/grade.schema";
+import {
+  CourseAveragesQuerySchema,
+  CourseIdParamSchema,
+} from "../schemas/grade.schema";
+import {
+  gradeRepository,
+  type CourseScoreRow,
+} from "../repository/grade.repository";
+import {
+  requireActivePermission,
+  getScopedStudentMemberIds,
+} from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function getCourseAveragesHandler(
+  courseId: unknown,
+  queryParams: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<
+  ServiceResult<{ weights: GradeCategoryWeight[]; students: StudentAverage[] }>
+> {
+  logger.debug("GetCourseAveragesQuery received", { courseId, queryParams });
+
+  const idParseResult = CourseIdParamSchema.safeParse({ courseId });
+  const queryParseResult = CourseAveragesQuerySchema.safeParse(
+    queryParams ?? {},
+  );
+  if (!idParseResult.success || !queryParseResult.success) {
+    const errors = [
+      ...(idParseResult.error ? mapZodErrors(idParseResult.error) : []),
+      ...(queryParseResult.error ? mapZodErrors(queryParseResult.error) : []),
+    ];
+    logger.warn("Validation failed for GetCourseAveragesQuery", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedCourseId = idParseResult.data.courseId;
+  const { studentMemberId } = queryParseResult.data;
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "grade", "read");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to read grades",
+        },
+      ],
+    };
+  }
+
+  const existingCourse = await gradeRepository.findCourse(
+    access.organizationId,
+    validatedCourseId,
+  );
+  if (!existingCourse) {
+    logger.warn("Course not found for averages", {
+      courseId: validatedCourseId,
+    });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Course not found",
+          value: validatedCourseId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  let studentMemberIds = await getScopedStudentMemberIds(access);
+  if (studentMemberId) {
+    studentMemberIds = studentMemberIds
+      ? studentMemberIds.filter((id) => id === studentMemberId)
+      : [studentMemberId];
+  }
+
+  const [weights, rows] = await Promise.all([
+    gradeRepository.findCategoryWeights(validatedCourseId),
+    gradeRepository.findCourseScoreRows(
+      access.organizationId,
+      validatedCourseId,
+      studentMemberIds,
+    ),
+  ]);
+
+  const students = calculateStudentAverages(rows, weights);
+
+  logger.info("Course averages computed", {
+    courseId: validatedCourseId,
+    studentCount: students.length,
+  });
+
+  return {
+    data: { weights, students },
+    isSuccess: true,
+  };
+}
+
+function calculateStudentAverages(
+  rows: CourseScoreRow[],
+  weights: GradeCategoryWeight[],
+): StudentAverage[] {
+  const configuredWeights = new Map(
+    weights.map((weight) => [weight.category, weight.weight]),
+  );
+  const rowsByStudent = new Map<string, CourseScoreRow[]>();
+  for (const row of rows) {
+    const studentRows = rowsByStudent.get(row.studentMemberId) ?? [];
+    studentRows.push(row);
+    rowsByStudent.set(row.studentMemberId, studentRows);
+  }
+
+  return [...rowsByStudent.entries()].map(([studentMemberId, studentRows]) => {
+    const totalsByCategory = new Map<
+      GradeCategory,
+      { earned: number; weight: number }
+    >();
+    for (const row of studentRows) {
+      const totals = totalsByCategory.get(row.category) ?? {
+        earned: 0,
+        weight: 0,
+      };
+      totals.earned += (row.points / row.maxPoints) * row.weight;
+      totals.weight += row.weight;
+      totalsByCategory.set(row.category, totals);
+    }
+
+    const categories = [...totalsByCategory.entries()].map(
+      ([category, totals]) => ({
+        category,
+        weight:
+          configuredWeights.size > 0
+            ? (configuredWeights.get(category) ?? 0)
+            : 1,
+        average: roundPercentage(totals.earned / totals.weight),
+      }),
+    );
+
+    const totalWeight = categories.reduce(
+      (sum, category) => sum + category.weight,
+      0,
+    );
+    const average =
+      totalWeight > 0
+        ? roundPercentage(
+            categories.reduce(
+              (sum, category) =>
+                sum + (category.average / 100) * category.weight,
+              0,
+            ) / totalWeight,
+          )
+        : null;
+
+    return { studentMemberId, average, categories };
+  });
+}
+
+function roundPercentage(ratio: number): number {
+  return Math.round(ratio * 10000) / 100;
+}
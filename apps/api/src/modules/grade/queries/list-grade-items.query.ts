@@ -0,0 +1,53 @@
+import type { GradeItem } from "../schemas/grade.schema";
+import { ListGradeItemsQuerySchema } from "../schemas/grade.schema";
+import { gradeRepository } from "../repository/grade.repository";
+import { requireActivePermission } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function listGradeItemsHandler(
+  queryParams: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<GradeItem[]>> {
+  logger.debug("ListGradeItemsQuery received", { queryParams });
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "grade", "read");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to read grades",
+        },
+      ],
+    };
+  }
+
+  const parseResult = ListGradeItemsQuerySchema.safeParse(queryParams ?? {});
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for ListGradeItemsQuery", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const items = await gradeRepository.findItems(
+    access.organizationId,
+    parseResult.data,
+  );
+
+  logger.info("Grade items retrieved", { count: items.length });
+
+  return {
+    data: items,
+    isSuccess: true,
+  };
+}
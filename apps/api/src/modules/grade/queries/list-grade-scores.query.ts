@@ -0,0 +1,57 @@
+import type { GradeScore } from "../schemas/grade.schema";
+import { ListGradeScoresQuerySchema } from "../schemas/grade.schema";
+import { gradeRepository } from "../repository/grade.repository";
+import {
+  requireActivePermission,
+  getScopedStudentMemberIds,
+} from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import type { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function listGradeScoresHandler(
+  queryParams: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<GradeScore[]>> {
+  logger.debug("ListGradeScoresQuery received", { queryParams });
+
+  let access;
+  try {
+    access = await requireActivePermission(request, "grade", "read");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to read grades",
+        },
+      ],
+    };
+  }
+
+  const parseResult = ListGradeScoresQuerySchema.safeParse(queryParams ?? {});
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for ListGradeScoresQuery", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const scores = await gradeRepository.findScores(
+    access.organizationId,
+    parseResult.data,
+    await getScopedStudentMemberIds(access),
+  );
+
+  logger.info("Grade scores retrieved", { count: scores.length });
+
+  return {
+    data: scores,
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,298 @@
+import type {
+  CreateGradeItemInput,
+  GradeCategory,
+  GradeCategoryWeight,
+  GradeItem,
+  GradeScore,
+  ListGradeItemsQuery,
+  ListGradeScoresQuery,
+  ScoreInput,
+  UpdateGradeItemInput,
+} from "../schemas/grade.schema";
+import { db, eq, and, asc, inArray, sql } from "@repo/database";
+import { member } from "@repo/database/schema/auth";
+import { course } from "@repo/database/schema/course";
+import {
+  gradeCategoryWeight,
+  gradeItem,
+  gradeScore,
+} from "@repo/database/schema/grade";
+
+export type CourseScoreRow = {
+  studentMemberId: string;
+  category: GradeCategory;
+  points: number;
+  maxPoints: number;
+  weight: number;
+};
+
+export const gradeRepository = {
+  findCourse: async (
+    organizationId: string,
+    courseId: string,
+  ): Promise<{ id: string } | undefined> => {
+    const [row] = await db
+      .select({ id: course.id })
+      .from(course)
+      .where(
+        and(eq(course.id, courseId), eq(course.organizationId, organizationId)),
+      )
+      .limit(1);
+
+    return row;
+  },
+
+  findOrganizationMembers: async (
+    organizationId: string,
+    memberIds: string[],
+  ): Promise<{ id: string; role: string }[]> => {
+    if (memberIds.length === 0) {
+      return [];
+    }
+
+    return db
+      .select({ id: member.id, role: member.role })
+      .from(member)
+      .where(
+        and(
+          eq(member.organizationId, organizationId),
+          inArray(member.id, memberIds),
+        ),
+      );
+  },
+
+  createItem: async (
+    organizationId: string,
+    input: CreateGradeItemInput,
+  ): Promise<GradeItem> => {
+    const [newItem] = await db
+      .insert(gradeItem)
+      .values({
+        organizationId,
+        courseId: input.courseId,
+        name: input.name,
+        category: input.category,
+        maxPoints: input.maxPoints,
+        weight: input.weight,
+        dueDate: input.dueDate ?? null,
+      })
+      .returning();
+
+    return mapGradeItemFromDb(newItem);
+  },
+
+  findItems: async (
+    organizationId: string,
+    filters: ListGradeItemsQuery,
+  ): Promise<GradeItem[]> => {
+    const conditions = [eq(gradeItem.organizationId, organizationId)];
+    if (filters.courseId) {
+      conditions.push(eq(gradeItem.courseId, filters.courseId));
+    }
+    if (filters.category) {
+      conditions.push(eq(gradeItem.category, filters.category));
+    }
+
+    const rows = await db
+      .select()
+      .from(gradeItem)
+      .where(and(...conditions))
+      .orderBy(asc(gradeItem.createdAt));
+
+    return rows.map(mapGradeItemFromDb);
+  },
+
+  findItemById: async (
+    organizationId: string,
+    id: string,
+  ): Promise<GradeItem | undefined> => {
+    const [row] = await db
+      .select()
+      .from(gradeItem)
+      .where(
+        and(eq(gradeItem.id, id), eq(gradeItem.organizationId, organizationId)),
+      )
+      .limit(1);
+
+    return row ? mapGradeItemFromDb(row) : undefined;
+  },
+
+  updateItem: async (
+    organizationId: string,
+    id: string,
+    input: UpdateGradeItemInput,
+  ): Promise<GradeItem | undefined> => {
+    const updateData: Record<string, unknown> = { updatedAt: new Date() };
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.category !== undefined) updateData.category = input.category;
+    if (input.maxPoints !== undefined) updateData.maxPoints = input.maxPoints;
+    if (input.weight !== undefined) updateData.weight = input.weight;
+    if (input.dueDate !== undefined) updateData.dueDate = input.dueDate;
+
+    const [row] = await db
+      .update(gradeItem)
+      .set(updateData)
+      .where(
+        and(eq(gradeItem.id, id), eq(gradeItem.organizationId, organizationId)),
+      )
+      .returning();
+
+    return row ? mapGradeItemFromDb(row) : undefined;
+  },
+
+  findMaxRecordedPoints: async (gradeItemId: string): Promise<number> => {
+    const [row] = await db
+      .select({
+        maxPoints: sql<number>`coalesce(max(${gradeScore.points}), 0)`,
+      })
+      .from(gradeScore)
+      .where(eq(gradeScore.gradeItemId, gradeItemId));
+
+    return Number(row?.maxPoints ?? 0);
+  },
+
+  upsertScores: async (
+    gradeItemId: string,
+    scores: ScoreInput[],
+    gradedByMemberId: string,
+  ): Promise<GradeScore[]> => {
+    const rows = await db
+      .insert(gradeScore)
+      .values(
+        scores.map((score) => ({
+          gradeItemId,
+          studentMemberId: score.studentMemberId,
+          points: score.points,
+          feedback: score.feedback ?? null,
+          gradedByMemberId,
+        })),
+      )
+      .onConflictDoUpdate({
+        target: [gradeScore.gradeItemId, gradeScore.studentMemberId],
+        set: {
+          points: sql`excluded.points`,
+          feedback: sql`excluded.feedback`,
+          gradedByMemberId: sql`excluded.graded_by_member_id`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    return rows.map(mapGradeScoreFromDb);
+  },
+
+  findScores: async (
+    organizationId: string,
+    filters: ListGradeScoresQuery,
+    studentMemberIds?: string[],
+  ): Promise<GradeScore[]> => {
+    const conditions = [eq(gradeItem.organizationId, organizationId)];
+    if (filters.courseId) {
+      conditions.push(eq(gradeItem.courseId, filters.courseId));
+    }
+    if (filters.gradeItemId) {
+      conditions.push(eq(gradeScore.gradeItemId, filters.gradeItemId));
+    }
+    if (filters.studentMemberId) {
+      conditions.push(eq(gradeScore.studentMemberId, filters.studentMemberId));
+    }
+    if (studentMemberIds) {
+      conditions.push(inArray(gradeScore.studentMemberId, studentMemberIds));
+    }
+
+    const rows = await db
+      .select({ score: gradeScore })
+      .from(gradeScore)
+      .innerJoin(gradeItem, eq(gradeScore.gradeItemId, gradeItem.id))
+      .where(and(...conditions))
+      .orderBy(asc(gradeItem.createdAt));
+
+    return rows.map((row) => mapGradeScoreFromDb(row.score));
+  },
+
+  findCategoryWeights: async (
+    courseId: string,
+  ): Promise<GradeCategoryWeight[]> => {
+    return db
+      .select({
+        category: gradeCategoryWeight.category,
+        weight: gradeCategoryWeight.weight,
+      })
+      .from(gradeCategoryWeight)
+      .where(eq(gradeCategoryWeight.courseId, courseId))
+      .orderBy(asc(gradeCategoryWeight.category));
+  },
+
+  replaceCategoryWeights: async (
+    courseId: string,
+    weights: GradeCategoryWeight[],
+  ): Promise<void> => {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(gradeCategoryWeight)
+        .where(eq(gradeCategoryWeight.courseId, courseId));
+
+      await tx.insert(gradeCategoryWeight).values(
+        weights.map((weight) => ({
+          courseId,
+          category: weight.category,
+          weight: weight.weight,
+        })),
+      );
+    });
+  },
+
+  findCourseScoreRows: async (
+    organizationId: string,
+    courseId: string,
+    studentMemberIds?: string[],
+  ): Promise<CourseScoreRow[]> => {
+    const conditions = [
+      eq(gradeItem.organizationId, organizationId),
+      eq(gradeItem.courseId, courseId),
+    ];
+    if (studentMemberIds) {
+      conditions.push(inArray(gradeScore.studentMemberId, studentMemberIds));
+    }
+
+    return db
+      .select({
+        studentMemberId: gradeScore.studentMemberId,
+        category: gradeItem.category,
+        points: gradeScore.points,
+        maxPoints: gradeItem.maxPoints,
+        weight: gradeItem.weight,
+      })
+      .from(gradeScore)
+      .innerJoin(gradeItem, eq(gradeScore.gradeItemId, gradeItem.id))
+      .where(and(...conditions));
+  },
+};
+
+function mapGradeItemFromDb(row: typeof gradeItem.$inferSelect): GradeItem {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    courseId: row.courseId,
+    name: row.name,
+    category: row.category,
+    maxPoints: row.maxPoints,
+    weight: row.weight,
+    dueDate: row.dueDate ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function mapGradeScoreFromDb(row: typeof gradeScore.$inferSelect): GradeScore {
+  return {
+    id: row.id,
+    gradeItemId: row.gradeItemId,
+    studentMemberId: row.studentMemberId,
+    points: row.points,
+    feedback: row.feedback ?? undefined,
+    gradedByMemberId: row.gradedByMemberId,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
@@ -0,0 +1,221 @@
+import { z } from "zod";
+
+export const GradeValidationErrorCodes = {
+  INVALID_GRADE_ITEM_ID_FORMAT: "INVALID_GRADE_ITEM_ID_FORMAT",
+  COURSE_ID_INVALID: "COURSE_ID_INVALID",
+  MEMBER_ID_INVALID: "MEMBER_ID_INVALID",
+  GRADE_ITEM_NAME_REQUIRED: "GRADE_ITEM_NAME_REQUIRED",
+  GRADE_ITEM_NAME_MAX_LENGTH: "GRADE_ITEM_NAME_MAX_LENGTH",
+  GRADE_CATEGORY_INVALID: "GRADE_CATEGORY_INVALID",
+  MAX_POINTS_INVALID: "MAX_POINTS_INVALID",
+  WEIGHT_INVALID: "WEIGHT_INVALID",
+  POINTS_INVALID: "POINTS_INVALID",
+  FEEDBACK_FIELD_MAX_LENGTH: "FEEDBACK_FIELD_MAX_LENGTH",
+  INVALID_DATE_FORMAT: "INVALID_DATE_FORMAT",
+  SCORES_REQUIRED: "SCORES_REQUIRED",
+  DUPLICATE_STUDENT_SCORE: "DUPLICATE_STUDENT_SCORE",
+  WEIGHTS_REQUIRED: "WEIGHTS_REQUIRED",
+  DUPLICATE_CATEGORY_WEIGHT: "DUPLICATE_CATEGORY_WEIGHT",
+} as const;
+
+export const GradeCategorySchema = z.enum(["assignment", "quiz", "exam"], {
+  message: GradeValidationErrorCodes.GRADE_CATEGORY_INVALID,
+});
+export type GradeCategory = z.infer<typeof GradeCategorySchema>;
+
+const WeightSchema = z
+  .number({ message: GradeValidationErrorCodes.WEIGHT_INVALID })
+  .positive({ message: GradeValidationErrorCodes.WEIGHT_INVALID });
+
+export const GradeItemSchema = z.object({
+  id: z.string().uuid(),
+  organizationId: z.string().uuid(),
+  courseId: z.string().uuid(),
+  name: z.string(),
+  category: GradeCategorySchema,
+  maxPoints: z.number(),
+  weight: z.number(),
+  dueDate: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type GradeItem = z.infer<typeof GradeItemSchema>;
+
+export const GradeScoreSchema = z.object({
+  id: z.string().uuid(),
+  gradeItemId: z.string().uuid(),
+  studentMemberId: z.string().uuid(),
+  points: z.number(),
+  feedback: z.string().optional(),
+  gradedByMemberId: z.string().uuid().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type GradeScore = z.infer<typeof GradeScoreSchema>;
+
+export const GradeCategoryWeightSchema = z.object({
+  category: GradeCategorySchema,
+  weight: z.number(),
+});
+
+export type GradeCategoryWeight = z.infer<typeof GradeCategoryWeightSchema>;
+
+export const StudentAverageSchema = z.object({
+  studentMemberId: z.string().uuid(),
+  average: z.number().nullable(),
+  categories: z.array(
+    z.object({
+      category: GradeCategorySchema,
+      weight: z.number(),
+      average: z.number(),
+    }),
+  ),
+});
+
+export type StudentAverage = z.infer<typeof StudentAverageSchema>;
+
+export const CreateGradeItemInputSchema = z.object({
+  courseId: z
+    .string()
+    .uuid({ message: GradeValidationErrorCodes.COURSE_ID_INVALID }),
+  name: z
+    .string()
+    .min(1, { message: GradeValidationErrorCodes.GRADE_ITEM_NAME_REQUIRED })
+    .max(200, {
+      message: GradeValidationErrorCodes.GRADE_ITEM_NAME_MAX_LENGTH,
+    }),
+  category: GradeCategorySchema,
+  maxPoints: z
+    .number({ message: GradeValidationErrorCodes.MAX_POINTS_INVALID })
+    .positive({ message: GradeValidationErrorCodes.MAX_POINTS_INVALID }),
+  weight: WeightSchema.optional().default(1),
+  dueDate: z.coerce
+    .date({ message: GradeValidationErrorCodes.INVALID_DATE_FORMAT })
+    .optional(),
+});
+
+export type CreateGradeItemInput = z.infer<typeof CreateGradeItemInputSchema>;
+
+export const UpdateGradeItemInputSchema = z.object({
+  name: z
+    .string()
+    .min(1, { message: GradeValidationErrorCodes.GRADE_ITEM_NAME_REQUIRED })
+    .max(200, { message: GradeValidationErrorCodes.GRADE_ITEM_NAME_MAX_LENGTH })
+    .optional(),
+  category: GradeCategorySchema.optional(),
+  maxPoints: z
+    .number({ message: GradeValidationErrorCodes.MAX_POINTS_INVALID })
+    .positive({ message: GradeValidationErrorCodes.MAX_POINTS_INVALID })
+    .optional(),
+  weight: WeightSchema.optional(),
+  dueDate: z.coerce
+    .date({ message: GradeValidationErrorCodes.INVALID_DATE_FORMAT })
+    .optional()
+    .nullable(),
+});
+
+export type UpdateGradeItemInput = z.infer<typeof UpdateGradeItemInputSchema>;
+
+export const GradeItemIdParamSchema = z.object({
+  id: z.string().uuid({
+    message: GradeValidationErrorCodes.INVALID_GRADE_ITEM_ID_FORMAT,
+  }),
+});
+
+export type GradeItemIdParam = z.infer<typeof GradeItemIdParamSchema>;
+
+export const CourseIdParamSchema = z.object({
+  courseId: z
+    .string()
+    .uuid({ message: GradeValidationErrorCodes.COURSE_ID_INVALID }),
+});
+
+export type CourseIdParam = z.infer<typeof CourseIdParamSchema>;
+
+export const ScoreInputSchema = z.object({
+  studentMemberId: z
+    .string()
+    .uuid({ message: GradeValidationErrorCodes.MEMBER_ID_INVALID }),
+  points: z
+    .number({ message: GradeValidationErrorCodes.POINTS_INVALID })
+    .min(0, { message: GradeValidationErrorCodes.POINTS_INVALID }),
+  feedback: z
+    .string()
+    .max(1000, { message: GradeValidationErrorCodes.FEEDBACK_FIELD_MAX_LENGTH })
+    .optional(),
+});
+
+export type ScoreInput = z.infer<typeof ScoreInputSchema>;
+
+export const RecordScoresInputSchema = z.object({
+  scores: z
+    .array(ScoreInputSchema)
+    .min(1, { message: GradeValidationErrorCodes.SCORES_REQUIRED })
+    .refine(
+      (scores) =>
+        new Set(scores.map((score) => score.studentMemberId)).size ===
+        scores.length,
+      { message: GradeValidationErrorCodes.DUPLICATE_STUDENT_SCORE },
+    ),
+});
+
+export type RecordScoresInput = z.infer<typeof RecordScoresInputSchema>;
+
+export const SetCategoryWeightsInputSchema = z.object({
+  weights: z
+    .array(
+      z.object({
+        category: GradeCategorySchema,
+        weight: WeightSchema,
+      }),
+    )
+    .min(1, { message: GradeValidationErrorCodes.WEIGHTS_REQUIRED })
+    .refine(
+      (weights) =>
+        new Set(weights.map((weight) => weight.category)).size ===
+        weights.length,
+      { message: GradeValidationErrorCodes.DUPLICATE_CATEGORY_WEIGHT },
+    ),
+});
+
+export type SetCategoryWeightsInput = z.infer<
+  typeof SetCategoryWeightsInputSchema
+>;
+
+export const ListGradeItemsQuerySchema = z.object({
+  courseId: z
+    .string()
+    .uuid({ message: GradeValidationErrorCodes.COURSE_ID_INVALID })
+    .optional(),
+  category: GradeCategorySchema.optional(),
+});
+
+export type ListGradeItemsQuery = z.infer<typeof ListGradeItemsQuerySchema>;
+
+export const ListGradeScoresQuerySchema = z.object({
+  courseId: z
+    .string()
+    .uuid({ message: GradeValidationErrorCodes.COURSE_ID_INVALID })
+    .optional(),
+  gradeItemId: z
+    .string()
+    .uuid({ message: GradeValidationErrorCodes.INVALID_GRADE_ITEM_ID_FORMAT })
+    .optional(),
+  studentMemberId: z
+    .string()
+    .uuid({ message: GradeValidationErrorCodes.MEMBER_ID_INVALID })
+    .optional(),
+});
+
+export type ListGradeScoresQuery = z.infer<typeof ListGradeScoresQuerySchema>;
+
+export const CourseAveragesQuerySchema = z.object({
+  studentMemberId: z
+    .string()
+    .uuid({ message: GradeValidationErrorCodes.MEMBER_ID_INVALID })
+    .optional(),
+});
+
+export type CourseAveragesQuery = z.infer<typeof CourseAveragesQuerySchema>;
@@ -0,0 +1,72 @@
+import { gradeRepository } from "../repository/grade.repository";
+import type { ScoreInput } from "../schemas/grade.schema";
+import type { ValidationResult } from "@utils/ValidationResult";
+
+export const gradeValidator = {
+  validateStudents: async (
+    organizationId: string,
+    studentMemberIds: string[],
+  ): Promise<ValidationResult> => {
+    const members = await gradeRepository.findOrganizationMembers(
+      organizationId,
+      studentMemberIds,
+    );
+    const roleByMemberId = new Map(
+      members.map((memberRecord) => [memberRecord.id, memberRecord.role]),
+    );
+
+    const errors: { code: string; value?: string; message: string }[] = [];
+    for (const studentMemberId of studentMemberIds) {
+      const role = roleByMemberId.get(studentMemberId);
+
+      if (!role) {
+        errors.push({
+          value: studentMemberId,
+          code: "STUDENT_NOT_FOUND",
+          message: "Student is not a member of this organization",
+        });
+      } else if (role !== "student") {
+        errors.push({
+          value: studentMemberId,
+          code: "MEMBER_NOT_STUDENT",
+          message: "Grades can only be recorded for students",
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      return {
+        isValid: false,
+        errors,
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  },
+
+  validateScoresWithinMaxPoints: (
+    scores: ScoreInput[],
+    maxPoints: number,
+  ): ValidationResult => {
+    const errors = scores
+      .filter((score) => score.points > maxPoints)
+      .map((score) => ({
+        value: score.studentMemberId,
+        code: "POINTS_EXCEED_MAX_POINTS",
+        message: `Points cannot exceed the maximum of ${maxPoints}`,
+      }));
+
+    if (errors.length > 0) {
+      return {
+        isValid: false,
+        errors,
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  },
+};
@@ -0,0 +1,73 @@
+import {
+  NotificationIdParamSchema,
+  type Notification,
+} from "../schemas/notification.schema";
+import { notificationRepository } from "../repository/notification.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function markNotificationReadHandler(
+  params: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Notification>> {
+  logger.debug("MarkNotificationReadCommand received", { params });
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const parseResult = NotificationIdParamSchema.safeParse(params);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for MarkNotificationReadCommand", {
+      errors,
+    });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { notificationId } = parseResult.data;
+
+  // Members only ever see their own notifications.
+  const notification = await notificationRepository.markRead(
+    access.memberId,
+    notificationId,
+  );
+  if (!notification) {
+    logger.warn("Notification not found", { notificationId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Notification not found",
+          value: notificationId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Notification marked read", { notificationId });
+
+  return {
+    data: notification,
+    isSuccess: true,
+  };
+}
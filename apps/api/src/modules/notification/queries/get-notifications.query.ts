@@ -0,0 +1,55 @@
+import {
+  ListNotificationsQuerySchema,
+  type Notification,
+} from "../schemas/notification.schema";
+import { notificationRepository } from "../repository/notification.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function getNotificationsHandler(
+  queryParams: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Notification[]>> {
+  logger.debug("GetNotificationsQuery received", { queryParams });
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const parseResult = ListNotificationsQuerySchema.safeParse(queryParams ?? {});
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for GetNotificationsQuery", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const notifications = await notificationRepository.findForMember(
+    access.memberId,
+    parseResult.data,
+  );
+
+  logger.info("Notifications retrieved", { count: notifications.length });
+
+  return {
+    data: notifications,
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,110 @@
+import type {
+  ListNotificationsQuery,
+  NewNotification,
+  Notification,
+  NotificationType,
+} from "../schemas/notification.schema";
+import { db, eq, and, desc, isNull } from "@repo/database";
+import { notifications } from "@repo/database/schema/notification";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const notificationRepository = {
+  /**
+   * Stores the notifications whose dedupe key is new and returns only those,
+   * so the caller delivers each event once.
+   */
+  createMany: async (
+    inputs: NewNotification[],
+    tx: Transaction | typeof db = db,
+  ): Promise<Notification[]> => {
+    if (inputs.length === 0) {
+      return [];
+    }
+
+    const rows = await tx
+      .insert(notifications)
+      .values(inputs)
+      .onConflictDoNothing({ target: notifications.dedupeKey })
+      .returning();
+
+    return rows.map(mapNotificationFromDb);
+  },
+
+  findById: async (
+    notificationId: string,
+  ): Promise<Notification | undefined> => {
+    const [row] = await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.id, notificationId))
+      .limit(1);
+
+    return row ? mapNotificationFromDb(row) : undefined;
+  },
+
+  findForMember: async (
+    memberId: string,
+    query: ListNotificationsQuery,
+  ): Promise<Notification[]> => {
+    const conditions = [eq(notifications.memberId, memberId)];
+    if (query.unreadOnly) {
+      conditions.push(isNull(notifications.readAt));
+    }
+
+    const rows = await db
+      .select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(query.limit);
+
+    return rows.map(mapNotificationFromDb);
+  },
+
+  /**
+   * Marks the notification read, keeping the first read time when it was
+   * already read.
+   */
+  markRead: async (
+    memberId: string,
+    notificationId: string,
+  ): Promise<Notification | undefined> => {
+    const [existing] = await db
+      .select()
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.id, notificationId),
+          eq(notifications.memberId, memberId),
+        ),
+      )
+      .limit(1);
+
+    if (!existing || existing.readAt) {
+      return existing ? mapNotificationFromDb(existing) : undefined;
+    }
+
+    const [row] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(eq(notifications.id, notificationId))
+      .returning();
+
+    return row ? mapNotificationFromDb(row) : undefined;
+  },
+};
+
+function mapNotificationFromDb(
+  row: typeof notifications.$inferSelect,
+): Notification {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    memberId: row.memberId,
+    type: row.type as NotificationType,
+    payload: row.payload,
+    readAt: row.readAt ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+export const NotificationValidationErrorCodes = {
+  INVALID_NOTIFICATION_ID_FORMAT: "INVALID_NOTIFICATION_ID_FORMAT",
+  INVALID_LIMIT: "INVALID_LIMIT",
+} as const;
+
+export const NotificationTypes = {
+  TODO_REMINDER: "todo.reminder",
+  TODO_OVERDUE_DIGEST: "todo.overdue_digest",
+} as const;
+
+export type NotificationType =
+  (typeof NotificationTypes)[keyof typeof NotificationTypes];
+
+export type Notification = {
+  id: string;
+  organizationId: string;
+  memberId: string;
+  type: NotificationType;
+  payload: Record<string, unknown>;
+  readAt?: Date;
+  createdAt: Date;
+};
+
+export type NewNotification = {
+  organizationId: string;
+  memberId: string;
+  type: NotificationType;
+  payload: Record<string, unknown>;
+  // The same key is only ever stored once, so senders can safely retry
+  dedupeKey: string;
+};
+
+export const ListNotificationsQuerySchema = z.object({
+  unreadOnly: z
+    .string()
+    .optional()
+    .transform((val) => val === "true"),
+  limit: z.coerce
+    .number({ message: NotificationValidationErrorCodes.INVALID_LIMIT })
+    .int({ message: NotificationValidationErrorCodes.INVALID_LIMIT })
+    .min(1, { message: NotificationValidationErrorCodes.INVALID_LIMIT })
+    .max(100, { message: NotificationValidationErrorCodes.INVALID_LIMIT })
+    .optional()
+    .default(50),
+});
+
+export type ListNotificationsQuery = z.infer<
+  typeof ListNotificationsQuerySchema
+>;
+
+export const NotificationIdParamSchema = z.object({
+  notificationId: z.string().uuid({
+    message: NotificationValidationErrorCodes.INVALID_NOTIFICATION_ID_FORMAT,
+  }),
+});
+
+export type NotificationIdParam = z.infer<typeof NotificationIdParamSchema>;
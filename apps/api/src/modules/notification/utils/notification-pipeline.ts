@@ -0,0 +1,96 @@
+import { db } from "@repo/database";
+import type {
+  NewNotification,
+  Notification,
+} from "../schemas/notification.schema";
+import { notificationRepository } from "../repository/notification.repository";
+import { outboxRepository } from "../../outbox/repository/outbox.repository";
+import { OutboxTopics } from "../../outbox/schemas/outbox.schema";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+/**
+ * Delivers stored notifications outside the app, e.g. by email. The in-app
+ * inbox needs no channel since it reads the stored notifications directly.
+ */
+export type NotificationChannel = {
+  name: string;
+  deliver: (notification: Notification) => Promise<void>;
+};
+
+/**
+ * Stores notifications and queues their delivery to every channel in the
+ * outbox, in the same transaction, so the outbox worker delivers and retries
+ * each channel on its own. A notification that was stored before is neither
+ * stored nor queued again.
+ */
+export function createNotificationPipeline(
+  channels: NotificationChannel[] = [],
+) {
+  return {
+    addChannel(channel: NotificationChannel): void {
+      channels.push(channel);
+    },
+
+    async send(
+      inputs: NewNotification[],
+      logger: LoggerHelpers,
+    ): Promise<Notification[]> {
+      const created = await db.transaction(async (tx) => {
+        const stored = await notificationRepository.createMany(inputs, tx);
+
+        await outboxRepository.enqueue(
+          tx,
+          stored.flatMap((notification) =>
+            channels.map((channel) => ({
+              organizationId: notification.organizationId,
+              topic: OutboxTopics.NOTIFICATION,
+              payload: {
+                notificationId: notification.id,
+                channel: channel.name,
+              },
+            })),
+          ),
+        );
+
+        return stored;
+      });
+
+      if (created.length > 0 && channels.length > 0) {
+        logger.debug("Notification deliveries queued", {
+          notifications: created.length,
+          channels: channels.length,
+        });
+      }
+
+      return created;
+    },
+
+    /**
+     * Hands a stored notification to the named channel. Called by the outbox
+     * worker, which retries when this throws.
+     */
+    async deliver(notificationId: string, channelName: string): Promise<void> {
+      const channel = channels.find(({ name }) => name === channelName);
+      if (!channel) {
+        throw new Error(
+          `Notification channel ${channelName} is not registered`,
+        );
+      }
+
+      const notification =
+        await notificationRepository.findById(notificationId);
+      // The notification went away with its member or organization
+      if (!notification) {
+        return;
+      }
+
+      await channel.deliver(notification);
+    },
+  };
+}
+
+export type NotificationPipeline = ReturnType<
+  typeof createNotificationPipeline
+>;
+
+export const notificationPipeline = createNotificationPipeline();
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+const requirePermission = vi.hoisted(() => vi.fn());
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+  requirePermission,
+}));
+
+const outboxRepository = vi.hoisted(() => ({
+  retry: vi.fn(),
+}));
+
+vi.mock("../repository/outbox.repository", () => ({ outboxRepository }));
+
+import { retryOutboxMessageHandler } from "./retry-outbox-message.command";
+
+describe("retryOutboxMessageHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const messageId = "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "admin",
+      memberId: "m-1",
+    });
+    requirePermission.mockResolvedValue({ role: "admin", memberId: "m-1" });
+  });
+
+  it("should queue the message again, when it was dead-lettered", async () => {
+    outboxRepository.retry.mockResolvedValue({
+      id: messageId,
+      status: "pending",
+      attempts: 0,
+    });
+
+    const result = await retryOutboxMessageHandler(
+      { messageId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(outboxRepository.retry).toHaveBeenCalledWith(
+      organizationId,
+      messageId,
+      expect.any(Date),
+    );
+  });
+
+  it("should return not found, when there is no such dead message", async () => {
+    outboxRepository.retry.mockResolvedValue(undefined);
+
+    const result = await retryOutboxMessageHandler(
+      { messageId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should return forbidden, when the member may not manage the organization", async () => {
+    requirePermission.mockRejectedValue(new Error("forbidden"));
+
+    const result = await retryOutboxMessageHandler(
+      { messageId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("FORBIDDEN");
+    expect(outboxRepository.retry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  OutboxMessageIdParamSchema,
+  type OutboxMessage,
+} from "../schemas/outbox.schema";
+import { outboxRepository } from "../repository/outbox.repository";
+import {
+  requireActiveOrganization,
+  requirePermission,
+} from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+/**
+ * Puts a dead-lettered message back in the queue, e.g. after the mail server
+ * was fixed. The worker picks it up on its next run.
+ */
+export async function retryOutboxMessageHandler(
+  params: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<OutboxMessage>> {
+  logger.debug("RetryOutboxMessageCommand received", { params });
+
+  let organizationId: string;
+  try {
+    ({ organizationId } = await requireActiveOrganization(request));
+    await requirePermission(request, organizationId, "organization", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to retry outbound messages",
+        },
+      ],
+    };
+  }
+
+  const parseResult = OutboxMessageIdParamSchema.safeParse(params);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for RetryOutboxMessageCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { messageId } = parseResult.data;
+
+  const message = await outboxRepository.retry(
+    organizationId,
+    messageId,
+    new Date(),
+  );
+  if (!message) {
+    logger.warn("Dead outbox message not found", { messageId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "No dead-lettered message found with this id",
+          value: messageId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Outbox message queued for retry", { messageId });
+
+  return {
+    data: message,
+    isSuccess: true,
+  };
+}
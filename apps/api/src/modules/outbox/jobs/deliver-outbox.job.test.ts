@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const claimDue = vi.hoisted(() => vi.fn());
+const markDelivered = vi.hoisted(() => vi.fn());
+const markFailed = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/outbox.repository", () => ({
+  outboxRepository: {
+    claimDue,
+    markDelivered,
+    markFailed,
+  },
+}));
+
+vi.mock("../utils/outbox-dispatch", () => ({
+  deliverOutboxMessage: vi.fn(),
+}));
+
+import { deliverOutboxJob } from "./deliver-outbox.job";
+
+describe("deliverOutboxJob", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const now = new Date("2026-04-01T08:00:00.000Z");
+  const message = {
+    id: "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d",
+    topic: "email" as const,
+    payload: { to: "ada@example.com" },
+    status: "pending" as const,
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should mark the message delivered, when delivery succeeds", async () => {
+    claimDue.mockResolvedValue([message]);
+    const deliver = vi.fn().mockResolvedValue(undefined);
+
+    const result = await deliverOutboxJob(logger, now, deliver);
+
+    expect(result).toEqual({ delivered: 1, retried: 0, dead: 0 });
+    expect(deliver).toHaveBeenCalledWith(message);
+    expect(markDelivered).toHaveBeenCalledWith(message.id, 1, expect.any(Date));
+  });
+
+  it("should schedule a retry with backoff, when delivery fails", async () => {
+    claimDue.mockResolvedValue([{ ...message, attempts: 2 }]);
+    const deliver = vi.fn().mockRejectedValue(new Error("smtp offline"));
+
+    const result = await deliverOutboxJob(logger, now, deliver);
+
+    expect(result).toEqual({ delivered: 0, retried: 1, dead: 0 });
+    expect(markFailed).toHaveBeenCalledWith(
+      message.id,
+      3,
+      "smtp offline",
+      new Date(now.getTime() + 120_000),
+    );
+  });
+
+  it("should dead-letter the message, when it runs out of attempts", async () => {
+    claimDue.mockResolvedValue([{ ...message, attempts: 9 }]);
+    const deliver = vi.fn().mockRejectedValue(new Error("mailbox full"));
+
+    const result = await deliverOutboxJob(logger, now, deliver);
+
+    expect(result).toEqual({ delivered: 0, retried: 0, dead: 1 });
+    expect(markFailed).toHaveBeenCalledWith(
+      message.id,
+      10,
+      "mailbox full",
+      null,
+    );
+    expect(logger.error).toHaveBeenCalled();
+  });
+});
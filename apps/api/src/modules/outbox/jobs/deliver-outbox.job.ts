@@ -0,0 +1,78 @@
+import { outboxRepository } from "../repository/outbox.repository";
+import { deliverOutboxMessage } from "../utils/outbox-dispatch";
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  getOutboxRetryDelayMs,
+} from "../utils/outbox-backoff";
+import type { OutboxMessage } from "../schemas/outbox.schema";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+const BATCH_SIZE = 50;
+// Long enough for a batch to be delivered before other workers may claim it
+const LEASE_MS = 5 * 60 * 1000;
+
+export type DeliverOutboxResult = {
+  delivered: number;
+  retried: number;
+  dead: number;
+};
+
+/**
+ * Delivers the outbox messages that are due. A failed message is retried
+ * with exponential backoff and dead-lettered once it runs out of attempts.
+ */
+export async function deliverOutboxJob(
+  logger: LoggerHelpers,
+  now: Date = new Date(),
+  deliver: (message: OutboxMessage) => Promise<void> = deliverOutboxMessage,
+): Promise<DeliverOutboxResult> {
+  const messages = await outboxRepository.claimDue(now, BATCH_SIZE, LEASE_MS);
+  const result: DeliverOutboxResult = { delivered: 0, retried: 0, dead: 0 };
+
+  for (const message of messages) {
+    const attempts = message.attempts + 1;
+
+    try {
+      await deliver(message);
+      await outboxRepository.markDelivered(message.id, attempts, new Date());
+      result.delivered += 1;
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+
+      if (attempts >= OUTBOX_MAX_ATTEMPTS) {
+        await outboxRepository.markFailed(
+          message.id,
+          attempts,
+          lastError,
+          null,
+        );
+        result.dead += 1;
+        logger.error(
+          `Outbox message ${message.id} dead-lettered after ${attempts} attempts`,
+          error as Error,
+        );
+        continue;
+      }
+
+      await outboxRepository.markFailed(
+        message.id,
+        attempts,
+        lastError,
+        new Date(now.getTime() + getOutboxRetryDelayMs(attempts)),
+      );
+      result.retried += 1;
+      logger.warn("Outbox message delivery failed", {
+        messageId: message.id,
+        topic: message.topic,
+        attempts,
+        error: lastError,
+      });
+    }
+  }
+
+  if (messages.length > 0) {
+    logger.info("Delivered outbox messages", { ...result });
+  }
+
+  return result;
+}
@@ -0,0 +1,61 @@
+import {
+  ListOutboxMessagesQuerySchema,
+  type OutboxMessage,
+} from "../schemas/outbox.schema";
+import { outboxRepository } from "../repository/outbox.repository";
+import {
+  requireActiveOrganization,
+  requirePermission,
+} from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function listOutboxMessagesHandler(
+  queryParams: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<OutboxMessage[]>> {
+  logger.debug("ListOutboxMessagesQuery received", { queryParams });
+
+  let organizationId: string;
+  try {
+    ({ organizationId } = await requireActiveOrganization(request));
+    await requirePermission(request, organizationId, "organization", "update");
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Insufficient permissions to view outbound messages",
+        },
+      ],
+    };
+  }
+
+  const parseResult = ListOutboxMessagesQuerySchema.safeParse(
+    queryParams ?? {},
+  );
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for ListOutboxMessagesQuery", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const messages = await outboxRepository.findForOrganization(
+    organizationId,
+    parseResult.data,
+  );
+
+  logger.info("Outbox messages retrieved", { count: messages.length });
+
+  return {
+    data: messages,
+    isSuccess: true,
+  };
+}
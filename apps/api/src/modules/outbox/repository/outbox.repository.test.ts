@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import { readdirSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+const client = await vi.hoisted(async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  return new PGlite();
+});
+
+vi.mock("@repo/database", async () => {
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const operators = await import("drizzle-orm");
+  return { ...operators, db: drizzle(client) };
+});
+
+import { db, eq } from "@repo/database";
+import { member, organization, user } from "@repo/database/schema/auth";
+import { outboxMessages } from "@repo/database/schema/outbox";
+import { outboxRepository } from "./outbox.repository";
+
+const migrationsDir = resolve(
+  __dirname,
+  "../../../../../../packages/database/drizzle",
+);
+
+describe("outboxRepository", () => {
+  let organizationId: string;
+  let otherOrganizationId: string;
+
+  const email = (to: string) => ({
+    to,
+    subject: "Reset your password",
+    text: "Reset your password",
+    html: "<p>Reset your password</p>",
+  });
+
+  const queue = async (
+    subject: string,
+    values: Omit<typeof outboxMessages.$inferInsert, "payload">,
+    to: string,
+  ) => {
+    const [row] = await db
+      .insert(outboxMessages)
+      .values({
+        status: "dead",
+        ...values,
+        payload: { ...email(to), subject },
+      })
+      .returning({ id: outboxMessages.id });
+    return row.id;
+  };
+
+  beforeAll(async () => {
+    const migrations = readdirSync(migrationsDir)
+      .filter((file) => file.endsWith(".sql"))
+      .sort();
+    for (const file of migrations) {
+      const statements = readFileSync(resolve(migrationsDir, file), "utf8")
+        .split("--> statement-breakpoint")
+        .filter((statement) => statement.trim());
+      for (const statement of statements) {
+        await client.exec(statement);
+      }
+    }
+  }, 60_000);
+
+  beforeEach(async () => {
+    await db.delete(outboxMessages);
+    await db.delete(organization);
+    await db.delete(user);
+    [{ id: organizationId }, { id: otherOrganizationId }] = await db
+      .insert(organization)
+      .values(
+        ["springfield", "shelbyville"].map((slug) => ({
+          name: slug,
+          slug,
+          organizationType: "school" as const,
+          createdAt: new Date(),
+        })),
+      )
+      .returning({ id: organization.id });
+    await db.insert(user).values(
+      ["ada", "grace"].map((name) => ({
+        id: name,
+        name,
+        firstName: name,
+        lastName: "Example",
+        email: `${name}@example.com`,
+      })),
+    );
+    await db.insert(member).values([
+      { organizationId, userId: "ada", role: "teacher" },
+      { organizationId: otherOrganizationId, userId: "grace", role: "teacher" },
+    ]);
+  });
+
+  it("should list account emails sent to members, when listing the organization's messages", async () => {
+    await queue("own", { organizationId, topic: "email" }, "x@example.com");
+    await queue("member account", { topic: "email" }, "Ada@Example.com");
+    await queue("stranger account", { topic: "email" }, "grace@example.com");
+    await queue(
+      "other organization",
+      { organizationId: otherOrganizationId, topic: "email" },
+      "ada@example.com",
+    );
+
+    const messages = await outboxRepository.findForOrganization(
+      organizationId,
+      { status: "dead", limit: 50 },
+    );
+
+    expect(messages.map((message) => message.payload.subject).sort()).toEqual([
+      "member account",
+      "own",
+    ]);
+  });
+
+  it("should retry a dead account email, when it was sent to a member", async () => {
+    const messageId = await queue(
+      "member account",
+      { topic: "email" },
+      "ada@example.com",
+    );
+
+    const message = await outboxRepository.retry(
+      organizationId,
+      messageId,
+      new Date(),
+    );
+
+    expect(message?.status).toBe("pending");
+    const [row] = await db
+      .select({ status: outboxMessages.status })
+      .from(outboxMessages)
+      .where(eq(outboxMessages.id, messageId));
+    expect(row.status).toBe("pending");
+  });
+
+  it("should not retry a dead account email, when it was sent to someone outside the organization", async () => {
+    const messageId = await queue(
+      "stranger account",
+      { topic: "email" },
+      "grace@example.com",
+    );
+
+    const message = await outboxRepository.retry(
+      organizationId,
+      messageId,
+      new Date(),
+    );
+
+    expect(message).toBeUndefined();
+  });
+});
@@ -0,0 +1,196 @@
+import type {
+  ListOutboxMessagesQuery,
+  NewOutboxMessage,
+  OutboxMessage,
+  OutboxStatus,
+  OutboxTopic,
+} from "../schemas/outbox.schema";
+import {
+  db,
+  eq,
+  and,
+  or,
+  asc,
+  desc,
+  lte,
+  inArray,
+  isNull,
+  sql,
+  type SQL,
+} from "@repo/database";
+import { member, user } from "@repo/database/schema/auth";
+import { outboxMessages, OutboxTopics } from "@repo/database/schema/outbox";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const outboxRepository = {
+  /**
+   * Queues messages for the outbox worker. Pass the transaction of the
+   * business write so the messages are only kept when that write commits.
+   */
+  enqueue: async (
+    tx: Transaction | typeof db,
+    messages: NewOutboxMessage[],
+  ): Promise<void> => {
+    if (messages.length === 0) {
+      return;
+    }
+
+    await tx.insert(outboxMessages).values(messages);
+  },
+
+  /**
+   * Claims pending messages that are due. Claimed messages are leased by
+   * pushing their next attempt back, so other instances skip them while they
+   * are delivered and a crashed worker's messages come back after the lease.
+   */
+  claimDue: async (
+    now: Date,
+    limit: number,
+    leaseMs: number,
+  ): Promise<OutboxMessage[]> => {
+    return db.transaction(async (tx) => {
+      const rows = await tx
+        .select()
+        .from(outboxMessages)
+        .where(
+          and(
+            eq(outboxMessages.status, "pending"),
+            lte(outboxMessages.nextAttemptAt, now),
+          ),
+        )
+        .orderBy(asc(outboxMessages.nextAttemptAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+
+      if (rows.length === 0) {
+        return [];
+      }
+
+      await tx
+        .update(outboxMessages)
+        .set({ nextAttemptAt: new Date(now.getTime() + leaseMs) })
+        .where(
+          inArray(
+            outboxMessages.id,
+            rows.map((row) => row.id),
+          ),
+        );
+
+      return rows.map(mapOutboxMessageFromDb);
+    });
+  },
+
+  markDelivered: async (
+    messageId: string,
+    attempts: number,
+    now: Date,
+  ): Promise<void> => {
+    await db
+      .update(outboxMessages)
+      .set({ status: "delivered", attempts, deliveredAt: now })
+      .where(eq(outboxMessages.id, messageId));
+  },
+
+  /**
+   * Records a failed attempt. Without a next attempt the message is
+   * dead-lettered.
+   */
+  markFailed: async (
+    messageId: string,
+    attempts: number,
+    lastError: string,
+    nextAttemptAt: Date | null,
+  ): Promise<void> => {
+    await db
+      .update(outboxMessages)
+      .set(
+        nextAttemptAt
+          ? { attempts, lastError, nextAttemptAt }
+          : { attempts, lastError, status: "dead" },
+      )
+      .where(eq(outboxMessages.id, messageId));
+  },
+
+  findForOrganization: async (
+    organizationId: string,
+    query: ListOutboxMessagesQuery,
+  ): Promise<OutboxMessage[]> => {
+    const conditions = [visibleToOrganization(organizationId)];
+    if (query.status) {
+      conditions.push(eq(outboxMessages.status, query.status));
+    }
+
+    const rows = await db
+      .select()
+      .from(outboxMessages)
+      .where(and(...conditions))
+      .orderBy(desc(outboxMessages.createdAt), desc(outboxMessages.id))
+      .limit(query.limit);
+
+    return rows.map(mapOutboxMessageFromDb);
+  },
+
+  /**
+   * Puts a dead message back in the queue with a fresh set of attempts.
+   * Returns undefined when the organization can see no such dead message.
+   */
+  retry: async (
+    organizationId: string,
+    messageId: string,
+    now: Date,
+  ): Promise<OutboxMessage | undefined> => {
+    const [row] = await db
+      .update(outboxMessages)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: now })
+      .where(
+        and(
+          eq(outboxMessages.id, messageId),
+          visibleToOrganization(organizationId),
+          eq(outboxMessages.status, "dead"),
+        ),
+      )
+      .returning();
+
+    return row ? mapOutboxMessageFromDb(row) : undefined;
+  },
+};
+
+/**
+ * Matches the organization's own messages and the account emails, such as
+ * password resets, which are queued without an organization, sent to one of
+ * its members.
+ */
+function visibleToOrganization(organizationId: string): SQL {
+  const memberEmails = db
+    .select({ email: sql`lower(${user.email})` })
+    .from(member)
+    .innerJoin(user, eq(member.userId, user.id))
+    .where(eq(member.organizationId, organizationId));
+
+  return or(
+    eq(outboxMessages.organizationId, organizationId),
+    and(
+      isNull(outboxMessages.organizationId),
+      eq(outboxMessages.topic, OutboxTopics.EMAIL),
+      inArray(sql`lower(${outboxMessages.payload} ->> 'to')`, memberEmails),
+    ),
+  ) as SQL;
+}
+
+function mapOutboxMessageFromDb(
+  row: typeof outboxMessages.$inferSelect,
+): OutboxMessage {
+  return {
+    id: row.id,
+    organizationId: row.organizationId ?? undefined,
+    topic: row.topic as OutboxTopic,
+    payload: row.payload,
+    status: row.status as OutboxStatus,
+    attempts: row.attempts,
+    nextAttemptAt: row.nextAttemptAt,
+    lastError: row.lastError ?? undefined,
+    deliveredAt: row.deliveredAt ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
@@ -0,0 +1,59 @@
+import { z } from "zod";
+import type { OutboxTopic } from "@repo/database/schema/outbox";
+
+export const OutboxValidationErrorCodes = {
+  INVALID_OUTBOX_MESSAGE_ID_FORMAT: "INVALID_OUTBOX_MESSAGE_ID_FORMAT",
+  INVALID_STATUS: "INVALID_STATUS",
+  INVALID_LIMIT: "INVALID_LIMIT",
+} as const;
+
+export { OutboxTopics, type OutboxTopic } from "@repo/database/schema/outbox";
+
+// Dead messages ran out of attempts and wait for an admin to retry them
+export const OutboxStatusSchema = z.enum(["pending", "delivered", "dead"], {
+  message: OutboxValidationErrorCodes.INVALID_STATUS,
+});
+
+export type OutboxStatus = z.infer<typeof OutboxStatusSchema>;
+
+export type OutboxMessage = {
+  id: string;
+  organizationId?: string;
+  topic: OutboxTopic;
+  payload: Record<string, unknown>;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+};
+
+export type NewOutboxMessage = {
+  organizationId?: string;
+  topic: OutboxTopic;
+  payload: Record<string, unknown>;
+};
+
+export const ListOutboxMessagesQuerySchema = z.object({
+  status: OutboxStatusSchema.optional(),
+  limit: z.coerce
+    .number({ message: OutboxValidationErrorCodes.INVALID_LIMIT })
+    .int({ message: OutboxValidationErrorCodes.INVALID_LIMIT })
+    .min(1, { message: OutboxValidationErrorCodes.INVALID_LIMIT })
+    .max(100, { message: OutboxValidationErrorCodes.INVALID_LIMIT })
+    .optional()
+    .default(50),
+});
+
+export type ListOutboxMessagesQuery = z.infer<
+  typeof ListOutboxMessagesQuerySchema
+>;
+
+export const OutboxMessageIdParamSchema = z.object({
+  messageId: z.string().uuid({
+    message: OutboxValidationErrorCodes.INVALID_OUTBOX_MESSAGE_ID_FORMAT,
+  }),
+});
+
+export type OutboxMessageIdParam = z.infer<typeof OutboxMessageIdParamSchema>;
@@ -0,0 +1,14 @@
+import { describe, it, expect } from "vitest";
+import { getOutboxRetryDelayMs } from "./outbox-backoff";
+
+describe("getOutboxRetryDelayMs", () => {
+  it("should double the delay after each failure, when retrying", () => {
+    expect(getOutboxRetryDelayMs(1)).toBe(30_000);
+    expect(getOutboxRetryDelayMs(2)).toBe(60_000);
+    expect(getOutboxRetryDelayMs(4)).toBe(240_000);
+  });
+
+  it("should cap the delay at an hour, when a message keeps failing", () => {
+    expect(getOutboxRetryDelayMs(9)).toBe(3_600_000);
+  });
+});
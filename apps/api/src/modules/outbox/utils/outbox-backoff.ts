@@ -0,0 +1,18 @@
+const SECOND_MS = 1000;
+
+// Attempts before a message is dead-lettered
+export const OUTBOX_MAX_ATTEMPTS = 10;
+
+const BASE_DELAY_MS = 30 * SECOND_MS;
+const MAX_DELAY_MS = 60 * 60 * SECOND_MS;
+
+/**
+ * Delay before the next attempt after the given number of failed attempts,
+ * doubling from 30 seconds up to an hour.
+ */
+export function getOutboxRetryDelayMs(failedAttempts: number): number {
+  return Math.min(
+    BASE_DELAY_MS * 2 ** Math.max(failedAttempts - 1, 0),
+    MAX_DELAY_MS,
+  );
+}
@@ -0,0 +1,32 @@
+import { getMailer, type MailMessage } from "@repo/mailer";
+import { notificationPipeline } from "../../notification/utils/notification-pipeline";
+import {
+  OutboxTopics,
+  type OutboxMessage,
+  type OutboxTopic,
+} from "../schemas/outbox.schema";
+
+type OutboxHandler = (payload: Record<string, unknown>) => Promise<void>;
+
+const outboxHandlers: Record<OutboxTopic, OutboxHandler> = {
+  [OutboxTopics.EMAIL]: async (payload) => {
+    await getMailer().send(payload as MailMessage);
+  },
+  [OutboxTopics.NOTIFICATION]: async (payload) => {
+    await notificationPipeline.deliver(
+      String(payload.notificationId),
+      String(payload.channel),
+    );
+  },
+};
+
+export async function deliverOutboxMessage(
+  message: OutboxMessage,
+): Promise<void> {
+  const handler = outboxHandlers[message.topic];
+  if (!handler) {
+    throw new Error(`No handler for outbox topic ${message.topic}`);
+  }
+
+  await handler(message.payload);
+}
@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = vi.hoisted(() => ({ transaction: vi.fn() }));
+const findByIds = vi.hoisted(() => vi.fn());
+const findByIdsForUpdate = vi.hoisted(() => vi.fn());
+const findSeries = vi.hoisted(() => vi.fn());
+const bulkApply = vi.hoisted(() => vi.fn());
+const recordHistory = vi.hoisted(() => vi.fn());
+const validateLabels = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("@repo/database", () => ({ db }));
+
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    findByIds,
+    findByIdsForUpdate,
+    findSeries,
+    bulkApply,
+  },
+}));
+
+vi.mock("../repository/todo-history.repository", () => ({
+  todoHistoryRepository: {
+    record: recordHistory,
+  },
+}));
+
+vi.mock("../validators/todo.validator", () => ({
+  todoValidator: {
+    validateLabels,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { bulkTodosHandler } from "./bulk-todos.command";
+
+describe("bulkTodosHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+  const firstId = "22222222-2222-4222-8222-222222222222";
+  const secondId = "33333333-3333-4333-8333-333333333333";
+  const missingId = "44444444-4444-4444-8444-444444444444";
+  const labelId = "77777777-7777-4777-8777-777777777777";
+
+  const buildTodo = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    organizationId,
+    title: `Todo ${id.slice(0, 4)}`,
+    description: null,
+    priority: "medium",
+    dueDate: null,
+    completed: false,
+    labelIds: [],
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.transaction.mockImplementation(async (callback) => callback(db));
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+  });
+
+  it("should return validation errors, when the operation parameter is missing", async () => {
+    const result = await bulkTodosHandler(
+      { ids: [firstId], operation: "setPriority" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("BULK_OPERATION_PARAMETER_REQUIRED");
+    expect(bulkApply).not.toHaveBeenCalled();
+  });
+
+  it("should return validation errors, when too many ids are given", async () => {
+    const ids = Array.from(
+      { length: 101 },
+      (_, index) =>
+        `00000000-0000-4000-8000-${index.toString().padStart(12, "0")}`,
+    );
+
+    const result = await bulkTodosHandler(
+      { ids, operation: "complete" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("TOO_MANY_BULK_IDS");
+  });
+
+  it("should report missing todos per item, when some ids do not exist", async () => {
+    findByIdsForUpdate.mockResolvedValue([buildTodo(firstId)]);
+    findByIds.mockResolvedValue([buildTodo(firstId, { priority: "high" })]);
+
+    const result = await bulkTodosHandler(
+      {
+        ids: [missingId, firstId],
+        operation: "setPriority",
+        priority: "high",
+      },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data?.results.map((item) => item.id)).toEqual([
+      missingId,
+      firstId,
+    ]);
+    expect(result.data?.results[0]?.isSuccess).toBe(false);
+    expect(result.data?.results[0]).toMatchObject({
+      errors: [{ code: "RESOURCE_NOT_FOUND", value: missingId }],
+    });
+    expect(result.data?.results[1]).toMatchObject({
+      isSuccess: true,
+      data: { id: firstId, priority: "high" },
+    });
+    expect(bulkApply).toHaveBeenCalledWith(
+      organizationId,
+      [firstId],
+      { operation: "setPriority", priority: "high" },
+      new Map(),
+      db,
+    );
+    expect(recordHistory).toHaveBeenCalledWith(
+      firstId,
+      memberId,
+      [{ field: "priority", oldValue: "medium", newValue: "high" }],
+      db,
+    );
+  });
+
+  it("should schedule the next occurrence, when completing a recurring todo", async () => {
+    const seriesId = "55555555-5555-4555-8555-555555555555";
+    const series = {
+      id: seriesId,
+      recurrenceRule: "FREQ=WEEKLY",
+      startsAt: new Date("2026-01-05T09:00:00.000Z"),
+      stoppedAt: null,
+    };
+    findByIdsForUpdate.mockResolvedValue([
+      buildTodo(firstId, {
+        seriesId,
+        recurrenceRule: "FREQ=WEEKLY",
+        dueDate: new Date("2026-01-05T09:00:00.000Z"),
+      }),
+      buildTodo(secondId),
+    ]);
+    findByIds.mockResolvedValue([
+      buildTodo(firstId, { completed: true }),
+      buildTodo(secondId, { completed: true }),
+    ]);
+    findSeries.mockResolvedValue(series);
+
+    const result = await bulkTodosHandler(
+      { ids: [firstId, secondId], operation: "complete" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(findByIdsForUpdate).toHaveBeenCalledWith(db, organizationId, [
+      firstId,
+      secondId,
+    ]);
+    expect(findSeries).toHaveBeenCalledTimes(1);
+    expect(findSeries).toHaveBeenCalledWith(organizationId, seriesId, db);
+    expect(bulkApply).toHaveBeenCalledWith(
+      organizationId,
+      [firstId, secondId],
+      { operation: "complete" },
+      new Map([
+        [firstId, { series, dueDate: new Date("2026-01-12T09:00:00.000Z") }],
+      ]),
+      db,
+    );
+  });
+
+  it("should return null data without history, when deleting todos", async () => {
+    findByIdsForUpdate.mockResolvedValue([buildTodo(firstId)]);
+
+    const result = await bulkTodosHandler(
+      { ids: [firstId], operation: "delete" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data?.results).toEqual([
+      { id: firstId, isSuccess: true, data: null },
+    ]);
+    expect(findByIds).not.toHaveBeenCalled();
+    expect(recordHistory).not.toHaveBeenCalled();
+  });
+
+  it("should skip todos at the label limit, when adding a label", async () => {
+    const fullLabelIds = Array.from(
+      { length: 20 },
+      (_, index) =>
+        `88888888-8888-4888-8888-${index.toString().padStart(12, "0")}`,
+    );
+    validateLabels.mockResolvedValue({ isValid: true });
+    findByIdsForUpdate.mockResolvedValue([
+      buildTodo(firstId, { labelIds: fullLabelIds }),
+      buildTodo(secondId),
+    ]);
+    findByIds.mockResolvedValue([buildTodo(secondId, { labelIds: [labelId] })]);
+
+    const result = await bulkTodosHandler(
+      { ids: [firstId, secondId], operation: "addLabel", labelId },
+      {} as never,
+      logger,
+    );
+
+    expect(validateLabels).toHaveBeenCalledWith(organizationId, [labelId]);
+    expect(result.data?.results[0]).toMatchObject({
+      isSuccess: false,
+      errors: [{ code: "TOO_MANY_LABELS", value: firstId }],
+    });
+    expect(result.data?.results[1]?.isSuccess).toBe(true);
+    expect(bulkApply).toHaveBeenCalledWith(
+      organizationId,
+      [secondId],
+      { operation: "addLabel", labelId },
+      new Map(),
+      db,
+    );
+  });
+
+  it("should return forbidden, when no active organization is set", async () => {
+    requireActiveOrganization.mockRejectedValue(new Error("forbidden"));
+
+    const result = await bulkTodosHandler(
+      { ids: [firstId], operation: "complete" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
+    expect(findByIds).not.toHaveBeenCalled();
+  });
+});
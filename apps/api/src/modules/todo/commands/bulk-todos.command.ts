@@ -0,0 +1,208 @@
+import {
+  BulkTodoInputSchema,
+  MAX_TODO_LABELS,
+  type BulkTodoInput,
+  type BulkTodoItemResult,
+  type BulkTodoResult,
+  type Todo,
+} from "../schemas/todo.schema";
+import {
+  todoRepository,
+  type NextOccurrence,
+} from "../repository/todo.repository";
+import { todoHistoryRepository } from "../repository/todo-history.repository";
+import { todoValidator } from "../validators/todo.validator";
+import { getNextOccurrence } from "../utils/recurrence";
+import { diffTodoFields } from "../utils/diff-todo-fields";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceError, ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+import { db } from "@repo/database";
+
+export async function bulkTodosHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<BulkTodoResult>> {
+  logger.debug("BulkTodosCommand received", { input });
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const parseResult = BulkTodoInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+
+    logger.warn("Validation failed for BulkTodosCommand", { errors });
+
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { ids, ...operation }: BulkTodoInput = parseResult.data;
+
+  if (operation.operation === "addLabel" && operation.labelId) {
+    const labelsResult = await todoValidator.validateLabels(
+      access.organizationId,
+      [operation.labelId],
+    );
+    if (!labelsResult.isValid) {
+      return {
+        isSuccess: false,
+        errors: labelsResult.errors,
+      };
+    }
+  }
+
+  // The todos stay locked from the read to the history entries, so a todo
+  // completed concurrently is seen completed and schedules no second next
+  // occurrence.
+  const { results, applied } = await db.transaction(async (tx) => {
+    const existingTodos = new Map(
+      (
+        await todoRepository.findByIdsForUpdate(tx, access.organizationId, ids)
+      ).map((todo) => [todo.id, todo]),
+    );
+
+    const failures = new Map<string, ServiceError>();
+    for (const id of ids) {
+      const todo = existingTodos.get(id);
+      if (!todo) {
+        failures.set(id, {
+          code: "RESOURCE_NOT_FOUND",
+          value: id,
+          message: "Todo not found",
+        });
+      } else if (
+        operation.operation === "addLabel" &&
+        operation.labelId &&
+        !todo.labelIds?.includes(operation.labelId) &&
+        (todo.labelIds?.length ?? 0) >= MAX_TODO_LABELS
+      ) {
+        failures.set(id, {
+          code: "TOO_MANY_LABELS",
+          value: id,
+          message: `A todo can have at most ${MAX_TODO_LABELS} labels`,
+        });
+      }
+    }
+
+    const applicableIds = ids.filter((id) => !failures.has(id));
+
+    const nextOccurrences = new Map<string, NextOccurrence>();
+    if (operation.operation === "complete") {
+      for (const id of applicableIds) {
+        const todo = existingTodos.get(id);
+        if (!todo || todo.completed || !todo.seriesId || !todo.recurrenceRule) {
+          continue;
+        }
+
+        const series = await todoRepository.findSeries(
+          access.organizationId,
+          todo.seriesId,
+          tx,
+        );
+        if (!series || series.stoppedAt) {
+          continue;
+        }
+
+        const nextDueDate = getNextOccurrence(
+          series.recurrenceRule,
+          series.startsAt,
+          todo.dueDate ?? new Date(),
+        );
+        if (nextDueDate) {
+          nextOccurrences.set(id, { series, dueDate: nextDueDate });
+        }
+      }
+    }
+
+    await todoRepository.bulkApply(
+      access.organizationId,
+      applicableIds,
+      operation,
+      nextOccurrences,
+      tx,
+    );
+
+    const updatedTodos = new Map<string, Todo>();
+    if (operation.operation !== "delete") {
+      const todos = await todoRepository.findByIds(
+        access.organizationId,
+        applicableIds,
+        tx,
+      );
+      for (const todo of todos) {
+        updatedTodos.set(todo.id, todo);
+      }
+    }
+
+    const results: BulkTodoItemResult[] = [];
+    for (const id of ids) {
+      const failure = failures.get(id);
+      if (failure) {
+        results.push({ id, isSuccess: false, errors: [failure] });
+        continue;
+      }
+
+      if (operation.operation === "delete") {
+        results.push({ id, isSuccess: true, data: null });
+        continue;
+      }
+
+      const before = existingTodos.get(id);
+      const after = updatedTodos.get(id);
+      if (!before || !after) {
+        results.push({
+          id,
+          isSuccess: false,
+          errors: [
+            {
+              code: "RESOURCE_NOT_FOUND",
+              value: id,
+              message: "Todo not found",
+            },
+          ],
+        });
+        continue;
+      }
+
+      await todoHistoryRepository.record(
+        id,
+        access.memberId,
+        diffTodoFields(before, after),
+        tx,
+      );
+      results.push({ id, isSuccess: true, data: after });
+    }
+
+    return { results, applied: applicableIds.length };
+  });
+
+  logger.info("Bulk todo operation applied", {
+    operation: operation.operation,
+    requested: ids.length,
+    applied,
+  });
+
+  return {
+    data: { results },
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findTodoById = vi.hoisted(() => vi.fn());
+const findCommentById = vi.hoisted(() => vi.fn());
+const create = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    findById: findTodoById,
+  },
+}));
+
+vi.mock("../repository/todo-comment.repository", () => ({
+  todoCommentRepository: {
+    findById: findCommentById,
+    create,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { createTodoCommentHandler } from "./create-todo-comment.command";
+
+describe("createTodoCommentHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const todoId = "c5d6e7f8-9a0b-4c1d-8e2f-3a4b5c6d7e8f";
+  const parentId = "55555555-5555-4555-8555-555555555555";
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+    findTodoById.mockResolvedValue({ id: todoId });
+  });
+
+  it("should return validation errors, when body is empty", async () => {
+    const result = await createTodoCommentHandler(
+      todoId,
+      { body: " " },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("COMMENT_BODY_REQUIRED");
+  });
+
+  it("should return not found, when the parent comment was deleted", async () => {
+    findCommentById.mockResolvedValue({ id: parentId, isDeleted: true });
+
+    const result = await createTodoCommentHandler(
+      todoId,
+      { body: "Agreed", parentId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+    expect(findCommentById).toHaveBeenCalledWith(todoId, parentId);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should create a reply by the current member, when the parent exists", async () => {
+    const comment = {
+      id: "66666666-6666-4666-8666-666666666666",
+      todoId,
+      parentId,
+      authorMemberId: memberId,
+      body: "Agreed",
+      isDeleted: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    findCommentById.mockResolvedValue({ id: parentId, isDeleted: false });
+    create.mockResolvedValue(comment);
+
+    const result = await createTodoCommentHandler(
+      todoId,
+      { body: "Agreed", parentId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data).toEqual(comment);
+    expect(create).toHaveBeenCalledWith(todoId, memberId, {
+      body: "Agreed",
+      parentId,
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  CreateTodoCommentInputSchema,
+  type TodoComment,
+} from "../schemas/todo-comment.schema";
+import { TodoIdParamSchema } from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoCommentRepository } from "../repository/todo-comment.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { mapZodErrors } from "@utils/mapZodErrors";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function createTodoCommentHandler(
+  todoId: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoComment>> {
+  logger.debug("CreateTodoCommentCommand received", { todoId });
+
+  const idParseResult = TodoIdParamSchema.safeParse({ id: todoId });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid todo ID format", { todoId, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedTodoId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    validatedTodoId,
+  );
+  if (!existingTodo) {
+    logger.warn("Todo not found for comment", { id: validatedTodoId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const parseResult = CreateTodoCommentInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for CreateTodoCommentCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedInput = parseResult.data;
+
+  if (validatedInput.parentId) {
+    const parent = await todoCommentRepository.findById(
+      validatedTodoId,
+      validatedInput.parentId,
+    );
+    if (!parent || parent.isDeleted) {
+      return {
+        isSuccess: false,
+        errors: [
+          {
+            code: "RESOURCE_NOT_FOUND",
+            message: "Parent comment not found",
+            value: validatedInput.parentId,
+          },
+        ],
+      };
+    }
+  }
+
+  const comment = await todoCommentRepository.create(
+    validatedTodoId,
+    access.memberId,
+    validatedInput,
+  );
+
+  logger.info("Todo comment created", {
+    todoId: validatedTodoId,
+    commentId: comment.id,
+    parentId: comment.parentId,
+  });
+
+  return {
+    isSuccess: true,
+    data: comment,
+  };
+}
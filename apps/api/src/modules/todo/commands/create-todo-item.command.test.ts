@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findById = vi.hoisted(() => vi.fn());
+const count = vi.hoisted(() => vi.fn());
+const create = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    findById,
+  },
+}));
+
+vi.mock("../repository/todo-item.repository", () => ({
+  todoItemRepository: {
+    count,
+    create,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { createTodoItemHandler } from "./create-todo-item.command";
+
+describe("createTodoItemHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const todoId = "c5d6e7f8-9a0b-4c1d-8e2f-3a4b5c6d7e8f";
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+  });
+
+  it("should return not found, when todo is not in the organization", async () => {
+    findById.mockResolvedValue(undefined);
+
+    const result = await createTodoItemHandler(
+      todoId,
+      { title: "Outline" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+    expect(findById).toHaveBeenCalledWith(organizationId, todoId);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should return validation errors, when title is blank", async () => {
+    findById.mockResolvedValue({ id: todoId });
+
+    const result = await createTodoItemHandler(
+      todoId,
+      { title: "   " },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("ITEM_TITLE_FIELD_REQUIRED");
+  });
+
+  it("should reject the item, when the checklist is full", async () => {
+    findById.mockResolvedValue({ id: todoId });
+    count.mockResolvedValue(200);
+
+    const result = await createTodoItemHandler(
+      todoId,
+      { title: "Outline" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("TODO_ITEM_LIMIT_REACHED");
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should create the item, when input is valid", async () => {
+    const item = {
+      id: "33333333-3333-4333-8333-333333333333",
+      todoId,
+      title: "Outline",
+      completed: false,
+      position: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    findById.mockResolvedValue({ id: todoId });
+    count.mockResolvedValue(0);
+    create.mockResolvedValue(item);
+
+    const result = await createTodoItemHandler(
+      todoId,
+      { title: "Outline", position: 0 },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data).toEqual(item);
+    expect(create).toHaveBeenCalledWith(todoId, {
+      title: "Outline",
+      completed: false,
+      position: 0,
+    });
+  });
+});
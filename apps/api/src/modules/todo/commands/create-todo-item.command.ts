@@ -0,0 +1,105 @@
+import {
+  CreateTodoItemInputSchema,
+  MAX_TODO_ITEMS,
+  type TodoItem,
+} from "../schemas/todo-item.schema";
+import { TodoIdParamSchema } from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoItemRepository } from "../repository/todo-item.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { mapZodErrors } from "@utils/mapZodErrors";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function createTodoItemHandler(
+  todoId: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoItem>> {
+  logger.debug("CreateTodoItemCommand received", { todoId, input });
+
+  const idParseResult = TodoIdParamSchema.safeParse({ id: todoId });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid todo ID format", { todoId, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedTodoId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    validatedTodoId,
+  );
+  if (!existingTodo) {
+    logger.warn("Todo not found for item creation", { id: validatedTodoId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const parseResult = CreateTodoItemInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for CreateTodoItemCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const itemCount = await todoItemRepository.count(validatedTodoId);
+  if (itemCount >= MAX_TODO_ITEMS) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "TODO_ITEM_LIMIT_REACHED",
+          message: `A todo can have at most ${MAX_TODO_ITEMS} checklist items`,
+          value: validatedTodoId,
+        },
+      ],
+    };
+  }
+
+  const item = await todoItemRepository.create(
+    validatedTodoId,
+    parseResult.data,
+  );
+
+  logger.info("Todo item created", {
+    todoId: validatedTodoId,
+    itemId: item.id,
+  });
+
+  return {
+    isSuccess: true,
+    data: item,
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const create = vi.hoisted(() => vi.fn());
+const validateLabelNameUniqueness = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("../repository/todo-label.repository", () => ({
+  todoLabelRepository: {
+    create,
+  },
+}));
+
+vi.mock("../validators/todo.validator", () => ({
+  todoValidator: {
+    validateLabelNameUniqueness,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { createTodoLabelHandler } from "./create-todo-label.command";
+
+describe("createTodoLabelHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+    validateLabelNameUniqueness.mockResolvedValue({ isValid: true });
+  });
+
+  it("should return validation errors, when color is not a hex color", async () => {
+    const result = await createTodoLabelHandler(
+      { name: "Science", color: "green" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INVALID_LABEL_COLOR");
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should return an error, when the name is already taken", async () => {
+    validateLabelNameUniqueness.mockResolvedValue({
+      isValid: false,
+      errors: [
+        {
+          value: "Science",
+          code: "DUPLICATE_LABEL_NAME",
+          message: "Label name already exists",
+        },
+      ],
+    });
+
+    const result = await createTodoLabelHandler(
+      { name: "Science", color: "#22AA55" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("DUPLICATE_LABEL_NAME");
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should create the label with a normalized color, when input is valid", async () => {
+    create.mockResolvedValue({ id: "label-1", name: "Science" });
+
+    const result = await createTodoLabelHandler(
+      { name: " Science ", color: "#22AA55" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(validateLabelNameUniqueness).toHaveBeenCalledWith(
+      organizationId,
+      "Science",
+    );
+    expect(create).toHaveBeenCalledWith(organizationId, memberId, {
+      name: "Science",
+      color: "#22aa55",
+    });
+  });
+});
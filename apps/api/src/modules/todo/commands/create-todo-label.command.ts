@@ -0,0 +1,68 @@
+import {
+  CreateTodoLabelInputSchema,
+  type TodoLabel,
+} from "../schemas/todo-label.schema";
+import { todoLabelRepository } from "../repository/todo-label.repository";
+import { todoValidator } from "../validators/todo.validator";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function createTodoLabelHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoLabel>> {
+  logger.debug("CreateTodoLabelCommand received", { input });
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const parseResult = CreateTodoLabelInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for CreateTodoLabelCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validationResult = await todoValidator.validateLabelNameUniqueness(
+    access.organizationId,
+    parseResult.data.name,
+  );
+  if (!validationResult.isValid) {
+    return {
+      isSuccess: false,
+      errors: validationResult.errors,
+    };
+  }
+
+  const label = await todoLabelRepository.create(
+    access.organizationId,
+    access.memberId,
+    parseResult.data,
+  );
+
+  logger.info("Todo label created", { labelId: label.id, name: label.name });
+
+  return {
+    data: label,
+    isSuccess: true,
+  };
+}
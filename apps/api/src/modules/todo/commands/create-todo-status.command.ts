@@ -0,0 +1,85 @@
+import {
+  CreateTodoStatusInputSchema,
+  MAX_TODO_STATUSES,
+  TodoStatusValidationErrorCodes,
+  type TodoStatus,
+} from "../schemas/todo-status.schema";
+import { todoStatusRepository } from "../repository/todo-status.repository";
+import { todoValidator } from "../validators/todo.validator";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function createTodoStatusHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoStatus>> {
+  logger.debug("CreateTodoStatusCommand received", { input });
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const parseResult = CreateTodoStatusInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for CreateTodoStatusCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const statusCount = await todoStatusRepository.count(access.organizationId);
+  if (statusCount >= MAX_TODO_STATUSES) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: TodoStatusValidationErrorCodes.TOO_MANY_STATUSES,
+          message: `An organization can have at most ${MAX_TODO_STATUSES} statuses`,
+        },
+      ],
+    };
+  }
+
+  const validationResult = await todoValidator.validateStatusNameUniqueness(
+    access.organizationId,
+    parseResult.data.name,
+  );
+  if (!validationResult.isValid) {
+    return {
+      isSuccess: false,
+      errors: validationResult.errors,
+    };
+  }
+
+  const status = await todoStatusRepository.create(
+    access.organizationId,
+    parseResult.data,
+  );
+
+  logger.info("Todo status created", {
+    statusId: status.id,
+    name: status.name,
+  });
+
+  return {
+    data: status,
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,71 @@
+import {
+  CreateTodoViewInputSchema,
+  type TodoView,
+} from "../schemas/todo-view.schema";
+import { todoViewRepository } from "../repository/todo-view.repository";
+import { todoValidator } from "../validators/todo.validator";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function createTodoViewHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoView>> {
+  logger.debug("CreateTodoViewCommand received", { input });
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const parseResult = CreateTodoViewInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for CreateTodoViewCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validationResult = await todoValidator.validateViewNameUniqueness(
+    access.memberId,
+    parseResult.data.name,
+  );
+  if (!validationResult.isValid) {
+    return {
+      isSuccess: false,
+      errors: validationResult.errors,
+    };
+  }
+
+  const view = await todoViewRepository.create(
+    access.organizationId,
+    access.memberId,
+    parseResult.data,
+  );
+
+  logger.info("Todo view created", {
+    viewId: view.id,
+    isShared: view.isShared,
+  });
+
+  return {
+    data: view,
+    isSuccess: true,
+  };
+}
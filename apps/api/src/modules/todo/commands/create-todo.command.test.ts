@@ -2,7 +2,10 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 
 const create = vi.hoisted(() => vi.fn());
 const validateTitleUniqueness = vi.hoisted(() => vi.fn());
+const validateOrganizationMembers = vi.hoisted(() => vi.fn());
+const validateLabels = vi.hoisted(() => vi.fn());
 
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
 vi.mock("../repository/todo.repository", () => ({
   todoRepository: {
     create,
@@ -12,9 +15,15 @@ vi.mock("../repository/todo.repository", () => ({
 vi.mock("../validators/todo.validator", () => ({
   todoValidator: {
     validateTitleUniqueness,
+    validateOrganizationMembers,
+    validateLabels,
   },
 }));
 
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
 import { createTodoHandler } from "./create-todo.command";
 
 describe("createTodoHandler", () => {
@@ -25,12 +34,20 @@ describe("createTodoHandler", () => {
     error: vi.fn(),
   };
 
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
   beforeEach(() => {
     vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
   });
 
   it("should return validation errors, when input is invalid", async () => {
-    const result = await createTodoHandler({}, logger);
+    const result = await createTodoHandler({}, {} as never, logger);
 
     expect(result.isSuccess).toBe(false);
     expect(result.errors?.length).toBeGreaterThan(0);
@@ -38,12 +55,31 @@ describe("createTodoHandler", () => {
 
   it("should return validation errors, when title is too long", async () => {
     const longTitle = "a".repeat(201);
-    const result = await createTodoHandler({ title: longTitle }, logger);
+    const result = await createTodoHandler(
+      { title: longTitle },
+      {} as never,
+      logger,
+    );
 
     expect(result.isSuccess).toBe(false);
     expect(result.errors?.[0]?.code).toBe("TITLE_FIELD_MAX_LENGTH");
   });
 
+  it("should return validation errors, when a reminder offset is out of range", async () => {
+    const result = await createTodoHandler(
+      { title: "Write tests", reminderOffsets: [60, 0] },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]).toEqual({
+      code: "INVALID_REMINDER_OFFSET",
+      value: "reminderOffsets.1",
+    });
+    expect(create).not.toHaveBeenCalled();
+  });
+
   it("should create a todo, when input is valid", async () => {
     const todo = {
       id: "11111111-1111-1111-1111-111111111111",
@@ -60,10 +96,90 @@ describe("createTodoHandler", () => {
 
     const result = await createTodoHandler(
       { title: "Write tests", description: "Add unit tests" },
+      {} as never,
       logger,
     );
 
     expect(result.isSuccess).toBe(true);
     expect(result.data).toEqual(todo);
+    expect(validateTitleUniqueness).toHaveBeenCalledWith(
+      organizationId,
+      "Write tests",
+    );
+    expect(create).toHaveBeenCalledWith(organizationId, memberId, {
+      title: "Write tests",
+      description: "Add unit tests",
+      priority: "medium",
+      autoCompleteFromItems: false,
+    });
+  });
+
+  it("should return forbidden, when no active organization is set", async () => {
+    requireActiveOrganization.mockRejectedValue(new Error("forbidden"));
+
+    const result = await createTodoHandler(
+      { title: "Write tests" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should return an error, when an assignee is not a member of the organization", async () => {
+    const outsiderId = "99999999-9999-4999-8999-999999999999";
+    validateTitleUniqueness.mockResolvedValue({ isValid: true });
+    validateOrganizationMembers.mockResolvedValue({
+      isValid: false,
+      errors: [
+        {
+          value: outsiderId,
+          code: "MEMBER_NOT_IN_ORGANIZATION",
+          message: "Member does not belong to this organization",
+        },
+      ],
+    });
+
+    const result = await createTodoHandler(
+      { title: "Prep lab", assigneeMemberIds: [outsiderId, memberId] },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("MEMBER_NOT_IN_ORGANIZATION");
+    expect(validateOrganizationMembers).toHaveBeenCalledWith(organizationId, [
+      outsiderId,
+      memberId,
+    ]);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should return an error, when a label belongs to another organization", async () => {
+    const labelId = "77777777-7777-4777-8777-777777777777";
+    validateTitleUniqueness.mockResolvedValue({ isValid: true });
+    validateLabels.mockResolvedValue({
+      isValid: false,
+      errors: [
+        {
+          value: labelId,
+          code: "LABEL_NOT_FOUND",
+          message: "Label does not exist in this organization",
+        },
+      ],
+    });
+
+    const result = await createTodoHandler(
+      { title: "Prep lab", labelIds: [labelId, labelId] },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("LABEL_NOT_FOUND");
+    expect(validateLabels).toHaveBeenCalledWith(organizationId, [labelId]);
+    expect(create).not.toHaveBeenCalled();
   });
 });
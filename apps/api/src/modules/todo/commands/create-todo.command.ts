@@ -5,16 +5,34 @@ import {
 } from "../schemas/todo.schema";
 import { todoRepository } from "../repository/todo.repository";
 import { todoValidator } from "../validators/todo.validator";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
 import type { LoggerHelpers } from "../../../plugins/logger";
 import { ServiceResult } from "@utils/ServiceResult";
 import { mapZodErrors } from "@utils/mapZodErrors";
 
 export async function createTodoHandler(
   input: unknown,
+  request: FastifyRequest,
   logger: LoggerHelpers,
 ): Promise<ServiceResult<Todo>> {
   logger.debug("CreateTodoCommand received", { input });
 
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
   const parseResult = CreateTodoInputSchema.safeParse(input);
   if (!parseResult.success) {
     const errors = mapZodErrors(parseResult.error);
@@ -30,6 +48,7 @@ export async function createTodoHandler(
   const validatedInput: CreateTodoInput = parseResult.data;
 
   const validationResult = await todoValidator.validateTitleUniqueness(
+    access.organizationId,
     validatedInput.title,
   );
 
@@ -40,7 +59,41 @@ export async function createTodoHandler(
     };
   }
 
-  const todo = await todoRepository.create(validatedInput);
+  const memberIds = [
+    ...(validatedInput.assigneeMemberIds ?? []),
+    ...(validatedInput.watcherMemberIds ?? []),
+  ];
+  if (memberIds.length > 0) {
+    const membersResult = await todoValidator.validateOrganizationMembers(
+      access.organizationId,
+      memberIds,
+    );
+    if (!membersResult.isValid) {
+      return {
+        isSuccess: false,
+        errors: membersResult.errors,
+      };
+    }
+  }
+
+  if (validatedInput.labelIds?.length) {
+    const labelsResult = await todoValidator.validateLabels(
+      access.organizationId,
+      validatedInput.labelIds,
+    );
+    if (!labelsResult.isValid) {
+      return {
+        isSuccess: false,
+        errors: labelsResult.errors,
+      };
+    }
+  }
+
+  const todo = await todoRepository.create(
+    access.organizationId,
+    access.memberId,
+    validatedInput,
+  );
 
   logger.info("Todo created successfully", {
     todoId: todo.id,
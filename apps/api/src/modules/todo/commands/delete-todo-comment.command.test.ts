@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findTodoById = vi.hoisted(() => vi.fn());
+const findCommentById = vi.hoisted(() => vi.fn());
+const deleteComment = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    findById: findTodoById,
+  },
+}));
+
+vi.mock("../repository/todo-comment.repository", () => ({
+  todoCommentRepository: {
+    findById: findCommentById,
+    delete: deleteComment,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { deleteTodoCommentHandler } from "./delete-todo-comment.command";
+
+describe("deleteTodoCommentHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const todoId = "c5d6e7f8-9a0b-4c1d-8e2f-3a4b5c6d7e8f";
+  const commentId = "66666666-6666-4666-8666-666666666666";
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+  const otherMemberId = "77777777-7777-4777-8777-777777777777";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+  });
+
+  it("should return forbidden, when the member neither wrote the comment nor created the todo", async () => {
+    findTodoById.mockResolvedValue({
+      id: todoId,
+      createdByMemberId: otherMemberId,
+    });
+    findCommentById.mockResolvedValue({
+      id: commentId,
+      authorMemberId: otherMemberId,
+      isDeleted: false,
+    });
+
+    const result = await deleteTodoCommentHandler(
+      { id: todoId, commentId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
+    expect(deleteComment).not.toHaveBeenCalled();
+  });
+
+  it("should delete the comment, when the todo creator moderates it", async () => {
+    findTodoById.mockResolvedValue({ id: todoId, createdByMemberId: memberId });
+    findCommentById.mockResolvedValue({
+      id: commentId,
+      authorMemberId: otherMemberId,
+      isDeleted: false,
+    });
+    deleteComment.mockResolvedValue(true);
+
+    const result = await deleteTodoCommentHandler(
+      { id: todoId, commentId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(deleteComment).toHaveBeenCalledWith(todoId, commentId);
+  });
+});
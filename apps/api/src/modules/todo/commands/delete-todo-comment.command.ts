@@ -0,0 +1,89 @@
+import { TodoCommentParamSchema } from "../schemas/todo-comment.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoCommentRepository } from "../repository/todo-comment.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { mapZodErrors } from "@utils/mapZodErrors";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function deleteTodoCommentHandler(
+  params: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<null>> {
+  logger.debug("DeleteTodoCommentCommand received", { params });
+
+  const paramsParseResult = TodoCommentParamSchema.safeParse(params);
+  if (!paramsParseResult.success) {
+    const errors = mapZodErrors(paramsParseResult.error);
+    logger.warn("Invalid todo comment params", { params, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { id: todoId, commentId } = paramsParseResult.data;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    todoId,
+  );
+  const existingComment = existingTodo
+    ? await todoCommentRepository.findById(todoId, commentId)
+    : undefined;
+  if (!existingTodo || !existingComment || existingComment.isDeleted) {
+    logger.warn("Todo comment not found for deletion", { todoId, commentId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Comment not found",
+          value: commentId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  // The todo's creator moderates the discussion on it.
+  if (
+    existingComment.authorMemberId !== access.memberId &&
+    existingTodo.createdByMemberId !== access.memberId
+  ) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Only the author or the todo creator can delete a comment",
+        },
+      ],
+    };
+  }
+
+  await todoCommentRepository.delete(todoId, commentId);
+
+  logger.info("Todo comment deleted", { todoId, commentId });
+
+  return {
+    isSuccess: true,
+    data: null,
+  };
+}
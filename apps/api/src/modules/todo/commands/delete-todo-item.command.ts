@@ -0,0 +1,82 @@
+import { TodoItemParamSchema } from "../schemas/todo-item.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoItemRepository } from "../repository/todo-item.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { mapZodErrors } from "@utils/mapZodErrors";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function deleteTodoItemHandler(
+  params: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<null>> {
+  logger.debug("DeleteTodoItemCommand received", { params });
+
+  const paramsParseResult = TodoItemParamSchema.safeParse(params);
+  if (!paramsParseResult.success) {
+    const errors = mapZodErrors(paramsParseResult.error);
+    logger.warn("Invalid todo item params", { params, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { id: todoId, itemId } = paramsParseResult.data;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    todoId,
+  );
+  if (!existingTodo) {
+    logger.warn("Todo not found for item deletion", { id: todoId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const isDeleted = await todoItemRepository.delete(todoId, itemId);
+  if (!isDeleted) {
+    logger.warn("Todo item not found for deletion", { todoId, itemId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo item not found",
+          value: itemId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Todo item deleted", { todoId, itemId });
+
+  return {
+    isSuccess: true,
+    data: null,
+  };
+}
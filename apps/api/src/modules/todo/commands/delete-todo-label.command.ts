@@ -0,0 +1,67 @@
+import { TodoLabelParamSchema } from "../schemas/todo-label.schema";
+import { todoLabelRepository } from "../repository/todo-label.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function deleteTodoLabelHandler(
+  params: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<null>> {
+  logger.debug("DeleteTodoLabelCommand received", { params });
+
+  const parseResult = TodoLabelParamSchema.safeParse(params);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Invalid todo label params", { params, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { labelId } = parseResult.data;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const isDeleted = await todoLabelRepository.delete(
+    access.organizationId,
+    labelId,
+  );
+  if (!isDeleted) {
+    logger.warn("Todo label not found for deletion", { labelId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Label not found",
+          value: labelId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Todo label deleted", { labelId });
+
+  return {
+    data: null,
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const countTodos = vi.hoisted(() => vi.fn());
+const deleteStatus = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("../repository/todo-status.repository", () => ({
+  todoStatusRepository: {
+    countTodos,
+    delete: deleteStatus,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { deleteTodoStatusHandler } from "./delete-todo-status.command";
+
+describe("deleteTodoStatusHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const statusId = "33333333-3333-4333-8333-333333333333";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId: "11111111-1111-4111-8111-111111111111",
+    });
+  });
+
+  it("should refuse to delete the status, when todos are still in it", async () => {
+    countTodos.mockResolvedValue(3);
+
+    const result = await deleteTodoStatusHandler(
+      { statusId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("STATUS_IN_USE");
+    expect(deleteStatus).not.toHaveBeenCalled();
+  });
+
+  it("should delete the status, when it is empty", async () => {
+    countTodos.mockResolvedValue(0);
+    deleteStatus.mockResolvedValue(true);
+
+    const result = await deleteTodoStatusHandler(
+      { statusId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data).toBeNull();
+    expect(deleteStatus).toHaveBeenCalledWith(organizationId, statusId);
+  });
+
+  it("should return not found, when the status does not exist", async () => {
+    countTodos.mockResolvedValue(0);
+    deleteStatus.mockResolvedValue(false);
+
+    const result = await deleteTodoStatusHandler(
+      { statusId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  TodoStatusParamSchema,
+  TodoStatusValidationErrorCodes,
+} from "../schemas/todo-status.schema";
+import { todoStatusRepository } from "../repository/todo-status.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function deleteTodoStatusHandler(
+  params: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<null>> {
+  logger.debug("DeleteTodoStatusCommand received", { params });
+
+  const paramsParseResult = TodoStatusParamSchema.safeParse(params);
+  if (!paramsParseResult.success) {
+    const errors = mapZodErrors(paramsParseResult.error);
+    logger.warn("Invalid todo status params", { params, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { statusId } = paramsParseResult.data;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  // Todos must be moved out first so none silently lose their column.
+  const todoCount = await todoStatusRepository.countTodos(
+    access.organizationId,
+    statusId,
+  );
+  if (todoCount > 0) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: TodoStatusValidationErrorCodes.STATUS_IN_USE,
+          message: "Move the todos out of this status before deleting it",
+          value: statusId,
+        },
+      ],
+    };
+  }
+
+  const isDeleted = await todoStatusRepository.delete(
+    access.organizationId,
+    statusId,
+  );
+  if (!isDeleted) {
+    logger.warn("Todo status not found for deletion", { statusId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Status not found",
+          value: statusId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Todo status deleted", { statusId });
+
+  return {
+    data: null,
+    isSuccess: true,
+  };
+}
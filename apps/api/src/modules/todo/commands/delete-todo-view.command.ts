@@ -0,0 +1,85 @@
+import { TodoViewParamSchema } from "../schemas/todo-view.schema";
+import { todoViewRepository } from "../repository/todo-view.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function deleteTodoViewHandler(
+  params: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<null>> {
+  logger.debug("DeleteTodoViewCommand received", { params });
+
+  const paramsParseResult = TodoViewParamSchema.safeParse(params);
+  if (!paramsParseResult.success) {
+    const errors = mapZodErrors(paramsParseResult.error);
+    logger.warn("Invalid todo view params", { params, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { viewId } = paramsParseResult.data;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingView = await todoViewRepository.findById(
+    access.organizationId,
+    viewId,
+  );
+  if (
+    !existingView ||
+    (!existingView.isShared &&
+      existingView.createdByMemberId !== access.memberId)
+  ) {
+    logger.warn("Todo view not found for deletion", { viewId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "View not found",
+          value: viewId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  if (existingView.createdByMemberId !== access.memberId) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Only the creator can delete a view",
+        },
+      ],
+    };
+  }
+
+  await todoViewRepository.delete(access.organizationId, viewId);
+
+  logger.info("Todo view deleted", { viewId });
+
+  return {
+    data: null,
+    isSuccess: true,
+  };
+}
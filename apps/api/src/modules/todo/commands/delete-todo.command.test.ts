@@ -3,6 +3,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 const findById = vi.hoisted(() => vi.fn());
 const remove = vi.hoisted(() => vi.fn());
 
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
 vi.mock("../repository/todo.repository", () => ({
   todoRepository: {
     findById,
@@ -10,6 +11,10 @@ vi.mock("../repository/todo.repository", () => ({
   },
 }));
 
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
 import { deleteTodoHandler } from "./delete-todo.command";
 
 describe("deleteTodoHandler", () => {
@@ -21,12 +26,20 @@ describe("deleteTodoHandler", () => {
   };
   const todoId = "a3b4c5d6-7e8f-4a9b-8c7d-6e5f4a3b2c1d";
 
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
   beforeEach(() => {
     vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
   });
 
   it("should return validation errors, when id is invalid", async () => {
-    const result = await deleteTodoHandler("bad-id", logger);
+    const result = await deleteTodoHandler("bad-id", {} as never, logger);
 
     expect(result.isSuccess).toBe(false);
     expect(result.errors?.length).toBeGreaterThan(0);
@@ -46,7 +59,7 @@ describe("deleteTodoHandler", () => {
     findById.mockResolvedValue(todo);
     remove.mockResolvedValue(true);
 
-    const result = await deleteTodoHandler(todo.id, logger);
+    const result = await deleteTodoHandler(todo.id, {} as never, logger);
 
     expect(result.isSuccess).toBe(true);
     expect(result.data).toBeNull();
@@ -1,5 +1,7 @@
 import { TodoIdParamSchema } from "../schemas/todo.schema";
 import { todoRepository } from "../repository/todo.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
 import type { LoggerHelpers } from "../../../plugins/logger";
 import { ServiceResult } from "@utils/ServiceResult";
 import { mapZodErrors } from "@utils/mapZodErrors";
@@ -10,6 +12,7 @@ export type DeleteTodoCommandResult = {
 
 export async function deleteTodoHandler(
   id: unknown,
+  request: FastifyRequest,
   logger: LoggerHelpers,
 ): Promise<ServiceResult<null>> {
   logger.debug("DeleteTodoCommand received", { id });
@@ -27,7 +30,25 @@ export async function deleteTodoHandler(
 
   const validatedId = parseResult.data.id;
 
-  const existingTodo = await todoRepository.findById(validatedId);
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    validatedId,
+  );
   if (!existingTodo) {
     logger.warn("Todo not found for deletion", { id: validatedId });
 
@@ -42,9 +63,9 @@ export async function deleteTodoHandler(
     };
   }
 
-  await todoRepository.delete(validatedId);
+  await todoRepository.delete(access.organizationId, validatedId);
 
-  logger.info("Todo deleted successfully", {
+  logger.info("Todo moved to trash", {
     todoId: validatedId,
     title: existingTodo.title,
   });
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findById = vi.hoisted(() => vi.fn());
+const update = vi.hoisted(() => vi.fn());
+const updateSeries = vi.hoisted(() => vi.fn());
+const updateFutureOccurrences = vi.hoisted(() => vi.fn());
+const validateTitleUniqueness = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    findById,
+    update,
+    updateSeries,
+    updateFutureOccurrences,
+  },
+}));
+
+vi.mock("../validators/todo.validator", () => ({
+  todoValidator: {
+    validateTitleUniqueness,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { editTodoOccurrenceHandler } from "./edit-todo-occurrence.command";
+
+describe("editTodoOccurrenceHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const todoId = "c5d6e7f8-9a0b-4c1d-8e2f-3a4b5c6d7e8f";
+  const seriesId = "22222222-2222-4222-8222-222222222222";
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+  const dueDate = new Date("2025-01-06T09:00:00.000Z");
+
+  const todo = {
+    id: todoId,
+    organizationId,
+    title: "Weekly report",
+    priority: "medium",
+    completed: false,
+    dueDate,
+    seriesId,
+    recurrenceRule: "FREQ=WEEKLY",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+    validateTitleUniqueness.mockResolvedValue({ isValid: true });
+  });
+
+  it("should return an error, when the todo is not recurring", async () => {
+    findById.mockResolvedValue({ ...todo, seriesId: undefined });
+
+    const result = await editTodoOccurrenceHandler(
+      todoId,
+      { scope: "this", title: "Report" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("TODO_NOT_RECURRING");
+  });
+
+  it("should return validation errors, when a rule is changed for this occurrence only", async () => {
+    findById.mockResolvedValue(todo);
+
+    const result = await editTodoOccurrenceHandler(
+      todoId,
+      { scope: "this", recurrenceRule: "FREQ=DAILY" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INVALID_OCCURRENCE_SCOPE");
+  });
+
+  it("should update only the occurrence, when scope is this", async () => {
+    findById.mockResolvedValue(todo);
+    update.mockResolvedValue({ ...todo, title: "Quarterly report" });
+
+    const result = await editTodoOccurrenceHandler(
+      todoId,
+      { scope: "this", title: "Quarterly report" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(validateTitleUniqueness).toHaveBeenCalledWith(
+      organizationId,
+      "Quarterly report",
+      todoId,
+      seriesId,
+    );
+    expect(updateSeries).not.toHaveBeenCalled();
+    expect(updateFutureOccurrences).not.toHaveBeenCalled();
+    expect(update).toHaveBeenCalledWith(organizationId, todoId, {
+      title: "Quarterly report",
+    });
+  });
+
+  it("should update the series and later occurrences, when scope is future", async () => {
+    findById.mockResolvedValue(todo);
+    update.mockResolvedValue({ ...todo, priority: "high" });
+    updateFutureOccurrences.mockResolvedValue(1);
+
+    const result = await editTodoOccurrenceHandler(
+      todoId,
+      { scope: "future", priority: "high", recurrenceRule: "FREQ=DAILY" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(updateSeries).toHaveBeenCalledWith(organizationId, seriesId, {
+      title: undefined,
+      description: undefined,
+      priority: "high",
+      recurrenceRule: "FREQ=DAILY",
+      startsAt: dueDate,
+    });
+    expect(updateFutureOccurrences).toHaveBeenCalledWith(
+      organizationId,
+      seriesId,
+      dueDate,
+      { title: undefined, description: undefined, priority: "high" },
+    );
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  EditTodoOccurrenceInputSchema,
+  TodoIdParamSchema,
+  ValidationErrorCodes,
+  type EditTodoOccurrenceInput,
+  type Todo,
+} from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoValidator } from "../validators/todo.validator";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { mapZodErrors } from "@utils/mapZodErrors";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function editTodoOccurrenceHandler(
+  id: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Todo>> {
+  logger.debug("EditTodoOccurrenceCommand received", { id, input });
+
+  const idParseResult = TodoIdParamSchema.safeParse({ id });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid todo ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    validatedId,
+  );
+  if (!existingTodo) {
+    logger.warn("Todo not found for occurrence edit", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const seriesId = existingTodo.seriesId;
+  if (!seriesId) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "TODO_NOT_RECURRING",
+          message: "Todo is not part of a recurring series",
+          value: validatedId,
+        },
+      ],
+    };
+  }
+
+  const parseResult = EditTodoOccurrenceInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for EditTodoOccurrenceCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { scope, recurrenceRule, ...changes }: EditTodoOccurrenceInput =
+    parseResult.data;
+
+  if (changes.title) {
+    const validationResult = await todoValidator.validateTitleUniqueness(
+      access.organizationId,
+      changes.title,
+      validatedId,
+      seriesId,
+    );
+    if (!validationResult.isValid) {
+      return {
+        isSuccess: false,
+        errors: validationResult.errors,
+      };
+    }
+  }
+
+  if (scope === "future") {
+    const template = {
+      title: changes.title,
+      description: changes.description,
+      priority: changes.priority,
+    };
+    const reschedule = recurrenceRule !== undefined || changes.dueDate;
+    const startsAt = changes.dueDate ?? existingTodo.dueDate;
+
+    if (reschedule && !startsAt) {
+      return {
+        isSuccess: false,
+        errors: [
+          {
+            code: ValidationErrorCodes.RECURRENCE_REQUIRES_DUE_DATE,
+            value: "dueDate",
+          },
+        ],
+      };
+    }
+
+    await todoRepository.updateSeries(access.organizationId, seriesId, {
+      ...template,
+      recurrenceRule,
+      startsAt: reschedule ? startsAt : undefined,
+    });
+
+    const updatedCount = await todoRepository.updateFutureOccurrences(
+      access.organizationId,
+      seriesId,
+      existingTodo.dueDate ?? existingTodo.createdAt,
+      template,
+    );
+
+    logger.info("Future todo occurrences updated", {
+      todoId: validatedId,
+      seriesId,
+      updatedCount,
+    });
+  }
+
+  const updatedTodo = await todoRepository.update(
+    access.organizationId,
+    validatedId,
+    changes,
+  );
+  if (!updatedTodo) {
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Todo occurrence updated", { todoId: validatedId, scope });
+
+  return {
+    isSuccess: true,
+    data: updatedTodo,
+  };
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const create = vi.hoisted(() => vi.fn());
+const validateTitleUniqueness = vi.hoisted(() => vi.fn());
+const validateOrganizationMembers = vi.hoisted(() => vi.fn());
+const validateLabels = vi.hoisted(() => vi.fn());
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    create,
+  },
+}));
+
+vi.mock("../validators/todo.validator", () => ({
+  todoValidator: {
+    validateTitleUniqueness,
+    validateOrganizationMembers,
+    validateLabels,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { importTodosHandler } from "./import-todos.command";
+
+describe("importTodosHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
+  const csv = [
+    "title,priority,dueDate",
+    "Grade essays,high,2026-03-15",
+    "Plan field trip,urgent,",
+    "grade essays,low,",
+  ].join("\n");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+    validateTitleUniqueness.mockResolvedValue({ isValid: true });
+    create.mockImplementation(async (_orgId, _memberId, input) => ({
+      id: "22222222-2222-4222-8222-222222222222",
+      organizationId,
+      ...input,
+    }));
+  });
+
+  it("should report each row and create nothing, when dryRun is set", async () => {
+    const result = await importTodosHandler(
+      { format: "csv", content: csv, dryRun: true },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    if (!result.isSuccess) return;
+    expect(result.data).toMatchObject({ dryRun: true, imported: 1, failed: 2 });
+    expect(result.data.results).toEqual([
+      { row: 1, isSuccess: true, data: null },
+      {
+        row: 2,
+        isSuccess: false,
+        errors: [{ code: "INVALID_PRIORITY_VALUE", value: "priority" }],
+      },
+      {
+        row: 3,
+        isSuccess: false,
+        errors: [expect.objectContaining({ code: "DUPLICATE_TITLE" })],
+      },
+    ]);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should create the valid rows only, when some rows fail", async () => {
+    validateTitleUniqueness.mockImplementation(async (_orgId, title) =>
+      title === "Plan field trip"
+        ? {
+            isValid: false,
+            errors: [{ code: "DUPLICATE_TITLE", message: "Title exists" }],
+          }
+        : { isValid: true },
+    );
+
+    const result = await importTodosHandler(
+      {
+        format: "json",
+        content: JSON.stringify([
+          { title: "Grade essays", dueDate: "2026-03-15" },
+          { title: "Plan field trip" },
+        ]),
+      },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    if (!result.isSuccess) return;
+    expect(result.data).toMatchObject({
+      dryRun: false,
+      imported: 1,
+      failed: 1,
+    });
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create).toHaveBeenCalledWith(
+      organizationId,
+      memberId,
+      expect.objectContaining({
+        title: "Grade essays",
+        dueDate: new Date("2026-03-15"),
+      }),
+    );
+    expect(result.data.results[1]).toMatchObject({
+      row: 2,
+      isSuccess: false,
+      errors: [{ code: "DUPLICATE_TITLE" }],
+    });
+  });
+
+  it("should return an error, when the content cannot be parsed", async () => {
+    const result = await importTodosHandler(
+      { format: "json", content: "[{" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("INVALID_IMPORT_CONTENT");
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should return validation errors, when the format is unknown", async () => {
+    const result = await importTodosHandler(
+      { format: "xlsx", content: "title" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0]).toEqual({
+      code: "INVALID_FILE_FORMAT",
+      value: "format",
+    });
+  });
+});
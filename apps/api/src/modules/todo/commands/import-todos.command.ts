@@ -0,0 +1,204 @@
+import {
+  CreateTodoInputSchema,
+  ImportTodosInputSchema,
+  MAX_IMPORT_TODO_ROWS,
+  type CreateTodoInput,
+  type ImportTodoRowResult,
+  type ImportTodosInput,
+  type ImportTodosResult,
+} from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoValidator } from "../validators/todo.validator";
+import { parseTodoImportRows } from "../utils/todo-import";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceError, ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function importTodosHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<ImportTodosResult>> {
+  logger.debug("ImportTodosCommand received");
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const parseResult = ImportTodosInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+
+    logger.warn("Validation failed for ImportTodosCommand", { errors });
+
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { format, content, dryRun }: ImportTodosInput = parseResult.data;
+
+  const rows = parseTodoImportRows(format, content);
+  if (!rows) {
+    logger.warn("Unreadable file for ImportTodosCommand", { format });
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "INVALID_IMPORT_CONTENT",
+          value: format,
+          message: `The content is not a valid ${format} todo file`,
+        },
+      ],
+    };
+  }
+  if (rows.length === 0) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "IMPORT_ROWS_REQUIRED",
+          message: "The file does not contain any todos",
+        },
+      ],
+    };
+  }
+  if (rows.length > MAX_IMPORT_TODO_ROWS) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "TOO_MANY_IMPORT_ROWS",
+          message: `An import can hold at most ${MAX_IMPORT_TODO_ROWS} todos`,
+        },
+      ],
+    };
+  }
+
+  // Titles are unique per organization, so the file must not repeat one either.
+  const importedTitles = new Set<string>();
+  const results: ImportTodoRowResult[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    const rowNumber = index + 1;
+
+    const rowParseResult = CreateTodoInputSchema.safeParse(row);
+    if (!rowParseResult.success) {
+      results.push({
+        row: rowNumber,
+        isSuccess: false,
+        errors: mapZodErrors(rowParseResult.error),
+      });
+      continue;
+    }
+
+    const validatedInput: CreateTodoInput = rowParseResult.data;
+    const errors = await validateImportRow(
+      access.organizationId,
+      validatedInput,
+      importedTitles,
+    );
+    if (errors.length > 0) {
+      results.push({ row: rowNumber, isSuccess: false, errors });
+      continue;
+    }
+
+    importedTitles.add(validatedInput.title.toLowerCase());
+
+    if (dryRun) {
+      results.push({ row: rowNumber, isSuccess: true, data: null });
+      continue;
+    }
+
+    const todo = await todoRepository.create(
+      access.organizationId,
+      access.memberId,
+      validatedInput,
+    );
+    results.push({ row: rowNumber, isSuccess: true, data: todo });
+  }
+
+  const imported = results.filter((result) => result.isSuccess).length;
+
+  logger.info("Todos imported", {
+    format,
+    dryRun,
+    imported,
+    failed: results.length - imported,
+  });
+
+  return {
+    data: {
+      dryRun,
+      imported,
+      failed: results.length - imported,
+      results,
+    },
+    isSuccess: true,
+  };
+}
+
+// Runs the checks of a single create against one row of the file.
+async function validateImportRow(
+  organizationId: string,
+  input: CreateTodoInput,
+  importedTitles: Set<string>,
+): Promise<ServiceError[]> {
+  if (importedTitles.has(input.title.toLowerCase())) {
+    return [
+      {
+        value: input.title,
+        code: "DUPLICATE_TITLE",
+        message: "Title already exists",
+      },
+    ];
+  }
+
+  const titleResult = await todoValidator.validateTitleUniqueness(
+    organizationId,
+    input.title,
+  );
+  if (!titleResult.isValid) {
+    return titleResult.errors;
+  }
+
+  const memberIds = [
+    ...(input.assigneeMemberIds ?? []),
+    ...(input.watcherMemberIds ?? []),
+  ];
+  if (memberIds.length > 0) {
+    const membersResult = await todoValidator.validateOrganizationMembers(
+      organizationId,
+      memberIds,
+    );
+    if (!membersResult.isValid) {
+      return membersResult.errors;
+    }
+  }
+
+  if (input.labelIds?.length) {
+    const labelsResult = await todoValidator.validateLabels(
+      organizationId,
+      input.labelIds,
+    );
+    if (!labelsResult.isValid) {
+      return labelsResult.errors;
+    }
+  }
+
+  return [];
+}
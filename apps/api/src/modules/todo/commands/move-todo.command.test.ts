@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findById = vi.hoisted(() => vi.fn());
+const move = vi.hoisted(() => vi.fn());
+const findStatuses = vi.hoisted(() => vi.fn());
+const recordHistory = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    findById,
+    move,
+  },
+}));
+
+vi.mock("../repository/todo-status.repository", () => ({
+  todoStatusRepository: {
+    findAll: findStatuses,
+  },
+}));
+
+vi.mock("../repository/todo-history.repository", () => ({
+  todoHistoryRepository: {
+    record: recordHistory,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { moveTodoHandler } from "./move-todo.command";
+import { createETag } from "../../../shared/utils/etag";
+
+describe("moveTodoHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const todoId = "c5d6e7f8-9a0b-4c1d-8e2f-3a4b5c6d7e8f";
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+  const todoStatusId = "33333333-3333-4333-8333-333333333333";
+  const doingStatusId = "55555555-5555-4555-8555-555555555555";
+  const doneStatusId = "44444444-4444-4444-8444-444444444444";
+
+  const existingTodo = {
+    id: todoId,
+    title: "Grade essays",
+    completed: false,
+    statusId: todoStatusId,
+    position: 2,
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+    findById.mockResolvedValue(existingTodo);
+    findStatuses.mockResolvedValue([
+      { id: todoStatusId, name: "To do", position: 0 },
+      { id: doingStatusId, name: "In progress", position: 1 },
+      { id: doneStatusId, name: "Done", position: 2 },
+    ]);
+  });
+
+  it("should move the todo without completing it, when the target is not the last status", async () => {
+    move.mockResolvedValue({
+      ...existingTodo,
+      statusId: doingStatusId,
+      position: 0,
+    });
+
+    const result = await moveTodoHandler(
+      todoId,
+      { statusId: doingStatusId, position: 0 },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(move).toHaveBeenCalledWith(
+      organizationId,
+      todoId,
+      doingStatusId,
+      0,
+      false,
+      undefined,
+    );
+    expect(recordHistory).toHaveBeenCalledWith(todoId, memberId, [
+      { field: "statusId", oldValue: todoStatusId, newValue: doingStatusId },
+    ]);
+  });
+
+  it("should complete the todo, when it is moved into the last status", async () => {
+    move.mockResolvedValue({
+      ...existingTodo,
+      completed: true,
+      statusId: doneStatusId,
+    });
+
+    const result = await moveTodoHandler(
+      todoId,
+      { statusId: doneStatusId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(move).toHaveBeenCalledWith(
+      organizationId,
+      todoId,
+      doneStatusId,
+      undefined,
+      true,
+      undefined,
+    );
+  });
+
+  it("should reject the move, when another write lands after the if-match check", async () => {
+    move.mockResolvedValue(undefined);
+
+    await expect(
+      moveTodoHandler(
+        todoId,
+        { statusId: doingStatusId },
+        {
+          headers: { "if-match": createETag(existingTodo.updatedAt) },
+        } as never,
+        logger,
+      ),
+    ).rejects.toMatchObject({ code: "PRECONDITION_FAILED", statusCode: 412 });
+    expect(move).toHaveBeenCalledWith(
+      organizationId,
+      todoId,
+      doingStatusId,
+      undefined,
+      false,
+      existingTodo.updatedAt,
+    );
+  });
+
+  it("should return not found, when the status belongs to another organization", async () => {
+    const foreignStatusId = "99999999-9999-4999-8999-999999999999";
+
+    const result = await moveTodoHandler(
+      todoId,
+      { statusId: foreignStatusId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]).toMatchObject({
+      code: "RESOURCE_NOT_FOUND",
+      value: foreignStatusId,
+    });
+    expect(move).not.toHaveBeenCalled();
+  });
+
+  it("should return validation errors, when the position is negative", async () => {
+    const result = await moveTodoHandler(
+      todoId,
+      { statusId: doingStatusId, position: -1 },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INVALID_TODO_POSITION");
+  });
+
+  it("should return not found, when the todo does not exist", async () => {
+    findById.mockResolvedValue(undefined);
+
+    const result = await moveTodoHandler(
+      todoId,
+      { statusId: doingStatusId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+    expect(findStatuses).not.toHaveBeenCalled();
+  });
+});
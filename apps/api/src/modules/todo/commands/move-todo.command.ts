@@ -0,0 +1,145 @@
+import {
+  MoveTodoInputSchema,
+  TodoIdParamSchema,
+  type Todo,
+} from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoStatusRepository } from "../repository/todo-status.repository";
+import { todoHistoryRepository } from "../repository/todo-history.repository";
+import { diffTodoFields } from "../utils/diff-todo-fields";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import { assertIfMatch } from "../../../shared/utils/etag";
+import { createPreconditionFailedError } from "../../../shared/errors/app-error";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { mapZodErrors } from "@utils/mapZodErrors";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function moveTodoHandler(
+  id: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Todo>> {
+  logger.debug("MoveTodoCommand received", { id, input });
+
+  const idParseResult = TodoIdParamSchema.safeParse({ id });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid todo ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    validatedId,
+  );
+  if (!existingTodo) {
+    logger.warn("Todo not found for move", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const expectedUpdatedAt = assertIfMatch(
+    request,
+    existingTodo.updatedAt,
+    "Todo",
+    validatedId,
+  );
+
+  const parseResult = MoveTodoInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for MoveTodoCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { statusId, position } = parseResult.data;
+
+  const statuses = await todoStatusRepository.findAll(access.organizationId);
+  if (!statuses.some((status) => status.id === statusId)) {
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Status not found",
+          value: statusId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  // The last column is the done column.
+  const completed = statuses[statuses.length - 1]?.id === statusId;
+
+  const movedTodo = await todoRepository.move(
+    access.organizationId,
+    validatedId,
+    statusId,
+    position,
+    completed,
+    expectedUpdatedAt,
+  );
+  if (!movedTodo) {
+    if (expectedUpdatedAt) {
+      throw createPreconditionFailedError("Todo", validatedId);
+    }
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  await todoHistoryRepository.record(
+    validatedId,
+    access.memberId,
+    diffTodoFields(existingTodo, movedTodo),
+  );
+
+  logger.info("Todo moved", {
+    todoId: validatedId,
+    statusId,
+    position: movedTodo.position,
+  });
+
+  return {
+    data: movedTodo,
+    isSuccess: true,
+  };
+}
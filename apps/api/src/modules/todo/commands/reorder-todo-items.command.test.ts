@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findById = vi.hoisted(() => vi.fn());
+const findAll = vi.hoisted(() => vi.fn());
+const reorder = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    findById,
+  },
+}));
+
+vi.mock("../repository/todo-item.repository", () => ({
+  todoItemRepository: {
+    findAll,
+    reorder,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { reorderTodoItemsHandler } from "./reorder-todo-items.command";
+
+describe("reorderTodoItemsHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const todoId = "c5d6e7f8-9a0b-4c1d-8e2f-3a4b5c6d7e8f";
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+  const firstItemId = "33333333-3333-4333-8333-333333333333";
+  const secondItemId = "44444444-4444-4444-8444-444444444444";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+    findById.mockResolvedValue({ id: todoId });
+    findAll.mockResolvedValue([{ id: firstItemId }, { id: secondItemId }]);
+  });
+
+  it("should return validation errors, when an item id is repeated", async () => {
+    const result = await reorderTodoItemsHandler(
+      todoId,
+      { itemIds: [firstItemId, firstItemId] },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("DUPLICATE_ITEM_ID");
+  });
+
+  it("should reject the order, when an item of the todo is missing", async () => {
+    const result = await reorderTodoItemsHandler(
+      todoId,
+      { itemIds: [secondItemId] },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INVALID_ITEM_ORDER");
+    expect(reorder).not.toHaveBeenCalled();
+  });
+
+  it("should reorder the items, when every item is listed once", async () => {
+    reorder.mockResolvedValue([
+      { id: secondItemId, position: 0 },
+      { id: firstItemId, position: 1 },
+    ]);
+
+    const result = await reorderTodoItemsHandler(
+      todoId,
+      { itemIds: [secondItemId, firstItemId] },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(reorder).toHaveBeenCalledWith(todoId, [secondItemId, firstItemId]);
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  ReorderTodoItemsInputSchema,
+  TodoItemValidationErrorCodes,
+  type TodoItem,
+} from "../schemas/todo-item.schema";
+import { TodoIdParamSchema } from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoItemRepository } from "../repository/todo-item.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { mapZodErrors } from "@utils/mapZodErrors";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function reorderTodoItemsHandler(
+  todoId: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoItem[]>> {
+  logger.debug("ReorderTodoItemsCommand received", { todoId, input });
+
+  const idParseResult = TodoIdParamSchema.safeParse({ id: todoId });
+  if (!idParseResult.success) {
+    const errors = mapZodErrors(idParseResult.error);
+    logger.warn("Invalid todo ID format", { todoId, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedTodoId = idParseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    validatedTodoId,
+  );
+  if (!existingTodo) {
+    logger.warn("Todo not found for item reorder", { id: validatedTodoId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const parseResult = ReorderTodoItemsInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for ReorderTodoItemsCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { itemIds } = parseResult.data;
+
+  const currentItems = await todoItemRepository.findAll(validatedTodoId);
+  const currentIds = new Set(currentItems.map((item) => item.id));
+  if (
+    itemIds.length !== currentIds.size ||
+    itemIds.some((itemId) => !currentIds.has(itemId))
+  ) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: TodoItemValidationErrorCodes.INVALID_ITEM_ORDER,
+          message: "itemIds must list every item of the todo exactly once",
+          value: "itemIds",
+        },
+      ],
+    };
+  }
+
+  const items = await todoItemRepository.reorder(validatedTodoId, itemIds);
+
+  logger.info("Todo items reordered", {
+    todoId: validatedTodoId,
+    count: items.length,
+  });
+
+  return {
+    isSuccess: true,
+    data: items,
+  };
+}
@@ -0,0 +1,84 @@
+import {
+  ReorderTodoStatusesInputSchema,
+  TodoStatusValidationErrorCodes,
+  type TodoStatus,
+} from "../schemas/todo-status.schema";
+import { todoStatusRepository } from "../repository/todo-status.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { mapZodErrors } from "@utils/mapZodErrors";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function reorderTodoStatusesHandler(
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoStatus[]>> {
+  logger.debug("ReorderTodoStatusesCommand received", { input });
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const parseResult = ReorderTodoStatusesInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for ReorderTodoStatusesCommand", {
+      errors,
+    });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { statusIds } = parseResult.data;
+
+  const currentStatuses = await todoStatusRepository.findAll(
+    access.organizationId,
+  );
+  const currentIds = new Set(currentStatuses.map((status) => status.id));
+  if (
+    statusIds.length !== currentIds.size ||
+    statusIds.some((statusId) => !currentIds.has(statusId))
+  ) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: TodoStatusValidationErrorCodes.INVALID_STATUS_ORDER,
+          message:
+            "statusIds must list every status of the organization exactly once",
+          value: "statusIds",
+        },
+      ],
+    };
+  }
+
+  const statuses = await todoStatusRepository.reorder(
+    access.organizationId,
+    statusIds,
+  );
+
+  logger.info("Todo statuses reordered", {
+    organizationId: access.organizationId,
+    count: statuses.length,
+  });
+
+  return {
+    isSuccess: true,
+    data: statuses,
+  };
+}
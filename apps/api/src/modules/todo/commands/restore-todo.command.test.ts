@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findDeletedById = vi.hoisted(() => vi.fn());
+const restore = vi.hoisted(() => vi.fn());
+const validateTitleUniqueness = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    findDeletedById,
+    restore,
+  },
+}));
+
+vi.mock("../validators/todo.validator", () => ({
+  todoValidator: {
+    validateTitleUniqueness,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { restoreTodoHandler } from "./restore-todo.command";
+
+describe("restoreTodoHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const todoId = "a3b4c5d6-7e8f-4a9b-8c7d-6e5f4a3b2c1d";
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+  const deletedTodo = {
+    id: todoId,
+    organizationId,
+    title: "Grade essays",
+    deletedAt: new Date("2026-03-01T00:00:00.000Z"),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+    validateTitleUniqueness.mockResolvedValue({ isValid: true });
+  });
+
+  it("should return not found, when the todo is not in the trash", async () => {
+    findDeletedById.mockResolvedValue(undefined);
+
+    const result = await restoreTodoHandler(todoId, {} as never, logger);
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+    expect(restore).not.toHaveBeenCalled();
+  });
+
+  it("should return an error, when another todo took the title meanwhile", async () => {
+    findDeletedById.mockResolvedValue(deletedTodo);
+    validateTitleUniqueness.mockResolvedValue({
+      isValid: false,
+      errors: [
+        {
+          value: "Grade essays",
+          code: "DUPLICATE_TITLE",
+          message: "Title already exists",
+        },
+      ],
+    });
+
+    const result = await restoreTodoHandler(todoId, {} as never, logger);
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("DUPLICATE_TITLE");
+    expect(restore).not.toHaveBeenCalled();
+  });
+
+  it("should restore the todo, when it is in the trash", async () => {
+    const restoredTodo = { ...deletedTodo, deletedAt: undefined };
+    findDeletedById.mockResolvedValue(deletedTodo);
+    restore.mockResolvedValue(restoredTodo);
+
+    const result = await restoreTodoHandler(todoId, {} as never, logger);
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data).toEqual(restoredTodo);
+    expect(restore).toHaveBeenCalledWith(organizationId, todoId);
+  });
+});
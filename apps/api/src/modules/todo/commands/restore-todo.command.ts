@@ -0,0 +1,94 @@
+import { TodoIdParamSchema, type Todo } from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoValidator } from "../validators/todo.validator";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function restoreTodoHandler(
+  id: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Todo>> {
+  logger.debug("RestoreTodoCommand received", { id });
+
+  const parseResult = TodoIdParamSchema.safeParse({ id });
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Invalid todo ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = parseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const deletedTodo = await todoRepository.findDeletedById(
+    access.organizationId,
+    validatedId,
+  );
+  if (!deletedTodo) {
+    logger.warn("Todo not found in trash", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found in trash",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  // Another todo may have taken the title while this one was in the trash.
+  const validationResult = await todoValidator.validateTitleUniqueness(
+    access.organizationId,
+    deletedTodo.title,
+    validatedId,
+    deletedTodo.seriesId,
+  );
+  if (!validationResult.isValid) {
+    return {
+      isSuccess: false,
+      errors: validationResult.errors,
+    };
+  }
+
+  const todo = await todoRepository.restore(access.organizationId, validatedId);
+  if (!todo) {
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found in trash",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Todo restored", { todoId: validatedId });
+
+  return {
+    data: todo,
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findById = vi.hoisted(() => vi.fn());
+const stopSeries = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    findById,
+    stopSeries,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { stopTodoRecurrenceHandler } from "./stop-todo-recurrence.command";
+
+describe("stopTodoRecurrenceHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const todoId = "c5d6e7f8-9a0b-4c1d-8e2f-3a4b5c6d7e8f";
+  const seriesId = "22222222-2222-4222-8222-222222222222";
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+  });
+
+  it("should return not found, when todo does not exist", async () => {
+    findById.mockResolvedValue(undefined);
+
+    const result = await stopTodoRecurrenceHandler(todoId, {} as never, logger);
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should stop the series, when the todo is recurring", async () => {
+    findById.mockResolvedValue({
+      id: todoId,
+      organizationId,
+      title: "Weekly report",
+      priority: "medium",
+      completed: false,
+      seriesId,
+      recurrenceRule: "FREQ=WEEKLY",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const result = await stopTodoRecurrenceHandler(todoId, {} as never, logger);
+
+    expect(result.isSuccess).toBe(true);
+    expect(stopSeries).toHaveBeenCalledWith(organizationId, seriesId);
+    if (result.isSuccess) {
+      expect(result.data.recurrenceRule).toBeUndefined();
+    }
+  });
+});
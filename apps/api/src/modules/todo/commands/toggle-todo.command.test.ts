@@ -2,15 +2,42 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 
 const findById = vi.hoisted(() => vi.fn());
 const update = vi.hoisted(() => vi.fn());
+const findSeries = vi.hoisted(() => vi.fn());
+const completeOccurrence = vi.hoisted(() => vi.fn());
+const move = vi.hoisted(() => vi.fn());
+const findStatuses = vi.hoisted(() => vi.fn());
 
+const recordHistory = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
 vi.mock("../repository/todo.repository", () => ({
   todoRepository: {
     findById,
     update,
+    findSeries,
+    completeOccurrence,
+    move,
+  },
+}));
+
+vi.mock("../repository/todo-status.repository", () => ({
+  todoStatusRepository: {
+    findAll: findStatuses,
+  },
+}));
+
+vi.mock("../repository/todo-history.repository", () => ({
+  todoHistoryRepository: {
+    record: recordHistory,
   },
 }));
 
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
 import { toggleTodoHandler } from "./toggle-todo.command";
+import { createETag } from "../../../shared/utils/etag";
 
 describe("toggleTodoHandler", () => {
   const logger = {
@@ -21,24 +48,30 @@ describe("toggleTodoHandler", () => {
   };
   const todoId = "b4c5d6e7-8f9a-4b0c-8d1e-2f3a4b5c6d7e";
 
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
   beforeEach(() => {
     vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+    findStatuses.mockResolvedValue([]);
   });
 
   it("should return not found, when todo does not exist", async () => {
     findById.mockResolvedValue(undefined);
 
-    const result = await toggleTodoHandler(
-      todoId,
-      logger,
-    );
+    const result = await toggleTodoHandler(todoId, {} as never, logger);
 
     expect(result.isSuccess).toBe(false);
     expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
   });
 
   it("should return validation errors, when id is invalid", async () => {
-    const result = await toggleTodoHandler("bad-id", logger);
+    const result = await toggleTodoHandler("bad-id", {} as never, logger);
 
     expect(result.isSuccess).toBe(false);
     expect(result.errors?.[0]?.code).toBe("INVALID_TODO_ID_FORMAT");
@@ -60,9 +93,188 @@ describe("toggleTodoHandler", () => {
     findById.mockResolvedValue(todo);
     update.mockResolvedValue(updatedTodo);
 
-    const result = await toggleTodoHandler(todo.id, logger);
+    const result = await toggleTodoHandler(todo.id, {} as never, logger);
 
     expect(result.isSuccess).toBe(true);
     expect(result.data).toEqual(updatedTodo);
+    expect(recordHistory).toHaveBeenCalledWith(todoId, memberId, [
+      { field: "completed", oldValue: false, newValue: true },
+    ]);
+  });
+
+  it("should create the next occurrence, when a recurring todo is completed", async () => {
+    const seriesId = "22222222-2222-4222-8222-222222222222";
+    const dueDate = new Date("2025-01-06T09:00:00.000Z");
+    const todo = {
+      id: todoId,
+      organizationId,
+      title: "Weekly report",
+      priority: "medium",
+      completed: false,
+      dueDate,
+      seriesId,
+      recurrenceRule: "FREQ=WEEKLY",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const series = {
+      id: seriesId,
+      organizationId,
+      title: "Weekly report",
+      priority: "medium",
+      recurrenceRule: "FREQ=WEEKLY",
+      startsAt: dueDate,
+    };
+
+    findById.mockResolvedValue(todo);
+    findSeries.mockResolvedValue(series);
+    completeOccurrence.mockResolvedValue({ ...todo, completed: true });
+
+    const result = await toggleTodoHandler(todoId, {} as never, logger);
+
+    expect(result.isSuccess).toBe(true);
+    expect(update).not.toHaveBeenCalled();
+    expect(completeOccurrence).toHaveBeenCalledWith(
+      organizationId,
+      todoId,
+      {
+        series,
+        dueDate: new Date("2025-01-13T09:00:00.000Z"),
+      },
+      undefined,
+    );
+  });
+
+  it("should not create an occurrence, when the recurrence was stopped", async () => {
+    const todo = {
+      id: todoId,
+      organizationId,
+      title: "Weekly report",
+      priority: "medium",
+      completed: false,
+      dueDate: new Date("2025-01-06T09:00:00.000Z"),
+      seriesId: "22222222-2222-4222-8222-222222222222",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    findById.mockResolvedValue(todo);
+    update.mockResolvedValue({ ...todo, completed: true });
+
+    const result = await toggleTodoHandler(todoId, {} as never, logger);
+
+    expect(result.isSuccess).toBe(true);
+    expect(findSeries).not.toHaveBeenCalled();
+    expect(completeOccurrence).not.toHaveBeenCalled();
+  });
+
+  describe("with status columns", () => {
+    const todoStatusId = "33333333-3333-4333-8333-333333333333";
+    const doneStatusId = "44444444-4444-4444-8444-444444444444";
+
+    beforeEach(() => {
+      findStatuses.mockResolvedValue([
+        { id: todoStatusId, name: "To do", position: 0 },
+        {
+          id: "55555555-5555-4555-8555-555555555555",
+          name: "Doing",
+          position: 1,
+        },
+        { id: doneStatusId, name: "Done", position: 2 },
+      ]);
+    });
+
+    it("should move the todo to the last status, when completing it", async () => {
+      const todo = {
+        id: todoId,
+        title: "Toggle",
+        completed: false,
+        statusId: todoStatusId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      findById.mockResolvedValue(todo);
+      move.mockResolvedValue({
+        ...todo,
+        completed: true,
+        statusId: doneStatusId,
+      });
+
+      const result = await toggleTodoHandler(todoId, {} as never, logger);
+
+      expect(result.isSuccess).toBe(true);
+      expect(move).toHaveBeenCalledWith(
+        organizationId,
+        todoId,
+        doneStatusId,
+        undefined,
+        true,
+        undefined,
+      );
+      expect(update).not.toHaveBeenCalled();
+      expect(recordHistory).toHaveBeenCalledWith(todoId, memberId, [
+        { field: "completed", oldValue: false, newValue: true },
+        { field: "statusId", oldValue: todoStatusId, newValue: doneStatusId },
+      ]);
+    });
+
+    it("should reject the toggle, when another write lands after the if-match check", async () => {
+      const updatedAt = new Date("2026-03-02T10:00:00.000Z");
+      findById.mockResolvedValue({
+        id: todoId,
+        title: "Toggle",
+        completed: false,
+        statusId: todoStatusId,
+        createdAt: updatedAt,
+        updatedAt,
+      });
+      move.mockResolvedValue(undefined);
+
+      await expect(
+        toggleTodoHandler(
+          todoId,
+          { headers: { "if-match": createETag(updatedAt) } } as never,
+          logger,
+        ),
+      ).rejects.toMatchObject({ code: "PRECONDITION_FAILED", statusCode: 412 });
+      expect(move).toHaveBeenCalledWith(
+        organizationId,
+        todoId,
+        doneStatusId,
+        undefined,
+        true,
+        updatedAt,
+      );
+      expect(recordHistory).not.toHaveBeenCalled();
+    });
+
+    it("should move the todo to the first status, when reopening it", async () => {
+      const todo = {
+        id: todoId,
+        title: "Toggle",
+        completed: true,
+        statusId: doneStatusId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      findById.mockResolvedValue(todo);
+      move.mockResolvedValue({
+        ...todo,
+        completed: false,
+        statusId: todoStatusId,
+      });
+
+      const result = await toggleTodoHandler(todoId, {} as never, logger);
+
+      expect(result.isSuccess).toBe(true);
+      expect(move).toHaveBeenCalledWith(
+        organizationId,
+        todoId,
+        todoStatusId,
+        undefined,
+        false,
+        undefined,
+      );
+    });
   });
 });
@@ -1,5 +1,13 @@
 import { TodoIdParamSchema } from "../schemas/todo.schema";
 import { todoRepository } from "../repository/todo.repository";
+import { todoStatusRepository } from "../repository/todo-status.repository";
+import { todoHistoryRepository } from "../repository/todo-history.repository";
+import { getNextOccurrence } from "../utils/recurrence";
+import { diffTodoFields } from "../utils/diff-todo-fields";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import { assertIfMatch } from "../../../shared/utils/etag";
+import { createPreconditionFailedError } from "../../../shared/errors/app-error";
+import type { FastifyRequest } from "fastify";
 import type { LoggerHelpers } from "../../../plugins/logger";
 import { Todo } from "../schemas/todo.schema";
 import { mapZodErrors } from "@utils/mapZodErrors";
@@ -7,6 +15,7 @@ import { ServiceResult } from "@utils/ServiceResult";
 
 export async function toggleTodoHandler(
   id: unknown,
+  request: FastifyRequest,
   logger: LoggerHelpers,
 ): Promise<ServiceResult<Todo>> {
   logger.debug("ToggleTodoCommand received", { id });
@@ -24,7 +33,25 @@ export async function toggleTodoHandler(
 
   const validatedId = parseResult.data.id;
 
-  const existingTodo = await todoRepository.findById(validatedId);
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    validatedId,
+  );
   if (!existingTodo) {
     logger.warn("Todo not found for toggle", { id: validatedId });
     return {
@@ -38,12 +65,84 @@ export async function toggleTodoHandler(
     };
   }
 
+  const expectedUpdatedAt = assertIfMatch(
+    request,
+    existingTodo.updatedAt,
+    "Todo",
+    validatedId,
+  );
+
   const newCompletedStatus = !existingTodo.completed;
-  const updatedTodo = await todoRepository.update(validatedId, {
-    completed: newCompletedStatus,
-  });
+  const series =
+    newCompletedStatus && existingTodo.seriesId && existingTodo.recurrenceRule
+      ? await todoRepository.findSeries(
+          access.organizationId,
+          existingTodo.seriesId,
+        )
+      : undefined;
+
+  // With board columns, toggling moves the todo to the last (done) column or
+  // back to the first one.
+  const statuses = await todoStatusRepository.findAll(access.organizationId);
+  const targetStatus = newCompletedStatus
+    ? statuses[statuses.length - 1]
+    : statuses[0];
+
+  let updatedTodo;
+  if (series && !series.stoppedAt) {
+    const nextDueDate = getNextOccurrence(
+      series.recurrenceRule,
+      series.startsAt,
+      existingTodo.dueDate ?? new Date(),
+    );
+
+    updatedTodo = await todoRepository.completeOccurrence(
+      access.organizationId,
+      validatedId,
+      nextDueDate ? { series, dueDate: nextDueDate } : undefined,
+      expectedUpdatedAt,
+    );
+
+    logger.info("Recurring todo completed", {
+      todoId: validatedId,
+      seriesId: series.id,
+      nextDueDate,
+    });
+
+    if (updatedTodo && targetStatus) {
+      updatedTodo = await todoRepository.move(
+        access.organizationId,
+        validatedId,
+        targetStatus.id,
+        undefined,
+        newCompletedStatus,
+      );
+    }
+  } else if (targetStatus) {
+    updatedTodo = await todoRepository.move(
+      access.organizationId,
+      validatedId,
+      targetStatus.id,
+      undefined,
+      newCompletedStatus,
+      expectedUpdatedAt,
+    );
+  } else {
+    updatedTodo = await todoRepository.update(
+      access.organizationId,
+      validatedId,
+      {
+        completed: newCompletedStatus,
+      },
+      undefined,
+      expectedUpdatedAt,
+    );
+  }
 
   if (!updatedTodo) {
+    if (expectedUpdatedAt) {
+      throw createPreconditionFailedError("Todo", validatedId);
+    }
     return {
       errors: [
         {
@@ -55,6 +154,12 @@ export async function toggleTodoHandler(
     };
   }
 
+  await todoHistoryRepository.record(
+    validatedId,
+    access.memberId,
+    diffTodoFields(existingTodo, updatedTodo),
+  );
+
   logger.info("Todo status toggled", {
     todoId: validatedId,
     title: existingTodo.title,
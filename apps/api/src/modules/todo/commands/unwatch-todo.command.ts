@@ -0,0 +1,76 @@
+import { TodoIdParamSchema, type Todo } from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { mapZodErrors } from "@utils/mapZodErrors";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function unwatchTodoHandler(
+  id: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Todo>> {
+  logger.debug("UnwatchTodoCommand received", { id });
+
+  const parseResult = TodoIdParamSchema.safeParse({ id });
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Invalid todo ID format", { id, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedId = parseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    validatedId,
+  );
+  if (!existingTodo) {
+    logger.warn("Todo not found for unwatch", { id: validatedId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  await todoRepository.removeWatcher(validatedId, access.memberId);
+
+  logger.info("Todo unwatched", {
+    todoId: validatedId,
+    memberId: access.memberId,
+  });
+
+  return {
+    isSuccess: true,
+    data: {
+      ...existingTodo,
+      watcherMemberIds: existingTodo.watcherMemberIds.filter(
+        (memberId) => memberId !== access.memberId,
+      ),
+    },
+  };
+}
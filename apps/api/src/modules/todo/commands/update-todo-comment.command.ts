@@ -0,0 +1,116 @@
+import {
+  TodoCommentParamSchema,
+  UpdateTodoCommentInputSchema,
+  type TodoComment,
+} from "../schemas/todo-comment.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoCommentRepository } from "../repository/todo-comment.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { mapZodErrors } from "@utils/mapZodErrors";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function updateTodoCommentHandler(
+  params: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoComment>> {
+  logger.debug("UpdateTodoCommentCommand received", { params });
+
+  const paramsParseResult = TodoCommentParamSchema.safeParse(params);
+  if (!paramsParseResult.success) {
+    const errors = mapZodErrors(paramsParseResult.error);
+    logger.warn("Invalid todo comment params", { params, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { id: todoId, commentId } = paramsParseResult.data;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    todoId,
+  );
+  const existingComment = existingTodo
+    ? await todoCommentRepository.findById(todoId, commentId)
+    : undefined;
+  if (!existingComment || existingComment.isDeleted) {
+    logger.warn("Todo comment not found for update", { todoId, commentId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Comment not found",
+          value: commentId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  if (existingComment.authorMemberId !== access.memberId) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Only the author can edit a comment",
+        },
+      ],
+    };
+  }
+
+  const parseResult = UpdateTodoCommentInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for UpdateTodoCommentCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const comment = await todoCommentRepository.update(
+    todoId,
+    commentId,
+    parseResult.data.body,
+  );
+  if (!comment) {
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Comment not found",
+          value: commentId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Todo comment updated", { todoId, commentId });
+
+  return {
+    isSuccess: true,
+    data: comment,
+  };
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findById = vi.hoisted(() => vi.fn());
+const update = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    findById,
+  },
+}));
+
+vi.mock("../repository/todo-item.repository", () => ({
+  todoItemRepository: {
+    update,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { updateTodoItemHandler } from "./update-todo-item.command";
+
+describe("updateTodoItemHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const todoId = "c5d6e7f8-9a0b-4c1d-8e2f-3a4b5c6d7e8f";
+  const itemId = "33333333-3333-4333-8333-333333333333";
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+  });
+
+  it("should return validation errors, when item id is invalid", async () => {
+    const result = await updateTodoItemHandler(
+      { id: todoId, itemId: "bad-id" },
+      { completed: true },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INVALID_ITEM_ID_FORMAT");
+  });
+
+  it("should return not found, when item does not belong to the todo", async () => {
+    findById.mockResolvedValue({ id: todoId });
+    update.mockResolvedValue(undefined);
+
+    const result = await updateTodoItemHandler(
+      { id: todoId, itemId },
+      { completed: true },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+  });
+
+  it("should check the item, when input is valid", async () => {
+    const item = {
+      id: itemId,
+      todoId,
+      title: "Outline",
+      completed: true,
+      position: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    findById.mockResolvedValue({ id: todoId });
+    update.mockResolvedValue(item);
+
+    const result = await updateTodoItemHandler(
+      { id: todoId, itemId },
+      { completed: true },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data).toEqual(item);
+    expect(update).toHaveBeenCalledWith(todoId, itemId, { completed: true });
+  });
+});
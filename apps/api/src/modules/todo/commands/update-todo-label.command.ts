@@ -0,0 +1,115 @@
+import {
+  TodoLabelParamSchema,
+  UpdateTodoLabelInputSchema,
+  type TodoLabel,
+} from "../schemas/todo-label.schema";
+import { todoLabelRepository } from "../repository/todo-label.repository";
+import { todoValidator } from "../validators/todo.validator";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function updateTodoLabelHandler(
+  params: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoLabel>> {
+  logger.debug("UpdateTodoLabelCommand received", { params, input });
+
+  const paramsParseResult = TodoLabelParamSchema.safeParse(params);
+  if (!paramsParseResult.success) {
+    const errors = mapZodErrors(paramsParseResult.error);
+    logger.warn("Invalid todo label params", { params, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { labelId } = paramsParseResult.data;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingLabel = await todoLabelRepository.findById(
+    access.organizationId,
+    labelId,
+  );
+  if (!existingLabel) {
+    logger.warn("Todo label not found for update", { labelId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Label not found",
+          value: labelId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const parseResult = UpdateTodoLabelInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for UpdateTodoLabelCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  if (parseResult.data.name) {
+    const validationResult = await todoValidator.validateLabelNameUniqueness(
+      access.organizationId,
+      parseResult.data.name,
+      labelId,
+    );
+    if (!validationResult.isValid) {
+      return {
+        isSuccess: false,
+        errors: validationResult.errors,
+      };
+    }
+  }
+
+  const label = await todoLabelRepository.update(
+    access.organizationId,
+    labelId,
+    parseResult.data,
+  );
+  if (!label) {
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Label not found",
+          value: labelId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Todo label updated", { labelId });
+
+  return {
+    data: label,
+    isSuccess: true,
+  };
+}
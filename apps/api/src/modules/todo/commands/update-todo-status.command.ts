@@ -0,0 +1,98 @@
+import {
+  TodoStatusParamSchema,
+  UpdateTodoStatusInputSchema,
+  type TodoStatus,
+} from "../schemas/todo-status.schema";
+import { todoStatusRepository } from "../repository/todo-status.repository";
+import { todoValidator } from "../validators/todo.validator";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function updateTodoStatusHandler(
+  params: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoStatus>> {
+  logger.debug("UpdateTodoStatusCommand received", { params, input });
+
+  const paramsParseResult = TodoStatusParamSchema.safeParse(params);
+  if (!paramsParseResult.success) {
+    const errors = mapZodErrors(paramsParseResult.error);
+    logger.warn("Invalid todo status params", { params, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { statusId } = paramsParseResult.data;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const parseResult = UpdateTodoStatusInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for UpdateTodoStatusCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  if (parseResult.data.name) {
+    const validationResult = await todoValidator.validateStatusNameUniqueness(
+      access.organizationId,
+      parseResult.data.name,
+      statusId,
+    );
+    if (!validationResult.isValid) {
+      return {
+        isSuccess: false,
+        errors: validationResult.errors,
+      };
+    }
+  }
+
+  const status = await todoStatusRepository.update(
+    access.organizationId,
+    statusId,
+    parseResult.data,
+  );
+  if (!status) {
+    logger.warn("Todo status not found for update", { statusId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Status not found",
+          value: statusId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Todo status updated", { statusId });
+
+  return {
+    data: status,
+    isSuccess: true,
+  };
+}
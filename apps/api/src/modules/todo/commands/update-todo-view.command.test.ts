@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findById = vi.hoisted(() => vi.fn());
+const update = vi.hoisted(() => vi.fn());
+const validateViewNameUniqueness = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("../repository/todo-view.repository", () => ({
+  todoViewRepository: {
+    findById,
+    update,
+  },
+}));
+
+vi.mock("../validators/todo.validator", () => ({
+  todoValidator: {
+    validateViewNameUniqueness,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { updateTodoViewHandler } from "./update-todo-view.command";
+
+describe("updateTodoViewHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const viewId = "99999999-9999-4999-8999-999999999999";
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+  const otherMemberId = "22222222-2222-4222-8222-222222222222";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+    validateViewNameUniqueness.mockResolvedValue({ isValid: true });
+  });
+
+  it("should return forbidden, when a shared view belongs to another member", async () => {
+    findById.mockResolvedValue({
+      id: viewId,
+      createdByMemberId: otherMemberId,
+      isShared: true,
+    });
+
+    const result = await updateTodoViewHandler(
+      { viewId },
+      { name: "Mine now" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("FORBIDDEN");
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("should return validation errors, when the filters contain unknown params", async () => {
+    findById.mockResolvedValue({
+      id: viewId,
+      createdByMemberId: memberId,
+      isShared: false,
+    });
+
+    const result = await updateTodoViewHandler(
+      { viewId },
+      { filters: { cursor: "abc" } },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INVALID_VIEW_FILTERS");
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("should share the view, when the creator updates it", async () => {
+    findById.mockResolvedValue({
+      id: viewId,
+      createdByMemberId: memberId,
+      isShared: false,
+    });
+    update.mockResolvedValue({ id: viewId, isShared: true });
+
+    const result = await updateTodoViewHandler(
+      { viewId },
+      {
+        isShared: true,
+        filters: { completed: false, limit: 50, priority: "high" },
+      },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(update).toHaveBeenCalledWith(organizationId, viewId, {
+      isShared: true,
+      filters: { completed: "false", limit: "50", priority: "high" },
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  TodoViewParamSchema,
+  UpdateTodoViewInputSchema,
+  type TodoView,
+} from "../schemas/todo-view.schema";
+import { todoViewRepository } from "../repository/todo-view.repository";
+import { todoValidator } from "../validators/todo.validator";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function updateTodoViewHandler(
+  params: unknown,
+  input: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoView>> {
+  logger.debug("UpdateTodoViewCommand received", { params, input });
+
+  const paramsParseResult = TodoViewParamSchema.safeParse(params);
+  if (!paramsParseResult.success) {
+    const errors = mapZodErrors(paramsParseResult.error);
+    logger.warn("Invalid todo view params", { params, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { viewId } = paramsParseResult.data;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingView = await todoViewRepository.findById(
+    access.organizationId,
+    viewId,
+  );
+  if (
+    !existingView ||
+    (!existingView.isShared &&
+      existingView.createdByMemberId !== access.memberId)
+  ) {
+    logger.warn("Todo view not found for update", { viewId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "View not found",
+          value: viewId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  if (existingView.createdByMemberId !== access.memberId) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "Only the creator can change a view",
+        },
+      ],
+    };
+  }
+
+  const parseResult = UpdateTodoViewInputSchema.safeParse(input);
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for UpdateTodoViewCommand", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  if (parseResult.data.name) {
+    const validationResult = await todoValidator.validateViewNameUniqueness(
+      access.memberId,
+      parseResult.data.name,
+      viewId,
+    );
+    if (!validationResult.isValid) {
+      return {
+        isSuccess: false,
+        errors: validationResult.errors,
+      };
+    }
+  }
+
+  const view = await todoViewRepository.update(
+    access.organizationId,
+    viewId,
+    parseResult.data,
+  );
+  if (!view) {
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "View not found",
+          value: viewId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Todo view updated", { viewId });
+
+  return {
+    data: view,
+    isSuccess: true,
+  };
+}
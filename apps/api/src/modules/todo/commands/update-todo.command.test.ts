@@ -1,13 +1,21 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
+const db = vi.hoisted(() => ({ transaction: vi.fn() }));
 const findById = vi.hoisted(() => vi.fn());
 const update = vi.hoisted(() => vi.fn());
+const startSeries = vi.hoisted(() => vi.fn());
 const validateTitleUniqueness = vi.hoisted(() => vi.fn());
 
+const recordHistory = vi.hoisted(() => vi.fn());
+
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+vi.mock("@repo/database", () => ({ db }));
+
 vi.mock("../repository/todo.repository", () => ({
   todoRepository: {
     findById,
     update,
+    startSeries,
   },
 }));
 
@@ -17,7 +25,18 @@ vi.mock("../validators/todo.validator", () => ({
   },
 }));
 
+vi.mock("../repository/todo-history.repository", () => ({
+  todoHistoryRepository: {
+    record: recordHistory,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
 import { updateTodoHandler } from "./update-todo.command";
+import { createETag } from "../../../shared/utils/etag";
 
 describe("updateTodoHandler", () => {
   const logger = {
@@ -29,21 +48,30 @@ describe("updateTodoHandler", () => {
 
   const todoId = "c5d6e7f8-9a0b-4c1d-8e2f-3a4b5c6d7e8f";
 
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
   beforeEach(() => {
     vi.clearAllMocks();
+    db.transaction.mockImplementation(async (callback) => callback(db));
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
   });
 
   it("should return not found, when todo does not exist", async () => {
     findById.mockResolvedValue(undefined);
 
-    const result = await updateTodoHandler(todoId, {}, logger);
+    const result = await updateTodoHandler(todoId, {}, {} as never, logger);
 
     expect(result.isSuccess).toBe(false);
     expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
   });
 
   it("should return validation errors, when id is invalid", async () => {
-    const result = await updateTodoHandler("bad-id", {}, logger);
+    const result = await updateTodoHandler("bad-id", {}, {} as never, logger);
 
     expect(result.isSuccess).toBe(false);
     expect(result.errors?.[0]?.code).toBe("INVALID_TODO_ID_FORMAT");
@@ -73,10 +101,134 @@ describe("updateTodoHandler", () => {
     const result = await updateTodoHandler(
       todoId,
       { title: "Updated" },
+      {} as never,
       logger,
     );
 
     expect(result.isSuccess).toBe(true);
     expect(result.data).toEqual(updatedTodo);
+    expect(recordHistory).toHaveBeenCalledWith(
+      todoId,
+      memberId,
+      [{ field: "title", oldValue: "Original", newValue: "Updated" }],
+      db,
+    );
+  });
+
+  it("should start the series and record the history in the update transaction, when a recurrence rule is added", async () => {
+    const dueDate = new Date("2026-03-02T10:00:00.000Z");
+    const existingTodo = {
+      id: todoId,
+      title: "Original",
+      priority: "medium",
+      dueDate,
+      updatedAt: new Date(),
+    };
+    const recurringTodo = { ...existingTodo, recurrenceRule: "FREQ=WEEKLY" };
+    findById
+      .mockResolvedValueOnce(existingTodo)
+      .mockResolvedValueOnce(recurringTodo);
+    update.mockResolvedValue(existingTodo);
+
+    const result = await updateTodoHandler(
+      todoId,
+      { recurrenceRule: "FREQ=WEEKLY" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(startSeries).toHaveBeenCalledWith(
+      organizationId,
+      memberId,
+      todoId,
+      { title: "Original", description: undefined, priority: "medium" },
+      "FREQ=WEEKLY",
+      dueDate,
+      db,
+    );
+    expect(findById).toHaveBeenLastCalledWith(organizationId, todoId, db);
+    expect(recordHistory).toHaveBeenCalledWith(
+      todoId,
+      memberId,
+      [{ field: "recurrenceRule", oldValue: null, newValue: "FREQ=WEEKLY" }],
+      db,
+    );
+  });
+
+  it("should return duplicate title error, when title exists in organization", async () => {
+    findById.mockResolvedValue({ id: todoId, title: "Original" });
+    validateTitleUniqueness.mockResolvedValue({
+      isValid: false,
+      errors: [
+        {
+          value: "Taken",
+          code: "DUPLICATE_TITLE",
+          message: "Title already exists",
+        },
+      ],
+    });
+
+    const result = await updateTodoHandler(
+      todoId,
+      { title: "Taken" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("DUPLICATE_TITLE");
+    expect(validateTitleUniqueness).toHaveBeenCalledWith(
+      organizationId,
+      "Taken",
+      todoId,
+      undefined,
+    );
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("should reject the update, when the if-match header is stale", async () => {
+    findById.mockResolvedValue({
+      id: todoId,
+      title: "Original",
+      updatedAt: new Date("2026-03-02T10:00:00.000Z"),
+    });
+    const staleETag = `"${new Date("2026-03-01T10:00:00.000Z").getTime().toString(36)}"`;
+
+    await expect(
+      updateTodoHandler(
+        todoId,
+        { title: "Updated" },
+        { headers: { "if-match": staleETag } } as never,
+        logger,
+      ),
+    ).rejects.toMatchObject({ code: "PRECONDITION_FAILED", statusCode: 412 });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("should reject the update, when another write lands after the if-match check", async () => {
+    const updatedAt = new Date("2026-03-02T10:00:00.000Z");
+    findById.mockResolvedValue({ id: todoId, title: "Original", updatedAt });
+    validateTitleUniqueness.mockResolvedValue({ isValid: true });
+    update.mockResolvedValue(undefined);
+
+    await expect(
+      updateTodoHandler(
+        todoId,
+        { title: "Updated" },
+        { headers: { "if-match": createETag(updatedAt) } } as never,
+        logger,
+      ),
+    ).rejects.toMatchObject({ code: "PRECONDITION_FAILED", statusCode: 412 });
+    expect(update).toHaveBeenCalledWith(
+      organizationId,
+      todoId,
+      { title: "Updated" },
+      memberId,
+      updatedAt,
+      db,
+    );
+    expect(recordHistory).not.toHaveBeenCalled();
   });
 });
@@ -1,18 +1,27 @@
 import {
   UpdateTodoInputSchema,
   TodoIdParamSchema,
+  ValidationErrorCodes,
   type UpdateTodoInput,
   type Todo,
 } from "../schemas/todo.schema";
 import { todoRepository } from "../repository/todo.repository";
+import { todoHistoryRepository } from "../repository/todo-history.repository";
 import { todoValidator } from "../validators/todo.validator";
+import { diffTodoFields } from "../utils/diff-todo-fields";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import { assertIfMatch } from "../../../shared/utils/etag";
+import { createPreconditionFailedError } from "../../../shared/errors/app-error";
+import type { FastifyRequest } from "fastify";
 import type { LoggerHelpers } from "../../../plugins/logger";
 import { mapZodErrors } from "@utils/mapZodErrors";
 import { ServiceResult } from "@utils/ServiceResult";
+import { db } from "@repo/database";
 
 export async function updateTodoHandler(
   id: unknown,
   input: unknown,
+  request: FastifyRequest,
   logger: LoggerHelpers,
 ): Promise<ServiceResult<Todo>> {
   logger.debug("UpdateTodoCommand received", { id, input });
@@ -29,7 +38,25 @@ export async function updateTodoHandler(
 
   const validatedId = idParseResult.data.id;
 
-  const existingTodo = await todoRepository.findById(validatedId);
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    validatedId,
+  );
   if (!existingTodo) {
     logger.warn("Todo not found for update", { id: validatedId });
     return {
@@ -43,6 +70,13 @@ export async function updateTodoHandler(
     };
   }
 
+  const expectedUpdatedAt = assertIfMatch(
+    request,
+    existingTodo.updatedAt,
+    "Todo",
+    validatedId,
+  );
+
   const parseResult = UpdateTodoInputSchema.safeParse(input);
   if (!parseResult.success) {
     const errors = mapZodErrors(parseResult.error);
@@ -56,14 +90,145 @@ export async function updateTodoHandler(
   const validatedInput: UpdateTodoInput = parseResult.data;
 
   if (validatedInput.title) {
-    await todoValidator.validateTitleUniqueness(
+    const validationResult = await todoValidator.validateTitleUniqueness(
+      access.organizationId,
       validatedInput.title,
       validatedId,
+      existingTodo.seriesId,
+    );
+    if (!validationResult.isValid) {
+      return {
+        isSuccess: false,
+        errors: validationResult.errors,
+      };
+    }
+  }
+
+  const memberIds = [
+    ...(validatedInput.assigneeMemberIds ?? []),
+    ...(validatedInput.watcherMemberIds ?? []),
+  ];
+  if (memberIds.length > 0) {
+    const membersResult = await todoValidator.validateOrganizationMembers(
+      access.organizationId,
+      memberIds,
     );
+    if (!membersResult.isValid) {
+      return {
+        isSuccess: false,
+        errors: membersResult.errors,
+      };
+    }
+  }
+
+  if (validatedInput.labelIds?.length) {
+    const labelsResult = await todoValidator.validateLabels(
+      access.organizationId,
+      validatedInput.labelIds,
+    );
+    if (!labelsResult.isValid) {
+      return {
+        isSuccess: false,
+        errors: labelsResult.errors,
+      };
+    }
+  }
+
+  const startsAt =
+    validatedInput.dueDate === undefined
+      ? existingTodo.dueDate
+      : validatedInput.dueDate;
+  if (validatedInput.recurrenceRule && !startsAt) {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: ValidationErrorCodes.RECURRENCE_REQUIRES_DUE_DATE,
+          value: "dueDate",
+        },
+      ],
+    };
   }
 
-  const updatedTodo = await todoRepository.update(validatedId, validatedInput);
+  // The todo is written first: it only updates while unchanged since the
+  // If-Match read, and the series writes below bump its updatedAt. The series
+  // and the history entries are written in the same transaction.
+  const updatedTodo = await db.transaction(async (tx) => {
+    const todo = await todoRepository.update(
+      access.organizationId,
+      validatedId,
+      validatedInput,
+      access.memberId,
+      expectedUpdatedAt,
+      tx,
+    );
+    if (!todo) {
+      return undefined;
+    }
+
+    let result = todo;
+    if (validatedInput.recurrenceRule !== undefined) {
+      if (validatedInput.recurrenceRule === null) {
+        if (existingTodo.seriesId) {
+          await todoRepository.stopSeries(
+            access.organizationId,
+            existingTodo.seriesId,
+            tx,
+          );
+          logger.info("Todo recurrence stopped", {
+            todoId: validatedId,
+            seriesId: existingTodo.seriesId,
+          });
+        }
+      } else if (startsAt) {
+        if (existingTodo.seriesId) {
+          await todoRepository.updateSeries(
+            access.organizationId,
+            existingTodo.seriesId,
+            { recurrenceRule: validatedInput.recurrenceRule, startsAt },
+            tx,
+          );
+        } else {
+          await todoRepository.startSeries(
+            access.organizationId,
+            access.memberId,
+            validatedId,
+            {
+              title: validatedInput.title ?? existingTodo.title,
+              description:
+                validatedInput.description ?? existingTodo.description,
+              priority: validatedInput.priority ?? existingTodo.priority,
+            },
+            validatedInput.recurrenceRule,
+            startsAt,
+            tx,
+          );
+          logger.info("Todo recurrence started", { todoId: validatedId });
+        }
+      }
+
+      result =
+        (await todoRepository.findById(
+          access.organizationId,
+          validatedId,
+          tx,
+        )) ?? todo;
+    }
+
+    await todoHistoryRepository.record(
+      validatedId,
+      access.memberId,
+      diffTodoFields(existingTodo, result),
+      tx,
+    );
+
+    return result;
+  });
+
   if (!updatedTodo) {
+    if (expectedUpdatedAt) {
+      throw createPreconditionFailedError("Todo", validatedId);
+    }
     return {
       errors: [
         {
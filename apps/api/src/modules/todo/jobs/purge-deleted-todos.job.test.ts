@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const purgeDeleted = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    purgeDeleted,
+  },
+}));
+
+import { purgeDeletedTodosJob } from "./purge-deleted-todos.job";
+
+describe("purgeDeletedTodosJob", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const now = new Date("2026-03-31T12:00:00.000Z");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    purgeDeleted.mockResolvedValue(2);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should purge todos deleted more than 30 days ago, when no retention is configured", async () => {
+    const purgedCount = await purgeDeletedTodosJob(logger, now);
+
+    expect(purgedCount).toBe(2);
+    expect(purgeDeleted).toHaveBeenCalledWith(
+      new Date("2026-03-01T12:00:00.000Z"),
+    );
+  });
+
+  it("should use the configured retention, when TODO_TRASH_RETENTION_DAYS is set", async () => {
+    vi.stubEnv("TODO_TRASH_RETENTION_DAYS", "7");
+
+    await purgeDeletedTodosJob(logger, now);
+
+    expect(purgeDeleted).toHaveBeenCalledWith(
+      new Date("2026-03-24T12:00:00.000Z"),
+    );
+  });
+
+  it("should fall back to the default, when the retention is not a positive number", async () => {
+    vi.stubEnv("TODO_TRASH_RETENTION_DAYS", "-3");
+
+    await purgeDeletedTodosJob(logger, now);
+
+    expect(purgeDeleted).toHaveBeenCalledWith(
+      new Date("2026-03-01T12:00:00.000Z"),
+    );
+  });
+});
@@ -0,0 +1,32 @@
+import { todoRepository } from "../repository/todo.repository";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days a deleted todo stays restorable before it is purged.
+ */
+export function getTodoTrashRetentionDays(): number {
+  const days = parseInt(process.env.TODO_TRASH_RETENTION_DAYS || "30", 10);
+  return Number.isInteger(days) && days > 0 ? days : 30;
+}
+
+export async function purgeDeletedTodosJob(
+  logger: LoggerHelpers,
+  now: Date = new Date(),
+): Promise<number> {
+  const retentionDays = getTodoTrashRetentionDays();
+  const deletedBefore = new Date(now.getTime() - retentionDays * DAY_MS);
+
+  const purgedCount = await todoRepository.purgeDeleted(deletedBefore);
+
+  if (purgedCount > 0) {
+    logger.info("Purged deleted todos", {
+      count: purgedCount,
+      retentionDays,
+      deletedBefore: deletedBefore.toISOString(),
+    });
+  }
+
+  return purgedCount;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const findOverdueAssignments = vi.hoisted(() => vi.fn());
+const createMany = vi.hoisted(() => vi.fn());
+const enqueue = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/todo-reminder.repository", () => ({
+  todoReminderRepository: {
+    findOverdueAssignments,
+  },
+}));
+
+vi.mock("../../notification/repository/notification.repository", () => ({
+  notificationRepository: {
+    createMany,
+  },
+}));
+
+vi.mock("@repo/database", () => ({
+  db: { transaction: (callback: (tx: object) => unknown) => callback({}) },
+}));
+
+vi.mock("../../outbox/repository/outbox.repository", () => ({
+  outboxRepository: {
+    enqueue,
+  },
+}));
+
+import { sendOverdueDigestJob } from "./send-overdue-digest.job";
+import { createNotificationPipeline } from "../../notification/utils/notification-pipeline";
+
+describe("sendOverdueDigestJob", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const firstMemberId = "11111111-1111-4111-8111-111111111111";
+  const secondMemberId = "22222222-2222-4222-8222-222222222222";
+
+  const overdue = (memberId: string, todoId: string, dueDate: string) => ({
+    memberId,
+    organizationId,
+    todoId,
+    title: `Todo ${todoId}`,
+    dueDate: new Date(dueDate),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    createMany.mockImplementation(async (inputs) => inputs);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should send one digest per assignee and day, when todos are overdue", async () => {
+    findOverdueAssignments.mockResolvedValue([
+      overdue(firstMemberId, "todo-1", "2026-03-10T09:00:00.000Z"),
+      overdue(firstMemberId, "todo-2", "2026-03-12T09:00:00.000Z"),
+      overdue(secondMemberId, "todo-2", "2026-03-12T09:00:00.000Z"),
+    ]);
+    const now = new Date("2026-03-14T08:00:00.000Z");
+
+    const sentCount = await sendOverdueDigestJob(
+      logger,
+      now,
+      createNotificationPipeline(),
+    );
+
+    expect(sentCount).toBe(2);
+    expect(createMany).toHaveBeenCalledWith(
+      [
+        {
+          organizationId,
+          memberId: firstMemberId,
+          type: "todo.overdue_digest",
+          payload: {
+            date: "2026-03-14",
+            count: 2,
+            todos: [
+              {
+                id: "todo-1",
+                title: "Todo todo-1",
+                dueDate: "2026-03-10T09:00:00.000Z",
+              },
+              {
+                id: "todo-2",
+                title: "Todo todo-2",
+                dueDate: "2026-03-12T09:00:00.000Z",
+              },
+            ],
+          },
+          dedupeKey: `todo-overdue-digest:${firstMemberId}:2026-03-14`,
+        },
+        expect.objectContaining({
+          memberId: secondMemberId,
+          dedupeKey: `todo-overdue-digest:${secondMemberId}:2026-03-14`,
+        }),
+      ],
+      expect.anything(),
+    );
+  });
+
+  it("should wait, when the digest hour has not come yet", async () => {
+    vi.stubEnv("TODO_OVERDUE_DIGEST_HOUR", "9");
+
+    const sentCount = await sendOverdueDigestJob(
+      logger,
+      new Date("2026-03-14T08:59:00.000Z"),
+      createNotificationPipeline(),
+    );
+
+    expect(sentCount).toBe(0);
+    expect(findOverdueAssignments).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  todoReminderRepository,
+  type OverdueAssignment,
+} from "../repository/todo-reminder.repository";
+import {
+  notificationPipeline,
+  type NotificationPipeline,
+} from "../../notification/utils/notification-pipeline";
+import { NotificationTypes } from "../../notification/schemas/notification.schema";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+// Todos listed in one digest; the digest still counts all of them
+const MAX_DIGEST_TODOS = 50;
+
+/**
+ * UTC hour from which the daily overdue digest goes out.
+ */
+export function getOverdueDigestHour(): number {
+  const hour = parseInt(process.env.TODO_OVERDUE_DIGEST_HOUR || "7", 10);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : 7;
+}
+
+/**
+ * Sends every assignee with overdue todos one digest per UTC day. The job
+ * runs more often than daily so a missed run is caught up; runs before the
+ * digest hour do nothing.
+ */
+export async function sendOverdueDigestJob(
+  logger: LoggerHelpers,
+  now: Date = new Date(),
+  pipeline: NotificationPipeline = notificationPipeline,
+): Promise<number> {
+  if (now.getUTCHours() < getOverdueDigestHour()) {
+    return 0;
+  }
+
+  const assignments = await todoReminderRepository.findOverdueAssignments(now);
+  if (assignments.length === 0) {
+    return 0;
+  }
+
+  const byMember = new Map<string, OverdueAssignment[]>();
+  for (const assignment of assignments) {
+    const memberAssignments = byMember.get(assignment.memberId) ?? [];
+    memberAssignments.push(assignment);
+    byMember.set(assignment.memberId, memberAssignments);
+  }
+
+  const day = now.toISOString().slice(0, 10);
+  const created = await pipeline.send(
+    [...byMember].map(([memberId, overdue]) => ({
+      organizationId: overdue[0].organizationId,
+      memberId,
+      type: NotificationTypes.TODO_OVERDUE_DIGEST,
+      payload: {
+        date: day,
+        count: overdue.length,
+        todos: overdue.slice(0, MAX_DIGEST_TODOS).map((assignment) => ({
+          id: assignment.todoId,
+          title: assignment.title,
+          dueDate: assignment.dueDate.toISOString(),
+        })),
+      },
+      dedupeKey: `todo-overdue-digest:${memberId}:${day}`,
+    })),
+    logger,
+  );
+
+  if (created.length > 0) {
+    logger.info("Sent overdue todo digests", { count: created.length, day });
+  }
+
+  return created.length;
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findDue = vi.hoisted(() => vi.fn());
+const markSent = vi.hoisted(() => vi.fn());
+const createMany = vi.hoisted(() => vi.fn());
+const enqueue = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/todo-reminder.repository", () => ({
+  todoReminderRepository: {
+    findDue,
+    markSent,
+  },
+}));
+
+vi.mock("../../notification/repository/notification.repository", () => ({
+  notificationRepository: {
+    createMany,
+  },
+}));
+
+vi.mock("@repo/database", () => ({
+  db: { transaction: (callback: (tx: object) => unknown) => callback({}) },
+}));
+
+vi.mock("../../outbox/repository/outbox.repository", () => ({
+  outboxRepository: {
+    enqueue,
+  },
+}));
+
+import { sendTodoRemindersJob } from "./send-todo-reminders.job";
+import { createNotificationPipeline } from "../../notification/utils/notification-pipeline";
+
+describe("sendTodoRemindersJob", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const now = new Date("2026-03-14T09:00:00.000Z");
+  const dueDate = new Date("2026-03-15T09:00:00.000Z");
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const firstMemberId = "11111111-1111-4111-8111-111111111111";
+  const secondMemberId = "22222222-2222-4222-8222-222222222222";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    createMany.mockImplementation(async (inputs) =>
+      inputs.map((input: object, index: number) => ({
+        id: `notification-${index}`,
+        createdAt: now,
+        ...input,
+      })),
+    );
+  });
+
+  it("should notify every recipient, queue their deliveries and mark the reminder sent, when a reminder is due", async () => {
+    findDue.mockResolvedValue([
+      {
+        reminderId: "reminder-1",
+        offsetMinutes: 1440,
+        todoId: "todo-1",
+        organizationId,
+        title: "Grade essays",
+        dueDate,
+        recipientMemberIds: [firstMemberId, secondMemberId],
+      },
+    ]);
+    const pipeline = createNotificationPipeline([
+      { name: "memory", deliver: async () => undefined },
+    ]);
+
+    const sentCount = await sendTodoRemindersJob(logger, now, pipeline);
+
+    expect(sentCount).toBe(2);
+    expect(findDue).toHaveBeenCalledWith(now);
+    expect(createMany).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({
+          memberId: firstMemberId,
+          type: "todo.reminder",
+          payload: {
+            todoId: "todo-1",
+            title: "Grade essays",
+            dueDate: dueDate.toISOString(),
+            offsetMinutes: 1440,
+          },
+          dedupeKey: `todo-reminder:reminder-1:${dueDate.toISOString()}:${firstMemberId}`,
+        }),
+        expect.objectContaining({ memberId: secondMemberId }),
+      ],
+      expect.anything(),
+    );
+    expect(enqueue).toHaveBeenCalledWith(expect.anything(), [
+      expect.objectContaining({
+        organizationId,
+        topic: "notification",
+        payload: { notificationId: "notification-0", channel: "memory" },
+      }),
+      expect.objectContaining({
+        payload: { notificationId: "notification-1", channel: "memory" },
+      }),
+    ]);
+    expect(markSent).toHaveBeenCalledWith("reminder-1", dueDate);
+  });
+
+  it("should leave delivery to the outbox, when a channel is offline", async () => {
+    findDue.mockResolvedValue([
+      {
+        reminderId: "reminder-1",
+        offsetMinutes: 60,
+        todoId: "todo-1",
+        organizationId,
+        title: "Grade essays",
+        dueDate,
+        recipientMemberIds: [firstMemberId],
+      },
+    ]);
+    const deliver = vi.fn().mockRejectedValue(new Error("offline"));
+    const pipeline = createNotificationPipeline([{ name: "broken", deliver }]);
+
+    const sentCount = await sendTodoRemindersJob(logger, now, pipeline);
+
+    expect(sentCount).toBe(1);
+    expect(deliver).not.toHaveBeenCalled();
+    expect(enqueue).toHaveBeenCalledTimes(1);
+    expect(markSent).toHaveBeenCalledWith("reminder-1", dueDate);
+  });
+
+  it("should send nothing, when no reminder is due", async () => {
+    findDue.mockResolvedValue([]);
+
+    const sentCount = await sendTodoRemindersJob(
+      logger,
+      now,
+      createNotificationPipeline(),
+    );
+
+    expect(sentCount).toBe(0);
+    expect(createMany).not.toHaveBeenCalled();
+    expect(markSent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,54 @@
+import { todoReminderRepository } from "../repository/todo-reminder.repository";
+import {
+  notificationPipeline,
+  type NotificationPipeline,
+} from "../../notification/utils/notification-pipeline";
+import { NotificationTypes } from "../../notification/schemas/notification.schema";
+import type { LoggerHelpers } from "../../../plugins/logger";
+
+/**
+ * Sends each reminder whose time has come to the todo's recipients and marks
+ * it sent for the current due date. Safe to run concurrently or repeatedly:
+ * a notification is only ever stored once per reminder, due date and member.
+ */
+export async function sendTodoRemindersJob(
+  logger: LoggerHelpers,
+  now: Date = new Date(),
+  pipeline: NotificationPipeline = notificationPipeline,
+): Promise<number> {
+  const reminders = await todoReminderRepository.findDue(now);
+
+  let sentCount = 0;
+  for (const reminder of reminders) {
+    const dueAt = reminder.dueDate.toISOString();
+    const created = await pipeline.send(
+      reminder.recipientMemberIds.map((memberId) => ({
+        organizationId: reminder.organizationId,
+        memberId,
+        type: NotificationTypes.TODO_REMINDER,
+        payload: {
+          todoId: reminder.todoId,
+          title: reminder.title,
+          dueDate: dueAt,
+          offsetMinutes: reminder.offsetMinutes,
+        },
+        dedupeKey: `todo-reminder:${reminder.reminderId}:${dueAt}:${memberId}`,
+      })),
+      logger,
+    );
+    await todoReminderRepository.markSent(
+      reminder.reminderId,
+      reminder.dueDate,
+    );
+    sentCount += created.length;
+  }
+
+  if (sentCount > 0) {
+    logger.info("Sent todo reminders", {
+      reminders: reminders.length,
+      notifications: sentCount,
+    });
+  }
+
+  return sentCount;
+}
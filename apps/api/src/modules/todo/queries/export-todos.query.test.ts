@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findAll = vi.hoisted(() => vi.fn());
+const findViewById = vi.hoisted(() => vi.fn());
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    findAll,
+  },
+}));
+
+vi.mock("../repository/todo-view.repository", () => ({
+  todoViewRepository: {
+    findById: findViewById,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { exportTodosHandler } from "./export-todos.query";
+import { encodeTodoCursor } from "../utils/todo-cursor";
+
+describe("exportTodosHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const memberId = "11111111-1111-4111-8111-111111111111";
+
+  const buildTodo = (id: string, title: string) => ({
+    id,
+    organizationId,
+    title,
+    priority: "medium",
+    completed: false,
+    position: 0,
+    autoCompleteFromItems: false,
+    assigneeMemberIds: [],
+    watcherMemberIds: [],
+    labelIds: [],
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId,
+    });
+  });
+
+  it("should export every page with the list filters, when they are given", async () => {
+    const firstTodo = buildTodo("22222222-2222-4222-8222-222222222222", "One");
+    const secondTodo = buildTodo("33333333-3333-4333-8333-333333333333", "Two");
+    findAll
+      .mockResolvedValueOnce({
+        data: [firstTodo],
+        total: 2,
+        nextCursor: encodeTodoCursor({
+          sortBy: "createdAt",
+          sortOrder: "desc",
+          value: firstTodo.createdAt.toISOString(),
+          id: firstTodo.id,
+        }),
+      })
+      .mockResolvedValueOnce({
+        data: [secondTodo],
+        total: 2,
+        nextCursor: null,
+      });
+
+    const result = await exportTodosHandler(
+      { format: "csv", priority: "medium", assignedToMe: "true", limit: "5" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    if (!result.isSuccess) return;
+    expect(findAll).toHaveBeenCalledTimes(2);
+    expect(findAll).toHaveBeenNthCalledWith(
+      1,
+      organizationId,
+      expect.objectContaining({
+        priority: "medium",
+        assigneeMemberId: memberId,
+        limit: 100,
+        cursor: undefined,
+      }),
+    );
+    expect(findAll).toHaveBeenNthCalledWith(
+      2,
+      organizationId,
+      expect.objectContaining({
+        cursor: expect.objectContaining({ id: firstTodo.id }),
+      }),
+    );
+    expect(result.data.contentType).toBe("text/csv; charset=utf-8");
+    expect(result.data.fileName).toMatch(/^todos-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(result.data.content.trim().split("\r\n")).toHaveLength(3);
+  });
+
+  it("should return an error, when more todos match than an export holds", async () => {
+    findAll.mockResolvedValue({ data: [], total: 10001, nextCursor: null });
+
+    const result = await exportTodosHandler(
+      { format: "ics" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("TOO_MANY_EXPORT_TODOS");
+  });
+
+  it("should return validation errors, when the format is unknown", async () => {
+    const result = await exportTodosHandler(
+      { format: "xlsx" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    if (result.isSuccess) return;
+    expect(result.errors[0].code).toBe("INVALID_FILE_FORMAT");
+    expect(findAll).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  ExportTodosQuerySchema,
+  MAX_EXPORT_TODOS,
+  type Todo,
+  type TodoExport,
+  type TodoFileFormat,
+} from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { resolveListTodosQuery } from "./get-all-todos.query";
+import { decodeTodoCursor } from "../utils/todo-cursor";
+import {
+  todosToCsv,
+  todosToICalendar,
+  todosToJson,
+} from "../utils/todo-export";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+const EXPORT_PAGE_SIZE = 100;
+
+const EXPORT_FILES: Record<
+  TodoFileFormat,
+  { contentType: string; serialize: (todos: Todo[]) => string }
+> = {
+  csv: { contentType: "text/csv; charset=utf-8", serialize: todosToCsv },
+  json: {
+    contentType: "application/json; charset=utf-8",
+    serialize: todosToJson,
+  },
+  ics: {
+    contentType: "text/calendar; charset=utf-8",
+    serialize: (todos) => todosToICalendar(todos),
+  },
+};
+
+export async function exportTodosHandler(
+  queryParams: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoExport>> {
+  logger.debug("ExportTodosQuery received", { queryParams });
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const { format: rawFormat, ...rawFilters } = (queryParams ?? {}) as Record<
+    string,
+    unknown
+  >;
+
+  const parseResult = ExportTodosQuerySchema.safeParse({ format: rawFormat });
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for ExportTodosQuery", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+  const { format } = parseResult.data;
+
+  // The export covers every matching todo, so paging parameters are ignored.
+  const queryResult = await resolveListTodosQuery(
+    { ...rawFilters, limit: EXPORT_PAGE_SIZE, cursor: undefined },
+    access,
+    logger,
+  );
+  if (!queryResult.isSuccess) {
+    return queryResult;
+  }
+  const filters = queryResult.data;
+
+  const todos: Todo[] = [];
+  let cursor = filters.cursor;
+  do {
+    const page = await todoRepository.findAll(access.organizationId, {
+      ...filters,
+      cursor,
+    });
+
+    if (page.total > MAX_EXPORT_TODOS) {
+      logger.warn("Too many todos for ExportTodosQuery", {
+        total: page.total,
+      });
+      return {
+        errors: [
+          {
+            code: "TOO_MANY_EXPORT_TODOS",
+            message: `An export can hold at most ${MAX_EXPORT_TODOS} todos, narrow the filters`,
+          },
+        ],
+        isSuccess: false,
+      };
+    }
+
+    todos.push(...page.data);
+    cursor = page.nextCursor ? decodeTodoCursor(page.nextCursor) : undefined;
+  } while (cursor);
+
+  const file = EXPORT_FILES[format];
+  const date = new Date().toISOString().slice(0, 10);
+
+  logger.info("Todos exported", { format, count: todos.length });
+
+  return {
+    data: {
+      fileName: `todos-${date}.${format}`,
+      contentType: file.contentType,
+      content: file.serialize(todos),
+    },
+    isSuccess: true,
+  };
+}
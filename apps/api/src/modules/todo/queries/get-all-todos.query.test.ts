@@ -0,0 +1,267 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const findAll = vi.hoisted(() => vi.fn());
+const findViewById = vi.hoisted(() => vi.fn());
+const requireActiveOrganization = vi.hoisted(() => vi.fn());
+
+vi.mock("../repository/todo.repository", () => ({
+  todoRepository: {
+    findAll,
+  },
+}));
+
+vi.mock("../repository/todo-view.repository", () => ({
+  todoViewRepository: {
+    findById: findViewById,
+  },
+}));
+
+vi.mock("../../auth/middleware/require-auth.middleware", () => ({
+  requireActiveOrganization,
+}));
+
+import { getAllTodosHandler } from "./get-all-todos.query";
+import { encodeTodoCursor } from "../utils/todo-cursor";
+
+describe("getAllTodosHandler", () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const organizationId = "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b";
+  const todoId = "b4c5d6e7-8f9a-4b0c-8d1e-2f3a4b5c6d7e";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireActiveOrganization.mockResolvedValue({
+      organizationId,
+      role: "teacher",
+      memberId: "member-1",
+    });
+    findAll.mockResolvedValue({ data: [], nextCursor: null, total: 0 });
+  });
+
+  it("should apply defaults, when no query params are given", async () => {
+    const result = await getAllTodosHandler({}, {} as never, logger);
+
+    expect(result.isSuccess).toBe(true);
+    expect(findAll).toHaveBeenCalledWith(
+      organizationId,
+      expect.objectContaining({
+        limit: 20,
+        sortBy: "createdAt",
+        sortOrder: "desc",
+      }),
+    );
+  });
+
+  it("should return validation errors, when limit is out of range", async () => {
+    const result = await getAllTodosHandler(
+      { limit: "500" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INVALID_LIMIT");
+    expect(findAll).not.toHaveBeenCalled();
+  });
+
+  it("should return validation errors, when cursor is malformed", async () => {
+    const result = await getAllTodosHandler(
+      { cursor: "not-a-cursor" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INVALID_CURSOR");
+  });
+
+  it("should return validation errors, when cursor was issued for another sort", async () => {
+    const cursor = encodeTodoCursor({
+      sortBy: "title",
+      sortOrder: "asc",
+      value: "groceries",
+      id: todoId,
+    });
+
+    const result = await getAllTodosHandler(
+      { cursor, sortBy: "dueDate", sortOrder: "asc" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INVALID_CURSOR");
+  });
+
+  it("should return validation errors, when due date range is inverted", async () => {
+    const result = await getAllTodosHandler(
+      { dueFrom: "2025-02-01", dueTo: "2025-01-01" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("INVALID_DATE_RANGE");
+  });
+
+  it("should pass decoded cursor and filters, when query is valid", async () => {
+    const cursor = encodeTodoCursor({
+      sortBy: "title",
+      sortOrder: "asc",
+      value: "groceries",
+      id: todoId,
+    });
+    const page = { data: [], nextCursor: "next", total: 42 };
+    findAll.mockResolvedValue(page);
+
+    const result = await getAllTodosHandler(
+      {
+        cursor,
+        sortBy: "title",
+        sortOrder: "asc",
+        limit: "10",
+        completed: "false",
+        search: "  Gro ",
+      },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.data).toEqual(page);
+    expect(findAll).toHaveBeenCalledWith(
+      organizationId,
+      expect.objectContaining({
+        cursor: {
+          sortBy: "title",
+          sortOrder: "asc",
+          value: "groceries",
+          id: todoId,
+        },
+        limit: 10,
+        completed: false,
+        search: "Gro",
+      }),
+    );
+  });
+
+  it("should filter by the current member, when assignedToMe is true", async () => {
+    const result = await getAllTodosHandler(
+      { assignedToMe: "true" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(findAll).toHaveBeenCalledWith(
+      organizationId,
+      expect.objectContaining({ assigneeMemberId: "member-1" }),
+    );
+  });
+
+  it("should return validation errors, when assignedToMe is combined with an assignee", async () => {
+    const result = await getAllTodosHandler(
+      { assignedToMe: "true", assigneeMemberId: todoId },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("CONFLICTING_ASSIGNEE_FILTERS");
+  });
+
+  it("should filter by labels, when label ids are given", async () => {
+    const labelIds = [
+      "77777777-7777-4777-8777-777777777777",
+      "88888888-8888-4888-8888-888888888888",
+    ];
+
+    const result = await getAllTodosHandler(
+      { labelIds: labelIds.join(","), labelMatch: "all" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(findAll).toHaveBeenCalledWith(
+      organizationId,
+      expect.objectContaining({ labelIds, labelMatch: "all" }),
+    );
+  });
+
+  it("should apply the saved view beneath explicit params, when viewId is given", async () => {
+    const viewId = "99999999-9999-4999-8999-999999999999";
+    findViewById.mockResolvedValue({
+      id: viewId,
+      createdByMemberId: "member-2",
+      isShared: true,
+      filters: { priority: "high", completed: "false", sortBy: "dueDate" },
+    });
+
+    const result = await getAllTodosHandler(
+      { viewId, completed: "true" },
+      {} as never,
+      logger,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(findViewById).toHaveBeenCalledWith(organizationId, viewId);
+    expect(findAll).toHaveBeenCalledWith(
+      organizationId,
+      expect.objectContaining({
+        priority: "high",
+        completed: true,
+        sortBy: "dueDate",
+      }),
+    );
+  });
+
+  it("should use the saved view's sorting, when only viewId is given", async () => {
+    const viewId = "99999999-9999-4999-8999-999999999999";
+    findViewById.mockResolvedValue({
+      id: viewId,
+      createdByMemberId: "member-1",
+      isShared: false,
+      filters: {
+        sortBy: "title",
+        sortOrder: "asc",
+        limit: "5",
+        labelMatch: "all",
+      },
+    });
+
+    const result = await getAllTodosHandler({ viewId }, {} as never, logger);
+
+    expect(result.isSuccess).toBe(true);
+    expect(findAll).toHaveBeenCalledWith(
+      organizationId,
+      expect.objectContaining({
+        sortBy: "title",
+        sortOrder: "asc",
+        limit: 5,
+        labelMatch: "all",
+      }),
+    );
+  });
+
+  it("should return not found, when the view is private to another member", async () => {
+    const viewId = "99999999-9999-4999-8999-999999999999";
+    findViewById.mockResolvedValue({
+      id: viewId,
+      createdByMemberId: "member-2",
+      isShared: false,
+      filters: {},
+    });
+
+    const result = await getAllTodosHandler({ viewId }, {} as never, logger);
+
+    expect(result.isSuccess).toBe(false);
+    expect(result.errors?.[0]?.code).toBe("RESOURCE_NOT_FOUND");
+    expect(findAll).not.toHaveBeenCalled();
+  });
+});
@@ -1,29 +1,134 @@
-import type { Todo } from "../schemas/todo.schema";
+import type { ListTodosQuery, TodoPage } from "../schemas/todo.schema";
 import { ListTodosQuerySchema } from "../schemas/todo.schema";
+import {
+  TodoViewParamSchema,
+  type TodoViewFilters,
+} from "../schemas/todo-view.schema";
 import { todoRepository } from "../repository/todo.repository";
+import { todoViewRepository } from "../repository/todo-view.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
 import type { LoggerHelpers } from "../../../plugins/logger";
 import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
 
 export async function getAllTodosHandler(
   queryParams: unknown,
+  request: FastifyRequest,
   logger: LoggerHelpers,
-): Promise<ServiceResult<Todo[]>> {
+): Promise<ServiceResult<TodoPage>> {
   logger.debug("GetAllTodosQuery received", { queryParams });
 
-  const parseResult = ListTodosQuerySchema.safeParse(queryParams ?? {});
-  const filters = parseResult.success
-    ? parseResult.data
-    : { completed: undefined, priority: undefined };
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
 
-  const todos = await todoRepository.findAll({
-    completed: filters.completed,
-    priority: filters.priority,
+  const queryResult = await resolveListTodosQuery(
+    (queryParams ?? {}) as Record<string, unknown>,
+    access,
+    logger,
+  );
+  if (!queryResult.isSuccess) {
+    return queryResult;
+  }
+  const filters = queryResult.data;
+
+  const page = await todoRepository.findAll(access.organizationId, filters);
+
+  logger.info("Todos retrieved", {
+    count: page.data.length,
+    total: page.total,
+    sortBy: filters.sortBy,
+    sortOrder: filters.sortOrder,
   });
 
-  logger.info("Todos retrieved", { count: todos.length, filters });
+  return {
+    data: page,
+    isSuccess: true,
+  };
+}
+
+/**
+ * Parses the list filters, applying the saved view they reference beneath the
+ * explicit parameters and resolving assignedToMe to the current member.
+ */
+export async function resolveListTodosQuery(
+  rawQuery: Record<string, unknown>,
+  access: { organizationId: string; memberId: string },
+  logger: LoggerHelpers,
+): Promise<ServiceResult<ListTodosQuery>> {
+  // A saved view supplies defaults; parameters passed alongside it win.
+  let viewFilters: TodoViewFilters = {};
+  if (rawQuery.viewId !== undefined) {
+    const viewParseResult = TodoViewParamSchema.safeParse({
+      viewId: rawQuery.viewId,
+    });
+    if (!viewParseResult.success) {
+      const errors = mapZodErrors(viewParseResult.error);
+      logger.warn("Invalid view ID for todo list filters", { errors });
+      return {
+        errors,
+        isSuccess: false,
+      };
+    }
+
+    const { viewId } = viewParseResult.data;
+    const view = await todoViewRepository.findById(
+      access.organizationId,
+      viewId,
+    );
+    if (
+      !view ||
+      (!view.isShared && view.createdByMemberId !== access.memberId)
+    ) {
+      logger.warn("Todo view not found for todo list filters", { viewId });
+      return {
+        errors: [
+          {
+            code: "RESOURCE_NOT_FOUND",
+            message: "View not found",
+            value: viewId,
+          },
+        ],
+        isSuccess: false,
+      };
+    }
+    viewFilters = view.filters;
+  }
+
+  // The list defaults are applied by the schema, after the view's filters
+  // are merged, so they never override the view's sorting or limit
+  const parseResult = ListTodosQuerySchema.safeParse({
+    ...viewFilters,
+    ...rawQuery,
+  });
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Validation failed for todo list filters", { errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
 
   return {
-    data: todos,
+    data: {
+      ...parseResult.data,
+      assigneeMemberId: parseResult.data.assignedToMe
+        ? access.memberId
+        : parseResult.data.assigneeMemberId,
+    },
     isSuccess: true,
   };
 }
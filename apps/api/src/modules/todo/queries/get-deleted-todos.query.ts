@@ -0,0 +1,37 @@
+import type { Todo } from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function getDeletedTodosHandler(
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<Todo[]>> {
+  logger.debug("GetDeletedTodosQuery received");
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const deletedTodos = await todoRepository.findDeleted(access.organizationId);
+
+  logger.info("Deleted todos retrieved", { count: deletedTodos.length });
+
+  return {
+    data: deletedTodos,
+    isSuccess: true,
+  };
+}
@@ -1,6 +1,8 @@
 import type { Todo } from "../schemas/todo.schema";
 import { TodoIdParamSchema } from "../schemas/todo.schema";
 import { todoRepository } from "../repository/todo.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
 import type { LoggerHelpers } from "../../../plugins/logger";
 import { mapZodErrors } from "@utils/mapZodErrors";
 import { ServiceResult } from "@utils/ServiceResult";
@@ -11,6 +13,7 @@ export type GetTodoByIdQueryResult = {
 
 export async function getTodoByIdHandler(
   id: unknown,
+  request: FastifyRequest,
   logger: LoggerHelpers,
 ): Promise<ServiceResult<Todo>> {
   logger.debug("GetTodoByIdQuery received", { id });
@@ -27,7 +30,25 @@ export async function getTodoByIdHandler(
 
   const validatedId = parseResult.data.id;
 
-  const todo = await todoRepository.findById(validatedId);
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const todo = await todoRepository.findById(
+    access.organizationId,
+    validatedId,
+  );
 
   if (!todo) {
     logger.warn("Todo not found", { id: validatedId });
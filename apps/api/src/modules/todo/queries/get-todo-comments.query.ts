@@ -0,0 +1,74 @@
+import type { TodoCommentThread } from "../schemas/todo-comment.schema";
+import { TodoIdParamSchema } from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoCommentRepository } from "../repository/todo-comment.repository";
+import { buildCommentThreads } from "../utils/build-comment-threads";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function getTodoCommentsHandler(
+  todoId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoCommentThread[]>> {
+  logger.debug("GetTodoCommentsQuery received", { todoId });
+
+  const parseResult = TodoIdParamSchema.safeParse({ id: todoId });
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Invalid todo ID format", { todoId, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedTodoId = parseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    validatedTodoId,
+  );
+  if (!existingTodo) {
+    logger.warn("Todo not found for comment listing", { id: validatedTodoId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const comments = await todoCommentRepository.findAll(validatedTodoId);
+
+  logger.debug("Todo comments retrieved", {
+    todoId: validatedTodoId,
+    count: comments.length,
+  });
+
+  return {
+    isSuccess: true,
+    data: buildCommentThreads(comments),
+  };
+}
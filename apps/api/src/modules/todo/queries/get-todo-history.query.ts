@@ -0,0 +1,76 @@
+import type { TodoHistoryEntry } from "../schemas/todo-history.schema";
+import { TodoIdParamSchema } from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoHistoryRepository } from "../repository/todo-history.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function getTodoHistoryHandler(
+  todoId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoHistoryEntry[]>> {
+  logger.debug("GetTodoHistoryQuery received", { todoId });
+
+  const parseResult = TodoIdParamSchema.safeParse({ id: todoId });
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Invalid todo ID format", { todoId, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedTodoId = parseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  // The history stays readable while the todo is in the trash.
+  const todo =
+    (await todoRepository.findById(access.organizationId, validatedTodoId)) ??
+    (await todoRepository.findDeletedById(
+      access.organizationId,
+      validatedTodoId,
+    ));
+  if (!todo) {
+    logger.warn("Todo not found for history", { id: validatedTodoId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const history = await todoHistoryRepository.findAll(validatedTodoId);
+
+  logger.info("Todo history retrieved", {
+    todoId: validatedTodoId,
+    count: history.length,
+  });
+
+  return {
+    data: history,
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,73 @@
+import type { TodoItem } from "../schemas/todo-item.schema";
+import { TodoIdParamSchema } from "../schemas/todo.schema";
+import { todoRepository } from "../repository/todo.repository";
+import { todoItemRepository } from "../repository/todo-item.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function getTodoItemsHandler(
+  todoId: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoItem[]>> {
+  logger.debug("GetTodoItemsQuery received", { todoId });
+
+  const parseResult = TodoIdParamSchema.safeParse({ id: todoId });
+  if (!parseResult.success) {
+    const errors = mapZodErrors(parseResult.error);
+    logger.warn("Invalid todo ID format", { todoId, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const validatedTodoId = parseResult.data.id;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const existingTodo = await todoRepository.findById(
+    access.organizationId,
+    validatedTodoId,
+  );
+  if (!existingTodo) {
+    logger.warn("Todo not found for item listing", { id: validatedTodoId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "Todo not found",
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  const items = await todoItemRepository.findAll(validatedTodoId);
+
+  logger.debug("Todo items retrieved", {
+    todoId: validatedTodoId,
+    count: items.length,
+  });
+
+  return {
+    isSuccess: true,
+    data: items,
+  };
+}
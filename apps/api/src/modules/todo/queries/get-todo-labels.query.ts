@@ -0,0 +1,37 @@
+import type { TodoLabel } from "../schemas/todo-label.schema";
+import { todoLabelRepository } from "../repository/todo-label.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function getTodoLabelsHandler(
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoLabel[]>> {
+  logger.debug("GetTodoLabelsQuery received");
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const labels = await todoLabelRepository.findAll(access.organizationId);
+
+  logger.info("Todo labels retrieved", { count: labels.length });
+
+  return {
+    data: labels,
+    isSuccess: true,
+  };
+}
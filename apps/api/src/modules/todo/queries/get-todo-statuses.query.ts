@@ -0,0 +1,43 @@
+import type { TodoStatus } from "../schemas/todo-status.schema";
+import { todoStatusRepository } from "../repository/todo-status.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function getTodoStatusesHandler(
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoStatus[]>> {
+  logger.debug("GetTodoStatusesQuery received");
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  let statuses = await todoStatusRepository.findAll(access.organizationId);
+  if (statuses.length === 0) {
+    statuses = await todoStatusRepository.createDefaults(access.organizationId);
+    logger.info("Default todo statuses created", {
+      organizationId: access.organizationId,
+    });
+  }
+
+  logger.info("Todo statuses retrieved", { count: statuses.length });
+
+  return {
+    data: statuses,
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,68 @@
+import {
+  TodoViewParamSchema,
+  type TodoView,
+} from "../schemas/todo-view.schema";
+import { todoViewRepository } from "../repository/todo-view.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+import { mapZodErrors } from "@utils/mapZodErrors";
+
+export async function getTodoViewByIdHandler(
+  params: unknown,
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoView>> {
+  logger.debug("GetTodoViewByIdQuery received", { params });
+
+  const paramsParseResult = TodoViewParamSchema.safeParse(params);
+  if (!paramsParseResult.success) {
+    const errors = mapZodErrors(paramsParseResult.error);
+    logger.warn("Invalid todo view params", { params, errors });
+    return {
+      errors,
+      isSuccess: false,
+    };
+  }
+
+  const { viewId } = paramsParseResult.data;
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const view = await todoViewRepository.findById(access.organizationId, viewId);
+  // Views that are not shared stay private to their creator.
+  if (!view || (!view.isShared && view.createdByMemberId !== access.memberId)) {
+    logger.warn("Todo view not found", { viewId });
+    return {
+      errors: [
+        {
+          code: "RESOURCE_NOT_FOUND",
+          message: "View not found",
+          value: viewId,
+        },
+      ],
+      isSuccess: false,
+    };
+  }
+
+  logger.info("Todo view retrieved", { viewId });
+
+  return {
+    data: view,
+    isSuccess: true,
+  };
+}
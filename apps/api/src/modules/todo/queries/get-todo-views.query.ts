@@ -0,0 +1,40 @@
+import type { TodoView } from "../schemas/todo-view.schema";
+import { todoViewRepository } from "../repository/todo-view.repository";
+import { requireActiveOrganization } from "../../auth/middleware/require-auth.middleware";
+import type { FastifyRequest } from "fastify";
+import type { LoggerHelpers } from "../../../plugins/logger";
+import { ServiceResult } from "@utils/ServiceResult";
+
+export async function getTodoViewsHandler(
+  request: FastifyRequest,
+  logger: LoggerHelpers,
+): Promise<ServiceResult<TodoView[]>> {
+  logger.debug("GetTodoViewsQuery received");
+
+  let access;
+  try {
+    access = await requireActiveOrganization(request);
+  } catch {
+    return {
+      isSuccess: false,
+      errors: [
+        {
+          code: "FORBIDDEN",
+          message: "An active organization membership is required",
+        },
+      ],
+    };
+  }
+
+  const views = await todoViewRepository.findVisible(
+    access.organizationId,
+    access.memberId,
+  );
+
+  logger.info("Todo views retrieved", { count: views.length });
+
+  return {
+    data: views,
+    isSuccess: true,
+  };
+}
@@ -0,0 +1,116 @@
+import type {
+  TodoComment,
+  CreateTodoCommentInput,
+} from "../schemas/todo-comment.schema";
+import { db, eq, and, asc, sql } from "@repo/database";
+import { todoComments } from "@repo/database/schema/todo";
+
+export const todoCommentRepository = {
+  findAll: async (todoId: string): Promise<TodoComment[]> => {
+    const rows = await db
+      .select()
+      .from(todoComments)
+      .where(eq(todoComments.todoId, todoId))
+      .orderBy(asc(todoComments.createdAt), asc(todoComments.id));
+
+    return rows.map(mapTodoCommentFromDb);
+  },
+
+  findById: async (
+    todoId: string,
+    commentId: string,
+  ): Promise<TodoComment | undefined> => {
+    const [row] = await db
+      .select()
+      .from(todoComments)
+      .where(
+        and(eq(todoComments.id, commentId), eq(todoComments.todoId, todoId)),
+      )
+      .limit(1);
+
+    return row ? mapTodoCommentFromDb(row) : undefined;
+  },
+
+  create: async (
+    todoId: string,
+    authorMemberId: string,
+    input: CreateTodoCommentInput,
+  ): Promise<TodoComment> => {
+    const [row] = await db
+      .insert(todoComments)
+      .values({
+        todoId,
+        authorMemberId,
+        parentId: input.parentId ?? null,
+        body: input.body,
+      })
+      .returning();
+
+    return mapTodoCommentFromDb(row);
+  },
+
+  update: async (
+    todoId: string,
+    commentId: string,
+    body: string,
+  ): Promise<TodoComment | undefined> => {
+    const [row] = await db
+      .update(todoComments)
+      .set({ body, updatedAt: new Date() })
+      .where(
+        and(eq(todoComments.id, commentId), eq(todoComments.todoId, todoId)),
+      )
+      .returning();
+
+    return row ? mapTodoCommentFromDb(row) : undefined;
+  },
+
+  /**
+   * Removes a comment. Comments that already have replies are blanked and
+   * kept so the thread below them stays intact.
+   */
+  delete: async (todoId: string, commentId: string): Promise<boolean> => {
+    return db.transaction(async (tx) => {
+      const [{ replyCount }] = await tx
+        .select({ replyCount: sql<number>`count(*)::int` })
+        .from(todoComments)
+        .where(eq(todoComments.parentId, commentId));
+
+      const condition = and(
+        eq(todoComments.id, commentId),
+        eq(todoComments.todoId, todoId),
+      );
+
+      const results =
+        replyCount > 0
+          ? await tx
+              .update(todoComments)
+              .set({ body: "", deletedAt: new Date(), updatedAt: new Date() })
+              .where(condition)
+              .returning({ id: todoComments.id })
+          : await tx
+              .delete(todoComments)
+              .where(condition)
+              .returning({ id: todoComments.id });
+
+      return results.length > 0;
+    });
+  },
+};
+
+function mapTodoCommentFromDb(
+  row: typeof todoComments.$inferSelect,
+): TodoComment {
+  const isDeleted = row.deletedAt !== null;
+
+  return {
+    id: row.id,
+    todoId: row.todoId,
+    parentId: row.parentId ?? undefined,
+    authorMemberId: row.authorMemberId ?? undefined,
+    body: isDeleted ? null : row.body,
+    isDeleted,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
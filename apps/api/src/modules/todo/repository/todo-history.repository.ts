@@ -0,0 +1,62 @@
+import type {
+  TodoFieldChange,
+  TodoHistoryEntry,
+  TodoHistoryValue,
+  TrackedTodoField,
+} from "../schemas/todo-history.schema";
+import { db, eq, desc } from "@repo/database";
+import { todoHistory } from "@repo/database/schema/todo";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const todoHistoryRepository = {
+  findAll: async (todoId: string): Promise<TodoHistoryEntry[]> => {
+    const rows = await db
+      .select()
+      .from(todoHistory)
+      .where(eq(todoHistory.todoId, todoId))
+      .orderBy(desc(todoHistory.createdAt), desc(todoHistory.id));
+
+    return rows.map(mapTodoHistoryFromDb);
+  },
+
+  /**
+   * Records one entry per changed field, all stamped with the same time.
+   */
+  record: async (
+    todoId: string,
+    actorMemberId: string,
+    changes: TodoFieldChange[],
+    tx: Transaction | typeof db = db,
+  ): Promise<void> => {
+    if (changes.length === 0) {
+      return;
+    }
+
+    const createdAt = new Date();
+    await tx.insert(todoHistory).values(
+      changes.map((change) => ({
+        todoId,
+        actorMemberId,
+        field: change.field,
+        oldValue: change.oldValue,
+        newValue: change.newValue,
+        createdAt,
+      })),
+    );
+  },
+};
+
+function mapTodoHistoryFromDb(
+  row: typeof todoHistory.$inferSelect,
+): TodoHistoryEntry {
+  return {
+    id: row.id,
+    todoId: row.todoId,
+    actorMemberId: row.actorMemberId ?? undefined,
+    field: row.field as TrackedTodoField,
+    oldValue: (row.oldValue ?? null) as TodoHistoryValue,
+    newValue: (row.newValue ?? null) as TodoHistoryValue,
+    createdAt: row.createdAt,
+  };
+}
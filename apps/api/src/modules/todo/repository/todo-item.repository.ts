@@ -0,0 +1,216 @@
+import type {
+  TodoItem,
+  CreateTodoItemInput,
+  UpdateTodoItemInput,
+} from "../schemas/todo-item.schema";
+import { db, eq, and, asc, gt, gte, sql } from "@repo/database";
+import { todos, todoItems } from "@repo/database/schema/todo";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const todoItemRepository = {
+  findAll: async (todoId: string): Promise<TodoItem[]> => {
+    const rows = await db
+      .select()
+      .from(todoItems)
+      .where(eq(todoItems.todoId, todoId))
+      .orderBy(asc(todoItems.position));
+
+    return rows.map(mapTodoItemFromDb);
+  },
+
+  findById: async (
+    todoId: string,
+    itemId: string,
+  ): Promise<TodoItem | undefined> => {
+    const [row] = await db
+      .select()
+      .from(todoItems)
+      .where(and(eq(todoItems.id, itemId), eq(todoItems.todoId, todoId)))
+      .limit(1);
+
+    return row ? mapTodoItemFromDb(row) : undefined;
+  },
+
+  count: async (todoId: string): Promise<number> => {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(todoItems)
+      .where(eq(todoItems.todoId, todoId));
+
+    return count;
+  },
+
+  create: async (
+    todoId: string,
+    input: CreateTodoItemInput,
+  ): Promise<TodoItem> => {
+    return db.transaction(async (tx) => {
+      await lockTodo(tx, todoId);
+
+      const [{ nextPosition }] = await tx
+        .select({
+          nextPosition: sql<number>`coalesce(max(${todoItems.position}) + 1, 0)::int`,
+        })
+        .from(todoItems)
+        .where(eq(todoItems.todoId, todoId));
+
+      const position = Math.min(input.position ?? nextPosition, nextPosition);
+      if (position < nextPosition) {
+        await tx
+          .update(todoItems)
+          .set({ position: sql`${todoItems.position} + 1` })
+          .where(
+            and(
+              eq(todoItems.todoId, todoId),
+              gte(todoItems.position, position),
+            ),
+          );
+      }
+
+      const [row] = await tx
+        .insert(todoItems)
+        .values({
+          todoId,
+          title: input.title,
+          completed: input.completed ?? false,
+          position,
+        })
+        .returning();
+
+      await syncParentCompletion(tx, todoId);
+
+      return mapTodoItemFromDb(row);
+    });
+  },
+
+  update: async (
+    todoId: string,
+    itemId: string,
+    input: UpdateTodoItemInput,
+  ): Promise<TodoItem | undefined> => {
+    return db.transaction(async (tx) => {
+      await lockTodo(tx, todoId);
+
+      const [row] = await tx
+        .update(todoItems)
+        .set({
+          ...(input.title !== undefined && { title: input.title }),
+          ...(input.completed !== undefined && { completed: input.completed }),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(todoItems.id, itemId), eq(todoItems.todoId, todoId)))
+        .returning();
+
+      if (!row) {
+        return undefined;
+      }
+
+      await syncParentCompletion(tx, todoId);
+
+      return mapTodoItemFromDb(row);
+    });
+  },
+
+  delete: async (todoId: string, itemId: string): Promise<boolean> => {
+    return db.transaction(async (tx) => {
+      await lockTodo(tx, todoId);
+
+      const [row] = await tx
+        .delete(todoItems)
+        .where(and(eq(todoItems.id, itemId), eq(todoItems.todoId, todoId)))
+        .returning({ position: todoItems.position });
+
+      if (!row) {
+        return false;
+      }
+
+      // Keep positions contiguous so they always match the list index.
+      await tx
+        .update(todoItems)
+        .set({ position: sql`${todoItems.position} - 1` })
+        .where(
+          and(
+            eq(todoItems.todoId, todoId),
+            gt(todoItems.position, row.position),
+          ),
+        );
+
+      await syncParentCompletion(tx, todoId);
+
+      return true;
+    });
+  },
+
+  /**
+   * Rewrites item positions to follow the given order. The caller must pass
+   * every item of the todo exactly once.
+   */
+  reorder: async (todoId: string, itemIds: string[]): Promise<TodoItem[]> => {
+    return db.transaction(async (tx) => {
+      await lockTodo(tx, todoId);
+
+      for (const [position, itemId] of itemIds.entries()) {
+        await tx
+          .update(todoItems)
+          .set({ position, updatedAt: new Date() })
+          .where(and(eq(todoItems.id, itemId), eq(todoItems.todoId, todoId)));
+      }
+
+      const rows = await tx
+        .select()
+        .from(todoItems)
+        .where(eq(todoItems.todoId, todoId))
+        .orderBy(asc(todoItems.position));
+
+      return rows.map(mapTodoItemFromDb);
+    });
+  },
+};
+
+// Serializes checklist changes per todo so positions stay consistent.
+async function lockTodo(tx: Transaction, todoId: string): Promise<void> {
+  await tx
+    .select({ id: todos.id })
+    .from(todos)
+    .where(eq(todos.id, todoId))
+    .for("update");
+}
+
+/**
+ * For todos with auto-complete enabled, marks the todo completed once every
+ * item is checked and reopens it when an unchecked item appears again.
+ */
+async function syncParentCompletion(
+  tx: Transaction,
+  todoId: string,
+): Promise<void> {
+  const allItemsChecked = sql<boolean>`not exists (
+    select 1 from ${todoItems}
+    where ${todoItems.todoId} = ${todos.id} and not ${todoItems.completed}
+  )`;
+
+  await tx
+    .update(todos)
+    .set({ completed: allItemsChecked, updatedAt: new Date() })
+    .where(
+      and(
+        eq(todos.id, todoId),
+        eq(todos.autoCompleteFromItems, true),
+        sql`exists (select 1 from ${todoItems} where ${todoItems.todoId} = ${todos.id})`,
+        sql`${todos.completed} <> ${allItemsChecked}`,
+      ),
+    );
+}
+
+function mapTodoItemFromDb(row: typeof todoItems.$inferSelect): TodoItem {
+  return {
+    id: row.id,
+    todoId: row.todoId,
+    title: row.title,
+    completed: row.completed,
+    position: row.position,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
@@ -0,0 +1,147 @@
+import type {
+  TodoLabel,
+  CreateTodoLabelInput,
+  UpdateTodoLabelInput,
+} from "../schemas/todo-label.schema";
+import { db, eq, and, asc, inArray, sql } from "@repo/database";
+import { todoLabels } from "@repo/database/schema/todo";
+
+export const todoLabelRepository = {
+  findAll: async (organizationId: string): Promise<TodoLabel[]> => {
+    const rows = await db
+      .select()
+      .from(todoLabels)
+      .where(eq(todoLabels.organizationId, organizationId))
+      .orderBy(asc(sql`lower(${todoLabels.name})`));
+
+    return rows.map(mapTodoLabelFromDb);
+  },
+
+  findById: async (
+    organizationId: string,
+    labelId: string,
+  ): Promise<TodoLabel | undefined> => {
+    const [row] = await db
+      .select()
+      .from(todoLabels)
+      .where(
+        and(
+          eq(todoLabels.id, labelId),
+          eq(todoLabels.organizationId, organizationId),
+        ),
+      )
+      .limit(1);
+
+    return row ? mapTodoLabelFromDb(row) : undefined;
+  },
+
+  findByName: async (
+    organizationId: string,
+    name: string,
+  ): Promise<TodoLabel | undefined> => {
+    const [row] = await db
+      .select()
+      .from(todoLabels)
+      .where(
+        and(
+          eq(todoLabels.organizationId, organizationId),
+          sql`lower(${todoLabels.name}) = lower(${name})`,
+        ),
+      )
+      .limit(1);
+
+    return row ? mapTodoLabelFromDb(row) : undefined;
+  },
+
+  /**
+   * Returns the subset of the given label ids that belong to the
+   * organization.
+   */
+  findExistingIds: async (
+    organizationId: string,
+    labelIds: string[],
+  ): Promise<string[]> => {
+    if (labelIds.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select({ id: todoLabels.id })
+      .from(todoLabels)
+      .where(
+        and(
+          eq(todoLabels.organizationId, organizationId),
+          inArray(todoLabels.id, labelIds),
+        ),
+      );
+
+    return rows.map((row) => row.id);
+  },
+
+  create: async (
+    organizationId: string,
+    createdByMemberId: string,
+    input: CreateTodoLabelInput,
+  ): Promise<TodoLabel> => {
+    const [row] = await db
+      .insert(todoLabels)
+      .values({
+        organizationId,
+        createdByMemberId,
+        name: input.name,
+        color: input.color,
+      })
+      .returning();
+
+    return mapTodoLabelFromDb(row);
+  },
+
+  update: async (
+    organizationId: string,
+    labelId: string,
+    input: UpdateTodoLabelInput,
+  ): Promise<TodoLabel | undefined> => {
+    const [row] = await db
+      .update(todoLabels)
+      .set({
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.color !== undefined ? { color: input.color } : {}),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(todoLabels.id, labelId),
+          eq(todoLabels.organizationId, organizationId),
+        ),
+      )
+      .returning();
+
+    return row ? mapTodoLabelFromDb(row) : undefined;
+  },
+
+  // Tags on todos go with the label through the foreign key cascade.
+  delete: async (organizationId: string, labelId: string): Promise<boolean> => {
+    const results = await db
+      .delete(todoLabels)
+      .where(
+        and(
+          eq(todoLabels.id, labelId),
+          eq(todoLabels.organizationId, organizationId),
+        ),
+      )
+      .returning({ id: todoLabels.id });
+
+    return results.length > 0;
+  },
+};
+
+function mapTodoLabelFromDb(row: typeof todoLabels.$inferSelect): TodoLabel {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    name: row.name,
+    color: row.color,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
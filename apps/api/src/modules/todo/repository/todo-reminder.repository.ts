@@ -0,0 +1,124 @@
+import {
+  db,
+  eq,
+  and,
+  asc,
+  gt,
+  lt,
+  isNull,
+  isNotNull,
+  sql,
+} from "@repo/database";
+import {
+  todos,
+  todoAssignees,
+  todoReminders,
+} from "@repo/database/schema/todo";
+
+export type DueTodoReminder = {
+  reminderId: string;
+  offsetMinutes: number;
+  todoId: string;
+  organizationId: string;
+  title: string;
+  dueDate: Date;
+  // Assignees, or the creator while nobody is assigned
+  recipientMemberIds: string[];
+};
+
+export type OverdueAssignment = {
+  memberId: string;
+  organizationId: string;
+  todoId: string;
+  title: string;
+  dueDate: Date;
+};
+
+const assigneeMemberIds = sql<string[]>`array(
+  select ${todoAssignees.memberId} from ${todoAssignees}
+  where ${todoAssignees.todoId} = ${todos.id}
+  order by ${todoAssignees.createdAt}
+)`;
+
+export const todoReminderRepository = {
+  /**
+   * Lists the reminders of open todos whose time has come and that were not
+   * sent for the current due date yet. Reminders whose todo is already due
+   * are skipped, since the overdue digest takes over from there.
+   */
+  findDue: async (now: Date): Promise<DueTodoReminder[]> => {
+    const rows = await db
+      .select({
+        reminderId: todoReminders.id,
+        offsetMinutes: todoReminders.offsetMinutes,
+        todoId: todos.id,
+        organizationId: todos.organizationId,
+        title: todos.title,
+        dueDate: todos.dueDate,
+        createdByMemberId: todos.createdByMemberId,
+        assigneeMemberIds,
+      })
+      .from(todoReminders)
+      .innerJoin(todos, eq(todos.id, todoReminders.todoId))
+      .where(
+        and(
+          isNull(todos.deletedAt),
+          eq(todos.completed, false),
+          isNotNull(todos.dueDate),
+          gt(todos.dueDate, now),
+          sql`${todos.dueDate} - ${todoReminders.offsetMinutes} * interval '1 minute' <= ${now.toISOString()}::timestamp`,
+          sql`${todoReminders.sentForDueDate} is distinct from ${todos.dueDate}`,
+        ),
+      )
+      .orderBy(asc(todos.dueDate));
+
+    return rows.map((row) => ({
+      reminderId: row.reminderId,
+      offsetMinutes: row.offsetMinutes,
+      todoId: row.todoId,
+      organizationId: row.organizationId,
+      title: row.title,
+      dueDate: row.dueDate as Date,
+      recipientMemberIds:
+        row.assigneeMemberIds.length > 0
+          ? row.assigneeMemberIds
+          : row.createdByMemberId
+            ? [row.createdByMemberId]
+            : [],
+    }));
+  },
+
+  markSent: async (reminderId: string, dueDate: Date): Promise<void> => {
+    await db
+      .update(todoReminders)
+      .set({ sentForDueDate: dueDate })
+      .where(eq(todoReminders.id, reminderId));
+  },
+
+  /**
+   * Lists every open todo past its due date once per assignee, ordered by
+   * assignee and due date.
+   */
+  findOverdueAssignments: async (now: Date): Promise<OverdueAssignment[]> => {
+    const rows = await db
+      .select({
+        memberId: todoAssignees.memberId,
+        organizationId: todos.organizationId,
+        todoId: todos.id,
+        title: todos.title,
+        dueDate: todos.dueDate,
+      })
+      .from(todoAssignees)
+      .innerJoin(todos, eq(todos.id, todoAssignees.todoId))
+      .where(
+        and(
+          isNull(todos.deletedAt),
+          eq(todos.completed, false),
+          lt(todos.dueDate, now),
+        ),
+      )
+      .orderBy(asc(todoAssignees.memberId), asc(todos.dueDate));
+
+    return rows.map((row) => ({ ...row, dueDate: row.dueDate as Date }));
+  },
+};
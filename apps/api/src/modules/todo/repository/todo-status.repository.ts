@@ -0,0 +1,353 @@
+import {
+  DEFAULT_TODO_STATUSES,
+  type TodoStatus,
+  type CreateTodoStatusInput,
+  type UpdateTodoStatusInput,
+} from "../schemas/todo-status.schema";
+import {
+  db,
+  eq,
+  and,
+  asc,
+  desc,
+  gt,
+  gte,
+  isNotNull,
+  isNull,
+  sql,
+} from "@repo/database";
+import { todos, todoStatuses } from "@repo/database/schema/todo";
+import { organization } from "@repo/database/schema/auth";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const todoStatusRepository = {
+  findAll: async (organizationId: string): Promise<TodoStatus[]> => {
+    const rows = await db
+      .select()
+      .from(todoStatuses)
+      .where(eq(todoStatuses.organizationId, organizationId))
+      .orderBy(asc(todoStatuses.position));
+
+    return rows.map(mapTodoStatusFromDb);
+  },
+
+  findById: async (
+    organizationId: string,
+    statusId: string,
+  ): Promise<TodoStatus | undefined> => {
+    const [row] = await db
+      .select()
+      .from(todoStatuses)
+      .where(
+        and(
+          eq(todoStatuses.id, statusId),
+          eq(todoStatuses.organizationId, organizationId),
+        ),
+      )
+      .limit(1);
+
+    return row ? mapTodoStatusFromDb(row) : undefined;
+  },
+
+  findByName: async (
+    organizationId: string,
+    name: string,
+  ): Promise<TodoStatus | undefined> => {
+    const [row] = await db
+      .select()
+      .from(todoStatuses)
+      .where(
+        and(
+          eq(todoStatuses.organizationId, organizationId),
+          sql`lower(${todoStatuses.name}) = lower(${name})`,
+        ),
+      )
+      .limit(1);
+
+    return row ? mapTodoStatusFromDb(row) : undefined;
+  },
+
+  count: async (organizationId: string): Promise<number> => {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(todoStatuses)
+      .where(eq(todoStatuses.organizationId, organizationId));
+
+    return count;
+  },
+
+  /**
+   * Counts the todos outside the trash that sit in the column.
+   */
+  countTodos: async (
+    organizationId: string,
+    statusId: string,
+  ): Promise<number> => {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(todos)
+      .where(
+        and(
+          eq(todos.organizationId, organizationId),
+          eq(todos.statusId, statusId),
+          isNull(todos.deletedAt),
+        ),
+      );
+
+    return count;
+  },
+
+  /**
+   * Creates the default columns for an organization that has none yet and
+   * files its existing todos into the first or, when completed, the last one.
+   */
+  createDefaults: async (organizationId: string): Promise<TodoStatus[]> => {
+    return db.transaction(async (tx) => {
+      await lockOrganization(tx, organizationId);
+
+      const existing = await tx
+        .select()
+        .from(todoStatuses)
+        .where(eq(todoStatuses.organizationId, organizationId))
+        .orderBy(asc(todoStatuses.position));
+      if (existing.length > 0) {
+        return existing.map(mapTodoStatusFromDb);
+      }
+
+      const rows = await tx
+        .insert(todoStatuses)
+        .values(
+          DEFAULT_TODO_STATUSES.map((status, position) => ({
+            organizationId,
+            name: status.name,
+            color: status.color,
+            position,
+          })),
+        )
+        .returning();
+      rows.sort((a, b) => a.position - b.position);
+
+      const first = rows[0];
+      const last = rows[rows.length - 1];
+      await tx.execute(sql`
+        update ${todos}
+        set status_id = case when ranked.completed then ${last.id}::uuid else ${first.id}::uuid end,
+            position = ranked.rank
+        from (
+          select id, completed,
+                 (row_number() over (partition by completed order by created_at) - 1)::int as rank
+          from ${todos}
+          where organization_id = ${organizationId} and status_id is null
+        ) as ranked
+        where ${todos.id} = ranked.id
+      `);
+
+      return rows.map(mapTodoStatusFromDb);
+    });
+  },
+
+  create: async (
+    organizationId: string,
+    input: CreateTodoStatusInput,
+  ): Promise<TodoStatus> => {
+    return db.transaction(async (tx) => {
+      await lockOrganization(tx, organizationId);
+
+      const [{ nextPosition }] = await tx
+        .select({
+          nextPosition: sql<number>`coalesce(max(${todoStatuses.position}) + 1, 0)::int`,
+        })
+        .from(todoStatuses)
+        .where(eq(todoStatuses.organizationId, organizationId));
+
+      // Without an explicit position the column goes in front of the done
+      // column, so adding a column never changes which todos count as done.
+      const position = Math.min(
+        input.position ?? Math.max(nextPosition - 1, 0),
+        nextPosition,
+      );
+      if (position < nextPosition) {
+        await tx
+          .update(todoStatuses)
+          .set({ position: sql`${todoStatuses.position} + 1` })
+          .where(
+            and(
+              eq(todoStatuses.organizationId, organizationId),
+              gte(todoStatuses.position, position),
+            ),
+          );
+      }
+
+      const [row] = await tx
+        .insert(todoStatuses)
+        .values({
+          organizationId,
+          name: input.name,
+          color: input.color ?? null,
+          position,
+        })
+        .returning();
+
+      await syncTodoCompletion(tx, organizationId);
+
+      return mapTodoStatusFromDb(row);
+    });
+  },
+
+  update: async (
+    organizationId: string,
+    statusId: string,
+    input: UpdateTodoStatusInput,
+  ): Promise<TodoStatus | undefined> => {
+    const [row] = await db
+      .update(todoStatuses)
+      .set({
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.color !== undefined ? { color: input.color } : {}),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(todoStatuses.id, statusId),
+          eq(todoStatuses.organizationId, organizationId),
+        ),
+      )
+      .returning();
+
+    return row ? mapTodoStatusFromDb(row) : undefined;
+  },
+
+  delete: async (
+    organizationId: string,
+    statusId: string,
+  ): Promise<boolean> => {
+    return db.transaction(async (tx) => {
+      await lockOrganization(tx, organizationId);
+
+      const [row] = await tx
+        .delete(todoStatuses)
+        .where(
+          and(
+            eq(todoStatuses.id, statusId),
+            eq(todoStatuses.organizationId, organizationId),
+          ),
+        )
+        .returning({ position: todoStatuses.position });
+
+      if (!row) {
+        return false;
+      }
+
+      // Keep positions contiguous so they always match the column index.
+      await tx
+        .update(todoStatuses)
+        .set({ position: sql`${todoStatuses.position} - 1` })
+        .where(
+          and(
+            eq(todoStatuses.organizationId, organizationId),
+            gt(todoStatuses.position, row.position),
+          ),
+        );
+
+      await syncTodoCompletion(tx, organizationId);
+
+      return true;
+    });
+  },
+
+  /**
+   * Rewrites column positions to follow the given order. The caller must pass
+   * every column of the organization exactly once.
+   */
+  reorder: async (
+    organizationId: string,
+    statusIds: string[],
+  ): Promise<TodoStatus[]> => {
+    return db.transaction(async (tx) => {
+      await lockOrganization(tx, organizationId);
+
+      for (const [position, statusId] of statusIds.entries()) {
+        await tx
+          .update(todoStatuses)
+          .set({ position, updatedAt: new Date() })
+          .where(
+            and(
+              eq(todoStatuses.id, statusId),
+              eq(todoStatuses.organizationId, organizationId),
+            ),
+          );
+      }
+
+      await syncTodoCompletion(tx, organizationId);
+
+      const rows = await tx
+        .select()
+        .from(todoStatuses)
+        .where(eq(todoStatuses.organizationId, organizationId))
+        .orderBy(asc(todoStatuses.position));
+
+      return rows.map(mapTodoStatusFromDb);
+    });
+  },
+};
+
+// Serializes column changes per organization so positions stay consistent.
+async function lockOrganization(
+  tx: Transaction,
+  organizationId: string,
+): Promise<void> {
+  await tx
+    .select({ id: organization.id })
+    .from(organization)
+    .where(eq(organization.id, organizationId))
+    .for("update");
+}
+
+/**
+ * Todos count as completed exactly when they sit in the last column. Called
+ * after the columns change, since that can change which column is last.
+ */
+async function syncTodoCompletion(
+  tx: Transaction,
+  organizationId: string,
+): Promise<void> {
+  const [last] = await tx
+    .select({ id: todoStatuses.id })
+    .from(todoStatuses)
+    .where(eq(todoStatuses.organizationId, organizationId))
+    .orderBy(desc(todoStatuses.position))
+    .limit(1);
+
+  if (!last) {
+    return;
+  }
+
+  await tx
+    .update(todos)
+    .set({
+      completed: sql`${todos.statusId} = ${last.id}`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(todos.organizationId, organizationId),
+        isNotNull(todos.statusId),
+        sql`${todos.completed} <> (${todos.statusId} = ${last.id})`,
+      ),
+    );
+}
+
+function mapTodoStatusFromDb(
+  row: typeof todoStatuses.$inferSelect,
+): TodoStatus {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    name: row.name,
+    color: row.color ?? undefined,
+    position: row.position,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
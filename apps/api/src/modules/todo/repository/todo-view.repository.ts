@@ -0,0 +1,140 @@
+import type {
+  TodoView,
+  CreateTodoViewInput,
+  UpdateTodoViewInput,
+} from "../schemas/todo-view.schema";
+import { db, eq, and, or, asc, sql } from "@repo/database";
+import { todoViews } from "@repo/database/schema/todo";
+
+export const todoViewRepository = {
+  /**
+   * Returns the views the member can recall: their own and the ones shared
+   * with the organization.
+   */
+  findVisible: async (
+    organizationId: string,
+    memberId: string,
+  ): Promise<TodoView[]> => {
+    const rows = await db
+      .select()
+      .from(todoViews)
+      .where(
+        and(
+          eq(todoViews.organizationId, organizationId),
+          or(
+            eq(todoViews.createdByMemberId, memberId),
+            eq(todoViews.isShared, true),
+          ),
+        ),
+      )
+      .orderBy(asc(sql`lower(${todoViews.name})`), asc(todoViews.id));
+
+    return rows.map(mapTodoViewFromDb);
+  },
+
+  findById: async (
+    organizationId: string,
+    viewId: string,
+  ): Promise<TodoView | undefined> => {
+    const [row] = await db
+      .select()
+      .from(todoViews)
+      .where(
+        and(
+          eq(todoViews.id, viewId),
+          eq(todoViews.organizationId, organizationId),
+        ),
+      )
+      .limit(1);
+
+    return row ? mapTodoViewFromDb(row) : undefined;
+  },
+
+  findByName: async (
+    memberId: string,
+    name: string,
+  ): Promise<TodoView | undefined> => {
+    const [row] = await db
+      .select()
+      .from(todoViews)
+      .where(
+        and(
+          eq(todoViews.createdByMemberId, memberId),
+          eq(todoViews.name, name),
+        ),
+      )
+      .limit(1);
+
+    return row ? mapTodoViewFromDb(row) : undefined;
+  },
+
+  create: async (
+    organizationId: string,
+    createdByMemberId: string,
+    input: CreateTodoViewInput,
+  ): Promise<TodoView> => {
+    const [row] = await db
+      .insert(todoViews)
+      .values({
+        organizationId,
+        createdByMemberId,
+        name: input.name,
+        filters: input.filters,
+        isShared: input.isShared ?? false,
+      })
+      .returning();
+
+    return mapTodoViewFromDb(row);
+  },
+
+  update: async (
+    organizationId: string,
+    viewId: string,
+    input: UpdateTodoViewInput,
+  ): Promise<TodoView | undefined> => {
+    const [row] = await db
+      .update(todoViews)
+      .set({
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.filters !== undefined ? { filters: input.filters } : {}),
+        ...(input.isShared !== undefined ? { isShared: input.isShared } : {}),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(todoViews.id, viewId),
+          eq(todoViews.organizationId, organizationId),
+        ),
+      )
+      .returning();
+
+    return row ? mapTodoViewFromDb(row) : undefined;
+  },
+
+  delete: async (organizationId: string, viewId: string): Promise<boolean> => {
+    const results = await db
+      .delete(todoViews)
+      .where(
+        and(
+          eq(todoViews.id, viewId),
+          eq(todoViews.organizationId, organizationId),
+        ),
+      )
+      .returning({ id: todoViews.id });
+
+    return results.length > 0;
+  },
+};
+
+function mapTodoViewFromDb(row: typeof todoViews.$inferSelect): TodoView {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    createdByMemberId: row.createdByMemberId,
+    name: row.name,
+    filters: row.filters,
+    isShared: row.isShared,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
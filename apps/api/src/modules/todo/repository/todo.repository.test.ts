@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import { readdirSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+const client = await vi.hoisted(async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  return new PGlite();
+});
+
+vi.mock("@repo/database", async () => {
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const operators = await import("drizzle-orm");
+  return { ...operators, db: drizzle(client) };
+});
+
+import { db, eq, and, asc, isNull } from "@repo/database";
+import { organization } from "@repo/database/schema/auth";
+import { todos, todoStatuses } from "@repo/database/schema/todo";
+import { todoRepository } from "./todo.repository";
+
+const migrationsDir = resolve(
+  __dirname,
+  "../../../../../../packages/database/drizzle",
+);
+
+describe("todoRepository board positions", () => {
+  let organizationId: string;
+  let todoColumnId: string;
+  let doneColumnId: string;
+
+  const columnOrder = async (statusId: string) => {
+    const rows = await db
+      .select({ title: todos.title, position: todos.position })
+      .from(todos)
+      .where(and(eq(todos.statusId, statusId), isNull(todos.deletedAt)))
+      .orderBy(asc(todos.position));
+    return rows.map((row) => [row.title, row.position]);
+  };
+
+  beforeAll(async () => {
+    const migrations = readdirSync(migrationsDir)
+      .filter((file) => file.endsWith(".sql"))
+      .sort();
+    for (const file of migrations) {
+      const statements = readFileSync(resolve(migrationsDir, file), "utf8")
+        .split("--> statement-breakpoint")
+        .filter((statement) => statement.trim());
+      for (const statement of statements) {
+        await client.exec(statement);
+      }
+    }
+  }, 60_000);
+
+  beforeEach(async () => {
+    await db.delete(organization);
+    [{ id: organizationId }] = await db
+      .insert(organization)
+      .values({
+        name: "Springfield",
+        slug: "springfield",
+        organizationType: "school",
+        createdAt: new Date(),
+      })
+      .returning({ id: organization.id });
+    [{ id: todoColumnId }, { id: doneColumnId }] = await db
+      .insert(todoStatuses)
+      .values([
+        { organizationId, name: "To do", position: 0 },
+        { organizationId, name: "Done", position: 1 },
+      ])
+      .returning({ id: todoStatuses.id });
+    await db.insert(todos).values(
+      ["Groceries", "Laundry", "Homework"].map((title, position) => ({
+        organizationId,
+        title,
+        statusId: todoColumnId,
+        position,
+      })),
+    );
+  });
+
+  const todoId = async (title: string) => {
+    const [row] = await db
+      .select({ id: todos.id })
+      .from(todos)
+      .where(eq(todos.title, title));
+    return row.id;
+  };
+
+  it("should close the gap in the source column, when a todo is completed through update", async () => {
+    await todoRepository.update(organizationId, await todoId("Groceries"), {
+      completed: true,
+    });
+    await todoRepository.move(
+      organizationId,
+      await todoId("Homework"),
+      todoColumnId,
+      0,
+      false,
+    );
+
+    expect(await columnOrder(todoColumnId)).toEqual([
+      ["Homework", 0],
+      ["Laundry", 1],
+    ]);
+    expect(await columnOrder(doneColumnId)).toEqual([["Groceries", 0]]);
+  });
+
+  it("should close the gaps in the source column, when several todos are completed in bulk", async () => {
+    await todoRepository.bulkApply(
+      organizationId,
+      [await todoId("Homework"), await todoId("Groceries")],
+      { operation: "complete" },
+    );
+
+    expect(await columnOrder(todoColumnId)).toEqual([["Laundry", 0]]);
+    expect(await columnOrder(doneColumnId)).toEqual([
+      ["Groceries", 0],
+      ["Homework", 1],
+    ]);
+  });
+
+  it("should read the todos in id order, when they are locked for update", async () => {
+    const ids = [await todoId("Homework"), await todoId("Groceries")];
+
+    const locked = await db.transaction((tx) =>
+      todoRepository.findByIdsForUpdate(tx, organizationId, ids),
+    );
+
+    expect(locked.map((todo) => todo.id)).toEqual([...ids].sort());
+    expect(locked.map((todo) => todo.labelIds)).toEqual([[], []]);
+  });
+
+  it("should close the gap in the column, when a todo is deleted", async () => {
+    await todoRepository.delete(organizationId, await todoId("Groceries"));
+
+    expect(await columnOrder(todoColumnId)).toEqual([
+      ["Laundry", 0],
+      ["Homework", 1],
+    ]);
+  });
+
+  it("should close the gaps in the column, when several todos are deleted in bulk", async () => {
+    await todoRepository.bulkApply(
+      organizationId,
+      [await todoId("Groceries"), await todoId("Homework")],
+      { operation: "delete" },
+    );
+
+    expect(await columnOrder(todoColumnId)).toEqual([["Laundry", 0]]);
+  });
+
+  it("should append the todo to its column, when it is restored after its position was reused", async () => {
+    const groceriesId = await todoId("Groceries");
+    await todoRepository.delete(organizationId, groceriesId);
+    await db.insert(todos).values({
+      organizationId,
+      title: "Dishes",
+      statusId: todoColumnId,
+      position: 2,
+    });
+
+    await todoRepository.restore(organizationId, groceriesId);
+
+    expect(await columnOrder(todoColumnId)).toEqual([
+      ["Laundry", 0],
+      ["Homework", 1],
+      ["Dishes", 2],
+      ["Groceries", 3],
+    ]);
+  });
+
+  it("should append the todo to the first column, when its column was deleted", async () => {
+    const groceriesId = await todoId("Groceries");
+    await todoRepository.move(
+      organizationId,
+      groceriesId,
+      doneColumnId,
+      undefined,
+      false,
+    );
+    await todoRepository.delete(organizationId, groceriesId);
+    await db.delete(todoStatuses).where(eq(todoStatuses.id, doneColumnId));
+    await db
+      .insert(todoStatuses)
+      .values({ organizationId, name: "Done", position: 1 });
+
+    await todoRepository.restore(organizationId, groceriesId);
+
+    expect(await columnOrder(todoColumnId)).toEqual([
+      ["Laundry", 0],
+      ["Homework", 1],
+      ["Groceries", 2],
+    ]);
+  });
+});
@@ -1,10 +1,52 @@
 import type {
   Todo,
+  TodoPage,
+  TodoSeries,
+  TodoSeriesTemplate,
   CreateTodoInput,
   UpdateTodoInput,
+  ListTodosQuery,
+  LabelMatch,
+  BulkTodoInput,
 } from "../schemas/todo.schema";
-import { db, eq, desc, sql } from "@repo/database";
-import { todos } from "@repo/database/schema/todo";
+import {
+  encodeTodoCursor,
+  type TodoCursor,
+  type TodoSortField,
+  type SortOrder,
+} from "../utils/todo-cursor";
+import {
+  db,
+  eq,
+  and,
+  or,
+  asc,
+  desc,
+  sql,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  type SQL,
+} from "@repo/database";
+import {
+  todos,
+  todoSeries,
+  todoItems,
+  todoAssignees,
+  todoWatchers,
+  todoTags,
+  todoStatuses,
+  todoReminders,
+} from "@repo/database/schema/todo";
+import { member } from "@repo/database/schema/auth";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type ColumnPlacement = { statusId: string | null; position: number };
 
 // Utility to remove undefined keys but preserve null/false/0
 // This replaces lodash.pickBy(obj, identity) which incorrectly removes falsy values
@@ -18,102 +60,1363 @@ const cleanObject = (obj: Record<string, unknown>) => {
   return newObj;
 };
 
+// The rule is only reported while the series is still generating occurrences.
+const activeRecurrenceRule = sql<
+  string | null
+>`case when ${todoSeries.stoppedAt} is null then ${todoSeries.recurrenceRule} end`;
+
+// The correlated subqueries below must only be used in joined selects: drizzle
+// drops table qualifiers from single-table selects, which would bind the
+// correlated columns to the inner table.
+const checklistProgress = sql<number | null>`(
+  select round(100.0 * count(*) filter (where ${todoItems.completed}) / nullif(count(*), 0))::int
+  from ${todoItems}
+  where ${todoItems.todoId} = ${todos.id}
+)`;
+
+const assigneeMemberIds = sql<string[]>`array(
+  select ${todoAssignees.memberId} from ${todoAssignees}
+  where ${todoAssignees.todoId} = ${todos.id}
+  order by ${todoAssignees.createdAt}
+)`;
+
+const watcherMemberIds = sql<string[]>`array(
+  select ${todoWatchers.memberId} from ${todoWatchers}
+  where ${todoWatchers.todoId} = ${todos.id}
+  order by ${todoWatchers.createdAt}
+)`;
+
+const labelIds = sql<string[]>`array(
+  select ${todoTags.labelId} from ${todoTags}
+  where ${todoTags.todoId} = ${todos.id}
+  order by ${todoTags.createdAt}
+)`;
+
+const reminderOffsets = sql<number[]>`array(
+  select ${todoReminders.offsetMinutes} from ${todoReminders}
+  where ${todoReminders.todoId} = ${todos.id}
+  order by ${todoReminders.offsetMinutes}
+)`;
+
+const todoColumns = {
+  todo: todos,
+  recurrenceRule: activeRecurrenceRule,
+  progress: checklistProgress,
+  assigneeMemberIds,
+  watcherMemberIds,
+  labelIds,
+  reminderOffsets,
+};
+
+export type NextOccurrence = { series: TodoSeries; dueDate: Date };
+
+type TodoRow = {
+  todo: typeof todos.$inferSelect;
+  recurrenceRule?: string | null;
+  progress?: number | null;
+  assigneeMemberIds?: string[];
+  watcherMemberIds?: string[];
+  labelIds?: string[];
+  reminderOffsets?: number[];
+};
+
 export const todoRepository = {
-  findAll: async (filters?: {
-    completed?: boolean;
-    priority?: string;
-  }): Promise<Todo[]> => {
-    const query = db.select().from(todos).orderBy(desc(todos.createdAt));
+  findAll: async (
+    organizationId: string,
+    query: ListTodosQuery,
+  ): Promise<TodoPage> => {
+    const { limit, sortBy, sortOrder } = query;
+
+    const conditions = [
+      eq(todos.organizationId, organizationId),
+      isNull(todos.deletedAt),
+    ];
+
+    if (query.completed !== undefined) {
+      conditions.push(eq(todos.completed, query.completed));
+    }
+
+    if (query.priority) {
+      conditions.push(eq(todos.priority, query.priority));
+    }
+
+    if (query.statusId) {
+      conditions.push(eq(todos.statusId, query.statusId));
+    }
+
+    if (query.assigneeMemberId) {
+      conditions.push(
+        inArray(
+          todos.id,
+          db
+            .select({ todoId: todoAssignees.todoId })
+            .from(todoAssignees)
+            .where(eq(todoAssignees.memberId, query.assigneeMemberId)),
+        ),
+      );
+    }
+
+    if (query.labelIds) {
+      conditions.push(labelCondition(query.labelIds, query.labelMatch));
+    }
+
+    if (query.dueFrom) {
+      conditions.push(gte(todos.dueDate, query.dueFrom));
+    }
 
-    if (filters?.completed !== undefined) {
-      query.where(eq(todos.completed, filters.completed));
+    if (query.dueTo) {
+      conditions.push(lte(todos.dueDate, query.dueTo));
     }
 
-    if (filters?.priority) {
-      query.where(
-        eq(todos.priority, filters.priority as "low" | "medium" | "high"),
+    if (query.search) {
+      // Matches the start of the title only. title_idx indexes lower(title)
+      // with text_pattern_ops, so it serves a prefix like under any database
+      // collation but cannot serve a match further into the title.
+      conditions.push(
+        sql`lower(${todos.title}) like ${escapeLikePattern(query.search.toLowerCase()) + "%"}`,
       );
     }
 
-    const results = await query;
-    return results.map(mapTodoFromDb);
+    const sortKey = todoSortKey(sortBy, sortOrder);
+    const pageConditions = query.cursor
+      ? [...conditions, cursorCondition(sortKey, sortOrder, query.cursor)]
+      : conditions;
+    const direction = sortOrder === "asc" ? asc : desc;
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({
+          ...todoColumns,
+          sortValue: sql<string>`(${sortKey.expression})::text`,
+        })
+        .from(todos)
+        .leftJoin(todoSeries, eq(todos.seriesId, todoSeries.id))
+        .where(and(...pageConditions))
+        .orderBy(direction(sortKey.expression), direction(todos.id))
+        .limit(limit + 1),
+      db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(todos)
+        .where(and(...conditions)),
+    ]);
+
+    const pageRows = rows.slice(0, limit);
+    const lastRow = pageRows[pageRows.length - 1];
+    const nextCursor =
+      rows.length > limit && lastRow
+        ? encodeTodoCursor({
+            sortBy,
+            sortOrder,
+            value: lastRow.sortValue,
+            id: lastRow.todo.id,
+          })
+        : null;
+
+    return {
+      data: pageRows.map((row) => mapTodoFromDb(row)),
+      nextCursor,
+      total,
+    };
+  },
+
+  findById: async (
+    organizationId: string,
+    id: string,
+    tx: Transaction | typeof db = db,
+  ): Promise<Todo | undefined> => {
+    const results = await tx
+      .select(todoColumns)
+      .from(todos)
+      .leftJoin(todoSeries, eq(todos.seriesId, todoSeries.id))
+      .where(
+        and(
+          eq(todos.id, id),
+          eq(todos.organizationId, organizationId),
+          isNull(todos.deletedAt),
+        ),
+      )
+      .limit(1);
+
+    return results.length > 0 ? mapTodoFromDb(results[0]) : undefined;
   },
 
-  findById: async (id: string): Promise<Todo | undefined> => {
+  /**
+   * Lists the organization's trash, most recently deleted first.
+   */
+  findDeleted: async (organizationId: string): Promise<Todo[]> => {
+    const rows = await db
+      .select(todoColumns)
+      .from(todos)
+      .leftJoin(todoSeries, eq(todos.seriesId, todoSeries.id))
+      .where(
+        and(
+          eq(todos.organizationId, organizationId),
+          isNotNull(todos.deletedAt),
+        ),
+      )
+      .orderBy(desc(todos.deletedAt), desc(todos.id));
+
+    return rows.map((row) => mapTodoFromDb(row));
+  },
+
+  findDeletedById: async (
+    organizationId: string,
+    id: string,
+  ): Promise<Todo | undefined> => {
     const results = await db
-      .select()
+      .select(todoColumns)
       .from(todos)
-      .where(eq(todos.id, id))
+      .leftJoin(todoSeries, eq(todos.seriesId, todoSeries.id))
+      .where(
+        and(
+          eq(todos.id, id),
+          eq(todos.organizationId, organizationId),
+          isNotNull(todos.deletedAt),
+        ),
+      )
       .limit(1);
 
     return results.length > 0 ? mapTodoFromDb(results[0]) : undefined;
   },
 
-  findByTitle: async (title: string): Promise<Todo | undefined> => {
+  findByIds: async (
+    organizationId: string,
+    ids: string[],
+    tx: Transaction | typeof db = db,
+  ): Promise<Todo[]> => {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const rows = await tx
+      .select(todoColumns)
+      .from(todos)
+      .leftJoin(todoSeries, eq(todos.seriesId, todoSeries.id))
+      .where(
+        and(
+          inArray(todos.id, ids),
+          eq(todos.organizationId, organizationId),
+          isNull(todos.deletedAt),
+        ),
+      );
+
+    return rows.map((row) => mapTodoFromDb(row));
+  },
+
+  /**
+   * Reads the given todos and locks them until the transaction ends, so a
+   * concurrent write waits and then sees their new state. Rows are locked in
+   * id order so two overlapping calls cannot deadlock.
+   */
+  findByIdsForUpdate: async (
+    tx: Transaction,
+    organizationId: string,
+    ids: string[],
+  ): Promise<Todo[]> => {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const rows = await tx
+      .select(todoColumns)
+      .from(todos)
+      .leftJoin(todoSeries, eq(todos.seriesId, todoSeries.id))
+      .where(
+        and(
+          inArray(todos.id, ids),
+          eq(todos.organizationId, organizationId),
+          isNull(todos.deletedAt),
+        ),
+      )
+      .orderBy(asc(todos.id))
+      .for("update", { of: todos });
+
+    return rows.map((row) => mapTodoFromDb(row));
+  },
+
+  findByTitle: async (
+    organizationId: string,
+    title: string,
+    excludeSeriesId?: string,
+  ): Promise<Todo | undefined> => {
+    const conditions = [
+      eq(todos.organizationId, organizationId),
+      sql`LOWER(${todos.title}) = LOWER(${title})`,
+      isNull(todos.deletedAt),
+    ];
+
+    // Occurrences of one series deliberately share their title.
+    if (excludeSeriesId) {
+      conditions.push(
+        sql`${todos.seriesId} is distinct from ${excludeSeriesId}`,
+      );
+    }
+
     const results = await db
       .select()
       .from(todos)
-      .where(sql`LOWER(${todos.title}) = LOWER(${title})`)
+      .where(and(...conditions))
       .limit(1);
 
-    return results.length > 0 ? mapTodoFromDb(results[0]) : undefined;
+    return results.length > 0 ? mapTodoFromDb({ todo: results[0] }) : undefined;
   },
 
-  create: async (input: CreateTodoInput): Promise<Todo> => {
-    const [result] = await db
-      .insert(todos)
-      .values({
-        title: input.title,
-        description: input.description ?? null,
-        priority: input.priority ?? "medium",
-        dueDate: input.dueDate ?? null,
-      })
-      .returning();
+  create: async (
+    organizationId: string,
+    createdByMemberId: string,
+    input: CreateTodoInput,
+  ): Promise<Todo> => {
+    return db.transaction(async (tx) => {
+      let seriesId: string | null = null;
+
+      if (input.recurrenceRule && input.dueDate) {
+        const [series] = await tx
+          .insert(todoSeries)
+          .values({
+            organizationId,
+            createdByMemberId,
+            title: input.title,
+            description: input.description ?? null,
+            priority: input.priority ?? "medium",
+            recurrenceRule: input.recurrenceRule,
+            startsAt: input.dueDate,
+          })
+          .returning({ id: todoSeries.id });
+        seriesId = series.id;
+      }
+
+      const [result] = await tx
+        .insert(todos)
+        .values({
+          organizationId,
+          createdByMemberId,
+          seriesId,
+          ...(await firstColumnPlacement(tx, organizationId)),
+          title: input.title,
+          description: input.description ?? null,
+          priority: input.priority ?? "medium",
+          dueDate: input.dueDate ?? null,
+          autoCompleteFromItems: input.autoCompleteFromItems ?? false,
+        })
+        .returning();
 
-    return mapTodoFromDb(result);
+      await replaceAssignees(
+        tx,
+        result.id,
+        input.assigneeMemberIds ?? [],
+        createdByMemberId,
+      );
+      await replaceWatchers(tx, result.id, input.watcherMemberIds ?? []);
+      await replaceTags(tx, result.id, input.labelIds ?? []);
+      await replaceReminders(tx, result.id, input.reminderOffsets ?? []);
+
+      return mapTodoFromDb({
+        todo: result,
+        recurrenceRule: seriesId ? input.recurrenceRule : null,
+        assigneeMemberIds: input.assigneeMemberIds,
+        watcherMemberIds: input.watcherMemberIds,
+        labelIds: input.labelIds,
+        reminderOffsets: input.reminderOffsets,
+      });
+    });
   },
 
   update: async (
+    organizationId: string,
     id: string,
     input: UpdateTodoInput,
+    updatedByMemberId?: string,
+    expectedUpdatedAt?: Date,
+    tx: Transaction | typeof db = db,
   ): Promise<Todo | undefined> => {
+    // The recurrence rule lives on the series, see updateSeries/startSeries.
     const updateData = {
-      ...cleanObject(input as unknown as Record<string, unknown>),
+      ...cleanObject({
+        ...input,
+        recurrenceRule: undefined,
+        assigneeMemberIds: undefined,
+        watcherMemberIds: undefined,
+        labelIds: undefined,
+        reminderOffsets: undefined,
+      }),
       updatedAt: new Date(),
     };
 
+    const isUpdated = await tx.transaction(async (tx) => {
+      const results = await tx
+        .update(todos)
+        .set(updateData)
+        .where(
+          and(
+            eq(todos.id, id),
+            eq(todos.organizationId, organizationId),
+            unchangedSince(expectedUpdatedAt),
+          ),
+        )
+        .returning({ id: todos.id });
+
+      if (results.length === 0) {
+        return false;
+      }
+
+      if (input.assigneeMemberIds) {
+        await replaceAssignees(
+          tx,
+          id,
+          input.assigneeMemberIds,
+          updatedByMemberId ?? null,
+        );
+      }
+      if (input.watcherMemberIds) {
+        await replaceWatchers(tx, id, input.watcherMemberIds);
+      }
+      if (input.labelIds) {
+        await replaceTags(tx, id, input.labelIds);
+      }
+      if (input.reminderOffsets) {
+        await replaceReminders(tx, id, input.reminderOffsets);
+      }
+      if (input.completed !== undefined) {
+        await refileByCompletion(tx, organizationId, [id]);
+      }
+
+      return true;
+    });
+
+    return isUpdated
+      ? todoRepository.findById(organizationId, id, tx)
+      : undefined;
+  },
+
+  /**
+   * Returns the subset of the given member ids that belong to the
+   * organization.
+   */
+  findOrganizationMemberIds: async (
+    organizationId: string,
+    memberIds: string[],
+  ): Promise<string[]> => {
+    if (memberIds.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select({ id: member.id })
+      .from(member)
+      .where(
+        and(
+          eq(member.organizationId, organizationId),
+          inArray(member.id, memberIds),
+        ),
+      );
+
+    return rows.map((row) => row.id);
+  },
+
+  addWatcher: async (todoId: string, memberId: string): Promise<void> => {
+    await db
+      .insert(todoWatchers)
+      .values({ todoId, memberId })
+      .onConflictDoNothing();
+  },
+
+  removeWatcher: async (todoId: string, memberId: string): Promise<boolean> => {
+    const results = await db
+      .delete(todoWatchers)
+      .where(
+        and(
+          eq(todoWatchers.todoId, todoId),
+          eq(todoWatchers.memberId, memberId),
+        ),
+      )
+      .returning({ id: todoWatchers.id });
+
+    return results.length > 0;
+  },
+
+  findSeries: async (
+    organizationId: string,
+    seriesId: string,
+    tx: Transaction | typeof db = db,
+  ): Promise<TodoSeries | undefined> => {
+    const results = await tx
+      .select()
+      .from(todoSeries)
+      .where(
+        and(
+          eq(todoSeries.id, seriesId),
+          eq(todoSeries.organizationId, organizationId),
+        ),
+      )
+      .limit(1);
+
+    return results.length > 0 ? mapTodoSeriesFromDb(results[0]) : undefined;
+  },
+
+  /**
+   * Turns an existing todo into the first occurrence of a new series whose
+   * later occurrences are created from the given template.
+   */
+  startSeries: async (
+    organizationId: string,
+    createdByMemberId: string,
+    todoId: string,
+    template: TodoSeriesTemplate,
+    recurrenceRule: string,
+    startsAt: Date,
+    tx: Transaction | typeof db = db,
+  ): Promise<void> => {
+    await tx.transaction(async (tx) => {
+      const [series] = await tx
+        .insert(todoSeries)
+        .values({
+          organizationId,
+          createdByMemberId,
+          title: template.title,
+          description: template.description ?? null,
+          priority: template.priority,
+          recurrenceRule,
+          startsAt,
+        })
+        .returning({ id: todoSeries.id });
+
+      await tx
+        .update(todos)
+        .set({ seriesId: series.id, updatedAt: new Date() })
+        .where(
+          and(eq(todos.id, todoId), eq(todos.organizationId, organizationId)),
+        );
+    });
+  },
+
+  updateSeries: async (
+    organizationId: string,
+    seriesId: string,
+    changes: Partial<TodoSeriesTemplate> & {
+      recurrenceRule?: string;
+      startsAt?: Date;
+    },
+    tx: Transaction | typeof db = db,
+  ): Promise<void> => {
+    await tx
+      .update(todoSeries)
+      .set({
+        ...cleanObject(changes),
+        // A new rule resumes a series that was stopped earlier.
+        ...(changes.recurrenceRule ? { stoppedAt: null } : {}),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(todoSeries.id, seriesId),
+          eq(todoSeries.organizationId, organizationId),
+        ),
+      );
+  },
+
+  stopSeries: async (
+    organizationId: string,
+    seriesId: string,
+    tx: Transaction | typeof db = db,
+  ): Promise<void> => {
+    await tx
+      .update(todoSeries)
+      .set({ stoppedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(todoSeries.id, seriesId),
+          eq(todoSeries.organizationId, organizationId),
+          isNull(todoSeries.stoppedAt),
+        ),
+      );
+  },
+
+  /**
+   * Applies template changes to the open occurrences of a series that are due
+   * after the given date.
+   */
+  updateFutureOccurrences: async (
+    organizationId: string,
+    seriesId: string,
+    after: Date,
+    changes: Partial<TodoSeriesTemplate>,
+  ): Promise<number> => {
+    const fields = cleanObject(changes);
+    if (Object.keys(fields).length === 0) {
+      return 0;
+    }
+
     const results = await db
       .update(todos)
-      .set(updateData)
-      .where(eq(todos.id, id))
-      .returning();
+      .set({ ...fields, updatedAt: new Date() })
+      .where(
+        and(
+          eq(todos.organizationId, organizationId),
+          eq(todos.seriesId, seriesId),
+          eq(todos.completed, false),
+          isNull(todos.deletedAt),
+          gt(todos.dueDate, after),
+        ),
+      )
+      .returning({ id: todos.id });
 
-    return results.length > 0 ? mapTodoFromDb(results[0]) : undefined;
+    return results.length;
+  },
+
+  /**
+   * Marks an occurrence completed and, when a next due date is given, inserts
+   * the following occurrence from the series template in the same
+   * transaction.
+   */
+  completeOccurrence: async (
+    organizationId: string,
+    id: string,
+    next?: NextOccurrence,
+    expectedUpdatedAt?: Date,
+  ): Promise<Todo | undefined> => {
+    const completedId = await db.transaction(async (tx) => {
+      const results = await tx
+        .update(todos)
+        .set({ completed: true, updatedAt: new Date() })
+        .where(
+          and(
+            eq(todos.id, id),
+            eq(todos.organizationId, organizationId),
+            unchangedSince(expectedUpdatedAt),
+          ),
+        )
+        .returning({
+          id: todos.id,
+          createdByMemberId: todos.createdByMemberId,
+        });
+
+      if (results.length === 0 || !next) {
+        return results[0]?.id;
+      }
+
+      await insertNextOccurrence(
+        tx,
+        organizationId,
+        id,
+        results[0].createdByMemberId,
+        next,
+      );
+
+      return results[0].id;
+    });
+
+    return completedId
+      ? todoRepository.findById(organizationId, completedId)
+      : undefined;
+  },
+
+  /**
+   * Moves a todo into a status column, before the todo currently at the given
+   * position or at the end when none is given, and closes the gap it leaves
+   * behind. Status, position and completion change in one transaction.
+   */
+  move: async (
+    organizationId: string,
+    id: string,
+    statusId: string,
+    position: number | undefined,
+    completed: boolean,
+    expectedUpdatedAt?: Date,
+  ): Promise<Todo | undefined> => {
+    const isMoved = await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ statusId: todos.statusId, position: todos.position })
+        .from(todos)
+        .where(
+          and(
+            eq(todos.id, id),
+            eq(todos.organizationId, organizationId),
+            isNull(todos.deletedAt),
+            unchangedSince(expectedUpdatedAt),
+          ),
+        )
+        .for("update");
+
+      if (!current) {
+        return false;
+      }
+
+      // Serializes moves per column so positions stay consistent.
+      await tx
+        .select({ id: todoStatuses.id })
+        .from(todoStatuses)
+        .where(
+          inArray(
+            todoStatuses.id,
+            current.statusId ? [current.statusId, statusId] : [statusId],
+          ),
+        )
+        .orderBy(asc(todoStatuses.id))
+        .for("update");
+
+      if (current.statusId) {
+        await tx
+          .update(todos)
+          .set({ position: sql`${todos.position} - 1` })
+          .where(
+            and(
+              eq(todos.statusId, current.statusId),
+              gt(todos.position, current.position),
+              isNull(todos.deletedAt),
+            ),
+          );
+      }
+
+      const endPosition = await nextColumnPosition(tx, statusId, id);
+      const targetPosition = Math.min(position ?? endPosition, endPosition);
+
+      await tx
+        .update(todos)
+        .set({ position: sql`${todos.position} + 1` })
+        .where(
+          and(
+            eq(todos.statusId, statusId),
+            gte(todos.position, targetPosition),
+            isNull(todos.deletedAt),
+            sql`${todos.id} <> ${id}`,
+          ),
+        );
+
+      await tx
+        .update(todos)
+        .set({
+          statusId,
+          position: targetPosition,
+          completed,
+          updatedAt: new Date(),
+        })
+        .where(eq(todos.id, id));
+
+      return true;
+    });
+
+    return isMoved ? todoRepository.findById(organizationId, id) : undefined;
+  },
+
+  /**
+   * Applies one bulk operation to the given todos in a single transaction.
+   * Completing an occurrence with an entry in nextOccurrences also schedules
+   * the one after it.
+   */
+  bulkApply: async (
+    organizationId: string,
+    ids: string[],
+    input: Omit<BulkTodoInput, "ids">,
+    nextOccurrences: Map<string, NextOccurrence> = new Map(),
+    tx: Transaction | typeof db = db,
+  ): Promise<void> => {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await tx.transaction(async (tx) => {
+      const condition = and(
+        inArray(todos.id, ids),
+        eq(todos.organizationId, organizationId),
+        isNull(todos.deletedAt),
+      );
+
+      switch (input.operation) {
+        case "complete":
+        case "uncomplete": {
+          const results = await tx
+            .update(todos)
+            .set({
+              completed: input.operation === "complete",
+              updatedAt: new Date(),
+            })
+            .where(condition)
+            .returning({
+              id: todos.id,
+              createdByMemberId: todos.createdByMemberId,
+            });
+
+          await refileByCompletion(
+            tx,
+            organizationId,
+            results.map((result) => result.id),
+          );
+
+          for (const result of results) {
+            const next = nextOccurrences.get(result.id);
+            if (next) {
+              await insertNextOccurrence(
+                tx,
+                organizationId,
+                result.id,
+                result.createdByMemberId,
+                next,
+              );
+            }
+          }
+          break;
+        }
+        case "setPriority":
+          await tx
+            .update(todos)
+            .set({ priority: input.priority, updatedAt: new Date() })
+            .where(condition);
+          break;
+        case "setDueDate":
+          await tx
+            .update(todos)
+            .set({ dueDate: input.dueDate ?? null, updatedAt: new Date() })
+            .where(condition);
+          break;
+        case "delete": {
+          const deleted = await tx
+            .update(todos)
+            .set({ deletedAt: new Date(), updatedAt: new Date() })
+            .where(condition)
+            .returning({ statusId: todos.statusId, position: todos.position });
+          await closeColumnGaps(tx, deleted);
+          break;
+        }
+        case "addLabel":
+          if (input.labelId) {
+            const labelId = input.labelId;
+            const tagged = await tx
+              .update(todos)
+              .set({ updatedAt: new Date() })
+              .where(condition)
+              .returning({ id: todos.id });
+            if (tagged.length > 0) {
+              await tx
+                .insert(todoTags)
+                .values(tagged.map((todo) => ({ todoId: todo.id, labelId })))
+                .onConflictDoNothing();
+            }
+          }
+          break;
+      }
+    });
+  },
+
+  /**
+   * Moves a todo to the trash. It is removed for good by purgeDeleted once
+   * the retention period has passed.
+   */
+  delete: async (organizationId: string, id: string): Promise<boolean> => {
+    return db.transaction(async (tx) => {
+      const deleted = await tx
+        .update(todos)
+        .set({ deletedAt: new Date(), updatedAt: new Date() })
+        .where(
+          and(
+            eq(todos.id, id),
+            eq(todos.organizationId, organizationId),
+            isNull(todos.deletedAt),
+          ),
+        )
+        .returning({ statusId: todos.statusId, position: todos.position });
+
+      await closeColumnGaps(tx, deleted);
+      return deleted.length > 0;
+    });
+  },
+
+  /**
+   * Brings a todo back from the trash at the end of its column, or of the
+   * first column when its column was deleted meanwhile.
+   */
+  restore: async (
+    organizationId: string,
+    id: string,
+  ): Promise<Todo | undefined> => {
+    const isRestored = await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .select({ statusId: todos.statusId })
+        .from(todos)
+        .where(
+          and(
+            eq(todos.id, id),
+            eq(todos.organizationId, organizationId),
+            isNotNull(todos.deletedAt),
+          ),
+        )
+        .for("update");
+
+      if (!deleted) {
+        return false;
+      }
+
+      const placement = deleted.statusId
+        ? {
+            statusId: deleted.statusId,
+            position: await nextColumnPosition(tx, deleted.statusId, id),
+          }
+        : await firstColumnPlacement(tx, organizationId);
+
+      await tx
+        .update(todos)
+        .set({ ...placement, deletedAt: null, updatedAt: new Date() })
+        .where(eq(todos.id, id));
+      await refileByCompletion(tx, organizationId, [id]);
+      return true;
+    });
+
+    return isRestored ? todoRepository.findById(organizationId, id) : undefined;
   },
 
-  delete: async (id: string): Promise<boolean> => {
+  /**
+   * Permanently deletes todos of every organization that were moved to the
+   * trash before the given date.
+   */
+  purgeDeleted: async (deletedBefore: Date): Promise<number> => {
     const results = await db
       .delete(todos)
-      .where(eq(todos.id, id))
+      .where(lt(todos.deletedAt, deletedBefore))
       .returning({ id: todos.id });
 
-    return results.length > 0;
+    return results.length;
   },
 
-  clear: async (): Promise<void> => {
-    await db.delete(todos);
+  clear: async (organizationId: string): Promise<void> => {
+    await db.delete(todos).where(eq(todos.organizationId, organizationId));
   },
 };
 
-function mapTodoFromDb(row: typeof todos.$inferSelect): Todo {
+/**
+ * Inserts the occurrence following a completed one, unless it was already
+ * scheduled, so completing twice never duplicates it.
+ */
+async function insertNextOccurrence(
+  tx: Transaction,
+  organizationId: string,
+  completedTodoId: string,
+  createdByMemberId: string | null,
+  next: NextOccurrence,
+): Promise<void> {
+  const existing = await tx
+    .select({ id: todos.id })
+    .from(todos)
+    .where(
+      and(
+        eq(todos.seriesId, next.series.id),
+        eq(todos.dueDate, next.dueDate),
+        isNull(todos.deletedAt),
+      ),
+    )
+    .limit(1);
+
+  if (existing.length > 0) {
+    return;
+  }
+
+  const [nextTodo] = await tx
+    .insert(todos)
+    .values({
+      organizationId,
+      createdByMemberId,
+      seriesId: next.series.id,
+      ...(await firstColumnPlacement(tx, organizationId)),
+      title: next.series.title,
+      description: next.series.description ?? null,
+      priority: next.series.priority,
+      dueDate: next.dueDate,
+    })
+    .returning({ id: todos.id });
+
+  // The next occurrence keeps the people working on this one, its labels and
+  // its reminders.
+  const [assignees, watchers, tags, reminders] = await Promise.all([
+    tx
+      .select()
+      .from(todoAssignees)
+      .where(eq(todoAssignees.todoId, completedTodoId)),
+    tx
+      .select({ memberId: todoWatchers.memberId })
+      .from(todoWatchers)
+      .where(eq(todoWatchers.todoId, completedTodoId)),
+    tx
+      .select({ labelId: todoTags.labelId })
+      .from(todoTags)
+      .where(eq(todoTags.todoId, completedTodoId)),
+    tx
+      .select({ offsetMinutes: todoReminders.offsetMinutes })
+      .from(todoReminders)
+      .where(eq(todoReminders.todoId, completedTodoId)),
+  ]);
+  if (assignees.length > 0) {
+    await tx.insert(todoAssignees).values(
+      assignees.map((assignee) => ({
+        todoId: nextTodo.id,
+        memberId: assignee.memberId,
+        assignedByMemberId: assignee.assignedByMemberId,
+      })),
+    );
+  }
+  await replaceWatchers(
+    tx,
+    nextTodo.id,
+    watchers.map((watcher) => watcher.memberId),
+  );
+  await replaceTags(
+    tx,
+    nextTodo.id,
+    tags.map((tag) => tag.labelId),
+  );
+  await replaceReminders(
+    tx,
+    nextTodo.id,
+    reminders.map((reminder) => reminder.offsetMinutes),
+  );
+}
+
+/**
+ * Places a new todo at the end of the organization's first column. Without
+ * columns the todo is left unfiled.
+ */
+async function firstColumnPlacement(
+  tx: Transaction,
+  organizationId: string,
+): Promise<ColumnPlacement> {
+  const [first] = await tx
+    .select({ id: todoStatuses.id })
+    .from(todoStatuses)
+    .where(eq(todoStatuses.organizationId, organizationId))
+    .orderBy(asc(todoStatuses.position))
+    .limit(1);
+
+  if (!first) {
+    return { statusId: null, position: 0 };
+  }
+
+  return {
+    statusId: first.id,
+    position: await nextColumnPosition(tx, first.id),
+  };
+}
+
+async function nextColumnPosition(
+  tx: Transaction,
+  statusId: string,
+  excludeTodoId?: string,
+): Promise<number> {
+  const [{ nextPosition }] = await tx
+    .select({
+      nextPosition: sql<number>`coalesce(max(${todos.position}) + 1, 0)::int`,
+    })
+    .from(todos)
+    .where(
+      and(
+        eq(todos.statusId, statusId),
+        isNull(todos.deletedAt),
+        excludeTodoId ? sql`${todos.id} <> ${excludeTodoId}` : undefined,
+      ),
+    );
+
+  return nextPosition;
+}
+
+/**
+ * Matches a todo that was not written since it was read with the given
+ * updatedAt. ETags carry milliseconds while the column keeps microseconds.
+ */
+function unchangedSince(expectedUpdatedAt?: Date): SQL | undefined {
+  return expectedUpdatedAt
+    ? sql`date_trunc('milliseconds', ${todos.updatedAt}) = ${expectedUpdatedAt.toISOString()}::timestamp`
+    : undefined;
+}
+
+/**
+ * Keeps board columns in step with completion changes made outside the board:
+ * completed todos go to the end of the last column and reopened ones leave it
+ * for the end of the first column. The column a todo leaves is compacted the
+ * same way move does.
+ */
+async function refileByCompletion(
+  tx: Transaction,
+  organizationId: string,
+  todoIds: string[],
+): Promise<void> {
+  if (todoIds.length === 0) {
+    return;
+  }
+
+  const statuses = await tx
+    .select({ id: todoStatuses.id })
+    .from(todoStatuses)
+    .where(eq(todoStatuses.organizationId, organizationId))
+    .orderBy(asc(todoStatuses.position));
+  if (statuses.length === 0) {
+    return;
+  }
+
+  const firstId = statuses[0].id;
+  const lastId = statuses[statuses.length - 1].id;
+  const rows = await tx
+    .select({
+      id: todos.id,
+      completed: todos.completed,
+      statusId: todos.statusId,
+      position: todos.position,
+    })
+    .from(todos)
+    .where(inArray(todos.id, todoIds))
+    .orderBy(asc(todos.position), asc(todos.id));
+
+  const refiled: ColumnPlacement[] = [];
+  for (const row of rows) {
+    const targetId = row.completed
+      ? lastId
+      : row.statusId === lastId || row.statusId === null
+        ? firstId
+        : row.statusId;
+    if (targetId === row.statusId) {
+      continue;
+    }
+
+    await tx
+      .update(todos)
+      .set({
+        statusId: targetId,
+        position: await nextColumnPosition(tx, targetId, row.id),
+      })
+      .where(eq(todos.id, row.id));
+    refiled.push(row);
+  }
+
+  await closeColumnGaps(tx, refiled);
+}
+
+/**
+ * Closes the gaps todos left in their columns after they were moved out or
+ * deleted. Gaps are closed from the bottom up, so each one is still at the
+ * position the todo had.
+ */
+async function closeColumnGaps(
+  tx: Transaction,
+  removed: ColumnPlacement[],
+): Promise<void> {
+  const gaps = removed
+    .flatMap(({ statusId, position }) =>
+      statusId ? [{ statusId, position }] : [],
+    )
+    .sort((a, b) => b.position - a.position);
+
+  for (const gap of gaps) {
+    await tx
+      .update(todos)
+      .set({ position: sql`${todos.position} - 1` })
+      .where(
+        and(
+          eq(todos.statusId, gap.statusId),
+          gt(todos.position, gap.position),
+          isNull(todos.deletedAt),
+        ),
+      );
+  }
+}
+
+async function replaceAssignees(
+  tx: Transaction,
+  todoId: string,
+  memberIds: string[],
+  assignedByMemberId: string | null,
+): Promise<void> {
+  await tx.delete(todoAssignees).where(eq(todoAssignees.todoId, todoId));
+  if (memberIds.length > 0) {
+    await tx.insert(todoAssignees).values(
+      memberIds.map((memberId) => ({
+        todoId,
+        memberId,
+        assignedByMemberId,
+      })),
+    );
+  }
+}
+
+async function replaceWatchers(
+  tx: Transaction,
+  todoId: string,
+  memberIds: string[],
+): Promise<void> {
+  await tx.delete(todoWatchers).where(eq(todoWatchers.todoId, todoId));
+  if (memberIds.length > 0) {
+    await tx
+      .insert(todoWatchers)
+      .values(memberIds.map((memberId) => ({ todoId, memberId })));
+  }
+}
+
+async function replaceTags(
+  tx: Transaction,
+  todoId: string,
+  labelIds: string[],
+): Promise<void> {
+  await tx.delete(todoTags).where(eq(todoTags.todoId, todoId));
+  if (labelIds.length > 0) {
+    await tx
+      .insert(todoTags)
+      .values(labelIds.map((labelId) => ({ todoId, labelId })));
+  }
+}
+
+// Unchanged offsets keep their rows, so reminders already sent for the current
+// due date are not sent again.
+async function replaceReminders(
+  tx: Transaction,
+  todoId: string,
+  offsetMinutes: number[],
+): Promise<void> {
+  const existing = await tx
+    .select({
+      id: todoReminders.id,
+      offsetMinutes: todoReminders.offsetMinutes,
+    })
+    .from(todoReminders)
+    .where(eq(todoReminders.todoId, todoId));
+
+  const removedIds = existing
+    .filter((reminder) => !offsetMinutes.includes(reminder.offsetMinutes))
+    .map((reminder) => reminder.id);
+  if (removedIds.length > 0) {
+    await tx.delete(todoReminders).where(inArray(todoReminders.id, removedIds));
+  }
+
+  const existingOffsets = new Set(
+    existing.map((reminder) => reminder.offsetMinutes),
+  );
+  const addedOffsets = offsetMinutes.filter(
+    (offset) => !existingOffsets.has(offset),
+  );
+  if (addedOffsets.length > 0) {
+    await tx
+      .insert(todoReminders)
+      .values(
+        addedOffsets.map((offset) => ({ todoId, offsetMinutes: offset })),
+      );
+  }
+}
+
+/**
+ * Matches todos tagged with any of the labels or, for "all", with every one
+ * of them. Not correlated, so it is safe in the unjoined count query.
+ */
+function labelCondition(labelIds: string[], labelMatch: LabelMatch): SQL {
+  const taggedTodoIds = db
+    .select({ todoId: todoTags.todoId })
+    .from(todoTags)
+    .where(inArray(todoTags.labelId, labelIds));
+
+  if (labelMatch === "all") {
+    return inArray(
+      todos.id,
+      taggedTodoIds
+        .groupBy(todoTags.todoId)
+        .having(sql`count(distinct ${todoTags.labelId}) = ${labelIds.length}`),
+    );
+  }
+
+  return inArray(todos.id, taggedTodoIds);
+}
+
+type TodoSortKey = {
+  expression: SQL;
+  castType: SQL;
+};
+
+function todoSortKey(sortBy: TodoSortField, sortOrder: SortOrder): TodoSortKey {
+  switch (sortBy) {
+    case "dueDate":
+      // Todos without a due date always sort last, whichever the direction.
+      return {
+        expression:
+          sortOrder === "asc"
+            ? sql`coalesce(${todos.dueDate}, 'infinity'::timestamp)`
+            : sql`coalesce(${todos.dueDate}, '-infinity'::timestamp)`,
+        castType: sql`timestamp`,
+      };
+    case "priority":
+      return { expression: sql`${todos.priority}`, castType: sql`priority` };
+    case "title":
+      return { expression: sql`lower(${todos.title})`, castType: sql`text` };
+    case "createdAt":
+      return { expression: sql`${todos.createdAt}`, castType: sql`timestamp` };
+    case "position":
+      return { expression: sql`${todos.position}`, castType: sql`integer` };
+  }
+}
+
+function cursorCondition(
+  sortKey: TodoSortKey,
+  sortOrder: SortOrder,
+  cursor: TodoCursor,
+): SQL {
+  const cursorValue = sql`cast(${cursor.value} as ${sortKey.castType})`;
+
+  if (sortOrder === "asc") {
+    return or(
+      sql`${sortKey.expression} > ${cursorValue}`,
+      and(
+        sql`${sortKey.expression} = ${cursorValue}`,
+        sql`${todos.id} > ${cursor.id}`,
+      ),
+    ) as SQL;
+  }
+
+  return or(
+    sql`${sortKey.expression} < ${cursorValue}`,
+    and(
+      sql`${sortKey.expression} = ${cursorValue}`,
+      sql`${todos.id} < ${cursor.id}`,
+    ),
+  ) as SQL;
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function mapTodoFromDb({
+  todo: row,
+  recurrenceRule,
+  progress,
+  assigneeMemberIds,
+  watcherMemberIds,
+  labelIds,
+  reminderOffsets,
+}: TodoRow): Todo {
   return {
     id: row.id,
+    organizationId: row.organizationId,
+    createdByMemberId: row.createdByMemberId ?? undefined,
     title: row.title,
     description: row.description ?? undefined,
     priority: row.priority,
     dueDate: row.dueDate ?? undefined,
     completed: row.completed,
+    statusId: row.statusId ?? undefined,
+    position: row.position,
+    autoCompleteFromItems: row.autoCompleteFromItems,
+    deletedAt: row.deletedAt ?? undefined,
+    progress: progress ?? undefined,
+    seriesId: row.seriesId ?? undefined,
+    recurrenceRule: recurrenceRule ?? undefined,
+    assigneeMemberIds: assigneeMemberIds ?? [],
+    watcherMemberIds: watcherMemberIds ?? [],
+    labelIds: labelIds ?? [],
+    reminderOffsets: reminderOffsets ?? [],
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   };
 }
+
+function mapTodoSeriesFromDb(row: typeof todoSeries.$inferSelect): TodoSeries {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    title: row.title,
+    description: row.description ?? undefined,
+    priority: row.priority,
+    recurrenceRule: row.recurrenceRule,
+    startsAt: row.startsAt,
+    stoppedAt: row.stoppedAt ?? undefined,
+  };
+}
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { ValidationErrorCodes } from "./todo.schema";
+
+export const TodoCommentValidationErrorCodes = {
+  COMMENT_BODY_REQUIRED: "COMMENT_BODY_REQUIRED",
+  COMMENT_BODY_MAX_LENGTH: "COMMENT_BODY_MAX_LENGTH",
+  INVALID_COMMENT_ID_FORMAT: "INVALID_COMMENT_ID_FORMAT",
+} as const;
+
+export type TodoComment = {
+  id: string;
+  todoId: string;
+  parentId?: string;
+  authorMemberId?: string;
+  // null once the comment was deleted but is kept for its replies
+  body: string | null;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type TodoCommentThread = TodoComment & {
+  replies: TodoCommentThread[];
+};
+
+const CommentBodySchema = z
+  .string()
+  .trim()
+  .min(1, { message: TodoCommentValidationErrorCodes.COMMENT_BODY_REQUIRED })
+  .max(5000, {
+    message: TodoCommentValidationErrorCodes.COMMENT_BODY_MAX_LENGTH,
+  });
+
+export const CreateTodoCommentInputSchema = z.object({
+  body: CommentBodySchema,
+  parentId: z
+    .string()
+    .uuid({
+      message: TodoCommentValidationErrorCodes.INVALID_COMMENT_ID_FORMAT,
+    })
+    .optional(),
+});
+
+export type CreateTodoCommentInput = z.infer<
+  typeof CreateTodoCommentInputSchema
+>;
+
+export const UpdateTodoCommentInputSchema = z.object({
+  body: CommentBodySchema,
+});
+
+export type UpdateTodoCommentInput = z.infer<
+  typeof UpdateTodoCommentInputSchema
+>;
+
+export const TodoCommentParamSchema = z.object({
+  id: z.string().uuid({ message: ValidationErrorCodes.INVALID_TODO_ID_FORMAT }),
+  commentId: z.string().uuid({
+    message: TodoCommentValidationErrorCodes.INVALID_COMMENT_ID_FORMAT,
+  }),
+});
+
+export type TodoCommentParam = z.infer<typeof TodoCommentParamSchema>;
@@ -0,0 +1,36 @@
+import type { Todo } from "./todo.schema";
+
+/**
+ * Todo fields whose changes are recorded in the history.
+ */
+export const TRACKED_TODO_FIELDS = [
+  "title",
+  "description",
+  "priority",
+  "dueDate",
+  "completed",
+  "statusId",
+  "autoCompleteFromItems",
+  "recurrenceRule",
+  "assigneeMemberIds",
+  "watcherMemberIds",
+  "labelIds",
+] as const satisfies readonly (keyof Todo)[];
+
+export type TrackedTodoField = (typeof TRACKED_TODO_FIELDS)[number];
+
+// Dates are kept as ISO strings; null stands for an unset value.
+export type TodoHistoryValue = string | boolean | string[] | null;
+
+export type TodoFieldChange = {
+  field: TrackedTodoField;
+  oldValue: TodoHistoryValue;
+  newValue: TodoHistoryValue;
+};
+
+export type TodoHistoryEntry = TodoFieldChange & {
+  id: string;
+  todoId: string;
+  actorMemberId?: string;
+  createdAt: Date;
+};
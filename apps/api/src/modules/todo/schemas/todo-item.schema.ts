@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { ValidationErrorCodes } from "./todo.schema";
+
+export const MAX_TODO_ITEMS = 200;
+
+export const TodoItemValidationErrorCodes = {
+  ITEM_TITLE_FIELD_REQUIRED: "ITEM_TITLE_FIELD_REQUIRED",
+  ITEM_TITLE_FIELD_MAX_LENGTH: "ITEM_TITLE_FIELD_MAX_LENGTH",
+  INVALID_ITEM_ID_FORMAT: "INVALID_ITEM_ID_FORMAT",
+  INVALID_ITEM_POSITION: "INVALID_ITEM_POSITION",
+  INVALID_ITEM_ORDER: "INVALID_ITEM_ORDER",
+  DUPLICATE_ITEM_ID: "DUPLICATE_ITEM_ID",
+} as const;
+
+export const TodoItemSchema = z.object({
+  id: z.string().uuid(),
+  todoId: z.string().uuid(),
+  title: z.string(),
+  completed: z.boolean(),
+  position: z.number().int(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type TodoItem = z.infer<typeof TodoItemSchema>;
+
+const ItemTitleSchema = z
+  .string()
+  .trim()
+  .min(1, { message: TodoItemValidationErrorCodes.ITEM_TITLE_FIELD_REQUIRED })
+  .max(200, {
+    message: TodoItemValidationErrorCodes.ITEM_TITLE_FIELD_MAX_LENGTH,
+  });
+
+export const CreateTodoItemInputSchema = z.object({
+  title: ItemTitleSchema,
+  completed: z.boolean().optional().default(false),
+  // Inserts the item before the one currently at this position; appends when omitted
+  position: z
+    .number({ message: TodoItemValidationErrorCodes.INVALID_ITEM_POSITION })
+    .int({ message: TodoItemValidationErrorCodes.INVALID_ITEM_POSITION })
+    .min(0, { message: TodoItemValidationErrorCodes.INVALID_ITEM_POSITION })
+    .optional(),
+});
+
+export type CreateTodoItemInput = z.infer<typeof CreateTodoItemInputSchema>;
+
+export const UpdateTodoItemInputSchema = z.object({
+  title: ItemTitleSchema.optional(),
+  completed: z.boolean().optional(),
+});
+
+export type UpdateTodoItemInput = z.infer<typeof UpdateTodoItemInputSchema>;
+
+export const ReorderTodoItemsInputSchema = z.object({
+  itemIds: z
+    .array(
+      z.string().uuid({
+        message: TodoItemValidationErrorCodes.INVALID_ITEM_ID_FORMAT,
+      }),
+      { message: TodoItemValidationErrorCodes.INVALID_ITEM_ORDER },
+    )
+    .max(MAX_TODO_ITEMS, {
+      message: TodoItemValidationErrorCodes.INVALID_ITEM_ORDER,
+    })
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: TodoItemValidationErrorCodes.DUPLICATE_ITEM_ID,
+    }),
+});
+
+export type ReorderTodoItemsInput = z.infer<typeof ReorderTodoItemsInputSchema>;
+
+export const TodoItemParamSchema = z.object({
+  id: z.string().uuid({ message: ValidationErrorCodes.INVALID_TODO_ID_FORMAT }),
+  itemId: z.string().uuid({
+    message: TodoItemValidationErrorCodes.INVALID_ITEM_ID_FORMAT,
+  }),
+});
+
+export type TodoItemParam = z.infer<typeof TodoItemParamSchema>;
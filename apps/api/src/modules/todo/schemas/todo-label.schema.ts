@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { ValidationErrorCodes } from "./todo.schema";
+
+export const TodoLabelValidationErrorCodes = {
+  LABEL_NAME_REQUIRED: "LABEL_NAME_REQUIRED",
+  LABEL_NAME_MAX_LENGTH: "LABEL_NAME_MAX_LENGTH",
+  INVALID_LABEL_COLOR: "INVALID_LABEL_COLOR",
+} as const;
+
+export type TodoLabel = {
+  id: string;
+  organizationId: string;
+  name: string;
+  color: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+const LabelNameSchema = z
+  .string()
+  .trim()
+  .min(1, { message: TodoLabelValidationErrorCodes.LABEL_NAME_REQUIRED })
+  .max(50, { message: TodoLabelValidationErrorCodes.LABEL_NAME_MAX_LENGTH });
+
+// Hex colors are stored lowercase as '#rrggbb'
+const LabelColorSchema = z
+  .string()
+  .regex(/^#[0-9a-f]{6}$/i, {
+    message: TodoLabelValidationErrorCodes.INVALID_LABEL_COLOR,
+  })
+  .transform((color) => color.toLowerCase());
+
+export const CreateTodoLabelInputSchema = z.object({
+  name: LabelNameSchema,
+  color: LabelColorSchema,
+});
+
+export type CreateTodoLabelInput = z.infer<typeof CreateTodoLabelInputSchema>;
+
+export const UpdateTodoLabelInputSchema = z.object({
+  name: LabelNameSchema.optional(),
+  color: LabelColorSchema.optional(),
+});
+
+export type UpdateTodoLabelInput = z.infer<typeof UpdateTodoLabelInputSchema>;
+
+export const TodoLabelParamSchema = z.object({
+  labelId: z
+    .string()
+    .uuid({ message: ValidationErrorCodes.INVALID_LABEL_ID_FORMAT }),
+});
+
+export type TodoLabelParam = z.infer<typeof TodoLabelParamSchema>;
@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { ValidationErrorCodes } from "./todo.schema";
+
+export const MAX_TODO_STATUSES = 20;
+
+// Columns every organization starts with. The last one is the "done" column.
+export const DEFAULT_TODO_STATUSES = [
+  { name: "To do", color: "#9ca3af" },
+  { name: "In progress", color: "#3b82f6" },
+  { name: "Blocked", color: "#ef4444" },
+  { name: "Done", color: "#22c55e" },
+] as const;
+
+export const TodoStatusValidationErrorCodes = {
+  STATUS_NAME_REQUIRED: "STATUS_NAME_REQUIRED",
+  STATUS_NAME_MAX_LENGTH: "STATUS_NAME_MAX_LENGTH",
+  INVALID_STATUS_COLOR: "INVALID_STATUS_COLOR",
+  INVALID_STATUS_POSITION: "INVALID_STATUS_POSITION",
+  INVALID_STATUS_ORDER: "INVALID_STATUS_ORDER",
+  DUPLICATE_STATUS_ID: "DUPLICATE_STATUS_ID",
+  TOO_MANY_STATUSES: "TOO_MANY_STATUSES",
+  STATUS_IN_USE: "STATUS_IN_USE",
+} as const;
+
+export type TodoStatus = {
+  id: string;
+  organizationId: string;
+  name: string;
+  color?: string;
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+const StatusNameSchema = z
+  .string()
+  .trim()
+  .min(1, { message: TodoStatusValidationErrorCodes.STATUS_NAME_REQUIRED })
+  .max(50, { message: TodoStatusValidationErrorCodes.STATUS_NAME_MAX_LENGTH });
+
+// Hex colors are stored lowercase as '#rrggbb'
+const StatusColorSchema = z
+  .string()
+  .regex(/^#[0-9a-f]{6}$/i, {
+    message: TodoStatusValidationErrorCodes.INVALID_STATUS_COLOR,
+  })
+  .transform((color) => color.toLowerCase());
+
+export const CreateTodoStatusInputSchema = z.object({
+  name: StatusNameSchema,
+  color: StatusColorSchema.optional(),
+  // Inserts the column before the one currently at this position; appends when omitted
+  position: z
+    .number({ message: TodoStatusValidationErrorCodes.INVALID_STATUS_POSITION })
+    .int({ message: TodoStatusValidationErrorCodes.INVALID_STATUS_POSITION })
+    .min(0, { message: TodoStatusValidationErrorCodes.INVALID_STATUS_POSITION })
+    .optional(),
+});
+
+export type CreateTodoStatusInput = z.infer<typeof CreateTodoStatusInputSchema>;
+
+export const UpdateTodoStatusInputSchema = z.object({
+  name: StatusNameSchema.optional(),
+  color: StatusColorSchema.nullable().optional(),
+});
+
+export type UpdateTodoStatusInput = z.infer<typeof UpdateTodoStatusInputSchema>;
+
+export const ReorderTodoStatusesInputSchema = z.object({
+  statusIds: z
+    .array(
+      z
+        .string()
+        .uuid({ message: ValidationErrorCodes.INVALID_STATUS_ID_FORMAT }),
+      { message: TodoStatusValidationErrorCodes.INVALID_STATUS_ORDER },
+    )
+    .max(MAX_TODO_STATUSES, {
+      message: TodoStatusValidationErrorCodes.INVALID_STATUS_ORDER,
+    })
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: TodoStatusValidationErrorCodes.DUPLICATE_STATUS_ID,
+    }),
+});
+
+export type ReorderTodoStatusesInput = z.infer<
+  typeof ReorderTodoStatusesInputSchema
+>;
+
+export const TodoStatusParamSchema = z.object({
+  statusId: z
+    .string()
+    .uuid({ message: ValidationErrorCodes.INVALID_STATUS_ID_FORMAT }),
+});
+
+export type TodoStatusParam = z.infer<typeof TodoStatusParamSchema>;
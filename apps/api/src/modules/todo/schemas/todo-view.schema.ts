@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { ListTodosQuerySchema, ValidationErrorCodes } from "./todo.schema";
+
+export const TodoViewValidationErrorCodes = {
+  VIEW_NAME_REQUIRED: "VIEW_NAME_REQUIRED",
+  VIEW_NAME_MAX_LENGTH: "VIEW_NAME_MAX_LENGTH",
+  INVALID_VIEW_FILTERS: "INVALID_VIEW_FILTERS",
+} as const;
+
+export type TodoViewFilters = Record<string, string>;
+
+export type TodoView = {
+  id: string;
+  organizationId: string;
+  createdByMemberId: string;
+  name: string;
+  filters: TodoViewFilters;
+  isShared: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+const ViewNameSchema = z
+  .string()
+  .trim()
+  .min(1, { message: TodoViewValidationErrorCodes.VIEW_NAME_REQUIRED })
+  .max(100, { message: TodoViewValidationErrorCodes.VIEW_NAME_MAX_LENGTH });
+
+// JSON bodies may carry booleans and numbers; views keep the string form.
+const ViewFilterValueSchema = z
+  .union([z.string(), z.number(), z.boolean()], {
+    message: TodoViewValidationErrorCodes.INVALID_VIEW_FILTERS,
+  })
+  .transform(String)
+  .optional();
+
+/**
+ * The listing parameters a view can save, kept in their query string form so
+ * a recalled view can be passed to GET /todos as is. Pagination state and
+ * other views are not part of a view.
+ */
+export const TodoViewFiltersSchema = z
+  .strictObject(
+    {
+      completed: ViewFilterValueSchema,
+      priority: ViewFilterValueSchema,
+      statusId: ViewFilterValueSchema,
+      assignedToMe: ViewFilterValueSchema,
+      assigneeMemberId: ViewFilterValueSchema,
+      labelIds: ViewFilterValueSchema,
+      labelMatch: ViewFilterValueSchema,
+      dueFrom: ViewFilterValueSchema,
+      dueTo: ViewFilterValueSchema,
+      search: ViewFilterValueSchema,
+      sortBy: ViewFilterValueSchema,
+      sortOrder: ViewFilterValueSchema,
+      limit: ViewFilterValueSchema,
+    },
+    { message: TodoViewValidationErrorCodes.INVALID_VIEW_FILTERS },
+  )
+  .superRefine((filters, ctx) => {
+    const result = ListTodosQuerySchema.safeParse(filters);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        ctx.addIssue({
+          code: "custom",
+          message: issue.message,
+          path: issue.path,
+        });
+      }
+    }
+  })
+  .transform(
+    (filters) =>
+      Object.fromEntries(
+        Object.entries(filters).filter(([, value]) => value !== undefined),
+      ) as TodoViewFilters,
+  );
+
+export const CreateTodoViewInputSchema = z.object({
+  name: ViewNameSchema,
+  filters: TodoViewFiltersSchema,
+  isShared: z.boolean().optional().default(false),
+});
+
+export type CreateTodoViewInput = z.infer<typeof CreateTodoViewInputSchema>;
+
+export const UpdateTodoViewInputSchema = z.object({
+  name: ViewNameSchema.optional(),
+  filters: TodoViewFiltersSchema.optional(),
+  isShared: z.boolean().optional(),
+});
+
+export type UpdateTodoViewInput = z.infer<typeof UpdateTodoViewInputSchema>;
+
+export const TodoViewParamSchema = z.object({
+  viewId: z
+    .string()
+    .uuid({ message: ValidationErrorCodes.INVALID_VIEW_ID_FORMAT }),
+});
+
+export type TodoViewParam = z.infer<typeof TodoViewParamSchema>;
@@ -1,4 +1,7 @@
 import { z } from "zod";
+import { decodeTodoCursor } from "../utils/todo-cursor";
+import { normalizeRecurrenceRule } from "../utils/recurrence";
+import type { ServiceResult } from "@utils/ServiceResult";
 
 export const ValidationErrorCodes = {
   TITLE_FIELD_REQUIRED: "TITLE_FIELD_REQUIRED",
@@ -7,6 +10,37 @@ export const ValidationErrorCodes = {
   INVALID_TODO_ID_FORMAT: "INVALID_TODO_ID_FORMAT",
   INVALID_PRIORITY_VALUE: "INVALID_PRIORITY_VALUE",
   INVALID_DATE_FORMAT: "INVALID_DATE_FORMAT",
+  INVALID_LIMIT: "INVALID_LIMIT",
+  INVALID_CURSOR: "INVALID_CURSOR",
+  INVALID_SORT_FIELD: "INVALID_SORT_FIELD",
+  INVALID_SORT_ORDER: "INVALID_SORT_ORDER",
+  INVALID_DATE_RANGE: "INVALID_DATE_RANGE",
+  SEARCH_FIELD_MAX_LENGTH: "SEARCH_FIELD_MAX_LENGTH",
+  RECURRENCE_RULE_INVALID: "RECURRENCE_RULE_INVALID",
+  RECURRENCE_REQUIRES_DUE_DATE: "RECURRENCE_REQUIRES_DUE_DATE",
+  INVALID_OCCURRENCE_SCOPE: "INVALID_OCCURRENCE_SCOPE",
+  INVALID_MEMBER_ID_FORMAT: "INVALID_MEMBER_ID_FORMAT",
+  TOO_MANY_ASSIGNEES: "TOO_MANY_ASSIGNEES",
+  TOO_MANY_WATCHERS: "TOO_MANY_WATCHERS",
+  CONFLICTING_ASSIGNEE_FILTERS: "CONFLICTING_ASSIGNEE_FILTERS",
+  INVALID_LABEL_ID_FORMAT: "INVALID_LABEL_ID_FORMAT",
+  TOO_MANY_LABELS: "TOO_MANY_LABELS",
+  INVALID_LABEL_MATCH: "INVALID_LABEL_MATCH",
+  INVALID_VIEW_ID_FORMAT: "INVALID_VIEW_ID_FORMAT",
+  INVALID_BULK_OPERATION: "INVALID_BULK_OPERATION",
+  BULK_IDS_REQUIRED: "BULK_IDS_REQUIRED",
+  TOO_MANY_BULK_IDS: "TOO_MANY_BULK_IDS",
+  BULK_OPERATION_PARAMETER_REQUIRED: "BULK_OPERATION_PARAMETER_REQUIRED",
+  INVALID_STATUS_ID_FORMAT: "INVALID_STATUS_ID_FORMAT",
+  INVALID_TODO_POSITION: "INVALID_TODO_POSITION",
+  INVALID_FILE_FORMAT: "INVALID_FILE_FORMAT",
+  IMPORT_CONTENT_REQUIRED: "IMPORT_CONTENT_REQUIRED",
+  INVALID_IMPORT_CONTENT: "INVALID_IMPORT_CONTENT",
+  IMPORT_ROWS_REQUIRED: "IMPORT_ROWS_REQUIRED",
+  TOO_MANY_IMPORT_ROWS: "TOO_MANY_IMPORT_ROWS",
+  TOO_MANY_EXPORT_TODOS: "TOO_MANY_EXPORT_TODOS",
+  INVALID_REMINDER_OFFSET: "INVALID_REMINDER_OFFSET",
+  TOO_MANY_REMINDERS: "TOO_MANY_REMINDERS",
 } as const;
 
 export const PrioritySchema = z.enum(["low", "medium", "high"], {
@@ -14,8 +48,63 @@ export const PrioritySchema = z.enum(["low", "medium", "high"], {
 });
 export type Priority = z.infer<typeof PrioritySchema>;
 
+export const RecurrenceRuleSchema = z
+  .string({ message: ValidationErrorCodes.RECURRENCE_RULE_INVALID })
+  .max(500, { message: ValidationErrorCodes.RECURRENCE_RULE_INVALID })
+  .transform((val, ctx) => {
+    const rule = normalizeRecurrenceRule(val);
+    if (!rule) {
+      ctx.addIssue({
+        code: "custom",
+        message: ValidationErrorCodes.RECURRENCE_RULE_INVALID,
+      });
+      return z.NEVER;
+    }
+    return rule;
+  });
+
+const MemberIdListSchema = (max: number, message: string) =>
+  z
+    .array(
+      z
+        .string()
+        .uuid({ message: ValidationErrorCodes.INVALID_MEMBER_ID_FORMAT }),
+    )
+    .max(max, { message })
+    .transform((ids) => [...new Set(ids)]);
+
+export const MAX_TODO_LABELS = 20;
+
+const LabelIdListSchema = z
+  .array(
+    z.string().uuid({ message: ValidationErrorCodes.INVALID_LABEL_ID_FORMAT }),
+  )
+  .max(MAX_TODO_LABELS, { message: ValidationErrorCodes.TOO_MANY_LABELS })
+  .transform((ids) => [...new Set(ids)]);
+
+export const MAX_TODO_REMINDERS = 5;
+// Reminders can be set up to 30 days before the due date
+export const MAX_REMINDER_OFFSET_MINUTES = 30 * 24 * 60;
+
+// Minutes before the due date, e.g. 1440 for one day and 60 for one hour
+const ReminderOffsetListSchema = z
+  .array(
+    z
+      .number({ message: ValidationErrorCodes.INVALID_REMINDER_OFFSET })
+      .int({ message: ValidationErrorCodes.INVALID_REMINDER_OFFSET })
+      .min(1, { message: ValidationErrorCodes.INVALID_REMINDER_OFFSET })
+      .max(MAX_REMINDER_OFFSET_MINUTES, {
+        message: ValidationErrorCodes.INVALID_REMINDER_OFFSET,
+      }),
+    { message: ValidationErrorCodes.INVALID_REMINDER_OFFSET },
+  )
+  .max(MAX_TODO_REMINDERS, { message: ValidationErrorCodes.TOO_MANY_REMINDERS })
+  .transform((offsets) => [...new Set(offsets)].sort((a, b) => a - b));
+
 export const TodoSchema = z.object({
   id: z.string().uuid({ message: ValidationErrorCodes.INVALID_TODO_ID_FORMAT }),
+  organizationId: z.string().uuid(),
+  createdByMemberId: z.string().uuid().optional(),
   title: z
     .string()
     .min(1, { message: ValidationErrorCodes.TITLE_FIELD_REQUIRED })
@@ -29,26 +118,65 @@ export const TodoSchema = z.object({
     .date({ message: ValidationErrorCodes.INVALID_DATE_FORMAT })
     .optional(),
   completed: z.boolean().default(false),
+  // Board column; todos created before the organization had columns have none
+  statusId: z.string().uuid().optional(),
+  // Manual rank within the status column
+  position: z.number().int().default(0),
+  autoCompleteFromItems: z.boolean().default(false),
+  // Set while the todo is in the trash
+  deletedAt: z.date().optional(),
+  // Share of checked checklist items, 0-100; absent while the todo has no items
+  progress: z.number().int().min(0).max(100).optional(),
+  seriesId: z.string().uuid().optional(),
+  recurrenceRule: z.string().optional(),
+  assigneeMemberIds: z.array(z.string().uuid()).default([]),
+  watcherMemberIds: z.array(z.string().uuid()).default([]),
+  labelIds: z.array(z.string().uuid()).default([]),
+  reminderOffsets: z.array(z.number().int()).default([]),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 export type Todo = z.infer<typeof TodoSchema>;
 
-export const CreateTodoInputSchema = z.object({
-  title: z
-    .string()
-    .min(1, { message: ValidationErrorCodes.TITLE_FIELD_REQUIRED })
-    .max(200, { message: ValidationErrorCodes.TITLE_FIELD_MAX_LENGTH }),
-  description: z
-    .string()
-    .max(1000, { message: ValidationErrorCodes.DESCRIPTION_FIELD_MAX_LENGTH })
-    .optional(),
-  priority: PrioritySchema.optional().default("medium"),
-  dueDate: z.coerce
-    .date({ message: ValidationErrorCodes.INVALID_DATE_FORMAT })
-    .optional(),
-});
+export const CreateTodoInputSchema = z
+  .object({
+    title: z
+      .string()
+      .min(1, { message: ValidationErrorCodes.TITLE_FIELD_REQUIRED })
+      .max(200, { message: ValidationErrorCodes.TITLE_FIELD_MAX_LENGTH }),
+    description: z
+      .string()
+      .max(1000, {
+        message: ValidationErrorCodes.DESCRIPTION_FIELD_MAX_LENGTH,
+      })
+      .optional(),
+    priority: PrioritySchema.optional().default("medium"),
+    dueDate: z.coerce
+      .date({ message: ValidationErrorCodes.INVALID_DATE_FORMAT })
+      .optional(),
+    autoCompleteFromItems: z.boolean().optional().default(false),
+    recurrenceRule: RecurrenceRuleSchema.optional(),
+    assigneeMemberIds: MemberIdListSchema(
+      20,
+      ValidationErrorCodes.TOO_MANY_ASSIGNEES,
+    ).optional(),
+    watcherMemberIds: MemberIdListSchema(
+      100,
+      ValidationErrorCodes.TOO_MANY_WATCHERS,
+    ).optional(),
+    labelIds: LabelIdListSchema.optional(),
+    reminderOffsets: ReminderOffsetListSchema.optional(),
+  })
+  .superRefine((input, ctx) => {
+    if (input.recurrenceRule && !input.dueDate) {
+      ctx.addIssue({
+        code: "custom",
+        message: ValidationErrorCodes.RECURRENCE_REQUIRES_DUE_DATE,
+        path: ["dueDate"],
+      });
+    }
+  });
 
 export type CreateTodoInput = z.infer<typeof CreateTodoInputSchema>;
 
@@ -68,30 +196,326 @@ export const UpdateTodoInputSchema = z.object({
     .optional()
     .nullable(),
   completed: z.boolean().optional(),
+  autoCompleteFromItems: z.boolean().optional(),
+  // Replace the current assignees, watchers, labels or reminders when given
+  assigneeMemberIds: MemberIdListSchema(
+    20,
+    ValidationErrorCodes.TOO_MANY_ASSIGNEES,
+  ).optional(),
+  watcherMemberIds: MemberIdListSchema(
+    100,
+    ValidationErrorCodes.TOO_MANY_WATCHERS,
+  ).optional(),
+  labelIds: LabelIdListSchema.optional(),
+  reminderOffsets: ReminderOffsetListSchema.optional(),
+  // null stops the recurrence this todo belongs to
+  recurrenceRule: RecurrenceRuleSchema.optional().nullable(),
 });
 
 export type UpdateTodoInput = z.infer<typeof UpdateTodoInputSchema>;
 
+export const OccurrenceScopeSchema = z.enum(["this", "future"], {
+  message: ValidationErrorCodes.INVALID_OCCURRENCE_SCOPE,
+});
+export type OccurrenceScope = z.infer<typeof OccurrenceScopeSchema>;
+
+export const EditTodoOccurrenceInputSchema = z
+  .object({
+    scope: OccurrenceScopeSchema,
+    title: z
+      .string()
+      .min(1, { message: ValidationErrorCodes.TITLE_FIELD_REQUIRED })
+      .max(200, { message: ValidationErrorCodes.TITLE_FIELD_MAX_LENGTH })
+      .optional(),
+    description: z
+      .string()
+      .max(1000, {
+        message: ValidationErrorCodes.DESCRIPTION_FIELD_MAX_LENGTH,
+      })
+      .optional(),
+    priority: PrioritySchema.optional(),
+    dueDate: z.coerce
+      .date({ message: ValidationErrorCodes.INVALID_DATE_FORMAT })
+      .optional(),
+    recurrenceRule: RecurrenceRuleSchema.optional(),
+  })
+  .superRefine((input, ctx) => {
+    if (input.recurrenceRule && input.scope !== "future") {
+      ctx.addIssue({
+        code: "custom",
+        message: ValidationErrorCodes.INVALID_OCCURRENCE_SCOPE,
+        path: ["scope"],
+      });
+    }
+  });
+
+export type EditTodoOccurrenceInput = z.infer<
+  typeof EditTodoOccurrenceInputSchema
+>;
+
+export type TodoSeries = {
+  id: string;
+  organizationId: string;
+  title: string;
+  description?: string;
+  priority: Priority;
+  recurrenceRule: string;
+  startsAt: Date;
+  stoppedAt?: Date;
+};
+
+export type TodoSeriesTemplate = Pick<
+  TodoSeries,
+  "title" | "description" | "priority"
+>;
+
+export const MoveTodoInputSchema = z.object({
+  statusId: z
+    .string({ message: ValidationErrorCodes.INVALID_STATUS_ID_FORMAT })
+    .uuid({ message: ValidationErrorCodes.INVALID_STATUS_ID_FORMAT }),
+  // Inserts the todo before the one currently at this position; appends when omitted
+  position: z
+    .number({ message: ValidationErrorCodes.INVALID_TODO_POSITION })
+    .int({ message: ValidationErrorCodes.INVALID_TODO_POSITION })
+    .min(0, { message: ValidationErrorCodes.INVALID_TODO_POSITION })
+    .optional(),
+});
+
+export type MoveTodoInput = z.infer<typeof MoveTodoInputSchema>;
+
+export const MAX_BULK_TODO_IDS = 100;
+
+export const BulkTodoOperationSchema = z.enum(
+  ["complete", "uncomplete", "setPriority", "setDueDate", "delete", "addLabel"],
+  { message: ValidationErrorCodes.INVALID_BULK_OPERATION },
+);
+export type BulkTodoOperation = z.infer<typeof BulkTodoOperationSchema>;
+
+export const BulkTodoInputSchema = z
+  .object({
+    ids: z
+      .array(
+        z
+          .string()
+          .uuid({ message: ValidationErrorCodes.INVALID_TODO_ID_FORMAT }),
+        { message: ValidationErrorCodes.BULK_IDS_REQUIRED },
+      )
+      .min(1, { message: ValidationErrorCodes.BULK_IDS_REQUIRED })
+      .max(MAX_BULK_TODO_IDS, {
+        message: ValidationErrorCodes.TOO_MANY_BULK_IDS,
+      })
+      .transform((ids) => [...new Set(ids)]),
+    operation: BulkTodoOperationSchema,
+    // Parameters of setPriority, setDueDate (null clears it) and addLabel
+    priority: PrioritySchema.optional(),
+    dueDate: z.coerce
+      .date({ message: ValidationErrorCodes.INVALID_DATE_FORMAT })
+      .optional()
+      .nullable(),
+    labelId: z
+      .string()
+      .uuid({ message: ValidationErrorCodes.INVALID_LABEL_ID_FORMAT })
+      .optional(),
+  })
+  .superRefine((input, ctx) => {
+    const missingParameter =
+      (input.operation === "setPriority" && !input.priority && "priority") ||
+      (input.operation === "setDueDate" &&
+        input.dueDate === undefined &&
+        "dueDate") ||
+      (input.operation === "addLabel" && !input.labelId && "labelId");
+
+    if (missingParameter) {
+      ctx.addIssue({
+        code: "custom",
+        message: ValidationErrorCodes.BULK_OPERATION_PARAMETER_REQUIRED,
+        path: [missingParameter],
+      });
+    }
+  });
+
+export type BulkTodoInput = z.infer<typeof BulkTodoInputSchema>;
+
+export type BulkTodoItemResult = { id: string } & ServiceResult<Todo | null>;
+
+export type BulkTodoResult = {
+  results: BulkTodoItemResult[];
+};
+
+export const MAX_EXPORT_TODOS = 10000;
+export const MAX_IMPORT_TODO_ROWS = 500;
+
+export const TodoFileFormatSchema = z.enum(["csv", "json", "ics"], {
+  message: ValidationErrorCodes.INVALID_FILE_FORMAT,
+});
+export type TodoFileFormat = z.infer<typeof TodoFileFormatSchema>;
+
+export const ExportTodosQuerySchema = z.object({
+  format: TodoFileFormatSchema.optional().default("json"),
+});
+
+export type TodoExport = {
+  fileName: string;
+  contentType: string;
+  content: string;
+};
+
+export const ImportTodosInputSchema = z.object({
+  format: TodoFileFormatSchema,
+  // Raw file contents; json takes an array of todos like the json export
+  content: z
+    .string({ message: ValidationErrorCodes.IMPORT_CONTENT_REQUIRED })
+    .min(1, { message: ValidationErrorCodes.IMPORT_CONTENT_REQUIRED }),
+  // Validates every row without creating anything
+  dryRun: z.boolean().optional().default(false),
+});
+
+export type ImportTodosInput = z.infer<typeof ImportTodosInputSchema>;
+
+// Rows are numbered from 1 in file order, not counting a csv header
+export type ImportTodoRowResult = { row: number } & ServiceResult<Todo | null>;
+
+export type ImportTodosResult = {
+  dryRun: boolean;
+  imported: number;
+  failed: number;
+  results: ImportTodoRowResult[];
+};
+
 export const TodoIdParamSchema = z.object({
   id: z.string().uuid({ message: ValidationErrorCodes.INVALID_TODO_ID_FORMAT }),
 });
 
 export type TodoIdParam = z.infer<typeof TodoIdParamSchema>;
 
-export const ListTodosQuerySchema = z.object({
-  completed: z
-    .string()
-    .optional()
-    .transform((val) => {
-      if (val === "true") return true;
-      if (val === "false") return false;
-      return undefined;
-    }),
-  priority: PrioritySchema.optional(),
+export const TodoSortFieldSchema = z.enum(
+  ["createdAt", "dueDate", "priority", "title", "position"],
+  { message: ValidationErrorCodes.INVALID_SORT_FIELD },
+);
+
+export const SortOrderSchema = z.enum(["asc", "desc"], {
+  message: ValidationErrorCodes.INVALID_SORT_ORDER,
+});
+
+export const LabelMatchSchema = z.enum(["any", "all"], {
+  message: ValidationErrorCodes.INVALID_LABEL_MATCH,
 });
+export type LabelMatch = z.infer<typeof LabelMatchSchema>;
+
+export const ListTodosQuerySchema = z
+  .object({
+    completed: z
+      .string()
+      .optional()
+      .transform((val) => {
+        if (val === "true") return true;
+        if (val === "false") return false;
+        return undefined;
+      }),
+    priority: PrioritySchema.optional(),
+    statusId: z
+      .string()
+      .uuid({ message: ValidationErrorCodes.INVALID_STATUS_ID_FORMAT })
+      .optional(),
+    assignedToMe: z
+      .string()
+      .optional()
+      .transform((val) => val === "true"),
+    assigneeMemberId: z
+      .string()
+      .uuid({ message: ValidationErrorCodes.INVALID_MEMBER_ID_FORMAT })
+      .optional(),
+    // Comma separated label ids
+    labelIds: z
+      .string()
+      .optional()
+      .transform((val) =>
+        val
+          ?.split(",")
+          .map((id) => id.trim())
+          .filter(Boolean),
+      )
+      .pipe(LabelIdListSchema.optional())
+      .transform((ids) => (ids?.length ? ids : undefined)),
+    labelMatch: LabelMatchSchema.optional().default("any"),
+    // Saved view whose filters apply beneath the explicit parameters
+    viewId: z
+      .string()
+      .uuid({ message: ValidationErrorCodes.INVALID_VIEW_ID_FORMAT })
+      .optional(),
+    limit: z.coerce
+      .number({ message: ValidationErrorCodes.INVALID_LIMIT })
+      .int({ message: ValidationErrorCodes.INVALID_LIMIT })
+      .min(1, { message: ValidationErrorCodes.INVALID_LIMIT })
+      .max(100, { message: ValidationErrorCodes.INVALID_LIMIT })
+      .optional()
+      .default(20),
+    cursor: z
+      .string()
+      .optional()
+      .transform((val, ctx) => {
+        if (val === undefined) return undefined;
+        const cursor = decodeTodoCursor(val);
+        if (!cursor) {
+          ctx.addIssue({
+            code: "custom",
+            message: ValidationErrorCodes.INVALID_CURSOR,
+          });
+          return z.NEVER;
+        }
+        return cursor;
+      }),
+    sortBy: TodoSortFieldSchema.optional().default("createdAt"),
+    sortOrder: SortOrderSchema.optional().default("desc"),
+    dueFrom: z.coerce
+      .date({ message: ValidationErrorCodes.INVALID_DATE_FORMAT })
+      .optional(),
+    dueTo: z.coerce
+      .date({ message: ValidationErrorCodes.INVALID_DATE_FORMAT })
+      .optional(),
+    search: z
+      .string()
+      .trim()
+      .max(200, { message: ValidationErrorCodes.SEARCH_FIELD_MAX_LENGTH })
+      .optional()
+      .transform((val) => val || undefined),
+  })
+  .superRefine((query, ctx) => {
+    if (query.assignedToMe && query.assigneeMemberId) {
+      ctx.addIssue({
+        code: "custom",
+        message: ValidationErrorCodes.CONFLICTING_ASSIGNEE_FILTERS,
+        path: ["assigneeMemberId"],
+      });
+    }
+    if (query.dueFrom && query.dueTo && query.dueFrom > query.dueTo) {
+      ctx.addIssue({
+        code: "custom",
+        message: ValidationErrorCodes.INVALID_DATE_RANGE,
+        path: ["dueFrom"],
+      });
+    }
+    if (
+      query.cursor &&
+      (query.cursor.sortBy !== query.sortBy ||
+        query.cursor.sortOrder !== query.sortOrder)
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        message: ValidationErrorCodes.INVALID_CURSOR,
+        path: ["cursor"],
+      });
+    }
+  });
 
 export type ListTodosQuery = z.infer<typeof ListTodosQuerySchema>;
 
+export type TodoPage = {
+  data: Todo[];
+  nextCursor: string | null;
+  total: number;
+};
+
 export const TodoResponseSchema = z.object({
   success: z.boolean(),
   data: TodoSchema.optional(),
@@ -109,6 +533,8 @@ export type TodoResponse = z.infer<typeof TodoResponseSchema>;
 export const TodoListResponseSchema = z.object({
   success: z.boolean(),
   data: z.array(TodoSchema).optional(),
+  nextCursor: z.string().nullable().optional(),
+  total: z.number().int().optional(),
   error: z
     .object({
       code: z.string(),
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { buildCommentThreads } from "./build-comment-threads";
+import type { TodoComment } from "../schemas/todo-comment.schema";
+
+const comment = (id: string, parentId?: string): TodoComment => ({
+  id,
+  todoId: "todo-1",
+  parentId,
+  authorMemberId: "member-1",
+  body: `Comment ${id}`,
+  isDeleted: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe("buildCommentThreads", () => {
+  it("should nest replies under their parents in order, when comments form threads", () => {
+    const threads = buildCommentThreads([
+      comment("a"),
+      comment("b"),
+      comment("c", "a"),
+      comment("d", "c"),
+      comment("e", "a"),
+    ]);
+
+    expect(threads.map((thread) => thread.id)).toEqual(["a", "b"]);
+    expect(threads[0].replies.map((reply) => reply.id)).toEqual(["c", "e"]);
+    expect(threads[0].replies[0].replies.map((reply) => reply.id)).toEqual([
+      "d",
+    ]);
+    expect(threads[1].replies).toEqual([]);
+  });
+
+  it("should keep a reply at the top level, when its parent is missing", () => {
+    const threads = buildCommentThreads([comment("c", "gone")]);
+
+    expect(threads.map((thread) => thread.id)).toEqual(["c"]);
+  });
+});
@@ -0,0 +1,28 @@
+import type {
+  TodoComment,
+  TodoCommentThread,
+} from "../schemas/todo-comment.schema";
+
+/**
+ * Nests comments under their parents, keeping the input order at every level.
+ * Replies whose parent is missing are promoted to the top level.
+ */
+export function buildCommentThreads(
+  comments: TodoComment[],
+): TodoCommentThread[] {
+  const threads = new Map<string, TodoCommentThread>(
+    comments.map((comment) => [comment.id, { ...comment, replies: [] }]),
+  );
+
+  const roots: TodoCommentThread[] = [];
+  for (const thread of threads.values()) {
+    const parent = thread.parentId ? threads.get(thread.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  }
+
+  return roots;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { diffTodoFields } from "./diff-todo-fields";
+import type { Todo } from "../schemas/todo.schema";
+
+describe("diffTodoFields", () => {
+  const memberA = "11111111-1111-4111-8111-111111111111";
+  const memberB = "22222222-2222-4222-8222-222222222222";
+  const todo: Todo = {
+    id: "a3b4c5d6-7e8f-4a9b-8c7d-6e5f4a3b2c1d",
+    organizationId: "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b",
+    title: "Grade essays",
+    priority: "medium",
+    dueDate: new Date("2026-04-01T09:00:00.000Z"),
+    completed: false,
+    position: 0,
+    autoCompleteFromItems: false,
+    assigneeMemberIds: [memberA, memberB],
+    watcherMemberIds: [],
+    labelIds: [],
+    reminderOffsets: [],
+    createdAt: new Date("2026-03-01T09:00:00.000Z"),
+    updatedAt: new Date("2026-03-01T09:00:00.000Z"),
+  };
+
+  it("should report old and new values, when tracked fields change", () => {
+    const changes = diffTodoFields(todo, {
+      ...todo,
+      priority: "high",
+      dueDate: undefined,
+      description: "Second period",
+    });
+
+    expect(changes).toEqual([
+      { field: "description", oldValue: null, newValue: "Second period" },
+      { field: "priority", oldValue: "medium", newValue: "high" },
+      {
+        field: "dueDate",
+        oldValue: "2026-04-01T09:00:00.000Z",
+        newValue: null,
+      },
+    ]);
+  });
+
+  it("should ignore reordered lists and untracked fields, when nothing else changed", () => {
+    const changes = diffTodoFields(todo, {
+      ...todo,
+      assigneeMemberIds: [memberB, memberA],
+      progress: 50,
+      updatedAt: new Date(),
+    });
+
+    expect(changes).toEqual([]);
+  });
+
+  it("should compare due dates by value, when the instances differ", () => {
+    const changes = diffTodoFields(todo, {
+      ...todo,
+      dueDate: new Date("2026-04-01T09:00:00.000Z"),
+      assigneeMemberIds: [memberA],
+    });
+
+    expect(changes).toEqual([
+      {
+        field: "assigneeMemberIds",
+        oldValue: [memberA, memberB],
+        newValue: [memberA],
+      },
+    ]);
+  });
+});
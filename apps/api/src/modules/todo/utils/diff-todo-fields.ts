@@ -0,0 +1,45 @@
+import type { Todo } from "../schemas/todo.schema";
+import {
+  TRACKED_TODO_FIELDS,
+  type TodoFieldChange,
+  type TodoHistoryValue,
+} from "../schemas/todo-history.schema";
+
+/**
+ * Lists the tracked fields that differ between two versions of a todo.
+ * Member and label lists are compared as sets.
+ */
+export function diffTodoFields(before: Todo, after: Todo): TodoFieldChange[] {
+  const changes: TodoFieldChange[] = [];
+
+  for (const field of TRACKED_TODO_FIELDS) {
+    const oldValue = toHistoryValue(before[field]);
+    const newValue = toHistoryValue(after[field]);
+
+    if (!isSameValue(oldValue, newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
+
+function toHistoryValue(value: Todo[keyof Todo]): TodoHistoryValue {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return [...(value as string[])];
+  }
+  return value as string | boolean;
+}
+
+function isSameValue(a: TodoHistoryValue, b: TodoHistoryValue): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item) => b.includes(item));
+  }
+  return a === b;
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { normalizeRecurrenceRule, getNextOccurrence } from "./recurrence";
+
+describe("normalizeRecurrenceRule", () => {
+  it("should return the canonical rule, when the rule has a prefix and lowercase parts", () => {
+    expect(normalizeRecurrenceRule("rrule:freq=weekly;byday=mo,we")).toBe(
+      "FREQ=WEEKLY;BYDAY=MO,WE",
+    );
+  });
+
+  it("should reject the rule, when it is malformed or sets DTSTART", () => {
+    expect(normalizeRecurrenceRule("FREQ=SOMETIMES")).toBeUndefined();
+    expect(normalizeRecurrenceRule("BYDAY=MO")).toBeUndefined();
+    expect(
+      normalizeRecurrenceRule("DTSTART:20250101T090000Z\nRRULE:FREQ=DAILY"),
+    ).toBeUndefined();
+  });
+
+  it("should reject the rule, when the frequency is below a day", () => {
+    expect(normalizeRecurrenceRule("FREQ=HOURLY")).toBeUndefined();
+  });
+});
+
+describe("getNextOccurrence", () => {
+  const startsAt = new Date("2025-01-06T09:00:00.000Z");
+
+  it("should return the following date, when the rule has more occurrences", () => {
+    expect(
+      getNextOccurrence("FREQ=WEEKLY;BYDAY=MO", startsAt, startsAt),
+    ).toEqual(new Date("2025-01-13T09:00:00.000Z"));
+  });
+
+  it("should return null, when the rule is exhausted", () => {
+    expect(
+      getNextOccurrence(
+        "FREQ=WEEKLY;COUNT=2",
+        startsAt,
+        new Date("2025-01-13T09:00:00.000Z"),
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { RRule, Frequency } from "rrule";
+
+const SUPPORTED_FREQUENCIES = [
+  Frequency.YEARLY,
+  Frequency.MONTHLY,
+  Frequency.WEEKLY,
+  Frequency.DAILY,
+];
+
+/**
+ * Parses an iCalendar RRULE (with or without the "RRULE:" prefix) and returns
+ * it in canonical form. DTSTART is not accepted because a series is always
+ * anchored at the due date of its first occurrence.
+ */
+export function normalizeRecurrenceRule(rule: string): string | undefined {
+  const value = rule.trim().replace(/^RRULE:/i, "");
+  if (!value || /DTSTART|TZID/i.test(value)) {
+    return undefined;
+  }
+
+  try {
+    const options = RRule.parseString(value.toUpperCase());
+    if (
+      options.freq === undefined ||
+      !SUPPORTED_FREQUENCIES.includes(options.freq)
+    ) {
+      return undefined;
+    }
+    return RRule.optionsToString(options).replace(/^RRULE:/, "");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the first occurrence of the series strictly after `after`, or null
+ * once the rule is exhausted by COUNT or UNTIL.
+ */
+export function getNextOccurrence(
+  rule: string,
+  startsAt: Date,
+  after: Date,
+): Date | null {
+  const recurrence = new RRule({
+    ...RRule.parseString(rule),
+    dtstart: startsAt,
+  });
+
+  return recurrence.after(after, false);
+}
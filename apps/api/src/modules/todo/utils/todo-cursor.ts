@@ -0,0 +1,77 @@
+export type TodoSortField =
+  | "createdAt"
+  | "dueDate"
+  | "priority"
+  | "title"
+  | "position";
+export type SortOrder = "asc" | "desc";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type TodoCursor = {
+  sortBy: TodoSortField;
+  sortOrder: SortOrder;
+  value: string;
+  id: string;
+};
+
+export function encodeTodoCursor(cursor: TodoCursor): string {
+  return Buffer.from(
+    JSON.stringify([cursor.sortBy, cursor.sortOrder, cursor.value, cursor.id]),
+  ).toString("base64url");
+}
+
+export function decodeTodoCursor(encoded: string): TodoCursor | undefined {
+  try {
+    const decoded: unknown = JSON.parse(
+      Buffer.from(encoded, "base64url").toString("utf8"),
+    );
+    if (
+      !Array.isArray(decoded) ||
+      decoded.length !== 4 ||
+      !decoded.every((part) => typeof part === "string")
+    ) {
+      return undefined;
+    }
+
+    const [sortBy, sortOrder, value, id] = decoded as string[];
+    if (
+      !["createdAt", "dueDate", "priority", "title", "position"].includes(
+        sortBy,
+      ) ||
+      !["asc", "desc"].includes(sortOrder) ||
+      !UUID_PATTERN.test(id) ||
+      !isValidSortValue(sortBy as TodoSortField, value)
+    ) {
+      return undefined;
+    }
+
+    return {
+      sortBy: sortBy as TodoSortField,
+      sortOrder: sortOrder as SortOrder,
+      value,
+      id,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+function isValidSortValue(sortBy: TodoSortField, value: string): boolean {
+  switch (sortBy) {
+    case "createdAt":
+    case "dueDate":
+      return (
+        value === "infinity" ||
+        value === "-infinity" ||
+        !Number.isNaN(Date.parse(value))
+      );
+    case "priority":
+      return ["low", "medium", "high"].includes(value);
+    case "title":
+      return true;
+    case "position":
+      return /^-?\d+$/.test(value);
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { todosToCsv, todosToICalendar } from "./todo-export";
+import type { Todo } from "../schemas/todo.schema";
+
+describe("todo export", () => {
+  const buildTodo = (overrides: Partial<Todo> = {}): Todo => ({
+    id: "b4c5d6e7-8f9a-4b0c-8d1e-2f3a4b5c6d7e",
+    organizationId: "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b",
+    title: "Read Hamlet",
+    priority: "medium",
+    completed: false,
+    position: 0,
+    autoCompleteFromItems: false,
+    assigneeMemberIds: [],
+    watcherMemberIds: [],
+    labelIds: [],
+    reminderOffsets: [],
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-01-02T00:00:00.000Z"),
+    ...overrides,
+  });
+
+  const csvCells = (todo: Todo) => todosToCsv([todo]).split("\r\n")[1];
+
+  it("should prefix the cell with a quote, when the text starts like a formula", () => {
+    for (const title of ["=SUM(A1:A2)", "+1", "-1", "@cmd"]) {
+      expect(csvCells(buildTodo({ title }))).toContain(`,'${title},`);
+    }
+  });
+
+  it("should quote the guarded cell, when it also holds a separator", () => {
+    const row = csvCells(buildTodo({ title: '=HYPERLINK("x", 1)' }));
+
+    expect(row).toContain(`,"'=HYPERLINK(""x"", 1)",`);
+  });
+
+  it("should leave the cell alone, when a formula character is not at the start", () => {
+    expect(csvCells(buildTodo({ title: "Chapter 1-3" }))).toContain(
+      ",Chapter 1-3,",
+    );
+  });
+
+  it("should escape every kind of line break, when writing iCalendar text", () => {
+    const calendar = todosToICalendar([
+      buildTodo({ description: "one\r\ntwo\rthree\nfour" }),
+    ]);
+
+    expect(calendar).toContain("DESCRIPTION:one\\ntwo\\nthree\\nfour\r\n");
+  });
+});
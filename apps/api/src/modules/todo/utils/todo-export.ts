@@ -0,0 +1,147 @@
+import type { Priority, Todo } from "../schemas/todo.schema";
+
+// Columns of the csv export. The import reads the writable ones back.
+export const TODO_CSV_COLUMNS = [
+  "id",
+  "title",
+  "description",
+  "priority",
+  "dueDate",
+  "completed",
+  "statusId",
+  "recurrenceRule",
+  "autoCompleteFromItems",
+  "assigneeMemberIds",
+  "watcherMemberIds",
+  "labelIds",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+// Separates the ids inside list columns such as labelIds
+export const CSV_LIST_SEPARATOR = ";";
+
+// Spreadsheets run cells starting with these characters as formulas, so the
+// export prefixes them with a quote, which the import strips again.
+export const CSV_FORMULA_START = /^[=+\-@]/;
+
+const ICALENDAR_PRIORITIES: Record<Priority, number> = {
+  high: 1,
+  medium: 5,
+  low: 9,
+};
+
+export function todosToCsv(todos: Todo[]): string {
+  const rows = todos.map((todo) =>
+    [
+      todo.id,
+      todo.title,
+      todo.description ?? "",
+      todo.priority,
+      todo.dueDate?.toISOString() ?? "",
+      String(todo.completed),
+      todo.statusId ?? "",
+      todo.recurrenceRule ?? "",
+      String(todo.autoCompleteFromItems),
+      todo.assigneeMemberIds.join(CSV_LIST_SEPARATOR),
+      todo.watcherMemberIds.join(CSV_LIST_SEPARATOR),
+      todo.labelIds.join(CSV_LIST_SEPARATOR),
+      todo.createdAt.toISOString(),
+      todo.updatedAt.toISOString(),
+    ]
+      .map(escapeCsvField)
+      .join(","),
+  );
+
+  return [TODO_CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export function todosToJson(todos: Todo[]): string {
+  return JSON.stringify(todos, null, 2);
+}
+
+/**
+ * Writes the todos as VTODO components of one iCalendar (RFC 5545) file.
+ * Dates are written in UTC.
+ */
+export function todosToICalendar(todos: Todo[], now = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//White Board//Todos//EN",
+  ];
+
+  for (const todo of todos) {
+    lines.push(
+      "BEGIN:VTODO",
+      `UID:${todo.id}`,
+      `DTSTAMP:${formatICalendarDate(now)}`,
+      `CREATED:${formatICalendarDate(todo.createdAt)}`,
+      `LAST-MODIFIED:${formatICalendarDate(todo.updatedAt)}`,
+      `SUMMARY:${escapeICalendarText(todo.title)}`,
+    );
+    if (todo.description) {
+      lines.push(`DESCRIPTION:${escapeICalendarText(todo.description)}`);
+    }
+    if (todo.dueDate) {
+      lines.push(`DUE:${formatICalendarDate(todo.dueDate)}`);
+    }
+    lines.push(
+      `PRIORITY:${ICALENDAR_PRIORITIES[todo.priority]}`,
+      `STATUS:${todo.completed ? "COMPLETED" : "NEEDS-ACTION"}`,
+    );
+    if (todo.recurrenceRule) {
+      lines.push(`RRULE:${todo.recurrenceRule}`);
+    }
+    lines.push("END:VTODO");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldICalendarLine).join("\r\n") + "\r\n";
+}
+
+function escapeCsvField(value: string): string {
+  const guarded = CSV_FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(guarded)
+    ? `"${guarded.replace(/"/g, '""')}"`
+    : guarded;
+}
+
+function escapeICalendarText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+// 2026-03-01T09:30:00.000Z -> 20260301T093000Z
+function formatICalendarDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+// Lines longer than 75 octets continue on the next line after a space.
+function foldICalendarLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { parseTodoImportRows } from "./todo-import";
+import { todosToCsv, todosToICalendar, todosToJson } from "./todo-export";
+import type { Todo } from "../schemas/todo.schema";
+
+describe("parseTodoImportRows", () => {
+  const todo: Todo = {
+    id: "b4c5d6e7-8f9a-4b0c-8d1e-2f3a4b5c6d7e",
+    organizationId: "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b",
+    title: 'Read "Hamlet", act 1',
+    description: "Scenes 1-3;\nnotes, quotes and a long tail ".repeat(3),
+    priority: "high",
+    dueDate: new Date("2026-03-01T09:30:00.000Z"),
+    completed: false,
+    position: 0,
+    autoCompleteFromItems: true,
+    recurrenceRule: "FREQ=WEEKLY",
+    assigneeMemberIds: [
+      "11111111-1111-4111-8111-111111111111",
+      "22222222-2222-4222-8222-222222222222",
+    ],
+    watcherMemberIds: [],
+    labelIds: [],
+    reminderOffsets: [],
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-01-02T00:00:00.000Z"),
+  };
+
+  it("should read back the writable fields, when given a csv export", () => {
+    expect(parseTodoImportRows("csv", todosToCsv([todo]))).toEqual([
+      {
+        title: todo.title,
+        description: todo.description,
+        priority: "high",
+        dueDate: "2026-03-01T09:30:00.000Z",
+        recurrenceRule: "FREQ=WEEKLY",
+        autoCompleteFromItems: true,
+        assigneeMemberIds: todo.assigneeMemberIds,
+      },
+    ]);
+  });
+
+  it("should drop the formula guard, when reading formula-like text from a csv export", () => {
+    const listTodo = { ...todo, title: "=2+2", description: "- milk\n- eggs" };
+
+    expect(parseTodoImportRows("csv", todosToCsv([listTodo]))).toMatchObject([
+      { title: "=2+2", description: "- milk\n- eggs" },
+    ]);
+  });
+
+  it("should read back the todo fields, when given an iCalendar export", () => {
+    expect(parseTodoImportRows("ics", todosToICalendar([todo]))).toEqual([
+      {
+        title: todo.title,
+        description: todo.description,
+        priority: "high",
+        dueDate: "2026-03-01T09:30:00.000Z",
+        recurrenceRule: "FREQ=WEEKLY",
+      },
+    ]);
+  });
+
+  it("should return the array items, when given a json export", () => {
+    const rows = parseTodoImportRows("json", todosToJson([todo]));
+
+    expect(rows).toHaveLength(1);
+    expect(rows?.[0]).toMatchObject({ title: todo.title, priority: "high" });
+  });
+
+  it("should skip blank lines and unknown columns, when reading a spreadsheet csv", () => {
+    const csv =
+      "\uFEFFtitle,notes,priority\r\nWater plants,daily,low\r\n,,\r\n";
+
+    expect(parseTodoImportRows("csv", csv)).toEqual([
+      { title: "Water plants", priority: "low" },
+    ]);
+  });
+
+  it("should map priorities and all-day dates, when reading VTODOs from a calendar app", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "SUMMARY:Staff meeting",
+      "END:VEVENT",
+      "BEGIN:VTODO",
+      "SUMMARY:Grade essays",
+      "DUE;VALUE=DATE:20260315",
+      "PRIORITY:7",
+      "BEGIN:VALARM",
+      "DESCRIPTION:Reminder",
+      "END:VALARM",
+      "END:VTODO",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    expect(parseTodoImportRows("ics", ics)).toEqual([
+      {
+        title: "Grade essays",
+        dueDate: "2026-03-15T00:00:00.000Z",
+        priority: "low",
+      },
+    ]);
+  });
+
+  it("should return undefined, when the file cannot be read in the format", () => {
+    expect(parseTodoImportRows("json", "{not json")).toBeUndefined();
+    expect(parseTodoImportRows("json", '{"title":"x"}')).toBeUndefined();
+    expect(parseTodoImportRows("csv", "name,priority\nx,low")).toBeUndefined();
+    expect(parseTodoImportRows("csv", 'title\n"unterminated')).toBeUndefined();
+    expect(parseTodoImportRows("ics", "SUMMARY:x")).toBeUndefined();
+  });
+});
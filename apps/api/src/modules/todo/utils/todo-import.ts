@@ -0,0 +1,211 @@
+import type { TodoFileFormat } from "../schemas/todo.schema";
+import { CSV_FORMULA_START, CSV_LIST_SEPARATOR } from "./todo-export";
+import { parseCsv } from "../../../shared/utils/csv";
+
+type ImportRow = Record<string, unknown>;
+
+const CSV_TEXT_COLUMNS = [
+  "title",
+  "description",
+  "priority",
+  "dueDate",
+  "recurrenceRule",
+];
+const CSV_LIST_COLUMNS = ["assigneeMemberIds", "watcherMemberIds", "labelIds"];
+
+/**
+ * Turns an import file into one raw create input per todo, leaving all
+ * validation to CreateTodoInputSchema. Returns undefined when the file itself
+ * cannot be read in the given format.
+ */
+export function parseTodoImportRows(
+  format: TodoFileFormat,
+  content: string,
+): ImportRow[] | undefined {
+  const text = content.replace(/^\uFEFF/, "");
+
+  switch (format) {
+    case "csv":
+      return parseCsvRows(text);
+    case "json":
+      return parseJsonRows(text);
+    case "ics":
+      return parseICalendarRows(text);
+  }
+}
+
+function parseJsonRows(text: string): ImportRow[] | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+
+  if (!Array.isArray(parsed)) {
+    return undefined;
+  }
+
+  // Anything but an object fails validation on its own row.
+  return parsed.map((row: unknown) =>
+    row !== null && typeof row === "object" ? (row as ImportRow) : {},
+  );
+}
+
+/**
+ * Reads a csv file with a header row. Empty cells count as missing and the
+ * list columns hold ids separated by semicolons, as in the csv export. The
+ * quote the export puts before formula-like text is dropped.
+ */
+function parseCsvRows(text: string): ImportRow[] | undefined {
+  const records = parseCsv(text);
+  if (!records) {
+    return undefined;
+  }
+
+  const [header, ...rows] = records;
+  const columns = header?.map((column) => column.trim()) ?? [];
+  if (!columns.includes("title")) {
+    return undefined;
+  }
+
+  return rows
+    .filter((cells) => cells.some((cell) => cell.trim() !== ""))
+    .map((cells) => {
+      const row: ImportRow = {};
+      columns.forEach((column, index) => {
+        const cell = cells[index] ?? "";
+        if (cell.trim() === "") {
+          return;
+        }
+
+        if (CSV_TEXT_COLUMNS.includes(column)) {
+          row[column] =
+            cell.startsWith("'") && CSV_FORMULA_START.test(cell.slice(1))
+              ? cell.slice(1)
+              : cell;
+        } else if (CSV_LIST_COLUMNS.includes(column)) {
+          row[column] = cell
+            .split(CSV_LIST_SEPARATOR)
+            .map((id) => id.trim())
+            .filter(Boolean);
+        } else if (column === "autoCompleteFromItems") {
+          const flag = cell.trim();
+          row[column] =
+            flag === "true" ? true : flag === "false" ? false : flag;
+        }
+      });
+      return row;
+    });
+}
+
+/**
+ * Reads the VTODO components of an iCalendar file. Other components such as
+ * events are skipped.
+ */
+function parseICalendarRows(text: string): ImportRow[] | undefined {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  if (lines[0]?.trim().toUpperCase() !== "BEGIN:VCALENDAR") {
+    return undefined;
+  }
+
+  const rows: ImportRow[] = [];
+  let current: ImportRow | undefined;
+  // Nested components such as VALARM must not overwrite the todo fields
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const property = parseICalendarProperty(line);
+    if (!property) {
+      continue;
+    }
+    const { name, value } = property;
+
+    if (name === "BEGIN" && value.toUpperCase() === "VTODO") {
+      current = {};
+      nestedDepth = 0;
+    } else if (current && name === "BEGIN") {
+      nestedDepth++;
+    } else if (current && name === "END") {
+      if (nestedDepth > 0) {
+        nestedDepth--;
+      } else if (value.toUpperCase() === "VTODO") {
+        rows.push(current);
+        current = undefined;
+      }
+    } else if (current && nestedDepth === 0) {
+      applyICalendarProperty(current, name, value);
+    }
+  }
+
+  return rows;
+}
+
+function applyICalendarProperty(
+  row: ImportRow,
+  name: string,
+  value: string,
+): void {
+  switch (name) {
+    case "SUMMARY":
+      row.title = unescapeICalendarText(value);
+      break;
+    case "DESCRIPTION":
+      row.description = unescapeICalendarText(value);
+      break;
+    case "DUE":
+      row.dueDate = parseICalendarDate(value);
+      break;
+    case "PRIORITY": {
+      // 1-4 is high, 5 medium and 6-9 low; 0 means undefined
+      const priority = Number(value);
+      if (priority >= 1 && priority <= 4) row.priority = "high";
+      else if (priority === 5) row.priority = "medium";
+      else if (priority >= 6 && priority <= 9) row.priority = "low";
+      break;
+    }
+    case "RRULE":
+      row.recurrenceRule = value;
+      break;
+  }
+}
+
+function parseICalendarProperty(
+  line: string,
+): { name: string; value: string } | undefined {
+  // The value starts at the first colon outside a quoted parameter value.
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ":" && !inQuotes) {
+      const [name] = line.slice(0, i).split(";");
+      return { name: name.trim().toUpperCase(), value: line.slice(i + 1) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Converts DATE and DATE-TIME values to ISO strings. Local and TZID times are
+ * read as UTC and dates as midnight UTC; anything else is passed on for
+ * validation to reject.
+ */
+function parseICalendarDate(value: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(
+    value.trim(),
+  );
+  if (!match) {
+    return value;
+  }
+
+  const [, year, month, day, hour = "00", minute = "00", second = "00"] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}.000Z`;
+}
+
+function unescapeICalendarText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+}
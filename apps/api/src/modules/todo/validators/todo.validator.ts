@@ -1,12 +1,21 @@
 import { todoRepository } from "../repository/todo.repository";
+import { todoLabelRepository } from "../repository/todo-label.repository";
+import { todoStatusRepository } from "../repository/todo-status.repository";
+import { todoViewRepository } from "../repository/todo-view.repository";
 import type { ValidationResult } from "@utils/ValidationResult";
 
 export const todoValidator = {
   validateTitleUniqueness: async (
+    organizationId: string,
     title: string,
     excludeId?: string,
+    excludeSeriesId?: string,
   ): Promise<ValidationResult> => {
-    const existingTodo = await todoRepository.findByTitle(title);
+    const existingTodo = await todoRepository.findByTitle(
+      organizationId,
+      title,
+      excludeSeriesId,
+    );
 
     if (existingTodo && existingTodo.id !== excludeId) {
       return {
@@ -25,4 +34,136 @@ export const todoValidator = {
       isValid: true,
     };
   },
+
+  validateOrganizationMembers: async (
+    organizationId: string,
+    memberIds: string[],
+  ): Promise<ValidationResult> => {
+    const uniqueIds = [...new Set(memberIds)];
+    const existingIds = new Set(
+      await todoRepository.findOrganizationMemberIds(organizationId, uniqueIds),
+    );
+    const missingIds = uniqueIds.filter((id) => !existingIds.has(id));
+
+    if (missingIds.length > 0) {
+      return {
+        isValid: false,
+        errors: missingIds.map((id) => ({
+          value: id,
+          code: "MEMBER_NOT_IN_ORGANIZATION",
+          message: "Member does not belong to this organization",
+        })),
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  },
+
+  validateLabels: async (
+    organizationId: string,
+    labelIds: string[],
+  ): Promise<ValidationResult> => {
+    const existingIds = new Set(
+      await todoLabelRepository.findExistingIds(organizationId, labelIds),
+    );
+    const missingIds = labelIds.filter((id) => !existingIds.has(id));
+
+    if (missingIds.length > 0) {
+      return {
+        isValid: false,
+        errors: missingIds.map((id) => ({
+          value: id,
+          code: "LABEL_NOT_FOUND",
+          message: "Label does not exist in this organization",
+        })),
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  },
+
+  validateLabelNameUniqueness: async (
+    organizationId: string,
+    name: string,
+    excludeId?: string,
+  ): Promise<ValidationResult> => {
+    const existingLabel = await todoLabelRepository.findByName(
+      organizationId,
+      name,
+    );
+
+    if (existingLabel && existingLabel.id !== excludeId) {
+      return {
+        isValid: false,
+        errors: [
+          {
+            value: name,
+            code: "DUPLICATE_LABEL_NAME",
+            message: "Label name already exists",
+          },
+        ],
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  },
+
+  validateStatusNameUniqueness: async (
+    organizationId: string,
+    name: string,
+    excludeId?: string,
+  ): Promise<ValidationResult> => {
+    const existingStatus = await todoStatusRepository.findByName(
+      organizationId,
+      name,
+    );
+
+    if (existingStatus && existingStatus.id !== excludeId) {
+      return {
+        isValid: false,
+        errors: [
+          {
+            value: name,
+            code: "DUPLICATE_STATUS_NAME",
+            message: "Status name already exists",
+          },
+        ],
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  },
+
+  validateViewNameUniqueness: async (
+    memberId: string,
+    name: string,
+    excludeId?: string,
+  ): Promise<ValidationResult> => {
+    const existingView = await todoViewRepository.findByName(memberId, name);
+
+    if (existingView && existingView.id !== excludeId) {
+      return {
+        isValid: false,
+        errors: [
+          {
+            value: name,
+            code: "DUPLICATE_VIEW_NAME",
+            message: "You already have a view with this name",
+          },
+        ],
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  },
 };
@@ -0,0 +1,95 @@
+import fp from "fastify-plugin";
+import type { FastifyInstance } from "fastify";
+import type { LoggerHelpers } from "./logger";
+import { purgeDeletedTodosJob } from "../modules/todo/jobs/purge-deleted-todos.job";
+import { sendTodoRemindersJob } from "../modules/todo/jobs/send-todo-reminders.job";
+import { sendOverdueDigestJob } from "../modules/todo/jobs/send-overdue-digest.job";
+import { expireInvitationsJob } from "../modules/auth/jobs/expire-invitations.job";
+import { deliverOutboxJob } from "../modules/outbox/jobs/deliver-outbox.job";
+
+type ScheduledJob = {
+  name: string;
+  intervalMs: number;
+  run: (logger: LoggerHelpers) => Promise<unknown>;
+};
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const jobs: ScheduledJob[] = [
+  {
+    name: "purge-deleted-todos",
+    intervalMs: 6 * HOUR_MS,
+    run: purgeDeletedTodosJob,
+  },
+  {
+    name: "send-todo-reminders",
+    intervalMs: 5 * MINUTE_MS,
+    run: sendTodoRemindersJob,
+  },
+  {
+    name: "send-overdue-digest",
+    intervalMs: HOUR_MS,
+    run: sendOverdueDigestJob,
+  },
+  {
+    name: "expire-invitations",
+    intervalMs: HOUR_MS,
+    run: expireInvitationsJob,
+  },
+  {
+    name: "deliver-outbox",
+    intervalMs: 15 * SECOND_MS,
+    run: deliverOutboxJob,
+  },
+];
+
+/**
+ * Runs background jobs once the server is ready and then on a fixed interval.
+ * A run is skipped while the previous one is still in progress.
+ *
+ * Set JOBS_ENABLED=false on instances that should not run them.
+ */
+export default fp(
+  async (fastify: FastifyInstance) => {
+    if (process.env.JOBS_ENABLED === "false") {
+      return;
+    }
+
+    const timers: NodeJS.Timeout[] = [];
+
+    fastify.addHook("onReady", async () => {
+      for (const job of jobs) {
+        let isRunning = false;
+
+        const tick = async () => {
+          if (isRunning) {
+            return;
+          }
+          isRunning = true;
+          try {
+            await job.run(fastify.logger);
+          } catch (error) {
+            fastify.logger.error(`Job ${job.name} failed`, error as Error);
+          } finally {
+            isRunning = false;
+          }
+        };
+
+        const timer = setInterval(() => void tick(), job.intervalMs);
+        timer.unref();
+        timers.push(timer);
+        void tick();
+      }
+    });
+
+    fastify.addHook("onClose", async () => {
+      timers.forEach((timer) => clearInterval(timer));
+    });
+  },
+  {
+    name: "jobs",
+    dependencies: ["logger-plugin"],
+  },
+);
@@ -0,0 +1,15 @@
+import fp from "fastify-plugin";
+import websocket from "@fastify/websocket";
+import type { FastifyPluginAsync } from "fastify";
+
+const websocketPlugin: FastifyPluginAsync = async (fastify) => {
+  await fastify.register(websocket, {
+    options: {
+      maxPayload: 1048576,
+    },
+  });
+};
+
+export default fp(websocketPlugin, {
+  name: "websocket",
+});
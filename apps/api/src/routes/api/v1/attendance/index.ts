@@ -0,0 +1,350 @@
+import type { FastifyPluginAsync } from "fastify";
+import { createAttendanceSessionHandler } from "../../../../modules/attendance/commands/create-attendance-session.command";
+import { markAttendanceHandler } from "../../../../modules/attendance/commands/mark-attendance.command";
+import { bulkMarkAttendanceHandler } from "../../../../modules/attendance/commands/bulk-mark-attendance.command";
+import { listAttendanceSessionsHandler } from "../../../../modules/attendance/queries/list-attendance-sessions.query";
+import { getAttendanceSessionHandler } from "../../../../modules/attendance/queries/get-attendance-session.query";
+import { listAttendanceRecordsHandler } from "../../../../modules/attendance/queries/list-attendance-records.query";
+import { requireAuth } from "../../../../modules/auth/middleware/require-auth.middleware";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+
+const attendanceStatusSchema = {
+  type: "string",
+  enum: ["present", "absent", "late", "excused"],
+};
+
+const sessionSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    organizationId: { type: "string", format: "uuid" },
+    courseId: { type: "string", format: "uuid" },
+    sessionDate: { type: "string", format: "date" },
+    topic: { type: ["string", "null"] },
+    createdByMemberId: { type: ["string", "null"] },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const recordProperties = {
+  id: { type: "string", format: "uuid" },
+  sessionId: { type: "string", format: "uuid" },
+  studentMemberId: { type: "string", format: "uuid" },
+  status: attendanceStatusSchema,
+  note: { type: ["string", "null"] },
+  markedByMemberId: { type: ["string", "null"] },
+  createdAt: { type: "string", format: "date-time" },
+  updatedAt: { type: "string", format: "date-time" },
+};
+
+const recordSchema = {
+  type: "object",
+  properties: recordProperties,
+};
+
+const sessionWithRecordsSchema = {
+  type: "object",
+  properties: {
+    ...sessionSchema.properties,
+    records: {
+      type: "array",
+      items: recordSchema,
+    },
+  },
+};
+
+const markSchema = {
+  type: "object",
+  required: ["studentMemberId", "status"],
+  properties: {
+    studentMemberId: { type: "string", format: "uuid" },
+    status: attendanceStatusSchema,
+    note: { type: "string" },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const sessionIdParamsSchema = {
+  type: "object",
+  required: ["id"],
+  properties: {
+    id: { type: "string", format: "uuid" },
+  },
+};
+
+const dateRangeQueryProperties = {
+  courseId: { type: "string", format: "uuid" },
+  from: { type: "string", format: "date" },
+  to: { type: "string", format: "date" },
+};
+
+const attendanceRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.addHook("preHandler", async (request) => {
+    await requireAuth(request);
+  });
+
+  fastify.post(
+    "/sessions",
+    {
+      schema: {
+        tags: ["attendance"],
+        summary: "Create an attendance session",
+        description: "Creates an attendance session for a course on a date",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["courseId", "sessionDate"],
+          properties: {
+            courseId: { type: "string", format: "uuid" },
+            sessionDate: { type: "string", format: "date" },
+            topic: { type: "string" },
+          },
+        },
+        response: {
+          201: sessionSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await createAttendanceSessionHandler(
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.status(201).send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/sessions",
+    {
+      schema: {
+        tags: ["attendance"],
+        summary: "List attendance sessions",
+        description:
+          "Lists attendance sessions of the active organization, optionally filtered by course and date range",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: dateRangeQueryProperties,
+        },
+        response: {
+          200: {
+            type: "array",
+            items: sessionSchema,
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await listAttendanceSessionsHandler(
+          request.query,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/sessions/:id",
+    {
+      schema: {
+        tags: ["attendance"],
+        summary: "Get attendance session",
+        description:
+          "Retrieves an attendance session with its marks. Students and parents only see their own marks",
+        security: [{ bearerAuth: [] }],
+        params: sessionIdParamsSchema,
+        response: {
+          200: sessionWithRecordsSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await getAttendanceSessionHandler(
+          id,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.put(
+    "/sessions/:id/records",
+    {
+      schema: {
+        tags: ["attendance"],
+        summary: "Mark attendance",
+        description: "Creates or updates the attendance mark of a student",
+        security: [{ bearerAuth: [] }],
+        params: sessionIdParamsSchema,
+        body: markSchema,
+        response: {
+          200: recordSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await markAttendanceHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.put(
+    "/sessions/:id/records/bulk",
+    {
+      schema: {
+        tags: ["attendance"],
+        summary: "Bulk mark attendance",
+        description:
+          "Creates or updates the attendance marks of a whole roster in one request",
+        security: [{ bearerAuth: [] }],
+        params: sessionIdParamsSchema,
+        body: {
+          type: "object",
+          required: ["marks"],
+          properties: {
+            marks: {
+              type: "array",
+              items: markSchema,
+            },
+          },
+        },
+        response: {
+          200: sessionWithRecordsSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await bulkMarkAttendanceHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/records",
+    {
+      schema: {
+        tags: ["attendance"],
+        summary: "List attendance records",
+        description:
+          "Lists attendance marks across sessions. Students and parents only see their own records",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            ...dateRangeQueryProperties,
+            studentMemberId: { type: "string", format: "uuid" },
+            status: attendanceStatusSchema,
+          },
+        },
+        response: {
+          200: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                ...recordProperties,
+                courseId: { type: "string", format: "uuid" },
+                sessionDate: { type: "string", format: "date" },
+              },
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await listAttendanceRecordsHandler(
+          request.query,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default attendanceRoutes;
@@ -0,0 +1,197 @@
+import type { FastifyPluginAsync } from "fastify";
+import { createGuardianshipHandler } from "../../../../modules/auth/commands/create-guardianship.command";
+import { deleteGuardianshipHandler } from "../../../../modules/auth/commands/delete-guardianship.command";
+import { listGuardianshipsHandler } from "../../../../modules/auth/queries/list-guardianships.query";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+import { requireAuth } from "../../../../modules/auth/middleware/require-auth.middleware";
+
+const guardianshipSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    organizationId: { type: "string" },
+    parentMemberId: { type: "string" },
+    studentMemberId: { type: "string" },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const guardianshipsRoutes: FastifyPluginAsync = async (fastify) => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.addHook("preHandler", async (request) => {
+    await requireAuth(request);
+  });
+
+  fastify.post(
+    "/",
+    {
+      schema: {
+        tags: ["guardianships"],
+        summary: "Link parent to student",
+        description:
+          "Links a parent member to a student member so the parent can read the student's records",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["organizationId"],
+          properties: {
+            organizationId: { type: "string", format: "uuid" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["parentMemberId", "studentMemberId"],
+          properties: {
+            parentMemberId: { type: "string", format: "uuid" },
+            studentMemberId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          201: {
+            type: "object",
+            properties: {
+              guardianship: guardianshipSchema,
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { organizationId } = request.params as {
+          organizationId: string;
+        };
+        const result = await createGuardianshipHandler(
+          organizationId,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.status(201).send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["guardianships"],
+        summary: "List guardianships",
+        description:
+          "Lists parent-student links. Parents only see their own children and students only see their own guardians",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["organizationId"],
+          properties: {
+            organizationId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              guardianships: {
+                type: "array",
+                items: guardianshipSchema,
+              },
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { organizationId } = request.params as {
+          organizationId: string;
+        };
+        const result = await listGuardianshipsHandler(
+          organizationId,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.delete(
+    "/:guardianshipId",
+    {
+      schema: {
+        tags: ["guardianships"],
+        summary: "Unlink parent from student",
+        description: "Removes a parent-student link",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["organizationId", "guardianshipId"],
+          properties: {
+            organizationId: { type: "string", format: "uuid" },
+            guardianshipId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { organizationId, guardianshipId } = request.params as {
+          organizationId: string;
+          guardianshipId: string;
+        };
+        const result = await deleteGuardianshipHandler(
+          organizationId,
+          guardianshipId,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default guardianshipsRoutes;
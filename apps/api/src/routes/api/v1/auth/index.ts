@@ -13,14 +13,24 @@ import { deleteOrganizationHandler } from "../../../../modules/auth/commands/del
 import { switchOrganizationHandler } from "../../../../modules/auth/commands/switch-organization.command";
 import { listMembersHandler } from "../../../../modules/auth/queries/list-members.query";
 import { removeMemberHandler } from "../../../../modules/auth/commands/remove-member.command";
+import { leaveOrganizationHandler } from "../../../../modules/auth/commands/leave-organization.command";
+import { updateMemberRoleHandler } from "../../../../modules/auth/commands/update-member-role.command";
 import { inviteMemberHandler } from "../../../../modules/auth/commands/invite-member.command";
+import { bulkInviteMembersHandler } from "../../../../modules/auth/commands/bulk-invite-members.command";
 import { acceptInvitationHandler } from "../../../../modules/auth/commands/accept-invitation.command";
 import { listInvitationsHandler } from "../../../../modules/auth/queries/list-invitations.query";
 import { cancelInvitationHandler } from "../../../../modules/auth/commands/cancel-invitation.command";
+import { resendInvitationHandler } from "../../../../modules/auth/commands/resend-invitation.command";
+import { acceptJoinLinkHandler } from "../../../../modules/auth/commands/accept-join-link.command";
+import { joinOrganizationHandler } from "../../../../modules/auth/commands/join-organization.command";
 import { requireAuth } from "../../../../modules/auth/middleware/require-auth.middleware";
 import { createErrorHandler } from "../../../../shared/utils/error-handler";
+import { createETag } from "../../../../shared/utils/etag";
 import { forwardAuthHeaders } from "../../../../shared/utils/forward-auth-headers";
 import rolesRoutes from "./roles";
+import guardianshipsRoutes from "./guardianships";
+import ownershipTransferRoutes from "./ownership-transfer";
+import joinLinksRoutes from "./join-links";
 
 function convertHeaders(request: {
   headers: Record<string, string | string[] | undefined>;
@@ -583,6 +593,8 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
                   email: { type: ["string", "null"] },
                   website: { type: ["string", "null"] },
                   description: { type: ["string", "null"] },
+                  autoJoinDomains: { type: "array", items: { type: "string" } },
+                  autoJoinRole: { type: "string" },
                 },
               },
               role: { type: "string" },
@@ -615,6 +627,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
         if (!result.isSuccess) {
           return reply.status(400).send(result.errors);
         }
+        reply.header("ETag", createETag(result.data.organization.updatedAt));
         return reply.send(result.data);
       } catch (error) {
         return handleError(error, reply);
@@ -630,6 +643,16 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
         summary: "Update organization",
         description: "Updates an organization's details",
         security: [{ bearerAuth: [] }],
+        headers: {
+          type: "object",
+          properties: {
+            "if-match": {
+              type: "string",
+              description:
+                "ETag from a previous read. A stale value is rejected with 412 PRECONDITION_FAILED",
+            },
+          },
+        },
         params: {
           type: "object",
           required: ["organizationId"],
@@ -662,6 +685,16 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
             email: { type: ["string", "null"], format: "email" },
             website: { type: ["string", "null"], format: "url" },
             description: { type: ["string", "null"] },
+            autoJoinDomains: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Verified users with an email on one of these domains, or a subdomain, may join on their own",
+            },
+            autoJoinRole: {
+              type: "string",
+              description: "Role given to users who join by email domain",
+            },
           },
           additionalProperties: false,
         },
@@ -686,6 +719,8 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
                   email: { type: ["string", "null"] },
                   website: { type: ["string", "null"] },
                   description: { type: ["string", "null"] },
+                  autoJoinDomains: { type: "array", items: { type: "string" } },
+                  autoJoinRole: { type: "string" },
                 },
               },
             },
@@ -718,6 +753,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
         if (!result.isSuccess) {
           return reply.status(400).send(result.errors);
         }
+        reply.header("ETag", createETag(result.data.organization.updatedAt));
         return reply.send(result.data);
       } catch (error) {
         return handleError(error, reply);
@@ -906,6 +942,76 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
     },
   );
 
+  fastify.patch(
+    "/organizations/:organizationId/members/:memberId",
+    {
+      schema: {
+        tags: ["auth"],
+        summary: "Update member role",
+        description:
+          "Changes the role of a member. Only owners can grant or revoke the owner role, and the last owner cannot be demoted",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["organizationId", "memberId"],
+          properties: {
+            organizationId: { type: "string", format: "uuid" },
+            memberId: { type: "string", format: "uuid" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["role"],
+          properties: {
+            role: { type: "string" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              role: { type: "string" },
+            },
+          },
+          400: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                path: { type: "array", items: { type: ["string", "number"] } },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        await requireAuth(request);
+        const { organizationId, memberId } = request.params as {
+          organizationId: string;
+          memberId: string;
+        };
+        const body = request.body as Record<string, unknown>;
+        const result = await updateMemberRoleHandler(
+          { ...body, organizationId, memberId },
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
   fastify.delete(
     "/organizations/:organizationId/members/:memberId",
     {
@@ -966,13 +1072,135 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
     },
   );
 
+  fastify.post(
+    "/organizations/:organizationId/leave",
+    {
+      schema: {
+        tags: ["auth"],
+        summary: "Leave organization",
+        description:
+          "Removes the current user from the organization. The sole owner has to transfer ownership first",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["organizationId"],
+          properties: {
+            organizationId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+            },
+          },
+          400: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                path: { type: "array", items: { type: ["string", "number"] } },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        await requireAuth(request);
+        const { organizationId } = request.params as { organizationId: string };
+        const result = await leaveOrganizationHandler(
+          organizationId,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.post(
+    "/organizations/:organizationId/join",
+    {
+      schema: {
+        tags: ["auth"],
+        summary: "Join organization by email domain",
+        description:
+          "Adds the current user with the organization's auto-join role when their verified email is on one of its auto-join domains",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["organizationId"],
+          properties: {
+            organizationId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              organization: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  name: { type: "string" },
+                },
+              },
+              role: { type: "string" },
+            },
+          },
+          400: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                path: { type: "array", items: { type: ["string", "number"] } },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        await requireAuth(request);
+        const { organizationId } = request.params as { organizationId: string };
+        const result = await joinOrganizationHandler(
+          organizationId,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
   fastify.post(
     "/organizations/:organizationId/invitations",
     {
       schema: {
         tags: ["auth"],
         summary: "Invite member",
-        description: "Invites a new member to the organization",
+        description:
+          "Invites a new member to the organization. Parents can be invited for a specific student by passing studentMemberId",
         security: [{ bearerAuth: [] }],
         params: {
           type: "object",
@@ -987,6 +1215,9 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
           properties: {
             email: { type: "string", format: "email" },
             role: { type: "string", minLength: 1 },
+            studentMemberId: { type: "string", format: "uuid" },
+            firstName: { type: "string" },
+            lastName: { type: "string" },
           },
         },
         response: {
@@ -1000,6 +1231,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
                   email: { type: "string" },
                   role: { type: "string" },
                   expiresAt: { type: "string", format: "date-time" },
+                  studentMemberId: { type: "string" },
                 },
               },
             },
@@ -1039,13 +1271,110 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
     },
   );
 
+  fastify.post(
+    "/organizations/:organizationId/invitations/bulk",
+    {
+      schema: {
+        tags: ["auth"],
+        summary: "Invite members in bulk",
+        description:
+          "Invites the rows of a csv or json file with email, role and optional firstName and lastName columns. Existing members and pending invitations are skipped, and dryRun reports the outcome without inviting anyone",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["organizationId"],
+          properties: {
+            organizationId: { type: "string", format: "uuid" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["format", "content"],
+          properties: {
+            format: { type: "string", enum: ["csv", "json"] },
+            content: { type: "string" },
+            dryRun: { type: "boolean", default: false },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              dryRun: { type: "boolean" },
+              invited: { type: "integer" },
+              skipped: { type: "integer" },
+              failed: { type: "integer" },
+              results: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    row: { type: "integer" },
+                    email: { type: "string" },
+                    status: {
+                      type: "string",
+                      enum: ["invited", "skipped", "failed"],
+                    },
+                    invitationId: { type: "string" },
+                    errors: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          code: { type: "string" },
+                          message: { type: "string" },
+                          value: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                path: { type: "array", items: { type: ["string", "number"] } },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        await requireAuth(request);
+        const { organizationId } = request.params as { organizationId: string };
+        const body = request.body as Record<string, unknown>;
+        const result = await bulkInviteMembersHandler(
+          { ...body, organizationId },
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
   fastify.get(
     "/organizations/:organizationId/invitations",
     {
       schema: {
         tags: ["auth"],
         summary: "List invitations",
-        description: "Retrieves a list of pending invitations",
+        description:
+          "Retrieves the invitations of the organization. Pending invitations past their expiry are listed as expired",
         security: [{ bearerAuth: [] }],
         params: {
           type: "object",
@@ -1067,6 +1396,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
                     email: { type: "string" },
                     role: { type: "string" },
                     status: { type: "string" },
+                    expiresAt: { type: "string", format: "date-time" },
                     inviterEmail: { type: "string" },
                   },
                 },
@@ -1167,6 +1497,76 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
     },
   );
 
+  fastify.post(
+    "/organizations/:organizationId/invitations/:invitationId/resend",
+    {
+      schema: {
+        tags: ["auth"],
+        summary: "Resend invitation",
+        description:
+          "Sends a pending or expired invitation again with a new token and a fresh expiry. Links sent before stop working",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["organizationId", "invitationId"],
+          properties: {
+            organizationId: { type: "string", format: "uuid" },
+            invitationId: { type: "string", minLength: 1 },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              invitation: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  email: { type: "string" },
+                  role: { type: "string" },
+                  expiresAt: { type: "string", format: "date-time" },
+                  studentMemberId: { type: "string" },
+                },
+              },
+            },
+          },
+          400: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                path: { type: "array", items: { type: ["string", "number"] } },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        await requireAuth(request);
+        const { organizationId, invitationId } = request.params as {
+          organizationId: string;
+          invitationId: string;
+        };
+        const result = await resendInvitationHandler(
+          { organizationId, invitationId },
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
   fastify.post(
     "/invitations/accept",
     {
@@ -1222,9 +1622,84 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
     },
   );
 
+  fastify.post(
+    "/join-links/accept",
+    {
+      schema: {
+        tags: ["join-links"],
+        summary: "Accept join link",
+        description:
+          "Joins the organization of a join link or class code with the role the link grants",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["code"],
+          properties: {
+            code: { type: "string", minLength: 1 },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              organization: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  name: { type: "string" },
+                },
+              },
+              role: { type: "string" },
+            },
+          },
+          400: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                path: { type: "array", items: { type: ["string", "number"] } },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        await requireAuth(request);
+        const result = await acceptJoinLinkHandler(
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
   await fastify.register(rolesRoutes, {
     prefix: "/organizations/:organizationId/roles",
   });
+
+  await fastify.register(guardianshipsRoutes, {
+    prefix: "/organizations/:organizationId/guardianships",
+  });
+
+  await fastify.register(ownershipTransferRoutes, {
+    prefix: "/organizations/:organizationId/ownership-transfer",
+  });
+
+  await fastify.register(joinLinksRoutes, {
+    prefix: "/organizations/:organizationId/join-links",
+  });
 };
 
 export default authRoutes;
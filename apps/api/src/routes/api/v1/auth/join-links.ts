@@ -0,0 +1,209 @@
+import type { FastifyPluginAsync } from "fastify";
+import { createJoinLinkHandler } from "../../../../modules/auth/commands/create-join-link.command";
+import { revokeJoinLinkHandler } from "../../../../modules/auth/commands/revoke-join-link.command";
+import { listJoinLinksHandler } from "../../../../modules/auth/queries/list-join-links.query";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+import { requireAuth } from "../../../../modules/auth/middleware/require-auth.middleware";
+
+const joinLinkSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    organizationId: { type: "string" },
+    code: { type: "string" },
+    role: { type: "string" },
+    maxUses: { type: ["integer", "null"] },
+    useCount: { type: "integer" },
+    allowedDomains: { type: "array", items: { type: "string" } },
+    expiresAt: { type: ["string", "null"], format: "date-time" },
+    revokedAt: { type: ["string", "null"], format: "date-time" },
+    createdByMemberId: { type: ["string", "null"] },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const organizationParamsSchema = {
+  type: "object",
+  required: ["organizationId"],
+  properties: {
+    organizationId: { type: "string", format: "uuid" },
+  },
+};
+
+const joinLinksRoutes: FastifyPluginAsync = async (fastify) => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.addHook("preHandler", async (request) => {
+    await requireAuth(request);
+  });
+
+  fastify.post(
+    "/",
+    {
+      schema: {
+        tags: ["join-links"],
+        summary: "Create join link",
+        description:
+          "Creates a reusable join link whose code grants the chosen role. It can be limited in uses, expire and be restricted to verified emails on some domains",
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        body: {
+          type: "object",
+          required: ["role"],
+          properties: {
+            role: { type: "string", minLength: 1 },
+            maxUses: { type: ["integer", "null"], minimum: 1 },
+            expiresAt: { type: ["string", "null"], format: "date-time" },
+            allowedDomains: { type: "array", items: { type: "string" } },
+          },
+          additionalProperties: false,
+        },
+        response: {
+          201: {
+            type: "object",
+            properties: {
+              joinLink: joinLinkSchema,
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { organizationId } = request.params as {
+          organizationId: string;
+        };
+        const result = await createJoinLinkHandler(
+          organizationId,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.status(201).send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["join-links"],
+        summary: "List join links",
+        description:
+          "Lists the organization's join links, newest first, with whether each is active, revoked, expired or used up",
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              joinLinks: {
+                type: "array",
+                items: {
+                  ...joinLinkSchema,
+                  properties: {
+                    ...joinLinkSchema.properties,
+                    status: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { organizationId } = request.params as {
+          organizationId: string;
+        };
+        const result = await listJoinLinksHandler(
+          organizationId,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.delete(
+    "/:joinLinkId",
+    {
+      schema: {
+        tags: ["join-links"],
+        summary: "Revoke join link",
+        description:
+          "Revokes a join link so its code can no longer be used. Existing members keep their membership",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["organizationId", "joinLinkId"],
+          properties: {
+            organizationId: { type: "string", format: "uuid" },
+            joinLinkId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              joinLink: joinLinkSchema,
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { organizationId, joinLinkId } = request.params as {
+          organizationId: string;
+          joinLinkId: string;
+        };
+        const result = await revokeJoinLinkHandler(
+          organizationId,
+          joinLinkId,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default joinLinksRoutes;
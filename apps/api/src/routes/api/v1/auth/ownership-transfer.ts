@@ -0,0 +1,226 @@
+import type { FastifyPluginAsync } from "fastify";
+import { createOwnershipTransferHandler } from "../../../../modules/auth/commands/create-ownership-transfer.command";
+import { acceptOwnershipTransferHandler } from "../../../../modules/auth/commands/accept-ownership-transfer.command";
+import { cancelOwnershipTransferHandler } from "../../../../modules/auth/commands/cancel-ownership-transfer.command";
+import { getOwnershipTransferHandler } from "../../../../modules/auth/queries/get-ownership-transfer.query";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+import { requireAuth } from "../../../../modules/auth/middleware/require-auth.middleware";
+
+const ownershipTransferSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    organizationId: { type: "string" },
+    fromMemberId: { type: "string" },
+    toMemberId: { type: "string" },
+    status: { type: "string" },
+    createdAt: { type: "string", format: "date-time" },
+    respondedAt: { type: ["string", "null"], format: "date-time" },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const organizationParamsSchema = {
+  type: "object",
+  required: ["organizationId"],
+  properties: {
+    organizationId: { type: "string", format: "uuid" },
+  },
+};
+
+const ownershipTransferRoutes: FastifyPluginAsync = async (fastify) => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.addHook("preHandler", async (request) => {
+    await requireAuth(request);
+  });
+
+  fastify.post(
+    "/",
+    {
+      schema: {
+        tags: ["ownership"],
+        summary: "Nominate new owner",
+        description:
+          "Nominates a member to take over ownership. The roles only swap once the nominee accepts, and a new nomination replaces a pending one",
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        body: {
+          type: "object",
+          required: ["memberId"],
+          properties: {
+            memberId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          201: {
+            type: "object",
+            properties: {
+              transfer: ownershipTransferSchema,
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { organizationId } = request.params as {
+          organizationId: string;
+        };
+        const result = await createOwnershipTransferHandler(
+          organizationId,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.status(201).send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["ownership"],
+        summary: "Get pending ownership transfer",
+        description:
+          "Returns the pending ownership transfer. Only owners and the nominated member can see it",
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              transfer: ownershipTransferSchema,
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { organizationId } = request.params as {
+          organizationId: string;
+        };
+        const result = await getOwnershipTransferHandler(
+          organizationId,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.post(
+    "/accept",
+    {
+      schema: {
+        tags: ["ownership"],
+        summary: "Accept ownership transfer",
+        description:
+          "Accepts the pending transfer as the nominated member. The nominee becomes owner and the previous owner takes the nominee's former role",
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              transfer: ownershipTransferSchema,
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { organizationId } = request.params as {
+          organizationId: string;
+        };
+        const result = await acceptOwnershipTransferHandler(
+          organizationId,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.delete(
+    "/",
+    {
+      schema: {
+        tags: ["ownership"],
+        summary: "Cancel or decline ownership transfer",
+        description:
+          "Closes the pending transfer. Owners cancel it and the nominated member declines it",
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { organizationId } = request.params as {
+          organizationId: string;
+        };
+        const result = await cancelOwnershipTransferHandler(
+          organizationId,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default ownershipTransferRoutes;
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+
+vi.mock("@repo/database", () => ({
+  db: {},
+  eq: vi.fn(),
+  and: vi.fn(),
+  desc: vi.fn(),
+  sql: vi.fn(),
+}));
+
+const getBoardByIdHandler = vi.hoisted(() => vi.fn());
+const applyBoardOperationHandler = vi.hoisted(() => vi.fn());
+
+vi.mock("../../../../modules/board/queries/get-board-by-id.query", () => ({
+  getBoardByIdHandler,
+}));
+
+vi.mock(
+  "../../../../modules/board/commands/apply-board-operation.command",
+  () => ({ applyBoardOperationHandler }),
+);
+
+vi.mock("../../../../modules/auth/middleware/require-auth.middleware", () => ({
+  requireAuth: vi.fn(),
+}));
+
+import loggerPlugin from "../../../../plugins/logger";
+import websocketPlugin from "../../../../plugins/websocket";
+import boardsRoutes from "./index";
+
+describe("GET /boards/:id/live", () => {
+  const boardId = "c1d2e3f4-a5b6-4c7d-8e9f-0a1b2c3d4e5f";
+  const board = {
+    id: boardId,
+    organizationId: "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b",
+    title: "Fractions",
+    version: 1,
+    elements: [],
+  };
+  const operation = {
+    type: "element.add",
+    element: { id: "el-1", type: "stroke" },
+  };
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    applyBoardOperationHandler.mockResolvedValue({
+      isSuccess: true,
+      data: { operation, board: { ...board, version: 2 } },
+    });
+
+    app = Fastify();
+    await app.register(loggerPlugin);
+    await app.register(websocketPlugin);
+    await app.register(boardsRoutes, { prefix: "/boards" });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("should apply messages sent before the snapshot, when the board is still loading", async () => {
+    let loadBoard: (value: unknown) => void = () => {};
+    getBoardByIdHandler.mockReturnValue(
+      new Promise((resolve) => {
+        loadBoard = resolve;
+      }),
+    );
+
+    const socket = await app.injectWS(`/boards/${boardId}/live`);
+    const received: { type: string }[] = [];
+    const operationReceived = new Promise<void>((resolve) => {
+      socket.on("message", (raw) => {
+        const message = JSON.parse(raw.toString());
+        received.push(message);
+        if (message.type === "board.operation") resolve();
+      });
+    });
+
+    await new Promise((resolve) =>
+      socket.send(JSON.stringify(operation), resolve),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(getBoardByIdHandler).toHaveBeenCalled();
+    loadBoard({ isSuccess: true, data: board });
+    await operationReceived;
+    socket.terminate();
+
+    expect(applyBoardOperationHandler).toHaveBeenCalledWith(
+      boardId,
+      operation,
+      expect.anything(),
+      expect.anything(),
+    );
+    expect(received.map((message) => message.type)).toEqual([
+      "board.snapshot",
+      "board.operation",
+    ]);
+  });
+});
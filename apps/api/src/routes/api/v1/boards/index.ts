@@ -0,0 +1,386 @@
+import type { FastifyPluginAsync } from "fastify";
+import type { RawData } from "ws";
+import { createBoardHandler } from "../../../../modules/board/commands/create-board.command";
+import { updateBoardHandler } from "../../../../modules/board/commands/update-board.command";
+import { deleteBoardHandler } from "../../../../modules/board/commands/delete-board.command";
+import { applyBoardOperationHandler } from "../../../../modules/board/commands/apply-board-operation.command";
+import { getAllBoardsHandler } from "../../../../modules/board/queries/get-all-boards.query";
+import { getBoardByIdHandler } from "../../../../modules/board/queries/get-board-by-id.query";
+import { boardRooms } from "../../../../modules/board/utils/board-rooms";
+import { requireAuth } from "../../../../modules/auth/middleware/require-auth.middleware";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+
+const boardElementSchema = {
+  type: "object",
+  additionalProperties: true,
+  properties: {
+    id: { type: "string" },
+    type: { type: "string", enum: ["stroke", "shape", "text", "image"] },
+  },
+};
+
+const boardSummaryProperties = {
+  id: { type: "string", format: "uuid" },
+  organizationId: { type: "string", format: "uuid" },
+  title: { type: "string" },
+  version: { type: "integer" },
+  createdByMemberId: { type: ["string", "null"] },
+  createdAt: { type: "string", format: "date-time" },
+  updatedAt: { type: "string", format: "date-time" },
+};
+
+const boardSummarySchema = {
+  type: "object",
+  properties: boardSummaryProperties,
+};
+
+const boardSchema = {
+  type: "object",
+  properties: {
+    ...boardSummaryProperties,
+    elements: {
+      type: "array",
+      items: boardElementSchema,
+    },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const boardIdParamsSchema = {
+  type: "object",
+  required: ["id"],
+  properties: {
+    id: { type: "string", format: "uuid" },
+  },
+};
+
+const boardsRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.addHook("preHandler", async (request) => {
+    await requireAuth(request);
+  });
+
+  fastify.post(
+    "/",
+    {
+      schema: {
+        tags: ["boards"],
+        summary: "Create a board",
+        description:
+          "Creates a whiteboard in the active organization with optional initial elements",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["title"],
+          properties: {
+            title: { type: "string" },
+            elements: {
+              type: "array",
+              items: boardElementSchema,
+            },
+          },
+        },
+        response: {
+          201: boardSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await createBoardHandler(
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.status(201).send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["boards"],
+        summary: "List boards",
+        description:
+          "Retrieves all boards of the active organization without their elements, most recently updated first",
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: "array",
+            items: boardSummarySchema,
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await getAllBoardsHandler(request, fastify.logger);
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/:id",
+    {
+      schema: {
+        tags: ["boards"],
+        summary: "Get a board",
+        description: "Retrieves a board with all of its elements",
+        security: [{ bearerAuth: [] }],
+        params: boardIdParamsSchema,
+        response: {
+          200: boardSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await getBoardByIdHandler(id, request, fastify.logger);
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.patch(
+    "/:id",
+    {
+      schema: {
+        tags: ["boards"],
+        summary: "Update a board",
+        description:
+          "Renames a board or replaces all of its elements. Connected viewers receive the updated board",
+        security: [{ bearerAuth: [] }],
+        params: boardIdParamsSchema,
+        body: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            elements: {
+              type: "array",
+              items: boardElementSchema,
+            },
+          },
+        },
+        response: {
+          200: boardSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await updateBoardHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        boardRooms.broadcast(result.data.id, {
+          type: "board.updated",
+          board: result.data,
+        });
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.delete(
+    "/:id",
+    {
+      schema: {
+        tags: ["boards"],
+        summary: "Delete a board",
+        description:
+          "Deletes a board and disconnects everyone currently viewing it",
+        security: [{ bearerAuth: [] }],
+        params: boardIdParamsSchema,
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await deleteBoardHandler(id, request, fastify.logger);
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        boardRooms.close(id, { type: "board.deleted", boardId: id });
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/:id/live",
+    {
+      websocket: true,
+      schema: {
+        tags: ["boards"],
+        summary: "Join a board's realtime channel",
+        description:
+          "Upgrades to a WebSocket authenticated with the session cookie or bearer token. The server first sends a board.snapshot message; clients then send element.add, element.update, element.remove or board.clear operations, which are persisted and broadcast to every viewer as board.operation messages",
+        security: [{ bearerAuth: [] }],
+        params: boardIdParamsSchema,
+      },
+    },
+    async (socket, request) => {
+      const { id } = request.params as { id: string };
+
+      // The listener is attached before the board is loaded so that nothing
+      // the client sends right after connecting is lost. Those messages are
+      // held back until the snapshot has been sent.
+      const buffered: RawData[] = [];
+      let applyMessage = (raw: RawData) => {
+        buffered.push(raw);
+      };
+      let leaveRoom = () => {};
+      let closed = false;
+
+      socket.on("message", (raw: RawData) => applyMessage(raw));
+      socket.on("close", () => {
+        closed = true;
+        leaveRoom();
+      });
+
+      const boardResult = await getBoardByIdHandler(
+        id,
+        request,
+        fastify.logger,
+      );
+      if (!boardResult.isSuccess) {
+        boardRooms.send(socket, { type: "error", errors: boardResult.errors });
+        socket.close(1008, "Board unavailable");
+        return;
+      }
+      if (closed) return;
+
+      const board = boardResult.data;
+      boardRooms.join(board.id, socket);
+      leaveRoom = () => boardRooms.leave(board.id, socket);
+      boardRooms.send(socket, {
+        type: "board.snapshot",
+        board,
+      });
+
+      // Operations are applied one at a time per connection so a viewer's
+      // edits are persisted in the order they were sent.
+      let pending = Promise.resolve();
+
+      applyMessage = (raw) => {
+        pending = pending.then(async () => {
+          let payload: unknown;
+          try {
+            payload = JSON.parse(raw.toString());
+          } catch {
+            boardRooms.send(socket, {
+              type: "error",
+              errors: [
+                {
+                  code: "VALIDATION_ERROR",
+                  message: "Message must be valid JSON",
+                },
+              ],
+            });
+            return;
+          }
+
+          try {
+            const result = await applyBoardOperationHandler(
+              board.id,
+              payload,
+              request,
+              fastify.logger,
+            );
+
+            if (!result.isSuccess) {
+              boardRooms.send(socket, { type: "error", errors: result.errors });
+              return;
+            }
+
+            boardRooms.broadcast(board.id, {
+              type: "board.operation",
+              operation: result.data.operation,
+              version: result.data.board.version,
+              userId: request.user?.id,
+            });
+          } catch (error) {
+            fastify.logger.error("Failed to apply board operation", {
+              boardId: board.id,
+              err: error,
+            });
+            boardRooms.send(socket, {
+              type: "error",
+              errors: [
+                {
+                  code: "INTERNAL_ERROR",
+                  message: "Failed to apply board operation",
+                },
+              ],
+            });
+          }
+        });
+      };
+
+      for (const raw of buffered.splice(0)) {
+        applyMessage(raw);
+      }
+    },
+  );
+};
+
+export default boardsRoutes;
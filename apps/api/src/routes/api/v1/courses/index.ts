@@ -0,0 +1,444 @@
+import type { FastifyPluginAsync } from "fastify";
+import { createCourseHandler } from "../../../../modules/course/commands/create-course.command";
+import { updateCourseHandler } from "../../../../modules/course/commands/update-course.command";
+import { deleteCourseHandler } from "../../../../modules/course/commands/delete-course.command";
+import { assignCourseInstructorHandler } from "../../../../modules/course/commands/assign-course-instructor.command";
+import { removeCourseInstructorHandler } from "../../../../modules/course/commands/remove-course-instructor.command";
+import { enrollCourseStudentHandler } from "../../../../modules/course/commands/enroll-course-student.command";
+import { unenrollCourseStudentHandler } from "../../../../modules/course/commands/unenroll-course-student.command";
+import { getAllCoursesHandler } from "../../../../modules/course/queries/get-all-courses.query";
+import { getCourseByIdHandler } from "../../../../modules/course/queries/get-course-by-id.query";
+import { requireAuth } from "../../../../modules/auth/middleware/require-auth.middleware";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+
+const courseMemberSchema = {
+  type: "object",
+  properties: {
+    memberId: { type: "string" },
+    userId: { type: "string" },
+    firstName: { type: ["string", "null"] },
+    lastName: { type: ["string", "null"] },
+    email: { type: "string" },
+  },
+};
+
+const courseSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    organizationId: { type: "string", format: "uuid" },
+    name: { type: "string" },
+    code: { type: "string" },
+    description: { type: ["string", "null"] },
+    instructors: {
+      type: "array",
+      items: courseMemberSchema,
+    },
+    students: {
+      type: "array",
+      items: courseMemberSchema,
+    },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const courseIdParamsSchema = {
+  type: "object",
+  required: ["id"],
+  properties: {
+    id: { type: "string", format: "uuid" },
+  },
+};
+
+const coursesRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.addHook("preHandler", async (request) => {
+    await requireAuth(request);
+  });
+
+  fastify.post(
+    "/",
+    {
+      schema: {
+        tags: ["courses"],
+        summary: "Create a course",
+        description:
+          "Creates a course in the active organization with optional instructors",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["name", "code"],
+          properties: {
+            name: { type: "string" },
+            code: { type: "string" },
+            description: { type: "string" },
+            instructorMemberIds: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+            },
+          },
+        },
+        response: {
+          201: courseSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await createCourseHandler(
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.status(201).send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["courses"],
+        summary: "List courses",
+        description:
+          "Retrieves all courses of the active organization. Students only see their own courses and parents only see courses of their linked students",
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: "array",
+            items: courseSchema,
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await getAllCoursesHandler(request, fastify.logger);
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/:id",
+    {
+      schema: {
+        tags: ["courses"],
+        summary: "Get course by ID",
+        description: "Retrieves a single course with its instructors",
+        security: [{ bearerAuth: [] }],
+        params: courseIdParamsSchema,
+        response: {
+          200: courseSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await getCourseByIdHandler(id, request, fastify.logger);
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.patch(
+    "/:id",
+    {
+      schema: {
+        tags: ["courses"],
+        summary: "Update a course",
+        description: "Updates the name, code or description of a course",
+        security: [{ bearerAuth: [] }],
+        params: courseIdParamsSchema,
+        body: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            code: { type: "string" },
+            description: { type: ["string", "null"] },
+          },
+        },
+        response: {
+          200: courseSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await updateCourseHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.delete(
+    "/:id",
+    {
+      schema: {
+        tags: ["courses"],
+        summary: "Delete a course",
+        description: "Deletes a course and its instructor assignments",
+        security: [{ bearerAuth: [] }],
+        params: courseIdParamsSchema,
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await deleteCourseHandler(id, request, fastify.logger);
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.post(
+    "/:id/instructors",
+    {
+      schema: {
+        tags: ["courses"],
+        summary: "Assign course instructor",
+        description: "Assigns a teacher of the organization to a course",
+        security: [{ bearerAuth: [] }],
+        params: courseIdParamsSchema,
+        body: {
+          type: "object",
+          required: ["memberId"],
+          properties: {
+            memberId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: courseSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await assignCourseInstructorHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.delete(
+    "/:id/instructors/:memberId",
+    {
+      schema: {
+        tags: ["courses"],
+        summary: "Remove course instructor",
+        description: "Removes an instructor assignment from a course",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["id", "memberId"],
+          properties: {
+            id: { type: "string", format: "uuid" },
+            memberId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id, memberId } = request.params as {
+          id: string;
+          memberId: string;
+        };
+        const result = await removeCourseInstructorHandler(
+          id,
+          memberId,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.post(
+    "/:id/students",
+    {
+      schema: {
+        tags: ["courses"],
+        summary: "Enroll course student",
+        description: "Adds a student of the organization to the course roster",
+        security: [{ bearerAuth: [] }],
+        params: courseIdParamsSchema,
+        body: {
+          type: "object",
+          required: ["studentMemberId"],
+          properties: {
+            studentMemberId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: courseSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await enrollCourseStudentHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.delete(
+    "/:id/students/:studentMemberId",
+    {
+      schema: {
+        tags: ["courses"],
+        summary: "Unenroll course student",
+        description: "Removes a student from the course roster",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["id", "studentMemberId"],
+          properties: {
+            id: { type: "string", format: "uuid" },
+            studentMemberId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id, studentMemberId } = request.params as {
+          id: string;
+          studentMemberId: string;
+        };
+        const result = await unenrollCourseStudentHandler(
+          id,
+          studentMemberId,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default coursesRoutes;
@@ -0,0 +1,447 @@
+import type { FastifyPluginAsync } from "fastify";
+import { createGradeItemHandler } from "../../../../modules/grade/commands/create-grade-item.command";
+import { updateGradeItemHandler } from "../../../../modules/grade/commands/update-grade-item.command";
+import { recordGradeScoresHandler } from "../../../../modules/grade/commands/record-grade-scores.command";
+import { setCategoryWeightsHandler } from "../../../../modules/grade/commands/set-category-weights.command";
+import { listGradeItemsHandler } from "../../../../modules/grade/queries/list-grade-items.query";
+import { listGradeScoresHandler } from "../../../../modules/grade/queries/list-grade-scores.query";
+import { getCourseAveragesHandler } from "../../../../modules/grade/queries/get-course-averages.query";
+import { requireAuth } from "../../../../modules/auth/middleware/require-auth.middleware";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+
+const gradeCategorySchema = {
+  type: "string",
+  enum: ["assignment", "quiz", "exam"],
+};
+
+const gradeItemSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    organizationId: { type: "string", format: "uuid" },
+    courseId: { type: "string", format: "uuid" },
+    name: { type: "string" },
+    category: gradeCategorySchema,
+    maxPoints: { type: "number" },
+    weight: { type: "number" },
+    dueDate: { type: ["string", "null"], format: "date-time" },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const gradeScoreSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    gradeItemId: { type: "string", format: "uuid" },
+    studentMemberId: { type: "string", format: "uuid" },
+    points: { type: "number" },
+    feedback: { type: ["string", "null"] },
+    gradedByMemberId: { type: ["string", "null"] },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const categoryWeightSchema = {
+  type: "object",
+  properties: {
+    category: gradeCategorySchema,
+    weight: { type: "number" },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const gradeItemIdParamsSchema = {
+  type: "object",
+  required: ["id"],
+  properties: {
+    id: { type: "string", format: "uuid" },
+  },
+};
+
+const courseIdParamsSchema = {
+  type: "object",
+  required: ["courseId"],
+  properties: {
+    courseId: { type: "string", format: "uuid" },
+  },
+};
+
+const gradesRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.addHook("preHandler", async (request) => {
+    await requireAuth(request);
+  });
+
+  fastify.post(
+    "/items",
+    {
+      schema: {
+        tags: ["grades"],
+        summary: "Create a grade item",
+        description:
+          "Creates an assignment, quiz or exam with its weight and maximum points",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["courseId", "name", "category", "maxPoints"],
+          properties: {
+            courseId: { type: "string", format: "uuid" },
+            name: { type: "string" },
+            category: gradeCategorySchema,
+            maxPoints: { type: "number" },
+            weight: { type: "number" },
+            dueDate: { type: "string", format: "date-time" },
+          },
+        },
+        response: {
+          201: gradeItemSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await createGradeItemHandler(
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.status(201).send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/items",
+    {
+      schema: {
+        tags: ["grades"],
+        summary: "List grade items",
+        description: "Lists grade items, optionally filtered by course",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            courseId: { type: "string", format: "uuid" },
+            category: gradeCategorySchema,
+          },
+        },
+        response: {
+          200: {
+            type: "array",
+            items: gradeItemSchema,
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await listGradeItemsHandler(
+          request.query,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.patch(
+    "/items/:id",
+    {
+      schema: {
+        tags: ["grades"],
+        summary: "Update a grade item",
+        description: "Updates the name, category, weight or points of an item",
+        security: [{ bearerAuth: [] }],
+        params: gradeItemIdParamsSchema,
+        body: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            category: gradeCategorySchema,
+            maxPoints: { type: "number" },
+            weight: { type: "number" },
+            dueDate: { type: ["string", "null"], format: "date-time" },
+          },
+        },
+        response: {
+          200: gradeItemSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await updateGradeItemHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.put(
+    "/items/:id/scores",
+    {
+      schema: {
+        tags: ["grades"],
+        summary: "Record scores",
+        description: "Creates or updates student scores for a grade item",
+        security: [{ bearerAuth: [] }],
+        params: gradeItemIdParamsSchema,
+        body: {
+          type: "object",
+          required: ["scores"],
+          properties: {
+            scores: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["studentMemberId", "points"],
+                properties: {
+                  studentMemberId: { type: "string", format: "uuid" },
+                  points: { type: "number" },
+                  feedback: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        response: {
+          200: {
+            type: "array",
+            items: gradeScoreSchema,
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await recordGradeScoresHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/scores",
+    {
+      schema: {
+        tags: ["grades"],
+        summary: "List scores",
+        description:
+          "Lists recorded scores. Students and parents only see their own results",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            courseId: { type: "string", format: "uuid" },
+            gradeItemId: { type: "string", format: "uuid" },
+            studentMemberId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: {
+            type: "array",
+            items: gradeScoreSchema,
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await listGradeScoresHandler(
+          request.query,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.put(
+    "/courses/:courseId/weights",
+    {
+      schema: {
+        tags: ["grades"],
+        summary: "Set category weights",
+        description:
+          "Replaces the assignment, quiz and exam weights used for course averages",
+        security: [{ bearerAuth: [] }],
+        params: courseIdParamsSchema,
+        body: {
+          type: "object",
+          required: ["weights"],
+          properties: {
+            weights: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["category", "weight"],
+                properties: categoryWeightSchema.properties,
+              },
+            },
+          },
+        },
+        response: {
+          200: {
+            type: "array",
+            items: categoryWeightSchema,
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { courseId } = request.params as { courseId: string };
+        const result = await setCategoryWeightsHandler(
+          courseId,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/courses/:courseId/averages",
+    {
+      schema: {
+        tags: ["grades"],
+        summary: "Get course averages",
+        description:
+          "Computes weighted averages per student as percentages. Students and parents only see their own results",
+        security: [{ bearerAuth: [] }],
+        params: courseIdParamsSchema,
+        querystring: {
+          type: "object",
+          properties: {
+            studentMemberId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              weights: {
+                type: "array",
+                items: categoryWeightSchema,
+              },
+              students: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    studentMemberId: { type: "string", format: "uuid" },
+                    average: { type: ["number", "null"] },
+                    categories: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          category: gradeCategorySchema,
+                          weight: { type: "number" },
+                          average: { type: "number" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { courseId } = request.params as { courseId: string };
+        const result = await getCourseAveragesHandler(
+          courseId,
+          request.query,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default gradesRoutes;
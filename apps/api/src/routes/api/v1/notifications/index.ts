@@ -0,0 +1,121 @@
+import type { FastifyPluginAsync } from "fastify";
+import { markNotificationReadHandler } from "../../../../modules/notification/commands/mark-notification-read.command";
+import { getNotificationsHandler } from "../../../../modules/notification/queries/get-notifications.query";
+import { requireAuth } from "../../../../modules/auth/middleware/require-auth.middleware";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+
+const notificationSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    organizationId: { type: "string", format: "uuid" },
+    memberId: { type: "string", format: "uuid" },
+    type: {
+      type: "string",
+      enum: ["todo.reminder", "todo.overdue_digest"],
+    },
+    payload: { type: "object", additionalProperties: true },
+    readAt: { type: ["string", "null"], format: "date-time" },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const notificationsRoutes: FastifyPluginAsync = async (fastify) => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.addHook("preHandler", async (request) => {
+    await requireAuth(request);
+  });
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["notifications"],
+        summary: "List notifications",
+        description:
+          "Returns the newest notifications of the current member in the active organization, such as todo reminders and the daily overdue digest",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            unreadOnly: { type: "string", enum: ["true", "false"] },
+            limit: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+          },
+        },
+        response: {
+          200: { type: "array", items: notificationSchema },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await getNotificationsHandler(
+          request.query,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.patch(
+    "/:notificationId/read",
+    {
+      schema: {
+        tags: ["notifications"],
+        summary: "Mark a notification read",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["notificationId"],
+          properties: {
+            notificationId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: notificationSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await markNotificationReadHandler(
+          request.params,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default notificationsRoutes;
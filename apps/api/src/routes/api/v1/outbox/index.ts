@@ -0,0 +1,123 @@
+import type { FastifyPluginAsync } from "fastify";
+import { retryOutboxMessageHandler } from "../../../../modules/outbox/commands/retry-outbox-message.command";
+import { listOutboxMessagesHandler } from "../../../../modules/outbox/queries/list-outbox-messages.query";
+import { requireAuth } from "../../../../modules/auth/middleware/require-auth.middleware";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+
+const outboxMessageSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    organizationId: { type: "string", format: "uuid" },
+    topic: { type: "string", enum: ["email", "notification"] },
+    payload: { type: "object", additionalProperties: true },
+    status: { type: "string", enum: ["pending", "delivered", "dead"] },
+    attempts: { type: "integer" },
+    nextAttemptAt: { type: "string", format: "date-time" },
+    lastError: { type: "string" },
+    deliveredAt: { type: "string", format: "date-time" },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const outboxRoutes: FastifyPluginAsync = async (fastify) => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.addHook("preHandler", async (request) => {
+    await requireAuth(request);
+  });
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["outbox"],
+        summary: "List outbound messages",
+        description:
+          "Returns the newest emails and notification deliveries of the active organization with their delivery state, including account emails such as password resets sent to its members. Dead messages ran out of attempts and can be retried",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            status: { type: "string", enum: ["pending", "delivered", "dead"] },
+            limit: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+          },
+        },
+        response: {
+          200: { type: "array", items: outboxMessageSchema },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await listOutboxMessagesHandler(
+          request.query,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.post(
+    "/:messageId/retry",
+    {
+      schema: {
+        tags: ["outbox"],
+        summary: "Retry a dead message",
+        description:
+          "Queues a dead-lettered message again with a fresh set of attempts",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          required: ["messageId"],
+          properties: {
+            messageId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          200: outboxMessageSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await retryOutboxMessageHandler(
+          request.params,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default outboxRoutes;
@@ -0,0 +1,222 @@
+import type { FastifyPluginAsync } from "fastify";
+import { createTodoCommentHandler } from "../../../../modules/todo/commands/create-todo-comment.command";
+import { updateTodoCommentHandler } from "../../../../modules/todo/commands/update-todo-comment.command";
+import { deleteTodoCommentHandler } from "../../../../modules/todo/commands/delete-todo-comment.command";
+import { getTodoCommentsHandler } from "../../../../modules/todo/queries/get-todo-comments.query";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+
+const todoCommentProperties = {
+  id: { type: "string", format: "uuid" },
+  todoId: { type: "string", format: "uuid" },
+  parentId: { type: ["string", "null"], format: "uuid" },
+  authorMemberId: { type: ["string", "null"], format: "uuid" },
+  body: { type: ["string", "null"] },
+  isDeleted: { type: "boolean" },
+  createdAt: { type: "string", format: "date-time" },
+  updatedAt: { type: "string", format: "date-time" },
+};
+
+const todoCommentSchema = {
+  type: "object",
+  properties: todoCommentProperties,
+};
+
+const todoCommentThreadSchema = {
+  type: "object",
+  properties: {
+    ...todoCommentProperties,
+    // Replies nest to any depth; the docs only spell out the first level.
+    replies: { type: "array", items: { type: "object" } },
+  },
+  additionalProperties: true,
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const todoParamsSchema = {
+  type: "object",
+  required: ["id"],
+  properties: {
+    id: { type: "string", format: "uuid" },
+  },
+};
+
+const todoCommentParamsSchema = {
+  type: "object",
+  required: ["id", "commentId"],
+  properties: {
+    id: { type: "string", format: "uuid" },
+    commentId: { type: "string", format: "uuid" },
+  },
+};
+
+// Registered under /todos/:id/comments by the todos routes, which already
+// require authentication.
+const todoCommentsRoutes: FastifyPluginAsync = async (fastify) => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "List todo comments",
+        description:
+          "Returns the discussion on a todo as threads, oldest first. Deleted comments that have replies are kept with a null body",
+        security: [{ bearerAuth: [] }],
+        params: todoParamsSchema,
+        response: {
+          200: { type: "array", items: todoCommentThreadSchema },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await getTodoCommentsHandler(
+          id,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.post(
+    "/",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Comment on a todo",
+        description:
+          "Adds a comment to the todo. Pass parentId to reply to an existing comment",
+        security: [{ bearerAuth: [] }],
+        params: todoParamsSchema,
+        body: {
+          type: "object",
+          required: ["body"],
+          properties: {
+            body: { type: "string" },
+            parentId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          201: todoCommentSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await createTodoCommentHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.status(201).send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.patch(
+    "/:commentId",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Edit a todo comment",
+        description: "Changes the body of a comment. Only its author can edit",
+        security: [{ bearerAuth: [] }],
+        params: todoCommentParamsSchema,
+        body: {
+          type: "object",
+          required: ["body"],
+          properties: {
+            body: { type: "string" },
+          },
+        },
+        response: {
+          200: todoCommentSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await updateTodoCommentHandler(
+          request.params,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.delete(
+    "/:commentId",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Delete a todo comment",
+        description:
+          "Deletes a comment. Allowed for its author and the todo creator",
+        security: [{ bearerAuth: [] }],
+        params: todoCommentParamsSchema,
+        response: {
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await deleteTodoCommentHandler(
+          request.params,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default todoCommentsRoutes;
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+
+vi.mock("@repo/database", () => ({
+  db: {},
+  eq: vi.fn(),
+  and: vi.fn(),
+  or: vi.fn(),
+  desc: vi.fn(),
+  asc: vi.fn(),
+  sql: vi.fn(),
+  inArray: vi.fn(),
+  gt: vi.fn(),
+  gte: vi.fn(),
+  lt: vi.fn(),
+  lte: vi.fn(),
+  isNull: vi.fn(),
+  isNotNull: vi.fn(),
+}));
+
+const findAll = vi.hoisted(() => vi.fn());
+const findViewById = vi.hoisted(() => vi.fn());
+
+vi.mock("../../../../modules/todo/repository/todo.repository", () => ({
+  todoRepository: { findAll },
+}));
+
+vi.mock("../../../../modules/todo/repository/todo-view.repository", () => ({
+  todoViewRepository: { findById: findViewById },
+}));
+
+vi.mock("../../../../modules/auth/middleware/require-auth.middleware", () => ({
+  requireAuth: vi.fn(),
+  requireActiveOrganization: vi.fn().mockResolvedValue({
+    organizationId: "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b",
+    role: "teacher",
+    memberId: "member-1",
+  }),
+}));
+
+import loggerPlugin from "../../../../plugins/logger";
+import todosRoutes from "./index";
+
+describe("GET /todos", () => {
+  const viewId = "99999999-9999-4999-8999-999999999999";
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    findAll.mockResolvedValue({ data: [], nextCursor: null, total: 0 });
+    findViewById.mockResolvedValue({
+      id: viewId,
+      createdByMemberId: "member-1",
+      isShared: false,
+      filters: {
+        sortBy: "title",
+        sortOrder: "asc",
+        limit: "5",
+        labelMatch: "all",
+      },
+    });
+
+    app = Fastify();
+    await app.register(loggerPlugin);
+    await app.register(todosRoutes, { prefix: "/todos" });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("should list with the saved view's sorting, when only viewId is given", async () => {
+    const response = await app.inject({
+      method: "GET",
+      url: `/todos?viewId=${viewId}`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(findAll).toHaveBeenCalledWith(
+      "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b",
+      expect.objectContaining({
+        sortBy: "title",
+        sortOrder: "asc",
+        limit: 5,
+        labelMatch: "all",
+      }),
+    );
+  });
+
+  it("should let query params override the saved view, when both are given", async () => {
+    const response = await app.inject({
+      method: "GET",
+      url: `/todos?viewId=${viewId}&sortBy=dueDate`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(findAll).toHaveBeenCalledWith(
+      "f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b",
+      expect.objectContaining({ sortBy: "dueDate", sortOrder: "asc" }),
+    );
+  });
+});
@@ -3,32 +3,1260 @@ import { createTodoHandler } from "../../../../modules/todo/commands/create-todo
 import { updateTodoHandler } from "../../../../modules/todo/commands/update-todo.command";
 import { deleteTodoHandler } from "../../../../modules/todo/commands/delete-todo.command";
 import { toggleTodoHandler } from "../../../../modules/todo/commands/toggle-todo.command";
+import { moveTodoHandler } from "../../../../modules/todo/commands/move-todo.command";
+import { editTodoOccurrenceHandler } from "../../../../modules/todo/commands/edit-todo-occurrence.command";
+import { stopTodoRecurrenceHandler } from "../../../../modules/todo/commands/stop-todo-recurrence.command";
+import { watchTodoHandler } from "../../../../modules/todo/commands/watch-todo.command";
+import { unwatchTodoHandler } from "../../../../modules/todo/commands/unwatch-todo.command";
+import { restoreTodoHandler } from "../../../../modules/todo/commands/restore-todo.command";
+import { bulkTodosHandler } from "../../../../modules/todo/commands/bulk-todos.command";
+import { importTodosHandler } from "../../../../modules/todo/commands/import-todos.command";
 import { getAllTodosHandler } from "../../../../modules/todo/queries/get-all-todos.query";
 import { getTodoByIdHandler } from "../../../../modules/todo/queries/get-todo-by-id.query";
+import { getDeletedTodosHandler } from "../../../../modules/todo/queries/get-deleted-todos.query";
+import { getTodoHistoryHandler } from "../../../../modules/todo/queries/get-todo-history.query";
+import { exportTodosHandler } from "../../../../modules/todo/queries/export-todos.query";
+import { requireAuth } from "../../../../modules/auth/middleware/require-auth.middleware";
 import { createErrorHandler } from "../../../../shared/utils/error-handler";
+import { createETag } from "../../../../shared/utils/etag";
+import todoItemsRoutes from "./items";
+import todoCommentsRoutes from "./comments";
+import todoLabelsRoutes from "./labels";
+import todoViewsRoutes from "./views";
+import todoStatusesRoutes from "./statuses";
 
 const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
   const handleError = createErrorHandler(fastify);
 
+  fastify.addHook("preHandler", async (request) => {
+    await requireAuth(request);
+  });
+
   fastify.post(
     "/",
     {
       schema: {
         tags: ["todos"],
-        summary: "Create a new todo",
-        description: "Creates a new todo with the provided details",
+        security: [{ bearerAuth: [] }],
+        summary: "Create a new todo",
+        description: "Creates a new todo with the provided details",
+        body: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            description: { type: ["string", "null"] },
+            priority: { type: "string", enum: ["low", "medium", "high"] },
+            dueDate: { type: "string", format: "date-time" },
+            autoCompleteFromItems: {
+              type: "boolean",
+              description:
+                "Complete the todo automatically once every checklist item is checked",
+            },
+            recurrenceRule: {
+              type: "string",
+              description:
+                "iCalendar RRULE, e.g. FREQ=WEEKLY;BYDAY=MO. Requires dueDate",
+            },
+            assigneeMemberIds: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+              description: "Organization members responsible for the todo",
+            },
+            watcherMemberIds: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+            },
+            labelIds: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+              description: "Organization labels to tag the todo with",
+            },
+            reminderOffsets: {
+              type: "array",
+              items: { type: "integer", minimum: 1, maximum: 43200 },
+              maxItems: 5,
+              description:
+                "Minutes before the due date to remind the assignees, e.g. 1440 and 60",
+            },
+          },
+          required: ["title"],
+        },
+        response: {
+          201: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              data: {
+                type: "object",
+                properties: {
+                  id: { type: "string", format: "uuid" },
+                  organizationId: { type: "string", format: "uuid" },
+                  createdByMemberId: {
+                    type: ["string", "null"],
+                    format: "uuid",
+                  },
+                  title: { type: "string" },
+                  description: { type: ["string", "null"] },
+                  priority: { type: "string", enum: ["low", "medium", "high"] },
+                  dueDate: { type: ["string", "null"], format: "date-time" },
+                  completed: { type: "boolean" },
+                  statusId: { type: ["string", "null"], format: "uuid" },
+                  position: { type: "integer" },
+                  autoCompleteFromItems: { type: "boolean" },
+                  progress: { type: ["integer", "null"] },
+                  seriesId: { type: ["string", "null"], format: "uuid" },
+                  recurrenceRule: { type: ["string", "null"] },
+                  assigneeMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  watcherMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  labelIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  reminderOffsets: {
+                    type: "array",
+                    items: { type: "integer" },
+                  },
+                  createdAt: { type: "string", format: "date-time" },
+                  updatedAt: { type: "string", format: "date-time" },
+                },
+              },
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+          400: {
+            type: "object",
+            properties: {
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await createTodoHandler(
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (result.isSuccess) {
+          return reply.status(201).send(result.data);
+        } else {
+          return reply.status(400).send(result.errors);
+        }
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["todos"],
+        security: [{ bearerAuth: [] }],
+        summary: "Get all todos",
+        description:
+          "Retrieves a page of todos with optional filters. Pass the returned nextCursor as cursor to fetch the following page; it is only valid for the same sortBy and sortOrder",
+        querystring: {
+          type: "object",
+          properties: {
+            completed: { type: "string" },
+            priority: { type: "string", enum: ["low", "medium", "high"] },
+            statusId: {
+              type: "string",
+              format: "uuid",
+              description: "Only todos in this board column",
+            },
+            // Defaults are applied by the handler so that a saved view's
+            // sorting is not overridden by schema defaults.
+            limit: {
+              type: "integer",
+              minimum: 1,
+              maximum: 100,
+              description: "Defaults to 20",
+            },
+            cursor: { type: "string" },
+            sortBy: {
+              type: "string",
+              enum: ["createdAt", "dueDate", "priority", "title", "position"],
+              description: "Defaults to createdAt",
+            },
+            sortOrder: {
+              type: "string",
+              enum: ["asc", "desc"],
+              description: "Defaults to desc",
+            },
+            dueFrom: { type: "string", format: "date-time" },
+            dueTo: { type: "string", format: "date-time" },
+            search: {
+              type: "string",
+              description:
+                'Case-insensitive match on the start of the title, e.g. "gro" finds "Groceries" but not "Buy groceries"',
+            },
+            assignedToMe: {
+              type: "string",
+              enum: ["true", "false"],
+              description: "Only todos assigned to the current member",
+            },
+            assigneeMemberId: { type: "string", format: "uuid" },
+            labelIds: {
+              type: "string",
+              description: "Comma separated label ids",
+            },
+            labelMatch: {
+              type: "string",
+              enum: ["any", "all"],
+              description:
+                "Whether todos need any or all of the given labels. Defaults to any",
+            },
+            viewId: {
+              type: "string",
+              format: "uuid",
+              description:
+                "Saved view whose filters apply; explicit parameters override them",
+            },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              nextCursor: { type: ["string", "null"] },
+              total: { type: "integer" },
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string", format: "uuid" },
+                    organizationId: { type: "string", format: "uuid" },
+                    createdByMemberId: {
+                      type: ["string", "null"],
+                      format: "uuid",
+                    },
+                    title: { type: "string" },
+                    description: { type: ["string", "null"] },
+                    priority: {
+                      type: "string",
+                      enum: ["low", "medium", "high"],
+                    },
+                    dueDate: { type: ["string", "null"], format: "date-time" },
+                    completed: { type: "boolean" },
+                    statusId: { type: ["string", "null"], format: "uuid" },
+                    position: { type: "integer" },
+                    autoCompleteFromItems: { type: "boolean" },
+                    progress: { type: ["integer", "null"] },
+                    seriesId: { type: ["string", "null"], format: "uuid" },
+                    recurrenceRule: { type: ["string", "null"] },
+                    assigneeMemberIds: {
+                      type: "array",
+                      items: { type: "string", format: "uuid" },
+                    },
+                    watcherMemberIds: {
+                      type: "array",
+                      items: { type: "string", format: "uuid" },
+                    },
+                    labelIds: {
+                      type: "array",
+                      items: { type: "string", format: "uuid" },
+                    },
+                    reminderOffsets: {
+                      type: "array",
+                      items: { type: "integer" },
+                    },
+                    createdAt: { type: "string", format: "date-time" },
+                    updatedAt: { type: "string", format: "date-time" },
+                  },
+                },
+              },
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+          400: {
+            type: "object",
+            properties: {
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await getAllTodosHandler(
+          request.query,
+          request,
+          fastify.logger,
+        );
+        if (result.isSuccess) {
+          return reply.status(200).send({ success: true, ...result.data });
+        } else {
+          return reply.status(400).send(result.errors);
+        }
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/trash",
+    {
+      schema: {
+        tags: ["todos"],
+        security: [{ bearerAuth: [] }],
+        summary: "List deleted todos",
+        description:
+          "Lists the todos in the trash, most recently deleted first. They are purged for good once the retention period has passed",
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string", format: "uuid" },
+                    organizationId: { type: "string", format: "uuid" },
+                    createdByMemberId: {
+                      type: ["string", "null"],
+                      format: "uuid",
+                    },
+                    title: { type: "string" },
+                    description: { type: ["string", "null"] },
+                    priority: {
+                      type: "string",
+                      enum: ["low", "medium", "high"],
+                    },
+                    dueDate: { type: ["string", "null"], format: "date-time" },
+                    completed: { type: "boolean" },
+                    statusId: { type: ["string", "null"], format: "uuid" },
+                    position: { type: "integer" },
+                    autoCompleteFromItems: { type: "boolean" },
+                    progress: { type: ["integer", "null"] },
+                    seriesId: { type: ["string", "null"], format: "uuid" },
+                    recurrenceRule: { type: ["string", "null"] },
+                    assigneeMemberIds: {
+                      type: "array",
+                      items: { type: "string", format: "uuid" },
+                    },
+                    watcherMemberIds: {
+                      type: "array",
+                      items: { type: "string", format: "uuid" },
+                    },
+                    labelIds: {
+                      type: "array",
+                      items: { type: "string", format: "uuid" },
+                    },
+                    reminderOffsets: {
+                      type: "array",
+                      items: { type: "integer" },
+                    },
+                    createdAt: { type: "string", format: "date-time" },
+                    updatedAt: { type: "string", format: "date-time" },
+                    deletedAt: { type: "string", format: "date-time" },
+                  },
+                },
+              },
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+          400: {
+            type: "object",
+            properties: {
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await getDeletedTodosHandler(request, fastify.logger);
+        if (result.isSuccess) {
+          return reply.status(200).send(result.data);
+        } else {
+          return reply.status(400).send(result.errors);
+        }
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.post(
+    "/bulk",
+    {
+      schema: {
+        tags: ["todos"],
+        security: [{ bearerAuth: [] }],
+        summary: "Apply an operation to many todos",
+        description:
+          "Applies one operation to up to 100 todos in a single transaction. Each id gets its own result, so missing todos do not fail the whole request",
+        body: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+              minItems: 1,
+              maxItems: 100,
+            },
+            operation: {
+              type: "string",
+              enum: [
+                "complete",
+                "uncomplete",
+                "setPriority",
+                "setDueDate",
+                "delete",
+                "addLabel",
+              ],
+            },
+            priority: {
+              type: "string",
+              enum: ["low", "medium", "high"],
+              description: "Required for setPriority",
+            },
+            dueDate: {
+              type: ["string", "null"],
+              format: "date-time",
+              description: "Required for setDueDate, null clears it",
+            },
+            labelId: {
+              type: "string",
+              format: "uuid",
+              description: "Required for addLabel",
+            },
+          },
+          required: ["ids", "operation"],
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              results: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string", format: "uuid" },
+                    isSuccess: { type: "boolean" },
+                    // The updated todo, or null for delete
+                    data: {},
+                    errors: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          code: { type: "string" },
+                          message: { type: "string" },
+                          value: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                value: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await bulkTodosHandler(
+          request.body,
+          request,
+          fastify.logger,
+        );
+        if (result.isSuccess) {
+          return reply.status(200).send(result.data);
+        } else {
+          return reply.status(400).send(result.errors);
+        }
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/export",
+    {
+      schema: {
+        tags: ["todos"],
+        security: [{ bearerAuth: [] }],
+        summary: "Export todos",
+        description:
+          "Downloads every todo matching the list filters as csv, json or an iCalendar file of VTODOs. limit and cursor do not apply; exports are capped at 10000 todos",
+        querystring: {
+          type: "object",
+          properties: {
+            format: {
+              type: "string",
+              enum: ["csv", "json", "ics"],
+              default: "json",
+            },
+            completed: { type: "string" },
+            priority: { type: "string", enum: ["low", "medium", "high"] },
+            statusId: { type: "string", format: "uuid" },
+            // Like the list, defaults are applied by the handler so a saved
+            // view's sorting wins over them
+            sortBy: {
+              type: "string",
+              enum: ["createdAt", "dueDate", "priority", "title", "position"],
+              description: "Defaults to createdAt",
+            },
+            sortOrder: {
+              type: "string",
+              enum: ["asc", "desc"],
+              description: "Defaults to desc",
+            },
+            dueFrom: { type: "string", format: "date-time" },
+            dueTo: { type: "string", format: "date-time" },
+            search: { type: "string" },
+            assignedToMe: { type: "string", enum: ["true", "false"] },
+            assigneeMemberId: { type: "string", format: "uuid" },
+            labelIds: {
+              type: "string",
+              description: "Comma separated label ids",
+            },
+            labelMatch: { type: "string", enum: ["any", "all"] },
+            viewId: { type: "string", format: "uuid" },
+          },
+        },
+        response: {
+          400: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                value: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await exportTodosHandler(
+          request.query,
+          request,
+          fastify.logger,
+        );
+        if (result.isSuccess) {
+          return reply
+            .header("Content-Type", result.data.contentType)
+            .header(
+              "Content-Disposition",
+              `attachment; filename="${result.data.fileName}"`,
+            )
+            .send(result.data.content);
+        } else {
+          return reply.status(400).send(result.errors);
+        }
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.post(
+    "/import",
+    {
+      schema: {
+        tags: ["todos"],
+        security: [{ bearerAuth: [] }],
+        summary: "Import todos",
+        description:
+          "Creates todos from a csv, json or iCalendar file of up to 500 rows. Each row is validated like a single create and gets its own result, so invalid rows do not stop the others. With dryRun nothing is created",
+        body: {
+          type: "object",
+          properties: {
+            format: { type: "string", enum: ["csv", "json", "ics"] },
+            content: {
+              type: "string",
+              description:
+                "File contents. csv needs a header row with at least a title column, json an array of todos",
+            },
+            dryRun: { type: "boolean", default: false },
+          },
+          required: ["format", "content"],
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              dryRun: { type: "boolean" },
+              imported: { type: "integer" },
+              failed: { type: "integer" },
+              results: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    row: { type: "integer" },
+                    isSuccess: { type: "boolean" },
+                    // The created todo, or null on a dry run
+                    data: {},
+                    errors: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          code: { type: "string" },
+                          message: { type: "string" },
+                          value: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                value: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await importTodosHandler(
+          request.body,
+          request,
+          fastify.logger,
+        );
+        if (result.isSuccess) {
+          return reply.status(200).send(result.data);
+        } else {
+          return reply.status(400).send(result.errors);
+        }
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/:id",
+    {
+      schema: {
+        tags: ["todos"],
+        security: [{ bearerAuth: [] }],
+        summary: "Get todo by ID",
+        description: "Retrieves a single todo by its ID",
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string", format: "uuid" },
+          },
+          required: ["id"],
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              data: {
+                type: "object",
+                properties: {
+                  id: { type: "string", format: "uuid" },
+                  organizationId: { type: "string", format: "uuid" },
+                  createdByMemberId: {
+                    type: ["string", "null"],
+                    format: "uuid",
+                  },
+                  title: { type: "string" },
+                  description: { type: ["string", "null"] },
+                  priority: { type: "string", enum: ["low", "medium", "high"] },
+                  dueDate: { type: ["string", "null"], format: "date-time" },
+                  completed: { type: "boolean" },
+                  statusId: { type: ["string", "null"], format: "uuid" },
+                  position: { type: "integer" },
+                  autoCompleteFromItems: { type: "boolean" },
+                  progress: { type: ["integer", "null"] },
+                  seriesId: { type: ["string", "null"], format: "uuid" },
+                  recurrenceRule: { type: ["string", "null"] },
+                  assigneeMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  watcherMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  labelIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  reminderOffsets: {
+                    type: "array",
+                    items: { type: "integer" },
+                  },
+                  createdAt: { type: "string", format: "date-time" },
+                  updatedAt: { type: "string", format: "date-time" },
+                },
+              },
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+          400: {
+            type: "object",
+            properties: {
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+          404: {
+            type: "object",
+            properties: {
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await getTodoByIdHandler(id, request, fastify.logger);
+        if (result.isSuccess) {
+          reply.header("ETag", createETag(result.data.updatedAt));
+          return reply.status(200).send(result.data);
+        } else {
+          return reply.status(400).send(result.errors);
+        }
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.put(
+    "/:id",
+    {
+      schema: {
+        tags: ["todos"],
+        security: [{ bearerAuth: [] }],
+        summary: "Update a todo",
+        description: "Updates an existing todo with the provided details",
+        headers: {
+          type: "object",
+          properties: {
+            "if-match": {
+              type: "string",
+              description:
+                "ETag from a previous read. A stale value is rejected with 412 PRECONDITION_FAILED",
+            },
+          },
+        },
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string", format: "uuid" },
+          },
+          required: ["id"],
+        },
+        body: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            description: { type: ["string", "null"] },
+            priority: { type: "string", enum: ["low", "medium", "high"] },
+            dueDate: { type: ["string", "null"], format: "date-time" },
+            completed: { type: "boolean" },
+            autoCompleteFromItems: { type: "boolean" },
+            assigneeMemberIds: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+              description: "Replaces the current assignees",
+            },
+            watcherMemberIds: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+            },
+            labelIds: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+              description: "Organization labels to tag the todo with",
+            },
+            reminderOffsets: {
+              type: "array",
+              items: { type: "integer", minimum: 1, maximum: 43200 },
+              maxItems: 5,
+              description:
+                "Minutes before the due date to remind the assignees, e.g. 1440 and 60",
+            },
+            recurrenceRule: {
+              type: ["string", "null"],
+              description: "iCalendar RRULE; null stops the recurrence",
+            },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              data: {
+                type: "object",
+                properties: {
+                  id: { type: "string", format: "uuid" },
+                  organizationId: { type: "string", format: "uuid" },
+                  createdByMemberId: {
+                    type: ["string", "null"],
+                    format: "uuid",
+                  },
+                  title: { type: "string" },
+                  description: { type: ["string", "null"] },
+                  priority: { type: "string", enum: ["low", "medium", "high"] },
+                  dueDate: { type: ["string", "null"], format: "date-time" },
+                  completed: { type: "boolean" },
+                  statusId: { type: ["string", "null"], format: "uuid" },
+                  position: { type: "integer" },
+                  autoCompleteFromItems: { type: "boolean" },
+                  progress: { type: ["integer", "null"] },
+                  seriesId: { type: ["string", "null"], format: "uuid" },
+                  recurrenceRule: { type: ["string", "null"] },
+                  assigneeMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  watcherMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  labelIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  reminderOffsets: {
+                    type: "array",
+                    items: { type: "integer" },
+                  },
+                  createdAt: { type: "string", format: "date-time" },
+                  updatedAt: { type: "string", format: "date-time" },
+                },
+              },
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+          400: {
+            type: "object",
+            properties: {
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+          404: {
+            type: "object",
+            properties: {
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await updateTodoHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+        if (result.isSuccess) {
+          reply.header("ETag", createETag(result.data.updatedAt));
+        }
+        return reply.send(result);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.patch(
+    "/:id/toggle",
+    {
+      schema: {
+        tags: ["todos"],
+        security: [{ bearerAuth: [] }],
+        summary: "Toggle todo completion",
+        description: "Toggles the completion status of a todo",
+        headers: {
+          type: "object",
+          properties: {
+            "if-match": {
+              type: "string",
+              description:
+                "ETag from a previous read. A stale value is rejected with 412 PRECONDITION_FAILED",
+            },
+          },
+        },
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string", format: "uuid" },
+          },
+          required: ["id"],
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              data: {
+                type: "object",
+                properties: {
+                  id: { type: "string", format: "uuid" },
+                  organizationId: { type: "string", format: "uuid" },
+                  createdByMemberId: {
+                    type: ["string", "null"],
+                    format: "uuid",
+                  },
+                  title: { type: "string" },
+                  description: { type: ["string", "null"] },
+                  priority: { type: "string", enum: ["low", "medium", "high"] },
+                  dueDate: { type: ["string", "null"], format: "date-time" },
+                  completed: { type: "boolean" },
+                  statusId: { type: ["string", "null"], format: "uuid" },
+                  position: { type: "integer" },
+                  autoCompleteFromItems: { type: "boolean" },
+                  progress: { type: ["integer", "null"] },
+                  seriesId: { type: ["string", "null"], format: "uuid" },
+                  recurrenceRule: { type: ["string", "null"] },
+                  assigneeMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  watcherMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  labelIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  reminderOffsets: {
+                    type: "array",
+                    items: { type: "integer" },
+                  },
+                  createdAt: { type: "string", format: "date-time" },
+                  updatedAt: { type: "string", format: "date-time" },
+                },
+              },
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+          400: {
+            type: "object",
+            properties: {
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+          404: {
+            type: "object",
+            properties: {
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await toggleTodoHandler(id, request, fastify.logger);
+        if (result.isSuccess) {
+          reply.header("ETag", createETag(result.data.updatedAt));
+          return reply.status(200).send(result.data);
+        } else {
+          return reply.status(400).send(result.errors);
+        }
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.patch(
+    "/:id/move",
+    {
+      schema: {
+        tags: ["todos"],
+        security: [{ bearerAuth: [] }],
+        summary: "Move a todo on the board",
+        description:
+          "Moves a todo into a status column, before the todo at the given position or at the end of the column. Moving into the last column completes the todo, moving out of it reopens it",
+        headers: {
+          type: "object",
+          properties: {
+            "if-match": {
+              type: "string",
+              description:
+                "ETag from a previous read. A stale value is rejected with 412 PRECONDITION_FAILED",
+            },
+          },
+        },
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string", format: "uuid" },
+          },
+          required: ["id"],
+        },
+        body: {
+          type: "object",
+          properties: {
+            statusId: { type: "string", format: "uuid" },
+            position: { type: "integer", minimum: 0 },
+          },
+          required: ["statusId"],
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              id: { type: "string", format: "uuid" },
+              organizationId: { type: "string", format: "uuid" },
+              createdByMemberId: { type: ["string", "null"], format: "uuid" },
+              title: { type: "string" },
+              description: { type: ["string", "null"] },
+              priority: { type: "string", enum: ["low", "medium", "high"] },
+              dueDate: { type: ["string", "null"], format: "date-time" },
+              completed: { type: "boolean" },
+              statusId: { type: ["string", "null"], format: "uuid" },
+              position: { type: "integer" },
+              autoCompleteFromItems: { type: "boolean" },
+              progress: { type: ["integer", "null"] },
+              seriesId: { type: ["string", "null"], format: "uuid" },
+              recurrenceRule: { type: ["string", "null"] },
+              assigneeMemberIds: {
+                type: "array",
+                items: { type: "string", format: "uuid" },
+              },
+              watcherMemberIds: {
+                type: "array",
+                items: { type: "string", format: "uuid" },
+              },
+              labelIds: {
+                type: "array",
+                items: { type: "string", format: "uuid" },
+              },
+              reminderOffsets: {
+                type: "array",
+                items: { type: "integer" },
+              },
+              createdAt: { type: "string", format: "date-time" },
+              updatedAt: { type: "string", format: "date-time" },
+            },
+          },
+          400: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                value: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await moveTodoHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+        if (result.isSuccess) {
+          reply.header("ETag", createETag(result.data.updatedAt));
+          return reply.status(200).send(result.data);
+        } else {
+          return reply.status(400).send(result.errors);
+        }
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.patch(
+    "/:id/occurrences",
+    {
+      schema: {
+        tags: ["todos"],
+        security: [{ bearerAuth: [] }],
+        summary: "Edit a recurring todo occurrence",
+        description:
+          "Edits only this occurrence (scope this) or this and all future occurrences of its series (scope future). Changing recurrenceRule or dueDate with scope future reschedules the series from this occurrence",
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string", format: "uuid" },
+          },
+          required: ["id"],
+        },
         body: {
           type: "object",
           properties: {
+            scope: { type: "string", enum: ["this", "future"] },
             title: { type: "string" },
-            description: { type: ["string", "null"] },
+            description: { type: "string" },
             priority: { type: "string", enum: ["low", "medium", "high"] },
             dueDate: { type: "string", format: "date-time" },
+            recurrenceRule: { type: "string" },
           },
-          required: ["title"],
+          required: ["scope"],
         },
         response: {
-          201: {
+          200: {
             type: "object",
             properties: {
               success: { type: "boolean" },
@@ -36,11 +1264,38 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
                 type: "object",
                 properties: {
                   id: { type: "string", format: "uuid" },
+                  organizationId: { type: "string", format: "uuid" },
+                  createdByMemberId: {
+                    type: ["string", "null"],
+                    format: "uuid",
+                  },
                   title: { type: "string" },
                   description: { type: ["string", "null"] },
                   priority: { type: "string", enum: ["low", "medium", "high"] },
                   dueDate: { type: ["string", "null"], format: "date-time" },
                   completed: { type: "boolean" },
+                  statusId: { type: ["string", "null"], format: "uuid" },
+                  position: { type: "integer" },
+                  autoCompleteFromItems: { type: "boolean" },
+                  progress: { type: ["integer", "null"] },
+                  seriesId: { type: ["string", "null"], format: "uuid" },
+                  recurrenceRule: { type: ["string", "null"] },
+                  assigneeMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  watcherMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  labelIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  reminderOffsets: {
+                    type: "array",
+                    items: { type: "integer" },
+                  },
                   createdAt: { type: "string", format: "date-time" },
                   updatedAt: { type: "string", format: "date-time" },
                 },
@@ -68,15 +1323,33 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
               },
             },
           },
+          404: {
+            type: "object",
+            properties: {
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
         },
       },
     },
     async (request, reply) => {
       try {
-        const result = await createTodoHandler(request.body, fastify.logger);
-
+        const { id } = request.params as { id: string };
+        const result = await editTodoOccurrenceHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
         if (result.isSuccess) {
-          return reply.status(201).send(result.data);
+          return reply.status(200).send(result.data);
         } else {
           return reply.status(400).send(result.errors);
         }
@@ -86,19 +1359,21 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
     },
   );
 
-  fastify.get(
-    "/",
+  fastify.post(
+    "/:id/recurrence/stop",
     {
       schema: {
         tags: ["todos"],
-        summary: "Get all todos",
-        description: "Retrieves a list of all todos with optional filters",
-        querystring: {
+        security: [{ bearerAuth: [] }],
+        summary: "Stop a todo recurrence",
+        description:
+          "Stops the series this todo belongs to. Existing occurrences are kept but no new ones are generated",
+        params: {
           type: "object",
           properties: {
-            completed: { type: "string" },
-            priority: { type: "string", enum: ["low", "medium", "high"] },
+            id: { type: "string", format: "uuid" },
           },
+          required: ["id"],
         },
         response: {
           200: {
@@ -106,22 +1381,43 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
             properties: {
               success: { type: "boolean" },
               data: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    id: { type: "string", format: "uuid" },
-                    title: { type: "string" },
-                    description: { type: ["string", "null"] },
-                    priority: {
-                      type: "string",
-                      enum: ["low", "medium", "high"],
-                    },
-                    dueDate: { type: ["string", "null"], format: "date-time" },
-                    completed: { type: "boolean" },
-                    createdAt: { type: "string", format: "date-time" },
-                    updatedAt: { type: "string", format: "date-time" },
+                type: "object",
+                properties: {
+                  id: { type: "string", format: "uuid" },
+                  organizationId: { type: "string", format: "uuid" },
+                  createdByMemberId: {
+                    type: ["string", "null"],
+                    format: "uuid",
+                  },
+                  title: { type: "string" },
+                  description: { type: ["string", "null"] },
+                  priority: { type: "string", enum: ["low", "medium", "high"] },
+                  dueDate: { type: ["string", "null"], format: "date-time" },
+                  completed: { type: "boolean" },
+                  statusId: { type: ["string", "null"], format: "uuid" },
+                  position: { type: "integer" },
+                  autoCompleteFromItems: { type: "boolean" },
+                  progress: { type: ["integer", "null"] },
+                  seriesId: { type: ["string", "null"], format: "uuid" },
+                  recurrenceRule: { type: ["string", "null"] },
+                  assigneeMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  watcherMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  labelIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  reminderOffsets: {
+                    type: "array",
+                    items: { type: "integer" },
                   },
+                  createdAt: { type: "string", format: "date-time" },
+                  updatedAt: { type: "string", format: "date-time" },
                 },
               },
               error: {
@@ -147,12 +1443,30 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
               },
             },
           },
+          404: {
+            type: "object",
+            properties: {
+              error: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  message: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
         },
       },
     },
     async (request, reply) => {
       try {
-        const result = await getAllTodosHandler(request.query, fastify.logger);
+        const { id } = request.params as { id: string };
+        const result = await stopTodoRecurrenceHandler(
+          id,
+          request,
+          fastify.logger,
+        );
         if (result.isSuccess) {
           return reply.status(200).send(result.data);
         } else {
@@ -164,13 +1478,15 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
     },
   );
 
-  fastify.get(
-    "/:id",
+  fastify.post(
+    "/:id/restore",
     {
       schema: {
         tags: ["todos"],
-        summary: "Get todo by ID",
-        description: "Retrieves a single todo by its ID",
+        security: [{ bearerAuth: [] }],
+        summary: "Restore a deleted todo",
+        description:
+          "Moves a todo out of the trash. Fails when another todo has taken its title meanwhile",
         params: {
           type: "object",
           properties: {
@@ -187,11 +1503,38 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
                 type: "object",
                 properties: {
                   id: { type: "string", format: "uuid" },
+                  organizationId: { type: "string", format: "uuid" },
+                  createdByMemberId: {
+                    type: ["string", "null"],
+                    format: "uuid",
+                  },
                   title: { type: "string" },
                   description: { type: ["string", "null"] },
                   priority: { type: "string", enum: ["low", "medium", "high"] },
                   dueDate: { type: ["string", "null"], format: "date-time" },
                   completed: { type: "boolean" },
+                  statusId: { type: ["string", "null"], format: "uuid" },
+                  position: { type: "integer" },
+                  autoCompleteFromItems: { type: "boolean" },
+                  progress: { type: ["integer", "null"] },
+                  seriesId: { type: ["string", "null"], format: "uuid" },
+                  recurrenceRule: { type: ["string", "null"] },
+                  assigneeMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  watcherMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  labelIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  reminderOffsets: {
+                    type: "array",
+                    items: { type: "integer" },
+                  },
                   createdAt: { type: "string", format: "date-time" },
                   updatedAt: { type: "string", format: "date-time" },
                 },
@@ -238,7 +1581,7 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
     async (request, reply) => {
       try {
         const { id } = request.params as { id: string };
-        const result = await getTodoByIdHandler(id, fastify.logger);
+        const result = await restoreTodoHandler(id, request, fastify.logger);
         if (result.isSuccess) {
           return reply.status(200).send(result.data);
         } else {
@@ -250,13 +1593,14 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
     },
   );
 
-  fastify.put(
-    "/:id",
+  fastify.post(
+    "/:id/watch",
     {
       schema: {
         tags: ["todos"],
-        summary: "Update a todo",
-        description: "Updates an existing todo with the provided details",
+        security: [{ bearerAuth: [] }],
+        summary: "Watch a todo",
+        description: "Adds the current member to the watchers of the todo",
         params: {
           type: "object",
           properties: {
@@ -264,16 +1608,6 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
           },
           required: ["id"],
         },
-        body: {
-          type: "object",
-          properties: {
-            title: { type: "string" },
-            description: { type: ["string", "null"] },
-            priority: { type: "string", enum: ["low", "medium", "high"] },
-            dueDate: { type: ["string", "null"], format: "date-time" },
-            completed: { type: "boolean" },
-          },
-        },
         response: {
           200: {
             type: "object",
@@ -283,11 +1617,38 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
                 type: "object",
                 properties: {
                   id: { type: "string", format: "uuid" },
+                  organizationId: { type: "string", format: "uuid" },
+                  createdByMemberId: {
+                    type: ["string", "null"],
+                    format: "uuid",
+                  },
                   title: { type: "string" },
                   description: { type: ["string", "null"] },
                   priority: { type: "string", enum: ["low", "medium", "high"] },
                   dueDate: { type: ["string", "null"], format: "date-time" },
                   completed: { type: "boolean" },
+                  statusId: { type: ["string", "null"], format: "uuid" },
+                  position: { type: "integer" },
+                  autoCompleteFromItems: { type: "boolean" },
+                  progress: { type: ["integer", "null"] },
+                  seriesId: { type: ["string", "null"], format: "uuid" },
+                  recurrenceRule: { type: ["string", "null"] },
+                  assigneeMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  watcherMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  labelIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  reminderOffsets: {
+                    type: "array",
+                    items: { type: "integer" },
+                  },
                   createdAt: { type: "string", format: "date-time" },
                   updatedAt: { type: "string", format: "date-time" },
                 },
@@ -334,25 +1695,26 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
     async (request, reply) => {
       try {
         const { id } = request.params as { id: string };
-        const result = await updateTodoHandler(
-          id,
-          request.body,
-          fastify.logger,
-        );
-        return reply.send(result);
+        const result = await watchTodoHandler(id, request, fastify.logger);
+        if (result.isSuccess) {
+          return reply.status(200).send(result.data);
+        } else {
+          return reply.status(400).send(result.errors);
+        }
       } catch (error) {
         return handleError(error, reply);
       }
     },
   );
 
-  fastify.patch(
-    "/:id/toggle",
+  fastify.delete(
+    "/:id/watch",
     {
       schema: {
         tags: ["todos"],
-        summary: "Toggle todo completion",
-        description: "Toggles the completion status of a todo",
+        security: [{ bearerAuth: [] }],
+        summary: "Unwatch a todo",
+        description: "Removes the current member from the watchers of the todo",
         params: {
           type: "object",
           properties: {
@@ -369,11 +1731,38 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
                 type: "object",
                 properties: {
                   id: { type: "string", format: "uuid" },
+                  organizationId: { type: "string", format: "uuid" },
+                  createdByMemberId: {
+                    type: ["string", "null"],
+                    format: "uuid",
+                  },
                   title: { type: "string" },
                   description: { type: ["string", "null"] },
                   priority: { type: "string", enum: ["low", "medium", "high"] },
                   dueDate: { type: ["string", "null"], format: "date-time" },
                   completed: { type: "boolean" },
+                  statusId: { type: ["string", "null"], format: "uuid" },
+                  position: { type: "integer" },
+                  autoCompleteFromItems: { type: "boolean" },
+                  progress: { type: ["integer", "null"] },
+                  seriesId: { type: ["string", "null"], format: "uuid" },
+                  recurrenceRule: { type: ["string", "null"] },
+                  assigneeMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  watcherMemberIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  labelIds: {
+                    type: "array",
+                    items: { type: "string", format: "uuid" },
+                  },
+                  reminderOffsets: {
+                    type: "array",
+                    items: { type: "integer" },
+                  },
                   createdAt: { type: "string", format: "date-time" },
                   updatedAt: { type: "string", format: "date-time" },
                 },
@@ -420,7 +1809,69 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
     async (request, reply) => {
       try {
         const { id } = request.params as { id: string };
-        const result = await toggleTodoHandler(id, fastify.logger);
+        const result = await unwatchTodoHandler(id, request, fastify.logger);
+        if (result.isSuccess) {
+          return reply.status(200).send(result.data);
+        } else {
+          return reply.status(400).send(result.errors);
+        }
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/:id/history",
+    {
+      schema: {
+        tags: ["todos"],
+        security: [{ bearerAuth: [] }],
+        summary: "Get todo history",
+        description:
+          "Lists field-level changes to a todo, newest first. Also available while the todo is in the trash",
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string", format: "uuid" },
+          },
+          required: ["id"],
+        },
+        response: {
+          200: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string", format: "uuid" },
+                todoId: { type: "string", format: "uuid" },
+                actorMemberId: { type: ["string", "null"], format: "uuid" },
+                field: { type: "string" },
+                // Dates are ISO strings, member and label ids are arrays
+                oldValue: {},
+                newValue: {},
+                createdAt: { type: "string", format: "date-time" },
+              },
+            },
+          },
+          400: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                value: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await getTodoHistoryHandler(id, request, fastify.logger);
         if (result.isSuccess) {
           return reply.status(200).send(result.data);
         } else {
@@ -437,8 +1888,10 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
     {
       schema: {
         tags: ["todos"],
+        security: [{ bearerAuth: [] }],
         summary: "Delete a todo",
-        description: "Deletes a todo by its ID",
+        description:
+          "Moves a todo to the trash, from where it can be restored until the retention period has passed",
         params: {
           type: "object",
           properties: {
@@ -494,7 +1947,7 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
     async (request, reply) => {
       try {
         const { id } = request.params as { id: string };
-        const result = await deleteTodoHandler(id, fastify.logger);
+        const result = await deleteTodoHandler(id, request, fastify.logger);
         if (result.isSuccess) {
           return reply.status(200).send(null);
         } else {
@@ -505,6 +1958,12 @@ const todosRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
       }
     },
   );
+
+  await fastify.register(todoItemsRoutes, { prefix: "/:id/items" });
+  await fastify.register(todoCommentsRoutes, { prefix: "/:id/comments" });
+  await fastify.register(todoLabelsRoutes, { prefix: "/labels" });
+  await fastify.register(todoViewsRoutes, { prefix: "/views" });
+  await fastify.register(todoStatusesRoutes, { prefix: "/statuses" });
 };
 
 export default todosRoutes;
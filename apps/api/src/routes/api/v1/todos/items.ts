@@ -0,0 +1,252 @@
+import type { FastifyPluginAsync } from "fastify";
+import { createTodoItemHandler } from "../../../../modules/todo/commands/create-todo-item.command";
+import { updateTodoItemHandler } from "../../../../modules/todo/commands/update-todo-item.command";
+import { deleteTodoItemHandler } from "../../../../modules/todo/commands/delete-todo-item.command";
+import { reorderTodoItemsHandler } from "../../../../modules/todo/commands/reorder-todo-items.command";
+import { getTodoItemsHandler } from "../../../../modules/todo/queries/get-todo-items.query";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+
+const todoItemSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    todoId: { type: "string", format: "uuid" },
+    title: { type: "string" },
+    completed: { type: "boolean" },
+    position: { type: "integer" },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const todoParamsSchema = {
+  type: "object",
+  required: ["id"],
+  properties: {
+    id: { type: "string", format: "uuid" },
+  },
+};
+
+const todoItemParamsSchema = {
+  type: "object",
+  required: ["id", "itemId"],
+  properties: {
+    id: { type: "string", format: "uuid" },
+    itemId: { type: "string", format: "uuid" },
+  },
+};
+
+// Registered under /todos/:id/items by the todos routes, which already
+// require authentication.
+const todoItemsRoutes: FastifyPluginAsync = async (fastify) => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "List checklist items",
+        description: "Returns the checklist items of a todo in order",
+        security: [{ bearerAuth: [] }],
+        params: todoParamsSchema,
+        response: {
+          200: { type: "array", items: todoItemSchema },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await getTodoItemsHandler(id, request, fastify.logger);
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.post(
+    "/",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Add a checklist item",
+        description:
+          "Adds an item to the todo checklist. Without position the item is appended",
+        security: [{ bearerAuth: [] }],
+        params: todoParamsSchema,
+        body: {
+          type: "object",
+          required: ["title"],
+          properties: {
+            title: { type: "string" },
+            completed: { type: "boolean" },
+            position: { type: "integer", minimum: 0 },
+          },
+        },
+        response: {
+          201: todoItemSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await createTodoItemHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.status(201).send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.put(
+    "/order",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Reorder checklist items",
+        description:
+          "Sets the checklist order. itemIds must contain every item of the todo exactly once",
+        security: [{ bearerAuth: [] }],
+        params: todoParamsSchema,
+        body: {
+          type: "object",
+          required: ["itemIds"],
+          properties: {
+            itemIds: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+            },
+          },
+        },
+        response: {
+          200: { type: "array", items: todoItemSchema },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const result = await reorderTodoItemsHandler(
+          id,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.patch(
+    "/:itemId",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Update a checklist item",
+        description:
+          "Renames or checks an item. When the todo has autoCompleteFromItems enabled its completed flag follows the checklist",
+        security: [{ bearerAuth: [] }],
+        params: todoItemParamsSchema,
+        body: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            completed: { type: "boolean" },
+          },
+        },
+        response: {
+          200: todoItemSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await updateTodoItemHandler(
+          request.params,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.delete(
+    "/:itemId",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Delete a checklist item",
+        description: "Removes an item from the todo checklist",
+        security: [{ bearerAuth: [] }],
+        params: todoItemParamsSchema,
+        response: {
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await deleteTodoItemHandler(
+          request.params,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default todoItemsRoutes;
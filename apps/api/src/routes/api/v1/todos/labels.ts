@@ -0,0 +1,188 @@
+import type { FastifyPluginAsync } from "fastify";
+import { createTodoLabelHandler } from "../../../../modules/todo/commands/create-todo-label.command";
+import { updateTodoLabelHandler } from "../../../../modules/todo/commands/update-todo-label.command";
+import { deleteTodoLabelHandler } from "../../../../modules/todo/commands/delete-todo-label.command";
+import { getTodoLabelsHandler } from "../../../../modules/todo/queries/get-todo-labels.query";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+
+const todoLabelSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    organizationId: { type: "string", format: "uuid" },
+    name: { type: "string" },
+    color: { type: "string", description: "Hex color, e.g. #1f77b4" },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const todoLabelParamsSchema = {
+  type: "object",
+  required: ["labelId"],
+  properties: {
+    labelId: { type: "string", format: "uuid" },
+  },
+};
+
+// Registered under /todos/labels by the todos routes, which already require
+// authentication.
+const todoLabelsRoutes: FastifyPluginAsync = async (fastify) => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "List todo labels",
+        description: "Returns the labels of the active organization by name",
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: { type: "array", items: todoLabelSchema },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await getTodoLabelsHandler(request, fastify.logger);
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.post(
+    "/",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Create a todo label",
+        description:
+          "Adds a label to the active organization. Names are unique regardless of case",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["name", "color"],
+          properties: {
+            name: { type: "string" },
+            color: { type: "string" },
+          },
+        },
+        response: {
+          201: todoLabelSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await createTodoLabelHandler(
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.status(201).send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.patch(
+    "/:labelId",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Update a todo label",
+        description: "Renames or recolors a label",
+        security: [{ bearerAuth: [] }],
+        params: todoLabelParamsSchema,
+        body: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            color: { type: "string" },
+          },
+        },
+        response: {
+          200: todoLabelSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await updateTodoLabelHandler(
+          request.params,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.delete(
+    "/:labelId",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Delete a todo label",
+        description: "Deletes a label and removes it from every todo",
+        security: [{ bearerAuth: [] }],
+        params: todoLabelParamsSchema,
+        response: {
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await deleteTodoLabelHandler(
+          request.params,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default todoLabelsRoutes;
@@ -0,0 +1,236 @@
+import type { FastifyPluginAsync } from "fastify";
+import { createTodoStatusHandler } from "../../../../modules/todo/commands/create-todo-status.command";
+import { updateTodoStatusHandler } from "../../../../modules/todo/commands/update-todo-status.command";
+import { deleteTodoStatusHandler } from "../../../../modules/todo/commands/delete-todo-status.command";
+import { reorderTodoStatusesHandler } from "../../../../modules/todo/commands/reorder-todo-statuses.command";
+import { getTodoStatusesHandler } from "../../../../modules/todo/queries/get-todo-statuses.query";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+
+const todoStatusSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    organizationId: { type: "string", format: "uuid" },
+    name: { type: "string" },
+    color: { type: ["string", "null"], description: "Hex color, e.g. #1f77b4" },
+    position: { type: "integer" },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const todoStatusParamsSchema = {
+  type: "object",
+  required: ["statusId"],
+  properties: {
+    statusId: { type: "string", format: "uuid" },
+  },
+};
+
+// Registered under /todos/statuses by the todos routes, which already require
+// authentication.
+const todoStatusesRoutes: FastifyPluginAsync = async (fastify) => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "List todo statuses",
+        description:
+          "Returns the board columns of the active organization in order, creating the default ones on first use. The last column holds the completed todos",
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: { type: "array", items: todoStatusSchema },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await getTodoStatusesHandler(request, fastify.logger);
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.post(
+    "/",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Create a todo status",
+        description:
+          "Adds a board column. Without a position it goes in front of the last column. Names are unique regardless of case",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["name"],
+          properties: {
+            name: { type: "string" },
+            color: { type: "string" },
+            position: { type: "integer", minimum: 0 },
+          },
+        },
+        response: {
+          201: todoStatusSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await createTodoStatusHandler(
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.status(201).send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.put(
+    "/order",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Reorder todo statuses",
+        description:
+          "Sets the column order. statusIds must list every status of the organization exactly once",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["statusIds"],
+          properties: {
+            statusIds: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+            },
+          },
+        },
+        response: {
+          200: { type: "array", items: todoStatusSchema },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await reorderTodoStatusesHandler(
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.patch(
+    "/:statusId",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Update a todo status",
+        description: "Renames or recolors a board column",
+        security: [{ bearerAuth: [] }],
+        params: todoStatusParamsSchema,
+        body: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            color: { type: ["string", "null"] },
+          },
+        },
+        response: {
+          200: todoStatusSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await updateTodoStatusHandler(
+          request.params,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.delete(
+    "/:statusId",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Delete a todo status",
+        description:
+          "Deletes an empty board column. Columns that still hold todos are rejected with STATUS_IN_USE",
+        security: [{ bearerAuth: [] }],
+        params: todoStatusParamsSchema,
+        response: {
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await deleteTodoStatusHandler(
+          request.params,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default todoStatusesRoutes;
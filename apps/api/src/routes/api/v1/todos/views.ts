@@ -0,0 +1,236 @@
+import type { FastifyPluginAsync } from "fastify";
+import { createTodoViewHandler } from "../../../../modules/todo/commands/create-todo-view.command";
+import { updateTodoViewHandler } from "../../../../modules/todo/commands/update-todo-view.command";
+import { deleteTodoViewHandler } from "../../../../modules/todo/commands/delete-todo-view.command";
+import { getTodoViewsHandler } from "../../../../modules/todo/queries/get-todo-views.query";
+import { getTodoViewByIdHandler } from "../../../../modules/todo/queries/get-todo-view-by-id.query";
+import { createErrorHandler } from "../../../../shared/utils/error-handler";
+
+const todoViewFiltersSchema = {
+  type: "object",
+  description:
+    "GET /todos query parameters in their string form, without cursor and viewId",
+  additionalProperties: { type: "string" },
+};
+
+const todoViewSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    organizationId: { type: "string", format: "uuid" },
+    createdByMemberId: { type: "string", format: "uuid" },
+    name: { type: "string" },
+    filters: todoViewFiltersSchema,
+    isShared: { type: "boolean" },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const errorListSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      message: { type: "string" },
+      value: { type: "string" },
+    },
+  },
+};
+
+const todoViewParamsSchema = {
+  type: "object",
+  required: ["viewId"],
+  properties: {
+    viewId: { type: "string", format: "uuid" },
+  },
+};
+
+// Registered under /todos/views by the todos routes, which already require
+// authentication.
+const todoViewsRoutes: FastifyPluginAsync = async (fastify) => {
+  const handleError = createErrorHandler(fastify);
+
+  fastify.get(
+    "/",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "List saved todo views",
+        description:
+          "Returns the current member's views and the views shared within the organization",
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: { type: "array", items: todoViewSchema },
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await getTodoViewsHandler(request, fastify.logger);
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.get(
+    "/:viewId",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Get a saved todo view",
+        description:
+          "Returns a view. Pass its id as viewId to GET /todos to list the matching todos",
+        security: [{ bearerAuth: [] }],
+        params: todoViewParamsSchema,
+        response: {
+          200: todoViewSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await getTodoViewByIdHandler(
+          request.params,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.post(
+    "/",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Save a todo view",
+        description:
+          "Saves a named combination of listing filters. Set isShared to make it available to the whole organization",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["name", "filters"],
+          properties: {
+            name: { type: "string" },
+            filters: todoViewFiltersSchema,
+            isShared: { type: "boolean" },
+          },
+        },
+        response: {
+          201: todoViewSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await createTodoViewHandler(
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.status(201).send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.patch(
+    "/:viewId",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Update a saved todo view",
+        description:
+          "Renames, re-filters or shares a view. Only its creator can change it",
+        security: [{ bearerAuth: [] }],
+        params: todoViewParamsSchema,
+        body: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            filters: todoViewFiltersSchema,
+            isShared: { type: "boolean" },
+          },
+        },
+        response: {
+          200: todoViewSchema,
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await updateTodoViewHandler(
+          request.params,
+          request.body,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+
+  fastify.delete(
+    "/:viewId",
+    {
+      schema: {
+        tags: ["todos"],
+        summary: "Delete a saved todo view",
+        description: "Deletes a view. Only its creator can delete it",
+        security: [{ bearerAuth: [] }],
+        params: todoViewParamsSchema,
+        response: {
+          400: errorListSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await deleteTodoViewHandler(
+          request.params,
+          request,
+          fastify.logger,
+        );
+
+        if (!result.isSuccess) {
+          return reply.status(400).send(result.errors);
+        }
+        return reply.send(result.data);
+      } catch (error) {
+        return handleError(error, reply);
+      }
+    },
+  );
+};
+
+export default todoViewsRoutes;
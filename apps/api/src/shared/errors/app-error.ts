@@ -4,6 +4,7 @@ export type ErrorCode =
   | "DUPLICATE_RESOURCE"
   | "UNAUTHORIZED"
   | "FORBIDDEN"
+  | "PRECONDITION_FAILED"
   | "INTERNAL_ERROR";
 
 export type AppErrorResponse = {
@@ -42,6 +43,7 @@ export class AppError extends Error {
       FORBIDDEN: 403,
       RESOURCE_NOT_FOUND: 404,
       DUPLICATE_RESOURCE: 409,
+      PRECONDITION_FAILED: 412,
       INTERNAL_ERROR: 500,
     };
     return statusMap[code];
@@ -80,6 +82,14 @@ export const createUnauthorizedError = (message?: string) =>
 export const createForbiddenError = (message?: string) =>
   new AppError("FORBIDDEN", undefined, undefined, message || "Access denied");
 
+export const createPreconditionFailedError = (resource: string, id?: string) =>
+  new AppError(
+    "PRECONDITION_FAILED",
+    { resource, ...(id && { id }) },
+    undefined,
+    `${resource} was modified since it was last read`,
+  );
+
 export const createInternalError = () => new AppError("INTERNAL_ERROR");
 
 export const createAuthError = (message: string) =>
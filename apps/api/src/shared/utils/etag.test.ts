@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { assertIfMatch, createETag, matchesIfMatch } from "./etag";
+
+describe("etag", () => {
+  const updatedAt = new Date("2026-03-02T10:00:00.000Z");
+  const etag = createETag(updatedAt);
+
+  it("should change the tag, when updatedAt changes", () => {
+    expect(createETag(new Date("2026-03-02T10:00:00.001Z"))).not.toBe(etag);
+    expect(createETag(new Date(updatedAt))).toBe(etag);
+  });
+
+  it("should match, when the header is missing or a wildcard", () => {
+    expect(matchesIfMatch(undefined, etag)).toBe(true);
+    expect(matchesIfMatch("*", etag)).toBe(true);
+  });
+
+  it("should match, when the tag is one of a list or sent as weak", () => {
+    expect(matchesIfMatch(`"other", ${etag}`, etag)).toBe(true);
+    expect(matchesIfMatch(`W/${etag}`, etag)).toBe(true);
+    expect(matchesIfMatch('"other"', etag)).toBe(false);
+  });
+
+  it("should throw precondition failed, when the if-match header is stale", () => {
+    const request = { headers: { "if-match": '"other"' } } as never;
+
+    expect(() => assertIfMatch(request, updatedAt, "Todo")).toThrow(
+      expect.objectContaining({ code: "PRECONDITION_FAILED", statusCode: 412 }),
+    );
+    expect(() =>
+      assertIfMatch({ headers: {} } as never, updatedAt, "Todo"),
+    ).not.toThrow();
+  });
+
+  it("should return the updatedAt the write must still find, when If-Match is given", () => {
+    expect(
+      assertIfMatch(
+        { headers: { "if-match": etag } } as never,
+        updatedAt,
+        "Todo",
+      ),
+    ).toBe(updatedAt);
+    expect(
+      assertIfMatch(
+        { headers: { "if-match": "*" } } as never,
+        updatedAt,
+        "Todo",
+      ),
+    ).toBeUndefined();
+    expect(
+      assertIfMatch({ headers: {} } as never, updatedAt, "Todo"),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+import type { FastifyRequest } from "fastify";
+import { createPreconditionFailedError } from "../errors/app-error";
+
+/**
+ * Builds the entity tag of a resource from its last modification time.
+ * Every write bumps updatedAt, so the tag changes with each update.
+ *
+ * @param updatedAt - The resource's updatedAt timestamp
+ */
+export function createETag(updatedAt: Date): string {
+  return `"${updatedAt.getTime().toString(36)}"`;
+}
+
+/**
+ * Checks an If-Match header value against the current entity tag.
+ * A missing header or `*` always matches, so clients that do not send
+ * If-Match keep last-write-wins behaviour.
+ *
+ * @param ifMatch - Raw If-Match header, possibly a comma separated list
+ * @param etag - Current entity tag of the resource
+ */
+export function matchesIfMatch(
+  ifMatch: string | undefined,
+  etag: string,
+): boolean {
+  if (ifMatch === undefined || ifMatch.trim() === "*") {
+    return true;
+  }
+
+  return ifMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .includes(etag);
+}
+
+/**
+ * Rejects a write with PRECONDITION_FAILED (412) when the request carries an
+ * If-Match header that no longer matches the resource.
+ *
+ * The check alone races with concurrent writers, so it returns the updatedAt
+ * the write must still find. Pass it to the UPDATE's WHERE clause and treat
+ * an update of no rows as a failed precondition too.
+ *
+ * @param request - Fastify request carrying the If-Match header
+ * @param updatedAt - The resource's current updatedAt timestamp
+ * @param resource - Resource name used in the error
+ * @param id - Resource id used in the error
+ * @returns The expected updatedAt, or undefined without an If-Match header
+ */
+export function assertIfMatch(
+  request: FastifyRequest,
+  updatedAt: Date,
+  resource: string,
+  id?: string,
+): Date | undefined {
+  const ifMatch = request.headers?.["if-match"];
+  if (ifMatch === undefined || ifMatch.trim() === "*") {
+    return undefined;
+  }
+  if (!matchesIfMatch(ifMatch, createETag(updatedAt))) {
+    throw createPreconditionFailedError(resource, id);
+  }
+
+  return updatedAt;
+}
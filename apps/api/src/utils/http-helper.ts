@@ -42,6 +42,8 @@ function mapErrorCodeToStatus(code?: string): number {
       return 404;
     case "DUPLICATE_RESOURCE":
       return 409;
+    case "PRECONDITION_FAILED":
+      return 412;
     case "INTERNAL_ERROR":
       return 500;
     default:
@@ -4,30 +4,31 @@ import { organization } from "better-auth/plugins";
 import { db } from "@repo/database";
 import * as todoSchema from "@repo/database/schema/todo";
 import * as authSchema from "@repo/database/schema/auth";
+import { outboxMessages, OutboxTopics } from "@repo/database/schema/outbox";
+import {
+  renderTemplate,
+  emailVerificationEmail,
+  invitationEmail,
+  passwordResetEmail,
+  type MailMessage,
+} from "@repo/mailer";
 import { ac, roles } from "./permissions";
 
 const schema = { ...todoSchema, ...authSchema };
 
-const mockSendEmail = ({
-  to,
-  subject,
-  text,
-  html,
-}: {
-  to: string;
-  subject: string;
-  text?: string;
-  html?: string;
-}) => {
-  console.log("=".repeat(60));
-  console.log("📧 MOCK EMAIL SERVICE");
-  console.log("=".repeat(60));
-  console.log(`To: ${to}`);
-  console.log(`Subject: ${subject}`);
-  console.log("-".repeat(60));
-  console.log(text || html || "(no content)");
-  console.log("=".repeat(60));
-};
+// Account emails go through the outbox too, so the api's outbox worker
+// retries them when the mail server is unavailable. They are queued without
+// an organization; admins of the recipient's organizations can retry them.
+async function queueEmail(
+  message: MailMessage,
+  organizationId?: string,
+): Promise<void> {
+  await db.insert(outboxMessages).values({
+    organizationId,
+    topic: OutboxTopics.EMAIL,
+    payload: { ...message },
+  });
+}
 
 export const auth = betterAuth({
   // Trust origins for CORS - required for cookie-based auth to work across origins
@@ -80,46 +81,62 @@ export const auth = betterAuth({
     minPasswordLength: 8,
     maxPasswordLength: 128,
     autoSignIn: true,
-    sendResetPassword: async ({ user, url }) => {
-      void mockSendEmail({
+    sendResetPassword: async ({ user, url }, request) => {
+      await queueEmail({
         to: user.email,
-        subject: "Reset your password",
-        text: `Hello ${user.name},\n\nClick the link below to reset your password:\n${url}\n\nThis link will expire in 1 hour.\n\nIf you didn't request this, please ignore this email.`,
-        html: `
-          <h2>Reset Your Password</h2>
-          <p>Hello ${user.name},</p>
-          <p>Click the button below to reset your password:</p>
-          <a href="${url}" style="display: inline-block; padding: 12px 24px; background-color: #007bff; color: white; text-decoration: none; border-radius: 4px;">Reset Password</a>
-          <p>Or copy this link: ${url}</p>
-          <p>This link will expire in 1 hour.</p>
-          <p>If you didn't request this, please ignore this email.</p>
-        `,
+        ...renderTemplate(
+          passwordResetEmail,
+          { name: user.name, url, expiresInMinutes: 60 },
+          { locale: request?.headers.get("accept-language") },
+        ),
       });
     },
     resetPasswordTokenExpiresIn: 3600,
   },
+  emailVerification: {
+    sendVerificationEmail: async ({ user, url }, request) => {
+      await queueEmail({
+        to: user.email,
+        ...renderTemplate(
+          emailVerificationEmail,
+          { name: user.name, url },
+          { locale: request?.headers.get("accept-language") },
+        ),
+      });
+    },
+  },
   plugins: [
     organization({
       ac,
       roles,
       allowUserToCreateOrganization: true,
-      sendInvitationEmail: async (data) => {
+      sendInvitationEmail: async (data, request) => {
         const { email, organization, inviter, role, invitation } = data;
-        const inviterName = inviter.user?.name || "Someone";
         const inviteUrl = `${process.env.CLIENT_ORIGIN || "http://localhost:3000"}/accept-invitation?token=${invitation.id}`;
 
-        void mockSendEmail({
-          to: email,
-          subject: `You've been invited to join ${organization.name}`,
-          text: `Hello,\n\n${inviterName} has invited you to join ${organization.name} as a ${role}.\n\nClick the link below to accept the invitation:\n${inviteUrl}\n\nThis invitation will expire in 7 days.`,
-          html: `
-            <h2>You're Invited!</h2>
-            <p>${inviterName} has invited you to join <strong>${organization.name}</strong> as a <strong>${role}</strong>.</p>
-            <a href="${inviteUrl}" style="display: inline-block; padding: 12px 24px; background-color: #28a745; color: white; text-decoration: none; border-radius: 4px;">Accept Invitation</a>
-            <p>Or copy this link: ${inviteUrl}</p>
-            <p>This invitation will expire in 7 days.</p>
-          `,
-        });
+        await queueEmail(
+          {
+            to: email,
+            ...renderTemplate(
+              invitationEmail,
+              {
+                inviterName: inviter.user?.name || "Someone",
+                organizationName: organization.name,
+                role,
+                url: inviteUrl,
+                expiresInDays: 7,
+              },
+              {
+                locale: request?.headers.get("accept-language"),
+                branding: {
+                  name: organization.name,
+                  logoUrl: organization.logo,
+                },
+              },
+            ),
+          },
+          organization.id,
+        );
       },
     }),
   ],
@@ -7,6 +7,7 @@ export const statement = {
   course: ["create", "read", "update", "delete"],
   grade: ["create", "read", "update"],
   attendance: ["create", "read", "update"],
+  board: ["create", "read", "update", "delete"],
 } as const;
 
 export const ac = createAccessControl(statement);
@@ -18,6 +19,7 @@ export const owner = ac.newRole({
   course: ["create", "read", "update", "delete"],
   grade: ["create", "read", "update"],
   attendance: ["create", "read", "update"],
+  board: ["create", "read", "update", "delete"],
 });
 
 export const admin = ac.newRole({
@@ -27,6 +29,7 @@ export const admin = ac.newRole({
   course: ["create", "read", "update", "delete"],
   grade: ["create", "read", "update"],
   attendance: ["create", "read", "update"],
+  board: ["create", "read", "update", "delete"],
 });
 
 export const teacher = ac.newRole({
@@ -34,6 +37,7 @@ export const teacher = ac.newRole({
   course: ["create", "read", "update"],
   grade: ["create", "read", "update"],
   attendance: ["create", "read", "update"],
+  board: ["create", "read", "update", "delete"],
 });
 
 export const student = ac.newRole({
@@ -41,6 +45,7 @@ export const student = ac.newRole({
   course: ["read"],
   grade: ["read"],
   attendance: ["read"],
+  board: ["read", "update"],
 });
 
 export const parent = ac.newRole({
@@ -48,6 +53,7 @@ export const parent = ac.newRole({
   course: ["read"],
   grade: ["read"],
   attendance: ["read"],
+  board: ["read"],
 });
 
 export const staff = ac.newRole({
@@ -55,6 +61,7 @@ export const staff = ac.newRole({
   invitation: ["create", "read", "delete"],
   course: ["read"],
   attendance: ["create", "read", "update"],
+  board: ["create", "read", "update"],
 });
 
 export const roles = {
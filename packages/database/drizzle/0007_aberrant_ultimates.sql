@@ -0,0 +1,25 @@
+CREATE TABLE "course" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"name" varchar(200) NOT NULL,
+	"code" varchar(50) NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "course_organization_code_unique" UNIQUE("organization_id","code")
+);
+--> statement-breakpoint
+CREATE TABLE "course_instructor" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"course_id" uuid NOT NULL,
+	"member_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "course_instructor_course_member_unique" UNIQUE("course_id","member_id")
+);
+--> statement-breakpoint
+ALTER TABLE "course" ADD CONSTRAINT "course_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "course_instructor" ADD CONSTRAINT "course_instructor_course_id_course_id_fk" FOREIGN KEY ("course_id") REFERENCES "public"."course"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "course_instructor" ADD CONSTRAINT "course_instructor_member_id_member_id_fk" FOREIGN KEY ("member_id") REFERENCES "public"."member"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "course_organization_id_idx" ON "course" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "course_instructor_course_id_idx" ON "course_instructor" USING btree ("course_id");--> statement-breakpoint
+CREATE INDEX "course_instructor_member_id_idx" ON "course_instructor" USING btree ("member_id");
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TYPE "public"."attendance_status" AS ENUM('present', 'absent', 'late', 'excused');--> statement-breakpoint
+CREATE TABLE "attendance_record" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"student_member_id" uuid NOT NULL,
+	"status" "attendance_status" NOT NULL,
+	"note" text,
+	"marked_by_member_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "attendance_record_session_student_unique" UNIQUE("session_id","student_member_id")
+);
+--> statement-breakpoint
+CREATE TABLE "attendance_session" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"course_id" uuid NOT NULL,
+	"session_date" date NOT NULL,
+	"topic" varchar(200),
+	"created_by_member_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "attendance_session_course_date_unique" UNIQUE("course_id","session_date")
+);
+--> statement-breakpoint
+ALTER TABLE "attendance_record" ADD CONSTRAINT "attendance_record_session_id_attendance_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."attendance_session"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attendance_record" ADD CONSTRAINT "attendance_record_student_member_id_member_id_fk" FOREIGN KEY ("student_member_id") REFERENCES "public"."member"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attendance_record" ADD CONSTRAINT "attendance_record_marked_by_member_id_member_id_fk" FOREIGN KEY ("marked_by_member_id") REFERENCES "public"."member"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attendance_session" ADD CONSTRAINT "attendance_session_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attendance_session" ADD CONSTRAINT "attendance_session_course_id_course_id_fk" FOREIGN KEY ("course_id") REFERENCES "public"."course"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attendance_session" ADD CONSTRAINT "attendance_session_created_by_member_id_member_id_fk" FOREIGN KEY ("created_by_member_id") REFERENCES "public"."member"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "attendance_record_student_member_id_idx" ON "attendance_record" USING btree ("student_member_id");--> statement-breakpoint
+CREATE INDEX "attendance_session_organization_id_idx" ON "attendance_session" USING btree ("organization_id");
\ No newline at end of file
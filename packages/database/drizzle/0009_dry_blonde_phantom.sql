@@ -0,0 +1,45 @@
+CREATE TYPE "public"."grade_category" AS ENUM('assignment', 'quiz', 'exam');--> statement-breakpoint
+CREATE TABLE "grade_category_weight" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"course_id" uuid NOT NULL,
+	"category" "grade_category" NOT NULL,
+	"weight" double precision NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "grade_category_weight_course_category_unique" UNIQUE("course_id","category")
+);
+--> statement-breakpoint
+CREATE TABLE "grade_item" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"course_id" uuid NOT NULL,
+	"name" varchar(200) NOT NULL,
+	"category" "grade_category" NOT NULL,
+	"max_points" double precision NOT NULL,
+	"weight" double precision DEFAULT 1 NOT NULL,
+	"due_date" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "grade_score" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"grade_item_id" uuid NOT NULL,
+	"student_member_id" uuid NOT NULL,
+	"points" double precision NOT NULL,
+	"feedback" text,
+	"graded_by_member_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "grade_score_item_student_unique" UNIQUE("grade_item_id","student_member_id")
+);
+--> statement-breakpoint
+ALTER TABLE "grade_category_weight" ADD CONSTRAINT "grade_category_weight_course_id_course_id_fk" FOREIGN KEY ("course_id") REFERENCES "public"."course"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "grade_item" ADD CONSTRAINT "grade_item_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "grade_item" ADD CONSTRAINT "grade_item_course_id_course_id_fk" FOREIGN KEY ("course_id") REFERENCES "public"."course"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "grade_score" ADD CONSTRAINT "grade_score_grade_item_id_grade_item_id_fk" FOREIGN KEY ("grade_item_id") REFERENCES "public"."grade_item"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "grade_score" ADD CONSTRAINT "grade_score_student_member_id_member_id_fk" FOREIGN KEY ("student_member_id") REFERENCES "public"."member"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "grade_score" ADD CONSTRAINT "grade_score_graded_by_member_id_member_id_fk" FOREIGN KEY ("graded_by_member_id") REFERENCES "public"."member"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "grade_item_organization_id_idx" ON "grade_item" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "grade_item_course_id_idx" ON "grade_item" USING btree ("course_id");--> statement-breakpoint
+CREATE INDEX "grade_score_student_member_id_idx" ON "grade_score" USING btree ("student_member_id");
\ No newline at end of file
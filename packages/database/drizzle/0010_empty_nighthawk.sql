@@ -0,0 +1,29 @@
+CREATE TABLE "course_enrollment" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"course_id" uuid NOT NULL,
+	"student_member_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "course_enrollment_course_student_unique" UNIQUE("course_id","student_member_id")
+);
+--> statement-breakpoint
+CREATE TABLE "guardianship" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"parent_member_id" uuid NOT NULL,
+	"student_member_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "guardianship_parent_student_unique" UNIQUE("parent_member_id","student_member_id")
+);
+--> statement-breakpoint
+ALTER TABLE "invitation" ADD COLUMN "student_member_id" uuid;--> statement-breakpoint
+ALTER TABLE "course_enrollment" ADD CONSTRAINT "course_enrollment_course_id_course_id_fk" FOREIGN KEY ("course_id") REFERENCES "public"."course"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "course_enrollment" ADD CONSTRAINT "course_enrollment_student_member_id_member_id_fk" FOREIGN KEY ("student_member_id") REFERENCES "public"."member"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "guardianship" ADD CONSTRAINT "guardianship_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "guardianship" ADD CONSTRAINT "guardianship_parent_member_id_member_id_fk" FOREIGN KEY ("parent_member_id") REFERENCES "public"."member"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "guardianship" ADD CONSTRAINT "guardianship_student_member_id_member_id_fk" FOREIGN KEY ("student_member_id") REFERENCES "public"."member"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "course_enrollment_course_id_idx" ON "course_enrollment" USING btree ("course_id");--> statement-breakpoint
+CREATE INDEX "course_enrollment_student_member_id_idx" ON "course_enrollment" USING btree ("student_member_id");--> statement-breakpoint
+CREATE INDEX "guardianship_organization_id_idx" ON "guardianship" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "guardianship_parent_member_id_idx" ON "guardianship" USING btree ("parent_member_id");--> statement-breakpoint
+CREATE INDEX "guardianship_student_member_id_idx" ON "guardianship" USING btree ("student_member_id");--> statement-breakpoint
+ALTER TABLE "invitation" ADD CONSTRAINT "invitation_student_member_id_member_id_fk" FOREIGN KEY ("student_member_id") REFERENCES "public"."member"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
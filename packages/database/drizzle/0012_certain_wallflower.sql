@@ -0,0 +1,19 @@
+-- Todos created before organizations have no creator to attribute them by.
+-- A database with a single organization gives them all to it; otherwise they
+-- are moved to "todos_unattributed" for an admin to re-home, not deleted.
+DROP INDEX "title_idx";--> statement-breakpoint
+ALTER TABLE "todos" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "todos" ADD COLUMN "created_by_member_id" uuid;--> statement-breakpoint
+UPDATE "todos" SET "organization_id" = "sole_organization"."id" FROM (SELECT "id" FROM "organization") AS "sole_organization" WHERE (SELECT count(*) FROM "organization") = 1;--> statement-breakpoint
+DO $$
+BEGIN
+	IF EXISTS (SELECT 1 FROM "todos" WHERE "organization_id" IS NULL) THEN
+		CREATE TABLE "todos_unattributed" AS SELECT * FROM "todos" WHERE "organization_id" IS NULL;
+		DELETE FROM "todos" WHERE "organization_id" IS NULL;
+	END IF;
+END $$;--> statement-breakpoint
+ALTER TABLE "todos" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "todos" ADD CONSTRAINT "todos_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todos" ADD CONSTRAINT "todos_created_by_member_id_member_id_fk" FOREIGN KEY ("created_by_member_id") REFERENCES "public"."member"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "todos_organization_id_created_at_idx" ON "todos" USING btree ("organization_id","created_at" DESC NULLS LAST);--> statement-breakpoint
+CREATE INDEX "title_idx" ON "todos" USING btree ("organization_id",lower("title"));
\ No newline at end of file
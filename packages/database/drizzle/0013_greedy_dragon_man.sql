@@ -0,0 +1,20 @@
+CREATE TABLE "todo_series" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"created_by_member_id" uuid,
+	"title" varchar(200) NOT NULL,
+	"description" text,
+	"priority" "priority" DEFAULT 'medium' NOT NULL,
+	"recurrence_rule" text NOT NULL,
+	"starts_at" timestamp NOT NULL,
+	"stopped_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "todos" ADD COLUMN "series_id" uuid;--> statement-breakpoint
+ALTER TABLE "todo_series" ADD CONSTRAINT "todo_series_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_series" ADD CONSTRAINT "todo_series_created_by_member_id_member_id_fk" FOREIGN KEY ("created_by_member_id") REFERENCES "public"."member"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "todo_series_organization_id_idx" ON "todo_series" USING btree ("organization_id");--> statement-breakpoint
+ALTER TABLE "todos" ADD CONSTRAINT "todos_series_id_todo_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "public"."todo_series"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "todos_series_id_due_date_idx" ON "todos" USING btree ("series_id","due_date");
\ No newline at end of file
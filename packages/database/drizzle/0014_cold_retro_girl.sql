@@ -0,0 +1,13 @@
+CREATE TABLE "todo_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"todo_id" uuid NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"completed" boolean DEFAULT false NOT NULL,
+	"position" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "todos" ADD COLUMN "auto_complete_from_items" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "todo_items" ADD CONSTRAINT "todo_items_todo_id_todos_id_fk" FOREIGN KEY ("todo_id") REFERENCES "public"."todos"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "todo_items_todo_id_position_idx" ON "todo_items" USING btree ("todo_id","position");
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TABLE "todo_assignees" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"todo_id" uuid NOT NULL,
+	"member_id" uuid NOT NULL,
+	"assigned_by_member_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "todo_assignees_todo_member_unique" UNIQUE("todo_id","member_id")
+);
+--> statement-breakpoint
+CREATE TABLE "todo_comments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"todo_id" uuid NOT NULL,
+	"parent_id" uuid,
+	"author_member_id" uuid,
+	"body" text NOT NULL,
+	"deleted_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "todo_watchers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"todo_id" uuid NOT NULL,
+	"member_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "todo_watchers_todo_member_unique" UNIQUE("todo_id","member_id")
+);
+--> statement-breakpoint
+ALTER TABLE "todo_assignees" ADD CONSTRAINT "todo_assignees_todo_id_todos_id_fk" FOREIGN KEY ("todo_id") REFERENCES "public"."todos"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_assignees" ADD CONSTRAINT "todo_assignees_member_id_member_id_fk" FOREIGN KEY ("member_id") REFERENCES "public"."member"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_assignees" ADD CONSTRAINT "todo_assignees_assigned_by_member_id_member_id_fk" FOREIGN KEY ("assigned_by_member_id") REFERENCES "public"."member"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_comments" ADD CONSTRAINT "todo_comments_todo_id_todos_id_fk" FOREIGN KEY ("todo_id") REFERENCES "public"."todos"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_comments" ADD CONSTRAINT "todo_comments_parent_id_todo_comments_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."todo_comments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_comments" ADD CONSTRAINT "todo_comments_author_member_id_member_id_fk" FOREIGN KEY ("author_member_id") REFERENCES "public"."member"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_watchers" ADD CONSTRAINT "todo_watchers_todo_id_todos_id_fk" FOREIGN KEY ("todo_id") REFERENCES "public"."todos"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_watchers" ADD CONSTRAINT "todo_watchers_member_id_member_id_fk" FOREIGN KEY ("member_id") REFERENCES "public"."member"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "todo_assignees_member_id_idx" ON "todo_assignees" USING btree ("member_id");--> statement-breakpoint
+CREATE INDEX "todo_comments_todo_id_created_at_idx" ON "todo_comments" USING btree ("todo_id","created_at");--> statement-breakpoint
+CREATE INDEX "todo_comments_parent_id_idx" ON "todo_comments" USING btree ("parent_id");--> statement-breakpoint
+CREATE INDEX "todo_watchers_member_id_idx" ON "todo_watchers" USING btree ("member_id");
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TABLE "todo_labels" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"created_by_member_id" uuid,
+	"name" varchar(50) NOT NULL,
+	"color" varchar(7) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "todo_labels_organization_name_unique" UNIQUE("organization_id","name")
+);
+--> statement-breakpoint
+CREATE TABLE "todo_tags" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"todo_id" uuid NOT NULL,
+	"label_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "todo_tags_todo_label_unique" UNIQUE("todo_id","label_id")
+);
+--> statement-breakpoint
+CREATE TABLE "todo_views" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"created_by_member_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"filters" jsonb NOT NULL,
+	"is_shared" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "todo_views_member_name_unique" UNIQUE("created_by_member_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "todo_labels" ADD CONSTRAINT "todo_labels_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_labels" ADD CONSTRAINT "todo_labels_created_by_member_id_member_id_fk" FOREIGN KEY ("created_by_member_id") REFERENCES "public"."member"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_tags" ADD CONSTRAINT "todo_tags_todo_id_todos_id_fk" FOREIGN KEY ("todo_id") REFERENCES "public"."todos"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_tags" ADD CONSTRAINT "todo_tags_label_id_todo_labels_id_fk" FOREIGN KEY ("label_id") REFERENCES "public"."todo_labels"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_views" ADD CONSTRAINT "todo_views_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_views" ADD CONSTRAINT "todo_views_created_by_member_id_member_id_fk" FOREIGN KEY ("created_by_member_id") REFERENCES "public"."member"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "todo_labels_organization_id_idx" ON "todo_labels" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "todo_tags_label_id_idx" ON "todo_tags" USING btree ("label_id");--> statement-breakpoint
+CREATE INDEX "todo_views_organization_id_idx" ON "todo_views" USING btree ("organization_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "todos" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+CREATE INDEX "todos_deleted_at_idx" ON "todos" USING btree ("deleted_at");
\ No newline at end of file
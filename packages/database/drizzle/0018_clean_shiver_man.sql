@@ -0,0 +1,13 @@
+CREATE TABLE "todo_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"todo_id" uuid NOT NULL,
+	"actor_member_id" uuid,
+	"field" varchar(50) NOT NULL,
+	"old_value" jsonb,
+	"new_value" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "todo_history" ADD CONSTRAINT "todo_history_todo_id_todos_id_fk" FOREIGN KEY ("todo_id") REFERENCES "public"."todos"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "todo_history" ADD CONSTRAINT "todo_history_actor_member_id_member_id_fk" FOREIGN KEY ("actor_member_id") REFERENCES "public"."member"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "todo_history_todo_id_created_at_idx" ON "todo_history" USING btree ("todo_id","created_at");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "todo_statuses" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"color" varchar(7),
+	"position" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "todo_statuses_organization_name_unique" UNIQUE("organization_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "todos" ADD COLUMN "status_id" uuid;--> statement-breakpoint
+ALTER TABLE "todos" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "todo_statuses" ADD CONSTRAINT "todo_statuses_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "todo_statuses_organization_id_position_idx" ON "todo_statuses" USING btree ("organization_id","position");--> statement-breakpoint
+ALTER TABLE "todos" ADD CONSTRAINT "todos_status_id_todo_statuses_id_fk" FOREIGN KEY ("status_id") REFERENCES "public"."todo_statuses"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "todos_status_id_position_idx" ON "todos" USING btree ("status_id","position");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "ownership_transfer" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"from_member_id" uuid NOT NULL,
+	"to_member_id" uuid NOT NULL,
+	"status" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"responded_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "ownership_transfer" ADD CONSTRAINT "ownership_transfer_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ownership_transfer" ADD CONSTRAINT "ownership_transfer_from_member_id_member_id_fk" FOREIGN KEY ("from_member_id") REFERENCES "public"."member"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ownership_transfer" ADD CONSTRAINT "ownership_transfer_to_member_id_member_id_fk" FOREIGN KEY ("to_member_id") REFERENCES "public"."member"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ownership_transfer_organization_id_idx" ON "ownership_transfer" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "ownership_transfer_to_member_id_idx" ON "ownership_transfer" USING btree ("to_member_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "invitation" ADD COLUMN "first_name" text;--> statement-breakpoint
+ALTER TABLE "invitation" ADD COLUMN "last_name" text;
\ No newline at end of file
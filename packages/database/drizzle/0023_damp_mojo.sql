@@ -0,0 +1,20 @@
+CREATE TABLE "join_link" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"code" varchar(16) NOT NULL,
+	"role" text NOT NULL,
+	"max_uses" integer,
+	"use_count" integer DEFAULT 0 NOT NULL,
+	"allowed_domains" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"expires_at" timestamp,
+	"revoked_at" timestamp,
+	"created_by_member_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "join_link_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "organization" ADD COLUMN "auto_join_domains" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "organization" ADD COLUMN "auto_join_role" text DEFAULT 'student' NOT NULL;--> statement-breakpoint
+ALTER TABLE "join_link" ADD CONSTRAINT "join_link_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "join_link" ADD CONSTRAINT "join_link_created_by_member_id_member_id_fk" FOREIGN KEY ("created_by_member_id") REFERENCES "public"."member"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "join_link_organization_id_idx" ON "join_link" USING btree ("organization_id");
\ No newline at end of file
@@ -0,0 +1,19 @@
+-- Board permissions were only seeded for organizations created after boards
+-- were added. Give the system roles of every other organization theirs too.
+INSERT INTO "permission" ("role_id", "resource", "actions")
+SELECT "role"."id", 'board', "board_actions"."actions"
+FROM "role"
+INNER JOIN (
+	VALUES
+		('owner', '["create","read","update","delete"]'::jsonb),
+		('admin', '["create","read","update","delete"]'::jsonb),
+		('teacher', '["create","read","update","delete"]'::jsonb),
+		('student', '["read","update"]'::jsonb),
+		('parent', '["read"]'::jsonb),
+		('staff', '["create","read","update"]'::jsonb)
+) AS "board_actions" ("name", "actions") ON "board_actions"."name" = "role"."name"
+WHERE "role"."type" = 'system'
+	AND NOT EXISTS (
+		SELECT 1 FROM "permission"
+		WHERE "permission"."role_id" = "role"."id" AND "permission"."resource" = 'board'
+	);
\ No newline at end of file
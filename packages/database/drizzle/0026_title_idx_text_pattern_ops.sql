@@ -0,0 +1,2 @@
+DROP INDEX "title_idx";--> statement-breakpoint
+CREATE INDEX "title_idx" ON "todos" USING btree ("organization_id",lower("title") text_pattern_ops);
\ No newline at end of file
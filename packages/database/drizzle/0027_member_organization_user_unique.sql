@@ -0,0 +1,14 @@
+-- Concurrent joins could add a user to an organization twice. Keep the
+-- oldest membership of each pair before making the pair unique.
+DELETE FROM "member"
+WHERE "id" IN (
+	SELECT "id" FROM (
+		SELECT "id", row_number() OVER (
+			PARTITION BY "organization_id", "user_id"
+			ORDER BY "created_at", "id"
+		) AS "rank"
+		FROM "member"
+	) AS "ranked"
+	WHERE "rank" > 1
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "member_organization_id_user_id_idx" ON "member" USING btree ("organization_id","user_id");
\ No newline at end of file
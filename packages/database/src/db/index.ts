@@ -3,15 +3,37 @@ import postgres from "postgres";
 import * as todoSchema from "../schema/todo";
 import * as authSchema from "../schema/auth";
 import * as rolesSchema from "../schema/roles";
+import * as courseSchema from "../schema/course";
+import * as attendanceSchema from "../schema/attendance";
+import * as gradeSchema from "../schema/grade";
+import * as guardianshipSchema from "../schema/guardianship";
+import * as boardSchema from "../schema/board";
+import * as notificationSchema from "../schema/notification";
+import * as ownershipSchema from "../schema/ownership";
+import * as joinLinkSchema from "../schema/join-link";
+import * as outboxSchema from "../schema/outbox";
 
-const schema = { ...todoSchema, ...authSchema, ...rolesSchema };
+const schema = {
+  ...todoSchema,
+  ...authSchema,
+  ...rolesSchema,
+  ...courseSchema,
+  ...attendanceSchema,
+  ...gradeSchema,
+  ...guardianshipSchema,
+  ...boardSchema,
+  ...notificationSchema,
+  ...ownershipSchema,
+  ...joinLinkSchema,
+  ...outboxSchema,
+};
 
 const connectionString = process.env.DATABASE_URL;
 
 if (!connectionString) {
   throw new Error(
     "DATABASE_URL environment variable is required. " +
-      "Please set it to a valid PostgreSQL connection string."
+      "Please set it to a valid PostgreSQL connection string.",
   );
 }
 
@@ -25,4 +47,19 @@ const client = postgres(connectionString, {
 
 export const db = drizzle(client, { schema });
 
-export { eq, and, or, desc, asc, sql } from "drizzle-orm";
+export {
+  eq,
+  and,
+  or,
+  desc,
+  asc,
+  sql,
+  inArray,
+  gt,
+  gte,
+  lt,
+  lte,
+  isNull,
+  isNotNull,
+} from "drizzle-orm";
+export type { SQL } from "drizzle-orm";
@@ -0,0 +1,87 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  date,
+  timestamp,
+  pgEnum,
+  index,
+  unique,
+} from "drizzle-orm/pg-core";
+import { organization, member } from "./auth";
+import { course } from "./course";
+
+export const attendanceStatusEnum = pgEnum("attendance_status", [
+  "present",
+  "absent",
+  "late",
+  "excused",
+]);
+
+export const attendanceSession = pgTable(
+  "attendance_session",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    courseId: uuid("course_id")
+      .notNull()
+      .references(() => course.id, { onDelete: "cascade" }),
+    sessionDate: date("session_date", { mode: "string" }).notNull(),
+    topic: varchar("topic", { length: 200 }),
+    createdByMemberId: uuid("created_by_member_id").references(
+      () => member.id,
+      { onDelete: "set null" },
+    ),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("attendance_session_organization_id_idx").on(table.organizationId),
+    unique("attendance_session_course_date_unique").on(
+      table.courseId,
+      table.sessionDate,
+    ),
+  ],
+);
+
+export type AttendanceSessionEntity = typeof attendanceSession.$inferSelect;
+export type NewAttendanceSessionEntity = typeof attendanceSession.$inferInsert;
+
+export const attendanceRecord = pgTable(
+  "attendance_record",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sessionId: uuid("session_id")
+      .notNull()
+      .references(() => attendanceSession.id, { onDelete: "cascade" }),
+    studentMemberId: uuid("student_member_id")
+      .notNull()
+      .references(() => member.id, { onDelete: "cascade" }),
+    status: attendanceStatusEnum("status").notNull(),
+    note: text("note"),
+    markedByMemberId: uuid("marked_by_member_id").references(() => member.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("attendance_record_student_member_id_idx").on(table.studentMemberId),
+    unique("attendance_record_session_student_unique").on(
+      table.sessionId,
+      table.studentMemberId,
+    ),
+  ],
+);
+
+export type AttendanceRecordEntity = typeof attendanceRecord.$inferSelect;
+export type NewAttendanceRecordEntity = typeof attendanceRecord.$inferInsert;
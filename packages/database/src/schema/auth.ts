@@ -5,7 +5,9 @@ import {
   boolean,
   uuid,
   index,
+  uniqueIndex,
   pgEnum,
+  jsonb,
 } from "drizzle-orm/pg-core";
 
 export const user = pgTable("user", {
@@ -130,6 +132,12 @@ export const organization = pgTable("organization", {
   isDeleted: boolean("is_deleted").default(false).notNull(),
   metadata: text("metadata"),
   organizationType: organizationTypeEnum("organization_type").notNull(),
+  // Verified users with an email on one of these domains may join on their own
+  autoJoinDomains: jsonb("auto_join_domains")
+    .$type<string[]>()
+    .default([])
+    .notNull(),
+  autoJoinRole: text("auto_join_role").default("student").notNull(),
   createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { mode: "date" })
     .defaultNow()
@@ -156,6 +164,10 @@ export const member = pgTable(
   (table) => [
     index("member_organization_id_idx").on(table.organizationId),
     index("member_user_id_idx").on(table.userId),
+    uniqueIndex("member_organization_id_user_id_idx").on(
+      table.organizationId,
+      table.userId,
+    ),
   ],
 );
 
@@ -170,12 +182,17 @@ export const invitation = pgTable(
       .notNull()
       .references(() => organization.id, { onDelete: "cascade" }),
     email: text("email").notNull(),
+    firstName: text("first_name"),
+    lastName: text("last_name"),
     role: text("role"),
     status: text("status").notNull(),
     expiresAt: timestamp("expires_at", { mode: "date" }).notNull(),
     inviterId: text("inviter_id")
       .notNull()
       .references(() => user.id, { onDelete: "cascade" }),
+    studentMemberId: uuid("student_member_id").references(() => member.id, {
+      onDelete: "cascade",
+    }),
   },
   (table) => [
     index("invitation_organization_id_idx").on(table.organizationId),
@@ -0,0 +1,42 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  integer,
+  jsonb,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
+import { organization, member } from "./auth";
+
+export const board = pgTable(
+  "board",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    title: varchar("title", { length: 200 }).notNull(),
+    elements: jsonb("elements")
+      .$type<Record<string, unknown>[]>()
+      .default([])
+      .notNull(),
+    version: integer("version").default(0).notNull(),
+    createdByMemberId: uuid("created_by_member_id").references(
+      () => member.id,
+      { onDelete: "set null" },
+    ),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("board_organization_id_idx").on(table.organizationId),
+    index("board_updated_at_idx").on(table.updatedAt.desc()),
+  ],
+);
+
+export type BoardEntity = typeof board.$inferSelect;
+export type NewBoardEntity = typeof board.$inferInsert;
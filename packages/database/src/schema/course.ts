@@ -0,0 +1,88 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  timestamp,
+  index,
+  unique,
+} from "drizzle-orm/pg-core";
+import { organization, member } from "./auth";
+
+export const course = pgTable(
+  "course",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 200 }).notNull(),
+    code: varchar("code", { length: 50 }).notNull(),
+    description: text("description"),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("course_organization_id_idx").on(table.organizationId),
+    unique("course_organization_code_unique").on(
+      table.organizationId,
+      table.code,
+    ),
+  ],
+);
+
+export type CourseEntity = typeof course.$inferSelect;
+export type NewCourseEntity = typeof course.$inferInsert;
+
+export const courseInstructor = pgTable(
+  "course_instructor",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    courseId: uuid("course_id")
+      .notNull()
+      .references(() => course.id, { onDelete: "cascade" }),
+    memberId: uuid("member_id")
+      .notNull()
+      .references(() => member.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [
+    index("course_instructor_course_id_idx").on(table.courseId),
+    index("course_instructor_member_id_idx").on(table.memberId),
+    unique("course_instructor_course_member_unique").on(
+      table.courseId,
+      table.memberId,
+    ),
+  ],
+);
+
+export type CourseInstructorEntity = typeof courseInstructor.$inferSelect;
+export type NewCourseInstructorEntity = typeof courseInstructor.$inferInsert;
+
+export const courseEnrollment = pgTable(
+  "course_enrollment",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    courseId: uuid("course_id")
+      .notNull()
+      .references(() => course.id, { onDelete: "cascade" }),
+    studentMemberId: uuid("student_member_id")
+      .notNull()
+      .references(() => member.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [
+    index("course_enrollment_course_id_idx").on(table.courseId),
+    index("course_enrollment_student_member_id_idx").on(table.studentMemberId),
+    unique("course_enrollment_course_student_unique").on(
+      table.courseId,
+      table.studentMemberId,
+    ),
+  ],
+);
+
+export type CourseEnrollmentEntity = typeof courseEnrollment.$inferSelect;
+export type NewCourseEnrollmentEntity = typeof courseEnrollment.$inferInsert;
@@ -0,0 +1,109 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  doublePrecision,
+  timestamp,
+  pgEnum,
+  index,
+  unique,
+} from "drizzle-orm/pg-core";
+import { organization, member } from "./auth";
+import { course } from "./course";
+
+export const gradeCategoryEnum = pgEnum("grade_category", [
+  "assignment",
+  "quiz",
+  "exam",
+]);
+
+export const gradeItem = pgTable(
+  "grade_item",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    courseId: uuid("course_id")
+      .notNull()
+      .references(() => course.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 200 }).notNull(),
+    category: gradeCategoryEnum("category").notNull(),
+    maxPoints: doublePrecision("max_points").notNull(),
+    weight: doublePrecision("weight").default(1).notNull(),
+    dueDate: timestamp("due_date", { mode: "date" }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("grade_item_organization_id_idx").on(table.organizationId),
+    index("grade_item_course_id_idx").on(table.courseId),
+  ],
+);
+
+export type GradeItemEntity = typeof gradeItem.$inferSelect;
+export type NewGradeItemEntity = typeof gradeItem.$inferInsert;
+
+export const gradeScore = pgTable(
+  "grade_score",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    gradeItemId: uuid("grade_item_id")
+      .notNull()
+      .references(() => gradeItem.id, { onDelete: "cascade" }),
+    studentMemberId: uuid("student_member_id")
+      .notNull()
+      .references(() => member.id, { onDelete: "cascade" }),
+    points: doublePrecision("points").notNull(),
+    feedback: text("feedback"),
+    gradedByMemberId: uuid("graded_by_member_id").references(() => member.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("grade_score_student_member_id_idx").on(table.studentMemberId),
+    unique("grade_score_item_student_unique").on(
+      table.gradeItemId,
+      table.studentMemberId,
+    ),
+  ],
+);
+
+export type GradeScoreEntity = typeof gradeScore.$inferSelect;
+export type NewGradeScoreEntity = typeof gradeScore.$inferInsert;
+
+export const gradeCategoryWeight = pgTable(
+  "grade_category_weight",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    courseId: uuid("course_id")
+      .notNull()
+      .references(() => course.id, { onDelete: "cascade" }),
+    category: gradeCategoryEnum("category").notNull(),
+    weight: doublePrecision("weight").notNull(),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    unique("grade_category_weight_course_category_unique").on(
+      table.courseId,
+      table.category,
+    ),
+  ],
+);
+
+export type GradeCategoryWeightEntity = typeof gradeCategoryWeight.$inferSelect;
+export type NewGradeCategoryWeightEntity =
+  typeof gradeCategoryWeight.$inferInsert;
@@ -0,0 +1,31 @@
+import { pgTable, uuid, timestamp, index, unique } from "drizzle-orm/pg-core";
+import { organization, member } from "./auth";
+
+export const guardianship = pgTable(
+  "guardianship",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    parentMemberId: uuid("parent_member_id")
+      .notNull()
+      .references(() => member.id, { onDelete: "cascade" }),
+    studentMemberId: uuid("student_member_id")
+      .notNull()
+      .references(() => member.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [
+    index("guardianship_organization_id_idx").on(table.organizationId),
+    index("guardianship_parent_member_id_idx").on(table.parentMemberId),
+    index("guardianship_student_member_id_idx").on(table.studentMemberId),
+    unique("guardianship_parent_student_unique").on(
+      table.parentMemberId,
+      table.studentMemberId,
+    ),
+  ],
+);
+
+export type GuardianshipEntity = typeof guardianship.$inferSelect;
+export type NewGuardianshipEntity = typeof guardianship.$inferInsert;
@@ -0,0 +1,40 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  jsonb,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
+import { organization, member } from "./auth";
+
+export const joinLink = pgTable(
+  "join_link",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    code: varchar("code", { length: 16 }).notNull().unique(),
+    role: text("role").notNull(),
+    maxUses: integer("max_uses"),
+    useCount: integer("use_count").default(0).notNull(),
+    allowedDomains: jsonb("allowed_domains")
+      .$type<string[]>()
+      .default([])
+      .notNull(),
+    expiresAt: timestamp("expires_at", { mode: "date" }),
+    revokedAt: timestamp("revoked_at", { mode: "date" }),
+    createdByMemberId: uuid("created_by_member_id").references(
+      () => member.id,
+      { onDelete: "set null" },
+    ),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [index("join_link_organization_id_idx").on(table.organizationId)],
+);
+
+export type JoinLinkEntity = typeof joinLink.$inferSelect;
+export type NewJoinLinkEntity = typeof joinLink.$inferInsert;
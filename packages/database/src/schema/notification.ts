@@ -0,0 +1,40 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  timestamp,
+  index,
+  unique,
+  jsonb,
+} from "drizzle-orm/pg-core";
+import { organization, member } from "./auth";
+
+// In-app notifications, one row per recipient member
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    memberId: uuid("member_id")
+      .notNull()
+      .references(() => member.id, { onDelete: "cascade" }),
+    type: varchar("type", { length: 50 }).notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    // Identifies the event per recipient so schedulers can retry safely
+    dedupeKey: varchar("dedupe_key", { length: 255 }).notNull(),
+    readAt: timestamp("read_at", { mode: "date" }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [
+    index("notifications_member_id_created_at_idx").on(
+      table.memberId,
+      table.createdAt.desc(),
+    ),
+    unique("notifications_dedupe_key_unique").on(table.dedupeKey),
+  ],
+);
+
+export type NotificationEntity = typeof notifications.$inferSelect;
+export type NewNotificationEntity = typeof notifications.$inferInsert;
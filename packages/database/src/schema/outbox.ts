@@ -0,0 +1,51 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  jsonb,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
+import { organization } from "./auth";
+
+// Kinds of outbound message. The outbox worker has a handler for each topic.
+export const OutboxTopics = {
+  EMAIL: "email",
+  NOTIFICATION: "notification",
+} as const;
+
+export type OutboxTopic = (typeof OutboxTopics)[keyof typeof OutboxTopics];
+
+// Outbound messages, written in the same transaction as the change that
+// causes them and delivered by the outbox worker
+export const outboxMessages = pgTable(
+  "outbox_messages",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id").references(() => organization.id, {
+      onDelete: "cascade",
+    }),
+    topic: varchar("topic", { length: 50 }).notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: varchar("status", { length: 20 }).default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    nextAttemptAt: timestamp("next_attempt_at", { mode: "date" })
+      .defaultNow()
+      .notNull(),
+    lastError: text("last_error"),
+    deliveredAt: timestamp("delivered_at", { mode: "date" }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [
+    index("outbox_messages_status_next_attempt_at_idx").on(
+      table.status,
+      table.nextAttemptAt,
+    ),
+    index("outbox_messages_organization_id_idx").on(table.organizationId),
+  ],
+);
+
+export type OutboxMessageEntity = typeof outboxMessages.$inferSelect;
+export type NewOutboxMessageEntity = typeof outboxMessages.$inferInsert;
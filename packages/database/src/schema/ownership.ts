@@ -0,0 +1,28 @@
+import { pgTable, uuid, text, timestamp, index } from "drizzle-orm/pg-core";
+import { organization, member } from "./auth";
+
+export const ownershipTransfer = pgTable(
+  "ownership_transfer",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    fromMemberId: uuid("from_member_id")
+      .notNull()
+      .references(() => member.id, { onDelete: "cascade" }),
+    toMemberId: uuid("to_member_id")
+      .notNull()
+      .references(() => member.id, { onDelete: "cascade" }),
+    status: text("status").notNull(),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    respondedAt: timestamp("responded_at", { mode: "date" }),
+  },
+  (table) => [
+    index("ownership_transfer_organization_id_idx").on(table.organizationId),
+    index("ownership_transfer_to_member_id_idx").on(table.toMemberId),
+  ],
+);
+
+export type OwnershipTransferEntity = typeof ownershipTransfer.$inferSelect;
+export type NewOwnershipTransferEntity = typeof ownershipTransfer.$inferInsert;
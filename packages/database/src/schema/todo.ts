@@ -5,22 +5,110 @@ import {
   text,
   boolean,
   timestamp,
+  integer,
   pgEnum,
   index,
+  unique,
+  jsonb,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
+import { organization, member } from "./auth";
 
 export const priorityEnum = pgEnum("priority", ["low", "medium", "high"]);
 
+export const todoSeries = pgTable(
+  "todo_series",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    createdByMemberId: uuid("created_by_member_id").references(
+      () => member.id,
+      { onDelete: "set null" },
+    ),
+    title: varchar("title", { length: 200 }).notNull(),
+    description: text("description"),
+    priority: priorityEnum("priority").default("medium").notNull(),
+    recurrenceRule: text("recurrence_rule").notNull(),
+    startsAt: timestamp("starts_at", { mode: "date" }).notNull(),
+    stoppedAt: timestamp("stopped_at", { mode: "date" }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("todo_series_organization_id_idx").on(table.organizationId),
+  ],
+);
+
+export type TodoSeriesEntity = typeof todoSeries.$inferSelect;
+export type NewTodoSeriesEntity = typeof todoSeries.$inferInsert;
+
+// Board columns. The column with the highest position is the "done" column:
+// todos in it are the completed ones.
+export const todoStatuses = pgTable(
+  "todo_statuses",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 50 }).notNull(),
+    color: varchar("color", { length: 7 }),
+    position: integer("position").notNull(),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    unique("todo_statuses_organization_name_unique").on(
+      table.organizationId,
+      table.name,
+    ),
+    index("todo_statuses_organization_id_position_idx").on(
+      table.organizationId,
+      table.position,
+    ),
+  ],
+);
+
+export type TodoStatusEntity = typeof todoStatuses.$inferSelect;
+export type NewTodoStatusEntity = typeof todoStatuses.$inferInsert;
+
 export const todos = pgTable(
   "todos",
   {
     id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    createdByMemberId: uuid("created_by_member_id").references(
+      () => member.id,
+      { onDelete: "set null" },
+    ),
+    seriesId: uuid("series_id").references(() => todoSeries.id, {
+      onDelete: "set null",
+    }),
     title: varchar("title", { length: 200 }).notNull(),
     description: text("description"),
     priority: priorityEnum("priority").default("medium").notNull(),
     dueDate: timestamp("due_date", { mode: "date" }),
     completed: boolean("completed").default(false).notNull(),
+    statusId: uuid("status_id").references(() => todoStatuses.id, {
+      onDelete: "set null",
+    }),
+    // Manual rank within the status column
+    position: integer("position").default(0).notNull(),
+    autoCompleteFromItems: boolean("auto_complete_from_items")
+      .default(false)
+      .notNull(),
+    deletedAt: timestamp("deleted_at", { mode: "date" }),
     createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
     updatedAt: timestamp("updated_at", { mode: "date" })
       .notNull()
@@ -28,18 +116,266 @@ export const todos = pgTable(
       .$onUpdate(() => new Date()),
   },
   (table) => [
+    index("todos_organization_id_created_at_idx").on(
+      table.organizationId,
+      table.createdAt.desc(),
+    ),
     index("created_at_idx").on(table.createdAt.desc()),
     index("completed_created_at_idx").on(
       table.completed,
       table.createdAt.desc(),
     ),
-    index("priority_created_at_idx").on(
-      table.priority,
-      table.createdAt.desc(),
+    index("priority_created_at_idx").on(table.priority, table.createdAt.desc()),
+    index("title_idx").on(
+      table.organizationId,
+      sql`lower(${table.title}) text_pattern_ops`,
     ),
-    index("title_idx").on(sql`lower(${table.title})`),
+    index("todos_series_id_due_date_idx").on(table.seriesId, table.dueDate),
+    index("todos_deleted_at_idx").on(table.deletedAt),
+    index("todos_status_id_position_idx").on(table.statusId, table.position),
   ],
 );
 
 export type TodoEntity = typeof todos.$inferSelect;
 export type NewTodoEntity = typeof todos.$inferInsert;
+
+export const todoItems = pgTable(
+  "todo_items",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    todoId: uuid("todo_id")
+      .notNull()
+      .references(() => todos.id, { onDelete: "cascade" }),
+    title: varchar("title", { length: 200 }).notNull(),
+    completed: boolean("completed").default(false).notNull(),
+    position: integer("position").notNull(),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("todo_items_todo_id_position_idx").on(table.todoId, table.position),
+  ],
+);
+
+export type TodoItemEntity = typeof todoItems.$inferSelect;
+export type NewTodoItemEntity = typeof todoItems.$inferInsert;
+
+export const todoAssignees = pgTable(
+  "todo_assignees",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    todoId: uuid("todo_id")
+      .notNull()
+      .references(() => todos.id, { onDelete: "cascade" }),
+    memberId: uuid("member_id")
+      .notNull()
+      .references(() => member.id, { onDelete: "cascade" }),
+    assignedByMemberId: uuid("assigned_by_member_id").references(
+      () => member.id,
+      { onDelete: "set null" },
+    ),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [
+    index("todo_assignees_member_id_idx").on(table.memberId),
+    unique("todo_assignees_todo_member_unique").on(
+      table.todoId,
+      table.memberId,
+    ),
+  ],
+);
+
+export type TodoAssigneeEntity = typeof todoAssignees.$inferSelect;
+export type NewTodoAssigneeEntity = typeof todoAssignees.$inferInsert;
+
+export const todoWatchers = pgTable(
+  "todo_watchers",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    todoId: uuid("todo_id")
+      .notNull()
+      .references(() => todos.id, { onDelete: "cascade" }),
+    memberId: uuid("member_id")
+      .notNull()
+      .references(() => member.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [
+    index("todo_watchers_member_id_idx").on(table.memberId),
+    unique("todo_watchers_todo_member_unique").on(table.todoId, table.memberId),
+  ],
+);
+
+export type TodoWatcherEntity = typeof todoWatchers.$inferSelect;
+export type NewTodoWatcherEntity = typeof todoWatchers.$inferInsert;
+
+// Each row sends a reminder this many minutes before the todo is due
+export const todoReminders = pgTable(
+  "todo_reminders",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    todoId: uuid("todo_id")
+      .notNull()
+      .references(() => todos.id, { onDelete: "cascade" }),
+    offsetMinutes: integer("offset_minutes").notNull(),
+    // Due date the reminder last went out for; it goes out again when the
+    // due date changes
+    sentForDueDate: timestamp("sent_for_due_date", { mode: "date" }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [
+    unique("todo_reminders_todo_offset_unique").on(
+      table.todoId,
+      table.offsetMinutes,
+    ),
+  ],
+);
+
+export type TodoReminderEntity = typeof todoReminders.$inferSelect;
+export type NewTodoReminderEntity = typeof todoReminders.$inferInsert;
+
+export const todoComments = pgTable(
+  "todo_comments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    todoId: uuid("todo_id")
+      .notNull()
+      .references(() => todos.id, { onDelete: "cascade" }),
+    parentId: uuid("parent_id").references((): AnyPgColumn => todoComments.id, {
+      onDelete: "cascade",
+    }),
+    authorMemberId: uuid("author_member_id").references(() => member.id, {
+      onDelete: "set null",
+    }),
+    body: text("body").notNull(),
+    deletedAt: timestamp("deleted_at", { mode: "date" }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("todo_comments_todo_id_created_at_idx").on(
+      table.todoId,
+      table.createdAt,
+    ),
+    index("todo_comments_parent_id_idx").on(table.parentId),
+  ],
+);
+
+export type TodoCommentEntity = typeof todoComments.$inferSelect;
+export type NewTodoCommentEntity = typeof todoComments.$inferInsert;
+
+export const todoLabels = pgTable(
+  "todo_labels",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    createdByMemberId: uuid("created_by_member_id").references(
+      () => member.id,
+      { onDelete: "set null" },
+    ),
+    name: varchar("name", { length: 50 }).notNull(),
+    color: varchar("color", { length: 7 }).notNull(), // '#rrggbb'
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("todo_labels_organization_id_idx").on(table.organizationId),
+    unique("todo_labels_organization_name_unique").on(
+      table.organizationId,
+      table.name,
+    ),
+  ],
+);
+
+export type TodoLabelEntity = typeof todoLabels.$inferSelect;
+export type NewTodoLabelEntity = typeof todoLabels.$inferInsert;
+
+export const todoTags = pgTable(
+  "todo_tags",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    todoId: uuid("todo_id")
+      .notNull()
+      .references(() => todos.id, { onDelete: "cascade" }),
+    labelId: uuid("label_id")
+      .notNull()
+      .references(() => todoLabels.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [
+    index("todo_tags_label_id_idx").on(table.labelId),
+    unique("todo_tags_todo_label_unique").on(table.todoId, table.labelId),
+  ],
+);
+
+export type TodoTagEntity = typeof todoTags.$inferSelect;
+export type NewTodoTagEntity = typeof todoTags.$inferInsert;
+
+export const todoViews = pgTable(
+  "todo_views",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    createdByMemberId: uuid("created_by_member_id")
+      .notNull()
+      .references(() => member.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    // Listing query parameters exactly as they are passed to GET /todos
+    filters: jsonb("filters").$type<Record<string, string>>().notNull(),
+    isShared: boolean("is_shared").default(false).notNull(),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("todo_views_organization_id_idx").on(table.organizationId),
+    unique("todo_views_member_name_unique").on(
+      table.createdByMemberId,
+      table.name,
+    ),
+  ],
+);
+
+export type TodoViewEntity = typeof todoViews.$inferSelect;
+export type NewTodoViewEntity = typeof todoViews.$inferInsert;
+
+export const todoHistory = pgTable(
+  "todo_history",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    todoId: uuid("todo_id")
+      .notNull()
+      .references(() => todos.id, { onDelete: "cascade" }),
+    actorMemberId: uuid("actor_member_id").references(() => member.id, {
+      onDelete: "set null",
+    }),
+    field: varchar("field", { length: 50 }).notNull(),
+    oldValue: jsonb("old_value").$type<unknown>(),
+    newValue: jsonb("new_value").$type<unknown>(),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [
+    index("todo_history_todo_id_created_at_idx").on(
+      table.todoId,
+      table.createdAt,
+    ),
+  ],
+);
+
+export type TodoHistoryEntity = typeof todoHistory.$inferSelect;
+export type NewTodoHistoryEntity = typeof todoHistory.$inferInsert;
@@ -0,0 +1,47 @@
+export type {
+  MailMessage,
+  MailTransport,
+  Branding,
+  RenderedEmail,
+} from "./types";
+export {
+  createMailer,
+  createTransportFromEnv,
+  getMailer,
+  DEFAULT_FROM,
+  type Mailer,
+} from "./mailer";
+export {
+  createSmtpTransport,
+  type SmtpTransportOptions,
+} from "./transports/smtp";
+export { createFileTransport } from "./transports/file";
+export {
+  createMemoryTransport,
+  type MemoryTransport,
+} from "./transports/memory";
+export {
+  SUPPORTED_LOCALES,
+  DEFAULT_LOCALE,
+  resolveLocale,
+  type Locale,
+} from "./templates/locale";
+export {
+  renderTemplate,
+  escapeHtml,
+  DEFAULT_BRANDING,
+  type EmailTemplate,
+  type EmailContent,
+} from "./templates/render";
+export {
+  invitationEmail,
+  type InvitationEmailData,
+} from "./templates/invitation";
+export {
+  passwordResetEmail,
+  type PasswordResetEmailData,
+} from "./templates/password-reset";
+export {
+  emailVerificationEmail,
+  type EmailVerificationEmailData,
+} from "./templates/email-verification";
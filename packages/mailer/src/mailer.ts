@@ -0,0 +1,78 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { MailMessage, MailTransport } from "./types";
+import { createFileTransport } from "./transports/file";
+import { createMemoryTransport } from "./transports/memory";
+import { createSmtpTransport } from "./transports/smtp";
+
+export const DEFAULT_FROM = "White Board <no-reply@whiteboard.local>";
+
+export function createMailer({
+  transport,
+  from = DEFAULT_FROM,
+}: {
+  transport: MailTransport;
+  from?: string;
+}) {
+  return {
+    transport,
+
+    async send(message: MailMessage): Promise<void> {
+      await transport.send({ ...message, from: message.from ?? from });
+    },
+  };
+}
+
+export type Mailer = ReturnType<typeof createMailer>;
+
+/**
+ * Picks the transport from MAIL_TRANSPORT. SMTP is configured through
+ * SMTP_URL or SMTP_HOST, SMTP_PORT, SMTP_USER and SMTP_PASSWORD. Without a
+ * setting tests keep messages in memory and everything else writes them to
+ * MAIL_FILE_DIR.
+ */
+export function createTransportFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): MailTransport {
+  const kind =
+    env.MAIL_TRANSPORT || (env.NODE_ENV === "test" ? "memory" : "file");
+
+  switch (kind) {
+    case "smtp":
+      if (env.SMTP_URL) {
+        return createSmtpTransport(env.SMTP_URL);
+      }
+      if (!env.SMTP_HOST) {
+        throw new Error("SMTP_URL or SMTP_HOST is required for smtp mail");
+      }
+      return createSmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT || 587),
+        secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : undefined,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+      });
+    case "memory":
+      return createMemoryTransport();
+    case "file":
+      return createFileTransport(
+        env.MAIL_FILE_DIR || join(tmpdir(), "whiteboard-mail"),
+      );
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT ${kind}`);
+  }
+}
+
+let mailer: Mailer | undefined;
+
+/**
+ * Returns the mailer configured from the environment. It is built on first
+ * use, so a bad mail configuration only fails the code that sends mail.
+ */
+export function getMailer(): Mailer {
+  mailer ??= createMailer({
+    transport: createTransportFromEnv(),
+    from: process.env.MAIL_FROM || DEFAULT_FROM,
+  });
+  return mailer;
+}
@@ -0,0 +1,36 @@
+import type { EmailTemplate } from "./render";
+
+export type EmailVerificationEmailData = {
+  name?: string;
+  url: string;
+};
+
+export const emailVerificationEmail: EmailTemplate<EmailVerificationEmailData> =
+  {
+    en: (data, branding) => ({
+      subject: `Verify your email for ${branding.name}`,
+      heading: "Verify your email",
+      paragraphs: [
+        data.name ? `Hello ${data.name},` : "Hello,",
+        "Please confirm your email address to finish setting up your account.",
+      ],
+      action: { label: "Verify email", url: data.url },
+      footnotes: [
+        `Or copy this link: ${data.url}`,
+        "If you didn't create an account, please ignore this email.",
+      ],
+    }),
+    es: (data, branding) => ({
+      subject: `Verifica tu correo para ${branding.name}`,
+      heading: "Verifica tu correo",
+      paragraphs: [
+        data.name ? `Hola ${data.name},` : "Hola,",
+        "Confirma tu dirección de correo para terminar de configurar tu cuenta.",
+      ],
+      action: { label: "Verificar correo", url: data.url },
+      footnotes: [
+        `O copia este enlace: ${data.url}`,
+        "Si no creaste una cuenta, ignora este correo.",
+      ],
+    }),
+  };
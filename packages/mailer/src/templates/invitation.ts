@@ -0,0 +1,39 @@
+import type { EmailTemplate } from "./render";
+
+export type InvitationEmailData = {
+  recipientName?: string;
+  inviterName: string;
+  organizationName: string;
+  role: string;
+  url: string;
+  expiresInDays: number;
+};
+
+export const invitationEmail: EmailTemplate<InvitationEmailData> = {
+  en: (data) => ({
+    subject: `You've been invited to join ${data.organizationName}`,
+    heading: "You're invited!",
+    paragraphs: [
+      data.recipientName ? `Hi ${data.recipientName},` : "Hello,",
+      `${data.inviterName} has invited you to join ${data.organizationName} as ${data.role}.`,
+    ],
+    action: { label: "Accept invitation", url: data.url },
+    footnotes: [
+      `Or copy this link: ${data.url}`,
+      `This invitation will expire in ${data.expiresInDays} days.`,
+    ],
+  }),
+  es: (data) => ({
+    subject: `Te han invitado a unirte a ${data.organizationName}`,
+    heading: "¡Estás invitado!",
+    paragraphs: [
+      data.recipientName ? `Hola ${data.recipientName},` : "Hola,",
+      `${data.inviterName} te ha invitado a unirte a ${data.organizationName} como ${data.role}.`,
+    ],
+    action: { label: "Aceptar invitación", url: data.url },
+    footnotes: [
+      `O copia este enlace: ${data.url}`,
+      `Esta invitación caduca en ${data.expiresInDays} días.`,
+    ],
+  }),
+};
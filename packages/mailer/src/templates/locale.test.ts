@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { resolveLocale } from "./locale";
+
+describe("resolveLocale", () => {
+  it("should return en, when no preference is given", () => {
+    expect(resolveLocale()).toBe("en");
+    expect(resolveLocale(null)).toBe("en");
+    expect(resolveLocale("")).toBe("en");
+  });
+
+  it("should match the language of a regional locale, when it is supported", () => {
+    expect(resolveLocale("es-MX")).toBe("es");
+  });
+
+  it("should pick the highest weighted supported language, when given an accept-language header", () => {
+    expect(resolveLocale("fr-FR,en;q=0.5,es-MX;q=0.8")).toBe("es");
+    expect(resolveLocale("es;q=0.4,en;q=0.9")).toBe("en");
+  });
+
+  it("should keep header order, when weights are equal", () => {
+    expect(resolveLocale("es,en")).toBe("es");
+    expect(resolveLocale("en;q=0.7,es;q=0.7")).toBe("en");
+  });
+
+  it("should ignore languages, when their weight is zero", () => {
+    expect(resolveLocale("es;q=0,fr")).toBe("en");
+  });
+
+  it("should fall back to en, when no language is supported", () => {
+    expect(resolveLocale("fr-FR,de;q=0.8")).toBe("en");
+  });
+});
@@ -0,0 +1,38 @@
+export const SUPPORTED_LOCALES = ["en", "es"] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+function isSupportedLocale(value: string): value is Locale {
+  return (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Picks the best supported locale from a locale such as "es-MX" or an
+ * Accept-Language header, honouring its q weights.
+ */
+export function resolveLocale(preferred?: string | null): Locale {
+  if (!preferred) {
+    return DEFAULT_LOCALE;
+  }
+
+  const candidates = preferred
+    .split(",")
+    .map((part, index) => {
+      const [tag = "", ...params] = part.trim().split(";");
+      const weight = params.find((param) => param.trim().startsWith("q="));
+      return {
+        language: tag.trim().toLowerCase().split("-")[0] ?? "",
+        quality: weight ? Number(weight.trim().slice(2)) : 1,
+        index,
+      };
+    })
+    .filter((candidate) => candidate.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  const match = candidates.find((candidate) =>
+    isSupportedLocale(candidate.language),
+  );
+  return match ? (match.language as Locale) : DEFAULT_LOCALE;
+}
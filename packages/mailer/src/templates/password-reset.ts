@@ -0,0 +1,38 @@
+import type { EmailTemplate } from "./render";
+
+export type PasswordResetEmailData = {
+  name?: string;
+  url: string;
+  expiresInMinutes: number;
+};
+
+export const passwordResetEmail: EmailTemplate<PasswordResetEmailData> = {
+  en: (data) => ({
+    subject: "Reset your password",
+    heading: "Reset your password",
+    paragraphs: [
+      data.name ? `Hello ${data.name},` : "Hello,",
+      "Click the button below to reset your password.",
+    ],
+    action: { label: "Reset password", url: data.url },
+    footnotes: [
+      `Or copy this link: ${data.url}`,
+      `This link will expire in ${data.expiresInMinutes} minutes.`,
+      "If you didn't request this, please ignore this email.",
+    ],
+  }),
+  es: (data) => ({
+    subject: "Restablece tu contraseña",
+    heading: "Restablece tu contraseña",
+    paragraphs: [
+      data.name ? `Hola ${data.name},` : "Hola,",
+      "Haz clic en el botón de abajo para restablecer tu contraseña.",
+    ],
+    action: { label: "Restablecer contraseña", url: data.url },
+    footnotes: [
+      `O copia este enlace: ${data.url}`,
+      `Este enlace caduca en ${data.expiresInMinutes} minutos.`,
+      "Si no lo solicitaste, ignora este correo.",
+    ],
+  }),
+};
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { renderTemplate, DEFAULT_BRANDING } from "./render";
+import { invitationEmail } from "./invitation";
+import { passwordResetEmail } from "./password-reset";
+
+describe("renderTemplate", () => {
+  const invitation = {
+    recipientName: "Ada",
+    inviterName: "Grace",
+    organizationName: "Springfield <Elementary>",
+    role: "teacher",
+    url: "https://app.example.com/accept-invitation?token=inv-1&ref=mail",
+    expiresInDays: 7,
+  };
+
+  it("should render english text and html, when no locale is given", () => {
+    const email = renderTemplate(invitationEmail, invitation);
+
+    expect(email.subject).toBe(
+      "You've been invited to join Springfield <Elementary>",
+    );
+    expect(email.text).toContain(
+      "Grace has invited you to join Springfield <Elementary> as teacher.",
+    );
+    expect(email.text).toContain(
+      "Accept invitation: https://app.example.com/accept-invitation?token=inv-1&ref=mail",
+    );
+    expect(email.html).toContain('<html lang="en">');
+    expect(email.html).toContain("Accept invitation</a>");
+  });
+
+  it("should render spanish text and html, when the locale is spanish", () => {
+    const email = renderTemplate(
+      passwordResetEmail,
+      {
+        name: "Ada",
+        url: "https://app.example.com/reset",
+        expiresInMinutes: 60,
+      },
+      { locale: "es-MX" },
+    );
+
+    expect(email.subject).toBe("Restablece tu contraseña");
+    expect(email.text).toContain("Este enlace caduca en 60 minutos.");
+    expect(email.html).toContain('<html lang="es">');
+    expect(email.html).toContain("Restablecer contraseña</a>");
+  });
+
+  it("should escape interpolated values in html only, when they contain markup", () => {
+    const email = renderTemplate(invitationEmail, {
+      ...invitation,
+      inviterName: `<script>alert("hi")</script>`,
+    });
+
+    expect(email.html).not.toContain("<script>");
+    expect(email.html).toContain(
+      "&lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt; has invited you",
+    );
+    expect(email.html).toContain("Springfield &lt;Elementary&gt;");
+    expect(email.html).toContain(
+      'href="https://app.example.com/accept-invitation?token=inv-1&amp;ref=mail"',
+    );
+    expect(email.text).toContain(
+      `<script>alert("hi")</script> has invited you`,
+    );
+  });
+
+  it("should use the default branding, when no branding is given", () => {
+    const email = renderTemplate(invitationEmail, invitation);
+
+    expect(email.text.endsWith(DEFAULT_BRANDING.name)).toBe(true);
+    expect(email.html).toContain(
+      `<strong style="font-size: 20px; color: ${DEFAULT_BRANDING.primaryColor};">${DEFAULT_BRANDING.name}</strong>`,
+    );
+  });
+
+  it("should fall back to the default branding, when branding values are missing", () => {
+    const email = renderTemplate(invitationEmail, invitation, {
+      branding: {
+        name: "Springfield",
+        logoUrl: null,
+        websiteUrl: "https://springfield.example.com",
+        primaryColor: undefined,
+      },
+    });
+
+    expect(
+      email.text.endsWith("Springfield - https://springfield.example.com"),
+    ).toBe(true);
+    expect(email.html).toContain(`color: ${DEFAULT_BRANDING.primaryColor};`);
+    expect(email.html).not.toContain("<img");
+    expect(email.html).toContain(
+      '<a href="https://springfield.example.com" style="color: #6b7280;">Springfield</a>',
+    );
+  });
+
+  it("should show the logo, when the branding has one", () => {
+    const email = renderTemplate(invitationEmail, invitation, {
+      branding: {
+        name: "Springfield",
+        logoUrl: "https://cdn.example.com/logo.png",
+      },
+    });
+
+    expect(email.html).toContain(
+      '<img src="https://cdn.example.com/logo.png" alt="Springfield"',
+    );
+  });
+});
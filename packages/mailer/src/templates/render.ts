@@ -0,0 +1,115 @@
+import type { Branding, RenderedEmail } from "../types";
+import { resolveLocale, type Locale } from "./locale";
+
+const DEFAULT_PRIMARY_COLOR = "#007bff";
+
+export const DEFAULT_BRANDING: Branding = {
+  name: "White Board",
+  primaryColor: DEFAULT_PRIMARY_COLOR,
+};
+
+/**
+ * The copy of an email. Text and html are both rendered from it, so the two
+ * variants always say the same thing.
+ */
+export type EmailContent = {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footnotes?: string[];
+};
+
+export type EmailTemplate<TData> = Record<
+  Locale,
+  (data: TData, branding: Branding) => EmailContent
+>;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderText(content: EmailContent, branding: Branding): string {
+  const lines = [...content.paragraphs];
+  if (content.action) {
+    lines.push(`${content.action.label}: ${content.action.url}`);
+  }
+  lines.push(...(content.footnotes ?? []));
+  lines.push(
+    branding.websiteUrl
+      ? `${branding.name} - ${branding.websiteUrl}`
+      : branding.name,
+  );
+  return lines.join("\n\n");
+}
+
+function renderHtml(
+  content: EmailContent,
+  branding: Branding,
+  locale: Locale,
+): string {
+  const color = escapeHtml(branding.primaryColor ?? DEFAULT_PRIMARY_COLOR);
+  const name = escapeHtml(branding.name);
+  const logo = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${name}" style="max-height: 48px;">`
+    : `<strong style="font-size: 20px; color: ${color};">${name}</strong>`;
+  const action = content.action
+    ? `<p><a href="${escapeHtml(content.action.url)}" style="display: inline-block; padding: 12px 24px; background-color: ${color}; color: white; text-decoration: none; border-radius: 4px;">${escapeHtml(content.action.label)}</a></p>`
+    : "";
+  const footer = branding.websiteUrl
+    ? `<a href="${escapeHtml(branding.websiteUrl)}" style="color: #6b7280;">${name}</a>`
+    : name;
+
+  return [
+    `<!doctype html>`,
+    `<html lang="${locale}">`,
+    `<body style="margin: 0; padding: 24px; font-family: Arial, sans-serif; color: #111827;">`,
+    `<div style="max-width: 560px; margin: 0 auto;">`,
+    `<div style="margin-bottom: 24px;">${logo}</div>`,
+    `<h2>${escapeHtml(content.heading)}</h2>`,
+    ...content.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    action,
+    ...(content.footnotes ?? []).map(
+      (footnote) =>
+        `<p style="font-size: 13px; color: #6b7280;">${escapeHtml(footnote)}</p>`,
+    ),
+    `<p style="margin-top: 32px; font-size: 12px; color: #6b7280;">${footer}</p>`,
+    `</div>`,
+    `</body>`,
+    `</html>`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Renders a template in the best matching locale with the given branding,
+ * falling back to the default branding for anything that is not set.
+ */
+export function renderTemplate<TData>(
+  template: EmailTemplate<TData>,
+  data: TData,
+  options: { locale?: string | null; branding?: Partial<Branding> } = {},
+): RenderedEmail {
+  const locale = resolveLocale(options.locale);
+  const branding: Branding = {
+    ...DEFAULT_BRANDING,
+    ...Object.fromEntries(
+      Object.entries(options.branding ?? {}).filter(
+        ([, value]) => value !== undefined && value !== null,
+      ),
+    ),
+  };
+  const content = template[locale](data, branding);
+
+  return {
+    subject: content.subject,
+    text: renderText(content, branding),
+    html: renderHtml(content, branding, locale),
+  };
+}
@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { MailTransport } from "../types";
+
+/**
+ * Writes every message to a json file and an html preview in the directory
+ * instead of sending it, for local development.
+ */
+export function createFileTransport(directory: string): MailTransport {
+  let sequence = 0;
+
+  return {
+    name: "file",
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+
+      sequence += 1;
+      const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+      const baseName = `${Date.now()}-${sequence}-${recipient}`;
+
+      await writeFile(
+        join(directory, `${baseName}.json`),
+        JSON.stringify({ ...message, sentAt: new Date() }, null, 2),
+      );
+      await writeFile(join(directory, `${baseName}.html`), message.html);
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import type { MailMessage, MailTransport } from "../types";
+
+export type MemoryTransport = MailTransport & {
+  messages: (MailMessage & { from: string })[];
+  clear: () => void;
+};
+
+/**
+ * Keeps sent messages in memory, so tests can assert on what was sent.
+ */
+export function createMemoryTransport(): MemoryTransport {
+  const messages: (MailMessage & { from: string })[] = [];
+
+  return {
+    name: "memory",
+    messages,
+    async send(message) {
+      messages.push(message);
+    },
+    clear() {
+      messages.length = 0;
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import nodemailer from "nodemailer";
+import type { MailTransport } from "../types";
+
+export type SmtpTransportOptions = {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  password?: string;
+};
+
+export function createSmtpTransport(
+  options: SmtpTransportOptions | string,
+): MailTransport {
+  const transporter =
+    typeof options === "string"
+      ? nodemailer.createTransport(options)
+      : nodemailer.createTransport({
+          host: options.host,
+          port: options.port,
+          secure: options.secure ?? options.port === 465,
+          auth: options.user
+            ? { user: options.user, pass: options.password }
+            : undefined,
+        });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+    },
+  };
+}
@@ -0,0 +1,26 @@
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  from?: string;
+  replyTo?: string;
+};
+
+/**
+ * Hands a message over for delivery. Transports throw when a message cannot
+ * be delivered so callers decide whether to retry.
+ */
+export type MailTransport = {
+  name: string;
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+};
+
+export type Branding = {
+  name: string;
+  logoUrl?: string | null;
+  websiteUrl?: string | null;
+  primaryColor?: string;
+};
+
+export type RenderedEmail = Pick<MailMessage, "subject" | "text" | "html">;